@@ -6,14 +6,26 @@
  * Usage:
  *   npx inkwell-mcp serve              Start MCP server (stdio)
  *   npx inkwell-mcp serve --db ./my.db  Custom database path
+ *   npx inkwell-mcp serve --http        Start MCP server (Streamable HTTP)
+ *   npx inkwell-mcp sync                Run the configured connectors once
+ *   npx inkwell-mcp users add ...       Manage users
+ *   npx inkwell-mcp keys create ...     Manage API keys
  */
 
 import { resolve } from 'path';
-import { SqliteAdapter } from '../src/db/sqlite.js';
-import { loadConfig } from '../src/config.js';
+import { createDatabase, describeDatabase } from '../src/db/factory.js';
+import { loadConfig, loadConfigFile, findConfigFile, envOverrides, CONFIG_FILES } from '../src/config.js';
 import { startStdioServer } from '../src/local/stdio.js';
+import { startHttpServer } from '../src/local/http.js';
 import { resolveAuth } from '../src/auth.js';
-import type { Env } from '../src/types.js';
+import { createLlmProvider } from '../src/llm.js';
+import { createEmbedder } from '../src/embeddings.js';
+import { syncAll, describeRun, startSyncScheduler, connectorLabel } from '../src/sync.js';
+import {
+  createUser, listUsers, setUserStatus, setUserRole,
+  createApiKey, listApiKeys, revokeApiKey, USER_ROLES,
+} from '../src/accounts.js';
+import type { Env, InkwellConfig } from '../src/types.js';
 
 const args = process.argv.slice(2);
 const command = args[0];
@@ -23,16 +35,47 @@ function printUsage(): void {
 inkwell-mcp — MCP server for newsletter creators
 
 Commands:
-  serve     Start the MCP server (stdio transport)
+  serve                          Start the MCP server (stdio transport by default)
+  sync                           Import from every connector in sync.connectors, then exit
+                                 (with --sync-interval: keep running on that schedule)
+  users add --name <n> --role <r> [--email <e>]
+  users list
+  users role <id|email> <role>
+  users disable <id|email>
+  users enable <id|email>
+  keys create --user <id|email> [--role <r>] [--label <l>] [--expires <date>]
+  keys list [--user <id|email>]
+  keys revoke <key-id|key-prefix>
+
+Roles: ${USER_ROLES.join(', ')}
 
 Options:
-  --db <path>       SQLite database path (default: ./data/inkwell.db)
-  --name <name>     Server name
-  --watermark <wm>  Watermark text
+  --config <path>        Config file (default: ${CONFIG_FILES.join(', ')} in the working directory)
+  --db <path>            SQLite database path (default: ./data/inkwell.db)
+  --name <name>          Server name
+  --watermark <wm>       Watermark text
+  --supabase-url <url>   Use Supabase/PostgREST instead of SQLite (env: SUPABASE_URL)
+  --supabase-key <key>   Supabase service role key (env: SUPABASE_SERVICE_ROLE_KEY)
+  --http                 Use Streamable HTTP transport instead of stdio
+  --port <port>          HTTP port (default: 3000)
+  --host <host>          HTTP bind address (default: 127.0.0.1)
+  --cors-origin <list>   Extra allowed CORS origins, comma-separated (extension origins are always allowed)
+  --sync-interval <min>  Run the configured connectors every <min> minutes (default: sync.intervalMinutes)
+
+With auth enabled, stdio clients authenticate with the INKWELL_API_KEY environment variable;
+HTTP clients send "Authorization: Bearer <key>".
 
 Examples:
   npx inkwell-mcp serve
   npx inkwell-mcp serve --db ./my-newsletter.db
+  npx inkwell-mcp serve --http --port 3000
+  npx inkwell-mcp serve --config ./newsletter.config.json
+  npx inkwell-mcp serve --sync-interval 60
+  npx inkwell-mcp sync
+  npx inkwell-mcp users add --name "Ada" --email ada@example.com --role editor
+  npx inkwell-mcp keys create --user ada@example.com --label laptop
+
+Precedence: defaults < config file < INKWELL_* environment variables < command-line flags.
   `);
 }
 
@@ -43,28 +86,63 @@ async function main(): Promise<void> {
   }
 
   if (command === 'serve') {
-    // Parse options
-    const dbPath = getOption('--db') ?? './data/inkwell.db';
-    const name = getOption('--name');
-    const watermark = getOption('--watermark');
+    const { env, config } = await setup();
+    startScheduledSync(env, config);
+
+    if (args.includes('--http')) {
+      const port = Number(getOption('--port') ?? 3000);
+      if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+        console.error(`Invalid --port: ${getOption('--port')}`);
+        process.exit(1);
+      }
+      const host = getOption('--host') ?? '127.0.0.1';
+      const corsOrigins = (getOption('--cors-origin') ?? '').split(',').map(o => o.trim()).filter(Boolean);
 
-    const config = loadConfig({
-      ...(name ? { name } : {}),
-      ...(watermark ? { watermark } : {}),
-      database: { type: 'sqlite', path: resolve(dbPath) },
-    });
+      await startHttpServer(env, { port, host, corsOrigins });
 
-    // Initialize SQLite
-    const db = new SqliteAdapter(resolve(dbPath));
-    db.migrate();
+      console.error(`[inkwell-mcp] Server started (${describeDatabase(config)})`);
+      console.error(`[inkwell-mcp] Listening on http://${host}:${port}/mcp`);
+      return;
+    }
 
-    const env: Env = { db, config };
-    const ctx = resolveAuth(config.auth.enabled, config.auth.ownerKey);
+    const ctx = await resolveAuth(env, process.env.INKWELL_API_KEY);
 
-    console.error(`[inkwell-mcp] Server started (SQLite: ${resolve(dbPath)})`);
+    console.error(`[inkwell-mcp] Server started (${describeDatabase(config)})`);
+    if (config.llm) {
+      console.error(`[inkwell-mcp] LLM: ${config.llm.model} at ${config.llm.baseUrl}`);
+    }
+    if (config.auth.enabled) {
+      console.error(`[inkwell-mcp] Auth enabled — stdio session role: ${ctx?.role ?? 'public'}`);
+    }
     console.error(`[inkwell-mcp] Waiting for MCP client connection via stdio...`);
 
     await startStdioServer(env, ctx);
+  } else if (command === 'sync') {
+    const { env, config } = await setup();
+    const connectors = config.sync?.connectors ?? [];
+    if (!connectors.length) {
+      console.error('[inkwell-mcp] No connectors configured — add them under sync.connectors in the config file');
+      process.exit(1);
+    }
+
+    if (getOption('--sync-interval')) {
+      startScheduledSync(env, config);
+      return;
+    }
+
+    console.error(`[inkwell-mcp] Syncing ${connectors.map(connectorLabel).join(', ')}`);
+    const runs = await syncAll(env, 'manual');
+    for (const run of runs) console.error(`[inkwell-mcp] ${describeRun(run)}`);
+    env.db.close();
+    if (runs.some(r => r.status === 'failed')) process.exit(1);
+  } else if (command === 'users') {
+    const { env } = await setup();
+    await runUsers(env, args[1]);
+    env.db.close();
+  } else if (command === 'keys') {
+    const { env } = await setup();
+    await runKeys(env, args[1]);
+    env.db.close();
   } else {
     console.error(`Unknown command: ${command}`);
     printUsage();
@@ -72,12 +150,150 @@ async function main(): Promise<void> {
   }
 }
 
+/** Start the sync schedule when --sync-interval or sync.intervalMinutes asks for one */
+function startScheduledSync(env: Env, config: InkwellConfig): void {
+  const flag = getOption('--sync-interval');
+  const minutes = flag ? Number(flag) : config.sync?.intervalMinutes;
+  if (minutes === undefined) return;
+  if (!(minutes > 0)) {
+    console.error(`Invalid --sync-interval: ${flag}`);
+    process.exit(1);
+  }
+
+  const connectors = config.sync?.connectors ?? [];
+  if (!connectors.length) {
+    console.error('[inkwell-mcp] --sync-interval given but sync.connectors is empty — not syncing');
+    return;
+  }
+
+  console.error(`[inkwell-mcp] Syncing ${connectors.map(connectorLabel).join(', ')} every ${minutes} min`);
+  startSyncScheduler(env, minutes, line => console.error(`[inkwell-mcp] ${line}`));
+}
+
+/** Build config from file/env/flags and open the database */
+async function setup(): Promise<{ env: Env; config: InkwellConfig }> {
+  const dbPath = getOption('--db');
+  const name = getOption('--name');
+  const watermark = getOption('--watermark');
+  const supabaseUrl = getOption('--supabase-url');
+  const supabaseKey = getOption('--supabase-key');
+
+  const configPath = getOption('--config') ?? findConfigFile(process.cwd());
+  const fileConfig = configPath ? await loadConfigFile(configPath) : undefined;
+
+  const config = loadConfig(fileConfig, envOverrides(), {
+    ...(name && command === 'serve' ? { name } : {}),
+    ...(watermark ? { watermark } : {}),
+    ...(supabaseUrl
+      ? { database: { type: 'supabase', supabaseUrl, supabaseKey } }
+      : dbPath ? { database: { type: 'sqlite', path: resolve(dbPath) } } : {}),
+    ...(supabaseKey && !supabaseUrl ? { database: { supabaseKey } } : {}),
+  });
+
+  if (configPath) {
+    console.error(`[inkwell-mcp] Loaded config from ${resolve(configPath)}`);
+  }
+
+  const db = createDatabase(config);
+  return { env: { db, config, llm: createLlmProvider(config), embedder: createEmbedder(config) }, config };
+}
+
+async function runUsers(env: Env, sub: string | undefined): Promise<void> {
+  switch (sub) {
+    case 'add': {
+      const user = await createUser(env.db, {
+        name: requireOption('--name'),
+        email: getOption('--email'),
+        role: getOption('--role') ?? 'contributor',
+      });
+      console.log(`Created user ${user.name} (${user.role}) — id ${user.id}`);
+      console.log(`Create a key with: inkwell-mcp keys create --user ${user.email ?? user.id}`);
+      return;
+    }
+    case 'list': {
+      const users = await listUsers(env.db);
+      if (!users.length) {
+        console.log('No users yet. Add one with: inkwell-mcp users add --name <name> --role <role>');
+        return;
+      }
+      for (const u of users) {
+        console.log(`${u.id}  ${String(u.role).padEnd(11)} ${String(u.status).padEnd(8)} ${u.name}${u.email ? ` <${u.email}>` : ''}`);
+      }
+      return;
+    }
+    case 'role': {
+      const user = await setUserRole(env.db, requireArg(2, 'user id or email'), requireArg(3, 'role'));
+      console.log(`${user.name} is now ${user.role}`);
+      return;
+    }
+    case 'disable':
+    case 'enable': {
+      const user = await setUserStatus(env.db, requireArg(2, 'user id or email'), sub === 'disable' ? 'disabled' : 'active');
+      console.log(`${user.name} is now ${user.status}`);
+      return;
+    }
+    default:
+      throw new Error(`Unknown users subcommand: ${sub ?? '(none)'}. Expected add, list, role, disable or enable`);
+  }
+}
+
+async function runKeys(env: Env, sub: string | undefined): Promise<void> {
+  switch (sub) {
+    case 'create': {
+      const { key, record } = await createApiKey(env.db, {
+        user: requireOption('--user'),
+        name: getOption('--label'),
+        role: getOption('--role'),
+        expiresAt: getOption('--expires'),
+      });
+      console.log(`Created key ${record.id}${record.role ? ` (role: ${record.role})` : ''}`);
+      console.log('');
+      console.log(`  ${key}`);
+      console.log('');
+      console.log('Store it now — it cannot be shown again.');
+      return;
+    }
+    case 'list': {
+      const keys = await listApiKeys(env.db, getOption('--user'));
+      if (!keys.length) {
+        console.log('No API keys.');
+        return;
+      }
+      for (const k of keys) {
+        const state = k.revoked_at ? 'revoked' : k.expires_at && new Date(String(k.expires_at)) <= new Date() ? 'expired' : 'active';
+        const role = k.role ?? `${k.user_role} (user)`;
+        console.log(`${k.id}  ${k.key_prefix}…  ${state.padEnd(7)} ${String(role).padEnd(18)} ${k.user_name}${k.name ? ` — ${k.name}` : ''}${k.last_used_at ? ` | last used ${k.last_used_at}` : ''}`);
+      }
+      return;
+    }
+    case 'revoke': {
+      const key = await revokeApiKey(env.db, requireArg(2, 'key id or prefix'));
+      console.log(`Revoked key ${key.id} (${key.key_prefix}…)`);
+      return;
+    }
+    default:
+      throw new Error(`Unknown keys subcommand: ${sub ?? '(none)'}. Expected create, list or revoke`);
+  }
+}
+
 function getOption(flag: string): string | undefined {
   const idx = args.indexOf(flag);
   if (idx === -1 || idx + 1 >= args.length) return undefined;
   return args[idx + 1];
 }
 
+function requireOption(flag: string): string {
+  const value = getOption(flag);
+  if (!value) throw new Error(`Missing required option ${flag}`);
+  return value;
+}
+
+function requireArg(index: number, label: string): string {
+  const value = args[index];
+  if (!value || value.startsWith('--')) throw new Error(`Missing ${label}`);
+  return value;
+}
+
 main().catch(err => {
   console.error('Fatal error:', err);
   process.exit(1);
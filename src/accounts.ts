@@ -0,0 +1,137 @@
+/**
+ * User and API key management.
+ * Keys are shown once at creation; only their SHA-256 hash and a short prefix are stored.
+ */
+
+import { randomBytes } from 'crypto';
+import type { DatabaseAdapter, Role, Row } from './types.js';
+import { hashApiKey, roleWithin, ROLES } from './auth.js';
+
+export const USER_ROLES: Role[] = ROLES.filter(r => r !== 'public');
+
+function assertRole(role: string): Role {
+  if (!USER_ROLES.includes(role as Role)) {
+    throw new Error(`Invalid role "${role}". Expected one of: ${USER_ROLES.join(', ')}`);
+  }
+  return role as Role;
+}
+
+export function generateApiKey(): string {
+  return `ink_live_${randomBytes(24).toString('hex')}`;
+}
+
+export async function createUser(
+  db: DatabaseAdapter,
+  input: { name: string; email?: string; role: string },
+): Promise<Row> {
+  const name = input.name.trim();
+  if (!name) throw new Error('User name is required');
+  const role = assertRole(input.role);
+
+  if (input.email) {
+    const existing = await db.queryOne({ table: 'users', filters: [{ column: 'email', op: 'eq', value: input.email }] });
+    if (existing) throw new Error(`A user with email ${input.email} already exists (${existing.id})`);
+  }
+
+  return db.insert('users', { name, email: input.email ?? null, role, status: 'active' });
+}
+
+/** Find a user by ID or email */
+export async function findUser(db: DatabaseAdapter, idOrEmail: string): Promise<Row | null> {
+  const column = idOrEmail.includes('@') ? 'email' : 'id';
+  return db.queryOne({ table: 'users', filters: [{ column, op: 'eq', value: idOrEmail }] });
+}
+
+export async function listUsers(db: DatabaseAdapter): Promise<Row[]> {
+  return db.query({ table: 'users', order: [{ column: 'created_at', direction: 'asc' }] });
+}
+
+export async function setUserStatus(db: DatabaseAdapter, idOrEmail: string, status: 'active' | 'disabled'): Promise<Row> {
+  const user = await findUser(db, idOrEmail);
+  if (!user) throw new Error(`User not found: ${idOrEmail}`);
+  const rows = await db.update('users', [{ column: 'id', op: 'eq', value: String(user.id) }], {
+    status,
+    updated_at: new Date().toISOString(),
+  });
+  return rows[0];
+}
+
+export async function setUserRole(db: DatabaseAdapter, idOrEmail: string, role: string): Promise<Row> {
+  const user = await findUser(db, idOrEmail);
+  if (!user) throw new Error(`User not found: ${idOrEmail}`);
+  const rows = await db.update('users', [{ column: 'id', op: 'eq', value: String(user.id) }], {
+    role: assertRole(role),
+    updated_at: new Date().toISOString(),
+  });
+  return rows[0];
+}
+
+/**
+ * Create an API key for a user. An optional role narrows the key below the user's role.
+ * Returns the plaintext key — it is not stored and cannot be shown again.
+ */
+export async function createApiKey(
+  db: DatabaseAdapter,
+  input: { user: string; name?: string; role?: string; expiresAt?: string },
+): Promise<{ key: string; record: Row }> {
+  const user = await findUser(db, input.user);
+  if (!user) throw new Error(`User not found: ${input.user}`);
+
+  let role: Role | null = null;
+  if (input.role) {
+    role = assertRole(input.role);
+    if (!roleWithin(role, user.role as Role)) {
+      throw new Error(`Key role "${role}" exceeds user role "${user.role}"`);
+    }
+  }
+
+  if (input.expiresAt && Number.isNaN(new Date(input.expiresAt).getTime())) {
+    throw new Error(`Invalid expiry date: ${input.expiresAt}`);
+  }
+
+  const key = generateApiKey();
+  const record = await db.insert('api_keys', {
+    user_id: String(user.id),
+    name: input.name ?? null,
+    key_prefix: key.slice(0, 16),
+    key_hash: hashApiKey(key),
+    role,
+    expires_at: input.expiresAt ? new Date(input.expiresAt).toISOString() : null,
+  });
+
+  delete record.key_hash;
+  return { key, record };
+}
+
+export async function listApiKeys(db: DatabaseAdapter, user?: string): Promise<Row[]> {
+  let userId: string | null = null;
+  if (user) {
+    const u = await findUser(db, user);
+    if (!u) throw new Error(`User not found: ${user}`);
+    userId = String(u.id);
+  }
+
+  return db.raw(
+    `SELECT k.id, k.name, k.key_prefix, k.role, k.created_at, k.last_used_at, k.expires_at, k.revoked_at,
+            u.id AS user_id, u.name AS user_name, u.role AS user_role
+     FROM api_keys k JOIN users u ON u.id = k.user_id
+     ${userId ? 'WHERE k.user_id = ?' : ''}
+     ORDER BY k.created_at DESC`,
+    userId ? [userId] : []
+  );
+}
+
+/** Revoke a key by ID or by its displayed prefix */
+export async function revokeApiKey(db: DatabaseAdapter, idOrPrefix: string): Promise<Row> {
+  const column = idOrPrefix.startsWith('ink_') ? 'key_prefix' : 'id';
+  const matches = await db.query({ table: 'api_keys', filters: [{ column, op: 'eq', value: idOrPrefix }], limit: 2 });
+  if (!matches.length) throw new Error(`API key not found: ${idOrPrefix}`);
+  if (matches.length > 1) throw new Error(`Prefix ${idOrPrefix} matches several keys — use the key ID`);
+  if (matches[0].revoked_at) throw new Error(`API key ${idOrPrefix} is already revoked`);
+
+  const rows = await db.update('api_keys', [{ column: 'id', op: 'eq', value: String(matches[0].id) }], {
+    revoked_at: new Date().toISOString(),
+  });
+  delete rows[0].key_hash;
+  return rows[0];
+}
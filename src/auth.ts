@@ -1,30 +1,111 @@
 /**
- * Simplified auth for Inkwell MCP.
- * Owner mode (single user) or public mode (no auth).
+ * Auth for Inkwell MCP.
+ * Users hold a role; API keys are stored hashed and may narrow (never widen) their user's role.
+ * Tools call requirePermission() with the permission they need.
  */
 
-import type { AuthContext } from './types.js';
+import { createHash, timingSafeEqual } from 'crypto';
+import type { AuthContext, Env, Role } from './types.js';
 
-export function requireOwner(ctx: AuthContext | null): AuthContext {
-  if (!ctx || ctx.role !== 'owner') {
-    throw { code: 403, message: 'Owner access required' };
+export type Permission =
+  | 'editorial:read'    // list notes/sources, briefs, calendar, stats, voice templates
+  | 'notes:write'       // add/update notes
+  | 'sources:write'     // save sources
+  | 'drafts:write'      // create/edit article drafts, generate drafts
+  | 'experts:write'     // add/update experts, log expert contacts, review expert matches
+  | 'editorial:manage'  // delete notes, deactivate sources, mark sources used, subscriber-level lists, merge experts
+  | 'articles:write'    // schedule, publish and archive articles
+  | 'import'            // import newsletters
+  | 'users:manage';     // manage users and API keys
+
+const READONLY: Permission[] = ['editorial:read'];
+const CONTRIBUTOR: Permission[] = [...READONLY, 'notes:write', 'sources:write', 'drafts:write', 'experts:write'];
+const EDITOR: Permission[] = [...CONTRIBUTOR, 'editorial:manage', 'articles:write', 'import'];
+const OWNER: Permission[] = [...EDITOR, 'users:manage'];
+
+export const ROLE_PERMISSIONS: Record<Role, ReadonlySet<Permission>> = {
+  owner: new Set(OWNER),
+  editor: new Set(EDITOR),
+  contributor: new Set(CONTRIBUTOR),
+  readonly: new Set(READONLY),
+  public: new Set(),
+};
+
+/** Roles ordered from most to least privileged */
+export const ROLES: Role[] = ['owner', 'editor', 'contributor', 'readonly', 'public'];
+
+export function hasPermission(ctx: AuthContext | null, permission: Permission): boolean {
+  return !!ctx && ROLE_PERMISSIONS[ctx.role].has(permission);
+}
+
+export function requirePermission(ctx: AuthContext | null, permission: Permission): AuthContext {
+  if (!ctx || !hasPermission(ctx, permission)) {
+    const role = ctx?.role ?? 'public';
+    throw { code: 403, message: `Permission "${permission}" required (current role: ${role})` };
   }
   return ctx;
 }
 
-export function resolveAuth(authEnabled: boolean, ownerKey?: string, providedKey?: string): AuthContext | null {
-  if (!authEnabled) {
+/** True when `role` grants no more than `ceiling` */
+export function roleWithin(role: Role, ceiling: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(ceiling);
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const ha = Buffer.from(hashApiKey(a), 'hex');
+  const hb = Buffer.from(hashApiKey(b), 'hex');
+  return timingSafeEqual(ha, hb);
+}
+
+/**
+ * Resolve the caller from a provided API key.
+ * - Auth disabled: everyone is owner.
+ * - auth.ownerKey (bootstrap key from config/env) grants owner.
+ * - Otherwise the key is hashed and looked up in api_keys (not revoked, not expired, user active).
+ * - Anything else is public.
+ */
+export async function resolveAuth(env: Env, providedKey?: string): Promise<AuthContext | null> {
+  if (!env.config.auth.enabled) {
     // No auth = everyone is owner
     return { role: 'owner' };
   }
 
-  if (!providedKey || !ownerKey) {
+  if (!providedKey) {
     return { role: 'public' };
   }
 
-  if (providedKey === ownerKey) {
+  const ownerKey = env.config.auth.ownerKey;
+  if (ownerKey && safeEqual(providedKey, ownerKey)) {
     return { role: 'owner' };
   }
 
-  return { role: 'public' };
+  const rows = await env.db.raw(
+    `SELECT k.id AS key_id, k.role AS key_role, k.expires_at, u.id AS user_id, u.name, u.role AS user_role
+     FROM api_keys k
+     JOIN users u ON u.id = k.user_id
+     WHERE k.key_hash = ? AND k.revoked_at IS NULL AND u.status = 'active'
+     LIMIT 1`,
+    [hashApiKey(providedKey)]
+  );
+  const key = rows[0];
+  if (!key) return { role: 'public' };
+
+  if (key.expires_at && new Date(String(key.expires_at)).getTime() <= Date.now()) {
+    return { role: 'public' };
+  }
+
+  await env.db.update('api_keys', [{ column: 'id', op: 'eq', value: String(key.key_id) }], {
+    last_used_at: new Date().toISOString(),
+  });
+
+  return {
+    role: (key.key_role ?? key.user_role) as Role,
+    userId: String(key.user_id),
+    userName: String(key.name),
+    keyId: String(key.key_id),
+  };
 }
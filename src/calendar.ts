@@ -0,0 +1,312 @@
+/**
+ * Editorial calendar — publishing slots from config.calendar, the articles filling them,
+ * open slots and overdue drafts, rendered as markdown or iCalendar (RFC 5545).
+ * Published articles sit on their published_at date, everything else on scheduled_for.
+ */
+
+import type { Env, InkwellConfig, Row } from './types.js';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const DRAFT_STATUSES = ['idea', 'drafting', 'in_review'];
+const DAY_MS = 86_400_000;
+
+export interface CalendarSettings {
+  weekdays: string[];
+  time: string;
+  timeZone: string;
+}
+
+export interface CalendarSlot {
+  date: string;
+  weekday: string;
+  /** Send time as an ISO instant */
+  at: string;
+  articles: Row[];
+}
+
+export interface Calendar {
+  settings: CalendarSettings;
+  from: string;
+  until: string;
+  slots: CalendarSlot[];
+  /** Articles planned or published on days without a slot */
+  offCadence: Row[];
+  /** Slots nothing is planned for */
+  gaps: CalendarSlot[];
+  /** Drafts due within the range */
+  due: Row[];
+  /** Drafts past their due date, or unpublished past their scheduled date */
+  overdue: Row[];
+}
+
+export function calendarSettings(config: InkwellConfig): CalendarSettings {
+  const cal = config.calendar ?? {};
+  const weekdays = cal.weekdays?.length ? cal.weekdays : ['Tuesday'];
+  return {
+    weekdays: weekdays.map(d => WEEKDAYS.find(w => w.toLowerCase() === d.toLowerCase()) ?? d),
+    time: cal.time ?? '08:00',
+    timeZone: cal.timeZone ?? 'UTC',
+  };
+}
+
+/** Calendar date (YYYY-MM-DD) of an instant in a time zone */
+export function localDate(at: Date | string, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(new Date(at));
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function weekdayOf(date: string): string {
+  return WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+}
+
+/** Milliseconds the time zone is ahead of UTC at an instant */
+function offsetMs(at: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+  }).formatToParts(new Date(at));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  const local = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return local - Math.floor(at / 1000) * 1000;
+}
+
+/** The instant a local date and HH:MM time happen in a time zone */
+export function zonedTime(date: string, time: string, timeZone: string): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  const [h, min] = time.split(':').map(Number);
+  const guess = Date.UTC(y, m - 1, d, h, min);
+  const first = guess - offsetMs(guess, timeZone);
+  return new Date(guess - offsetMs(first, timeZone));
+}
+
+/**
+ * Parse a scheduled_for / due_at argument. A bare date gets the calendar's send time in its
+ * time zone; anything else must be a parseable datetime.
+ */
+export function parsePlannedTime(config: InkwellConfig, value: unknown, field: string): string {
+  const text = String(value).trim();
+  const settings = calendarSettings(config);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return zonedTime(text, settings.time, settings.timeZone).toISOString();
+  const t = Date.parse(text);
+  if (Number.isNaN(t)) throw { code: 400, message: `Invalid ${field} "${text}" (expected YYYY-MM-DD or an ISO datetime)` };
+  return new Date(t).toISOString();
+}
+
+/** A stored timestamp as an ISO instant, so SQLite text and Postgres timestamptz compare alike */
+function toIso(value: unknown): string | null {
+  if (value == null || value === '') return null;
+  const t = Date.parse(String(value));
+  return Number.isNaN(t) ? String(value) : new Date(t).toISOString();
+}
+
+/** When an article goes (or went) out: published_at once published, scheduled_for before */
+export function plannedAt(article: Row): string | null {
+  return toIso(article.status === 'published' ? article.published_at ?? article.scheduled_for : article.scheduled_for);
+}
+
+/** Publishing slots from `from` (YYYY-MM-DD, local) for `weeks` weeks */
+export function publishSlots(settings: CalendarSettings, from: string, weeks: number): CalendarSlot[] {
+  const slots: CalendarSlot[] = [];
+  for (let i = 0; i < weeks * 7; i++) {
+    const date = addDays(from, i);
+    const weekday = weekdayOf(date);
+    if (settings.weekdays.includes(weekday)) {
+      slots.push({ date, weekday, at: zonedTime(date, settings.time, settings.timeZone).toISOString(), articles: [] });
+    }
+  }
+  return slots;
+}
+
+/** A draft past its due date */
+function isLate(a: Row, nowIso: string): boolean {
+  return DRAFT_STATUSES.includes(String(a.status)) && !!a.due_at && String(a.due_at) < nowIso;
+}
+
+const ARTICLE_FIELDS = ['id', 'number', 'title', 'status', 'type', 'published_at', 'scheduled_for', 'due_at', 'assignee'];
+
+export async function loadCalendar(env: Env, opts: { from?: string; weeks: number; now?: Date }): Promise<Calendar> {
+  const settings = calendarSettings(env.config);
+  const now = opts.now ?? new Date();
+  const from = opts.from ?? localDate(now, settings.timeZone);
+  const until = addDays(from, opts.weeks * 7);
+  const start = zonedTime(from, '00:00', settings.timeZone).toISOString();
+  const end = zonedTime(until, '00:00', settings.timeZone).toISOString();
+
+  const inRange = (column: string) => env.db.query({
+    table: 'articles',
+    select: ARTICLE_FIELDS,
+    filters: [{ column, op: 'gte', value: start }, { column, op: 'lt', value: end }],
+  });
+  const byId = new Map<string, Row>();
+  for (const a of [...await inRange('scheduled_for'), ...await inRange('published_at')]) {
+    const at = plannedAt(a);
+    if (a.status !== 'archived' && at && at >= start && at < end) byId.set(String(a.id), a);
+  }
+
+  const slots = publishSlots(settings, from, opts.weeks);
+  const slotByDate = new Map(slots.map(s => [s.date, s]));
+  const offCadence: Row[] = [];
+  for (const a of [...byId.values()].sort((x, y) => String(plannedAt(x)).localeCompare(String(plannedAt(y))))) {
+    const slot = slotByDate.get(localDate(String(plannedAt(a)), settings.timeZone));
+    if (slot) slot.articles.push(a);
+    else offCadence.push(a);
+  }
+
+  const drafts = await env.db.query({
+    table: 'articles',
+    select: ARTICLE_FIELDS,
+    filters: [{ column: 'status', op: 'in', value: [...DRAFT_STATUSES, 'scheduled'] }],
+    order: [{ column: 'due_at', direction: 'asc', nulls: 'last' }],
+  });
+  for (const a of drafts) {
+    a.due_at = toIso(a.due_at);
+    a.scheduled_for = toIso(a.scheduled_for);
+  }
+  const nowIso = now.toISOString();
+  const overdue = drafts.filter(a => isLate(a, nowIso) || (a.scheduled_for && String(a.scheduled_for) < nowIso));
+  const due = drafts.filter(a =>
+    DRAFT_STATUSES.includes(String(a.status)) && a.due_at && String(a.due_at) >= start && String(a.due_at) < end && !overdue.includes(a));
+
+  return {
+    settings,
+    from,
+    until,
+    slots,
+    offCadence,
+    gaps: slots.filter(s => !s.articles.length),
+    due,
+    overdue,
+  };
+}
+
+function articleLabel(a: Row): string {
+  return `${a.number != null ? `#${a.number} ` : ''}${a.title}`;
+}
+
+function articleLine(a: Row, timeZone: string): string {
+  const extras = [`[${a.status}]`];
+  if (a.assignee) extras.push(String(a.assignee));
+  if (a.due_at && DRAFT_STATUSES.includes(String(a.status))) extras.push(`due ${localDate(String(a.due_at), timeZone)}`);
+  return `${articleLabel(a)} ${extras.join(' · ')}`;
+}
+
+/** Calendar days between a deadline and now, in the calendar's time zone */
+function daysLate(at: string, now: Date, timeZone: string): number {
+  return Math.max(0, Math.round((Date.parse(localDate(now, timeZone)) - Date.parse(localDate(at, timeZone))) / DAY_MS));
+}
+
+export function calendarMarkdown(cal: Calendar, now = new Date()): string {
+  const { settings } = cal;
+  const tz = settings.timeZone;
+  const lines = [
+    `## Editorial calendar — ${cal.from} → ${addDays(cal.until, -1)}`,
+    `_${settings.weekdays.join(', ')} at ${settings.time} (${tz}) · ${cal.slots.length - cal.gaps.length}/${cal.slots.length} slots filled_`,
+  ];
+
+  type Entry = { date: string; text: string };
+  const entries: Entry[] = [
+    ...cal.slots.map(s => ({
+      date: s.date,
+      text: `- **${s.weekday.slice(0, 3)} ${s.date}** — ${s.articles.map(a => articleLine(a, tz)).join('; ') || '_Open slot_'}`,
+    })),
+    ...cal.offCadence.map(a => {
+      const date = localDate(String(plannedAt(a)), tz);
+      return { date, text: `- ${date} _(off cadence)_ — ${articleLine(a, tz)}` };
+    }),
+    ...cal.due.map(a => {
+      const date = localDate(String(a.due_at), tz);
+      return { date, text: `- ${date} _draft due_ — ${articleLine(a, tz)}` };
+    }),
+  ].sort((x, y) => x.date.localeCompare(y.date));
+
+  let week = '';
+  for (const entry of entries) {
+    const monday = addDays(entry.date, -((new Date(`${entry.date}T00:00:00Z`).getUTCDay() + 6) % 7));
+    if (monday !== week) {
+      week = monday;
+      lines.push('', `### Week of ${monday}`);
+    }
+    lines.push(entry.text);
+  }
+
+  if (cal.overdue.length) {
+    lines.push('', `### Overdue (${cal.overdue.length})`);
+    for (const a of cal.overdue) {
+      const late = isLate(a, now.toISOString())
+        ? `due ${localDate(String(a.due_at), tz)}, ${daysLate(String(a.due_at), now, tz)} days late`
+        : `scheduled for ${localDate(String(a.scheduled_for), tz)} but not published`;
+      lines.push(`- ${articleLabel(a)} [${a.status}]${a.assignee ? ` · ${a.assignee}` : ''} — ${late}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function icsTime(at: string): string {
+  return new Date(at).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function icsText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** Fold content lines longer than 75 octets (RFC 5545 §3.1) */
+function icsFold(line: string): string {
+  const out: string[] = [];
+  let current = '';
+  for (const ch of line) {
+    if (Buffer.byteLength(current + ch) > (out.length ? 74 : 75)) {
+      out.push(current);
+      current = '';
+    }
+    current += ch;
+  }
+  out.push(current);
+  return out.join('\r\n ');
+}
+
+function icsEvent(uid: string, start: string, summary: string, description: string | null, stamp: string): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${icsTime(start)}`,
+    'DURATION:PT30M',
+    `SUMMARY:${icsText(summary)}`,
+    ...(description ? [`DESCRIPTION:${icsText(description)}`] : []),
+    'END:VEVENT',
+  ];
+}
+
+/** The calendar as an iCalendar file: editions, open slots and draft deadlines */
+export function calendarIcs(cal: Calendar, name: string, now = new Date()): string {
+  const stamp = icsTime(now.toISOString());
+  const describe = (a: Row) => [`Status: ${a.status}`, a.assignee ? `Assignee: ${a.assignee}` : null, `Article: ${a.id}`]
+    .filter(Boolean).join('\n');
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Inkwell MCP//Editorial calendar//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${icsText(`${name} — editorial calendar`)}`,
+  ];
+  for (const slot of cal.slots) {
+    for (const a of slot.articles) {
+      lines.push(...icsEvent(`article-${a.id}@inkwell-mcp`, String(plannedAt(a)), `${articleLabel(a)} (${a.status})`, describe(a), stamp));
+    }
+    if (!slot.articles.length) {
+      lines.push(...icsEvent(`slot-${slot.date}@inkwell-mcp`, slot.at, 'Open slot', 'Nothing planned yet — see plan_issue', stamp));
+    }
+  }
+  for (const a of cal.offCadence) {
+    lines.push(...icsEvent(`article-${a.id}@inkwell-mcp`, String(plannedAt(a)), `${articleLabel(a)} (${a.status})`, describe(a), stamp));
+  }
+  for (const a of [...cal.due, ...cal.overdue.filter(o => isLate(o, now.toISOString()))]) {
+    lines.push(...icsEvent(`due-${a.id}@inkwell-mcp`, String(a.due_at), `Draft due: ${articleLabel(a)}`, describe(a), stamp));
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(icsFold).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,404 @@
+/**
+ * Source capture — fetches a source page, extracts its readable text and metadata (author,
+ * published date, site name) and archives it in source_snapshots with a content hash, so the
+ * research survives link rot and drafting can read what the source said.
+ * Pages are fetched through env.fetcher when set; fileFetcher() serves local HTML fixtures.
+ */
+
+import { createHash } from 'crypto';
+import { lookup } from 'dns';
+import type { LookupAddress, LookupOptions } from 'dns';
+import { readFileSync } from 'fs';
+import { request as httpRequest } from 'http';
+import type { IncomingMessage } from 'http';
+import { request as httpsRequest } from 'https';
+import { BlockList, isIP } from 'net';
+import { createBrotliDecompress, createGunzip, createInflate } from 'zlib';
+import type { Env, FetchedPage, Fetcher, Row } from './types.js';
+
+const FETCH_TIMEOUT_MS = 15_000;
+const MAX_REDIRECTS = 5;
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const USER_AGENT = 'Mozilla/5.0 (compatible; InkwellMCP/0.1; +source capture)';
+
+// --- Fetching ---
+
+/** Loopback, private, link-local (cloud metadata), shared, multicast and reserved ranges. BlockList checks IPv4-mapped IPv6 addresses against the IPv4 ones. */
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/** True for an address on the public internet */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (!family) return false;
+  return !PRIVATE_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * dns.lookup that refuses private addresses. It runs when the socket connects, so a name
+ * can't pass a check and then resolve somewhere else.
+ */
+function publicLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (err: Error | null, address: string | LookupAddress[], family?: number) => void,
+): void {
+  lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, []);
+    const blocked = addresses.find(a => !isPublicAddress(a.address));
+    if (blocked) return callback(new Error(`${hostname} resolves to a private address (${blocked.address})`), []);
+    if (!addresses.length) return callback(new Error(`${hostname} has no address`), []);
+    if (options.all) return callback(null, addresses);
+    return callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+/** http(s) URLs whose host, when written as an IP, is public; names are checked on connect */
+function checkUrl(raw: string): URL {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new Error(`Invalid URL: ${raw}`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Only http and https URLs can be fetched (got ${url.protocol})`);
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && !isPublicAddress(host)) throw new Error(`${host} is a private address`);
+  return url;
+}
+
+type Hop = { status: number; location: string | null; contentType: string | null; body: string };
+
+function requestOnce(url: URL, signal: AbortSignal): Promise<Hop> {
+  return new Promise((resolve, reject) => {
+    const request = url.protocol === 'https:' ? httpsRequest : httpRequest;
+    const req = request(url, {
+      headers: {
+        'User-Agent': USER_AGENT,
+        Accept: 'text/html,application/xhtml+xml;q=0.9,text/plain;q=0.8,*/*;q=0.5',
+        'Accept-Encoding': 'gzip, deflate, br',
+      },
+      lookup: publicLookup,
+      signal,
+    }, (res: IncomingMessage) => {
+      const status = res.statusCode ?? 0;
+      const contentType = res.headers['content-type'] ?? null;
+      if (status >= 300 && status < 400 && res.headers.location) {
+        res.resume();
+        return resolve({ status, location: res.headers.location, contentType, body: '' });
+      }
+      if (Number(res.headers['content-length']) > MAX_BODY_BYTES) {
+        res.destroy();
+        return reject(new Error(`Page is larger than ${MAX_BODY_BYTES / 1024 / 1024} MB`));
+      }
+
+      const encoding = String(res.headers['content-encoding'] ?? '').toLowerCase();
+      const stream = encoding === 'gzip' ? res.pipe(createGunzip())
+        : encoding === 'deflate' ? res.pipe(createInflate())
+        : encoding === 'br' ? res.pipe(createBrotliDecompress())
+        : res;
+      const chunks: Buffer[] = [];
+      let size = 0;
+      // Counted after decompression, so a small compressed body can't expand without limit
+      stream.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          res.destroy();
+          stream.destroy();
+          return reject(new Error(`Page is larger than ${MAX_BODY_BYTES / 1024 / 1024} MB`));
+        }
+        chunks.push(chunk);
+      });
+      stream.on('end', () => resolve({ status, location: null, contentType, body: Buffer.concat(chunks).toString('utf-8') }));
+      stream.on('error', reject);
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+/**
+ * HTTP(S) fetch for source capture. Only public addresses are reached: loopback, private and
+ * link-local targets are refused, on every redirect too, and bodies over 5 MB are rejected.
+ */
+export const httpFetcher: Fetcher = async (url) => {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let current = checkUrl(url);
+  for (let redirects = 0; ; redirects++) {
+    const hop = await requestOnce(current, signal);
+    if (!hop.location) {
+      return { url: redirects ? current.toString() : url, status: hop.status, contentType: hop.contentType, body: hop.body };
+    }
+    if (redirects === MAX_REDIRECTS) throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+    current = checkUrl(new URL(hop.location, current).toString());
+  }
+};
+
+/** Serves local files for the given URLs (404 for anything else) — for tests and offline fixtures */
+export function fileFetcher(files: Record<string, string>): Fetcher {
+  return async (url) => {
+    const path = files[url];
+    if (!path) return { url, status: 404, contentType: 'text/plain', body: 'Not found' };
+    return { url, status: 200, contentType: path.endsWith('.txt') ? 'text/plain' : 'text/html', body: readFileSync(path, 'utf-8') };
+  };
+}
+
+export function getFetcher(env: Env): Fetcher {
+  return env.fetcher ?? httpFetcher;
+}
+
+// --- Extraction ---
+
+export interface ExtractedPage {
+  title: string | null;
+  author: string | null;
+  published_at: string | null;
+  site_name: string | null;
+  description: string | null;
+  /** Main readable text: paragraphs, headings, list items and quotes, one block per paragraph */
+  text: string;
+  word_count: number;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“',
+  mdash: '—', ndash: '–', hellip: '…', laquo: '«', raquo: '»',
+  eacute: 'é', egrave: 'è', agrave: 'à', ccedil: 'ç', copy: '©',
+};
+
+function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, e: string) => {
+    if (e[0] === '#') {
+      const code = e[1].toLowerCase() === 'x' ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[e.toLowerCase()] ?? match;
+  });
+}
+
+function cleanText(html: string): string {
+  return decodeEntities(html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+function attrValue(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3]).trim() : null;
+}
+
+/** <meta> content by property/name/itemprop, lower-cased keys, first one wins */
+function metaTags(html: string): Map<string, string> {
+  const meta = new Map<string, string>();
+  for (const [tag] of html.matchAll(/<meta\s[^>]*>/gi)) {
+    const key = attrValue(tag, 'property') ?? attrValue(tag, 'name') ?? attrValue(tag, 'itemprop');
+    const content = attrValue(tag, 'content');
+    if (key && content && !meta.has(key.toLowerCase())) meta.set(key.toLowerCase(), content);
+  }
+  return meta;
+}
+
+/** datePublished / author / publisher from schema.org JSON-LD blocks */
+function jsonLd(html: string): { published?: string; author?: string; site?: string } {
+  const out: { published?: string; author?: string; site?: string } = {};
+  const name = (v: unknown): string | undefined => {
+    const first = Array.isArray(v) ? v[0] : v;
+    if (typeof first === 'string') return first;
+    if (first && typeof first === 'object' && typeof (first as Row).name === 'string') return String((first as Row).name);
+    return undefined;
+  };
+
+  for (const [, body] of html.matchAll(/<script[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)) {
+    let data: unknown;
+    try {
+      data = JSON.parse(body.trim());
+    } catch {
+      continue;
+    }
+    const nodes: unknown[] = Array.isArray(data) ? data : [data];
+    for (const node of [...nodes]) {
+      const graph = (node as Row | null)?.['@graph'];
+      if (Array.isArray(graph)) nodes.push(...graph);
+    }
+    for (const node of nodes) {
+      if (!node || typeof node !== 'object') continue;
+      const n = node as Row;
+      if (!out.published && typeof n.datePublished === 'string') out.published = n.datePublished;
+      if (!out.author) out.author = name(n.author);
+      if (!out.site) out.site = name(n.publisher);
+    }
+  }
+  return out;
+}
+
+function isoDate(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const t = Date.parse(value);
+  return Number.isNaN(t) ? null : new Date(t).toISOString();
+}
+
+/** The element that most likely holds the article: the longest <article>, else <main>, else <body> */
+function mainContainer(html: string): string {
+  const articles = [...html.matchAll(/<article\b[^>]*>([\s\S]*?)<\/article>/gi)].map(m => m[1]);
+  if (articles.length) return articles.sort((a, b) => b.length - a.length)[0];
+  const main = html.match(/<main\b[^>]*>([\s\S]*?)<\/main>/i) ?? html.match(/<(\w+)\b[^>]*role\s*=\s*["']main["'][^>]*>([\s\S]*?)<\/\1>/i);
+  if (main) return main[main.length - 1];
+  return html.match(/<body\b[^>]*>([\s\S]*?)<\/body>/i)?.[1] ?? html;
+}
+
+/** Title, metadata and readable text of an HTML page (plain text is returned as-is) */
+export function extractReadable(body: string, contentType?: string | null): ExtractedPage {
+  if (contentType && /^text\/plain/i.test(contentType)) {
+    const text = body.replace(/\r\n?/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+    return { title: null, author: null, published_at: null, site_name: null, description: null, text, word_count: countWords(text) };
+  }
+
+  const meta = metaTags(body);
+  const ld = jsonLd(body);
+  const titleTag = body.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const authorMeta = meta.get('author') ?? meta.get('article:author') ?? meta.get('twitter:creator') ?? meta.get('dc.creator');
+  const timeTag = body.match(/<time\b[^>]*datetime\s*=\s*["']([^"']+)["']/i)?.[1];
+
+  // Drop everything that is never article text, then keep block-level text only
+  const stripped = body
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|svg|template|iframe|form|button)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<(nav|header|footer|aside)\b[\s\S]*?<\/\1>/gi, '');
+  const container = mainContainer(stripped);
+
+  const blocks: string[] = [];
+  for (const [, tag, inner] of container.matchAll(/<(p|h[1-6]|li|blockquote|pre|figcaption)\b[^>]*>([\s\S]*?)<\/\1>/gi)) {
+    const text = cleanText(inner);
+    if (!text || blocks[blocks.length - 1] === text) continue;
+    const lower = tag.toLowerCase();
+    blocks.push(lower[0] === 'h' ? `## ${text}` : lower === 'li' ? `- ${text}` : lower === 'blockquote' ? `> ${text}` : text);
+  }
+  const text = blocks.length ? blocks.join('\n\n') : cleanText(container);
+
+  return {
+    title: meta.get('og:title') ?? meta.get('twitter:title') ?? (titleTag ? cleanText(titleTag) : null) ?? null,
+    author: (authorMeta && !/^https?:\/\//.test(authorMeta) ? authorMeta : null) ?? ld.author ?? null,
+    published_at: isoDate(meta.get('article:published_time') ?? meta.get('datepublished') ?? meta.get('date') ?? meta.get('dc.date') ?? ld.published ?? timeTag),
+    site_name: meta.get('og:site_name') ?? meta.get('application-name') ?? ld.site ?? null,
+    description: meta.get('og:description') ?? meta.get('description') ?? null,
+    text,
+    word_count: countWords(text),
+  };
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(w => /\w/.test(w)).length;
+}
+
+export function contentHash(text: string): string {
+  return createHash('sha256').update(text.replace(/\s+/g, ' ').trim()).digest('hex');
+}
+
+// --- Snapshots ---
+
+export async function latestSnapshot(env: Env, sourceId: string): Promise<Row | null> {
+  return env.db.queryOne({
+    table: 'source_snapshots',
+    filters: [{ column: 'source_id', op: 'eq', value: sourceId }],
+    order: [{ column: 'fetched_at', direction: 'desc' }],
+  });
+}
+
+/** Fetch and extract a URL. Throws 502 when the page can't be fetched or has no readable text. */
+export async function fetchPage(env: Env, url: string): Promise<{ page: FetchedPage; extracted: ExtractedPage }> {
+  let page: FetchedPage;
+  try {
+    page = await getFetcher(env)(url);
+  } catch (err) {
+    throw { code: 502, message: `Could not fetch ${url}: ${err instanceof Error ? err.message : String(err)}` };
+  }
+  if (page.status >= 400) {
+    throw { code: 502, message: `Fetching ${url} returned HTTP ${page.status}` };
+  }
+  if (page.contentType && !/html|xml|text\/plain/i.test(page.contentType)) {
+    throw { code: 502, message: `${url} is ${page.contentType.split(';')[0]}, not a web page — only HTML and plain text are captured` };
+  }
+  const extracted = extractReadable(page.body, page.contentType);
+  if (!extracted.text) {
+    throw { code: 502, message: `No readable text found at ${url}` };
+  }
+  return { page, extracted };
+}
+
+export interface CaptureResult {
+  snapshot: Row;
+  /** Previous snapshot when the text changed; null on first capture or when unchanged */
+  previous: Row | null;
+  /** True when the text differs from the latest snapshot (false on first capture) */
+  changed: boolean;
+  first: boolean;
+}
+
+/**
+ * Store what was fetched as the source's new snapshot — unless the text hash matches the
+ * latest one, in which case only its checked_at moves.
+ */
+export async function recordSnapshot(
+  env: Env,
+  sourceId: string,
+  requestedUrl: string,
+  fetched: { page: FetchedPage; extracted: ExtractedPage },
+): Promise<CaptureResult> {
+  const { page, extracted } = fetched;
+  const hash = contentHash(extracted.text);
+  const now = new Date().toISOString();
+  const latest = await latestSnapshot(env, sourceId);
+
+  if (latest && latest.content_hash === hash) {
+    const rows = await env.db.update('source_snapshots', [{ column: 'id', op: 'eq', value: String(latest.id) }], { checked_at: now });
+    return { snapshot: rows[0] ?? latest, previous: null, changed: false, first: false };
+  }
+
+  const snapshot = await env.db.insert('source_snapshots', {
+    source_id: sourceId,
+    url: requestedUrl,
+    final_url: page.url !== requestedUrl ? page.url : null,
+    http_status: page.status,
+    content_hash: hash,
+    title: extracted.title,
+    author: extracted.author,
+    published_at: extracted.published_at,
+    site_name: extracted.site_name,
+    description: extracted.description,
+    text: extracted.text,
+    word_count: extracted.word_count,
+    fetched_at: now,
+    checked_at: now,
+  });
+  return { snapshot, previous: latest, changed: !!latest, first: !latest };
+}
+
+/** Latest captured text of each source, trimmed to `maxChars`, keyed by source ID */
+export async function capturedExcerpts(env: Env, sourceIds: string[], maxChars: number): Promise<Map<string, string>> {
+  const out = new Map<string, string>();
+  if (!sourceIds.length) return out;
+  const rows = await env.db.query({
+    table: 'source_snapshots',
+    select: ['source_id', 'text', 'fetched_at'],
+    filters: [{ column: 'source_id', op: 'in', value: sourceIds }],
+    order: [{ column: 'fetched_at', direction: 'desc' }],
+  });
+  for (const row of rows) {
+    const id = String(row.source_id);
+    if (out.has(id)) continue;
+    const text = String(row.text ?? '');
+    out.set(id, text.length > maxChars ? `${text.slice(0, maxChars).replace(/\s+\S*$/, '')}…` : text);
+  }
+  return out;
+}
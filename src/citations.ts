@@ -0,0 +1,141 @@
+/**
+ * Citations — numbered source references in drafts. Notes point at their source
+ * (editorial_notes.source_id); drafts mark claims with [n] and end with a references section.
+ * The sources each draft cited are kept in article_citations and marked used on publish.
+ */
+
+import type { Env, Row } from './types.js';
+
+export const CITATION_STYLES = ['endnote', 'footnote', 'inline'] as const;
+export type CitationStyle = typeof CITATION_STYLES[number];
+
+/** [1], [2, 5] — not [text](url) links, [1]: definitions or [^1] footnotes */
+const MARKER = /\[(\d+(?:\s*,\s*\d+)*)\](?![(:])/g;
+
+export interface Citation {
+  number: number;
+  source: Row;
+}
+
+/**
+ * Sources in citation order: the ones notes point at first (in note order), then the rest.
+ * Source [n] is the n-th entry. Sources that notes point at but that are missing from
+ * `sources` (used elsewhere, inactive) are looked up in `linked`.
+ */
+export function citationOrder(notes: Row[], sources: Row[], linked: Row[] = []): Row[] {
+  const byId = new Map([...linked, ...sources].map(s => [String(s.id), s]));
+  const ordered: Row[] = [];
+  const seen = new Set<string>();
+  const add = (s: Row | undefined) => {
+    if (!s || seen.has(String(s.id))) return;
+    seen.add(String(s.id));
+    ordered.push(s);
+  };
+  for (const n of notes) if (n.source_id) add(byId.get(String(n.source_id)));
+  for (const s of sources) add(s);
+  return ordered;
+}
+
+/** The [n] marker for a note's source, or '' when it has none */
+export function noteMarker(note: Row, ordered: Row[]): string {
+  if (!note.source_id) return '';
+  const index = ordered.findIndex(s => s.id === note.source_id);
+  return index >= 0 ? ` [${index + 1}]` : '';
+}
+
+function reference(s: Row): string {
+  const date = s.published_date ? ` (${s.published_date})` : '';
+  return `[${s.title}](${s.url})${date}`;
+}
+
+/**
+ * Rewrite the [n] markers of `text` (n indexes `ordered`, 1-based) in the given style and
+ * build the references section for the sources actually cited. With renumber, citations are
+ * numbered by first appearance; otherwise they keep their place in `ordered`.
+ */
+export function renderCitations(
+  text: string,
+  ordered: Row[],
+  style: CitationStyle,
+  renumber = true,
+): { text: string; references: string; cited: Citation[] } {
+  const numbers = new Map<number, number>();
+  for (const [, group] of text.matchAll(MARKER)) {
+    for (const part of group.split(',')) {
+      const n = Number(part.trim());
+      if (n >= 1 && n <= ordered.length && !numbers.has(n)) numbers.set(n, renumber ? numbers.size + 1 : n);
+    }
+  }
+  if (!numbers.size) return { text, references: '', cited: [] };
+
+  const rendered = text.replace(MARKER, (match, group: string) => {
+    const refs = group.split(',').map(p => Number(p.trim()));
+    if (!refs.every(n => numbers.has(n))) return match;
+    if (style === 'inline') return `(${refs.map(n => `[${ordered[n - 1].title}](${ordered[n - 1].url})`).join('; ')})`;
+    if (style === 'footnote') return refs.map(n => `[^${numbers.get(n)}]`).join('');
+    return `[${refs.map(n => numbers.get(n)).join(', ')}]`;
+  });
+
+  const cited = [...numbers.entries()]
+    .map(([original, number]) => ({ number, source: ordered[original - 1] }))
+    .sort((a, b) => a.number - b.number);
+
+  let references: string;
+  if (style === 'footnote') {
+    references = cited.map(c => `[^${c.number}]: ${reference(c.source)}`).join('\n');
+  } else if (style === 'inline') {
+    references = ['## Sources', ...cited.map(c => `- ${reference(c.source)}`)].join('\n');
+  } else {
+    references = ['## References', ...cited.map(c => `${c.number}. ${reference(c.source)}`)].join('\n');
+  }
+
+  return { text: rendered, references, cited };
+}
+
+/** Replace the sources an article's latest draft cited */
+export async function recordCitations(env: Env, articleId: string, cited: Citation[]): Promise<void> {
+  await env.db.delete('article_citations', [{ column: 'article_id', op: 'eq', value: articleId }]);
+  for (const c of cited) {
+    await env.db.insert('article_citations', {
+      article_id: articleId,
+      source_id: String(c.source.id),
+      number: c.number,
+    });
+  }
+}
+
+/**
+ * On publish: mark sources as used in the article — those its drafts cited, plus any
+ * active source whose URL appears in the body. Sources already used elsewhere keep that.
+ */
+export async function markCitedSourcesUsed(env: Env, article: Row): Promise<Row[]> {
+  const articleId = String(article.id);
+  const cited = await env.db.query({
+    table: 'article_citations',
+    select: ['source_id'],
+    filters: [{ column: 'article_id', op: 'eq', value: articleId }],
+  });
+  const ids = new Set(cited.map(c => String(c.source_id)));
+
+  const content = String(article.content ?? '');
+  if (content) {
+    const candidates = await env.db.raw(
+      `SELECT id, url FROM editorial_sources
+       WHERE status = 'active' AND used_in_article IS NULL
+         AND (target_article = ? OR target_article IS NULL)`,
+      [articleId]
+    );
+    for (const s of candidates) if (s.url && content.includes(String(s.url))) ids.add(String(s.id));
+  }
+  if (!ids.size) return [];
+
+  const now = new Date().toISOString();
+  return env.db.update(
+    'editorial_sources',
+    [
+      { column: 'id', op: 'in', value: [...ids] },
+      { column: 'used_in_article', op: 'is', value: null },
+    ],
+    { used_in_article: articleId, used_at: now, updated_at: now },
+  );
+}
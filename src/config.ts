@@ -1,25 +1,34 @@
 /** Config loader + validation */
 
-export interface InkwellConfig {
-  name: string;
-  description: string;
-  watermark: string;
-  database: {
-    type: 'sqlite' | 'supabase';
-    path?: string;
-    supabaseUrl?: string;
-    supabaseKey?: string;
-  };
-  auth: {
-    enabled: boolean;
-    ownerKey?: string;
-  };
-  tagPatterns?: Array<{
-    name: string;
-    category: string;
-    pattern: string;
-  }>;
-}
+import { existsSync, readFileSync, writeFileSync, unlinkSync } from 'fs';
+import { resolve, dirname, extname, isAbsolute, join } from 'path';
+import { tmpdir } from 'os';
+import { pathToFileURL } from 'url';
+import type { InkwellConfig } from './types.js';
+import { tagCategories } from './tags.js';
+
+export type { InkwellConfig } from './types.js';
+
+export type DeepPartial<T> = {
+  [K in keyof T]?: NonNullable<T[K]> extends Array<unknown>
+    ? T[K]
+    : NonNullable<T[K]> extends object ? DeepPartial<NonNullable<T[K]>> : T[K];
+};
+
+const SYNC_CREDENTIALS: Record<string, string> = {
+  substack: 'exportPath',
+  beehiiv: 'apiKey and publicationId',
+  ghost: 'apiUrl + apiKey, or exportPath',
+  kit: 'apiKey',
+  rss: 'apiUrl (feed URL) or exportPath (feed file)',
+  markdown: 'exportPath (folder of .md files)',
+};
+const SYNC_PLATFORMS = Object.keys(SYNC_CREDENTIALS);
+
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+/** File names searched, in order, when no --config is given */
+export const CONFIG_FILES = ['inkwell.config.ts', 'inkwell.config.js', 'inkwell.config.json'];
 
 const DEFAULT_CONFIG: InkwellConfig = {
   name: 'Inkwell Newsletter',
@@ -29,18 +38,328 @@ const DEFAULT_CONFIG: InkwellConfig = {
   auth: { enabled: false },
 };
 
-export function loadConfig(overrides?: Partial<InkwellConfig>): InkwellConfig {
-  const config = { ...DEFAULT_CONFIG, ...overrides };
+/**
+ * Build the effective config: defaults deep-merged with each override layer in order
+ * (later layers win), then validated.
+ */
+export function loadConfig(...overrides: Array<DeepPartial<InkwellConfig> | undefined>): InkwellConfig {
+  const config = mergeConfig(DEFAULT_CONFIG, ...overrides) as InkwellConfig;
 
   if (config.database.type === 'sqlite' && !config.database.path) {
     config.database.path = './data/inkwell.db';
   }
 
-  if (config.database.type === 'supabase') {
+  const issues = validateConfig(config);
+  if (issues.length) {
+    throw new Error(`Invalid config:\n${issues.map(i => `  - ${i}`).join('\n')}`);
+  }
+
+  return config;
+}
+
+/** Deep-merge plain objects. Arrays and scalars replace; undefined never overwrites. */
+export function mergeConfig(...layers: Array<DeepPartial<InkwellConfig> | undefined>): DeepPartial<InkwellConfig> {
+  const out: Record<string, unknown> = {};
+  for (const layer of layers) {
+    if (layer) mergeInto(out, layer as Record<string, unknown>);
+  }
+  return out as DeepPartial<InkwellConfig>;
+}
+
+function mergeInto(target: Record<string, unknown>, source: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(source)) {
+    if (value === undefined) continue;
+    if (isPlainObject(value)) {
+      const existing = isPlainObject(target[key]) ? target[key] as Record<string, unknown> : {};
+      const next = { ...existing };
+      mergeInto(next, value);
+      target[key] = next;
+    } else {
+      target[key] = Array.isArray(value) ? [...value] : value;
+    }
+  }
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return v !== null && typeof v === 'object' && !Array.isArray(v);
+}
+
+/** Return a list of human-readable problems (empty when valid) */
+export function validateConfig(config: InkwellConfig): string[] {
+  const issues: string[] = [];
+
+  for (const key of ['name', 'description', 'watermark'] as const) {
+    if (typeof config[key] !== 'string') issues.push(`${key} must be a string`);
+  }
+
+  if (!['sqlite', 'supabase'].includes(config.database?.type)) {
+    issues.push(`database.type must be "sqlite" or "supabase" (got ${JSON.stringify(config.database?.type)})`);
+  }
+  if (config.database?.type === 'supabase') {
     if (!config.database.supabaseUrl || !config.database.supabaseKey) {
-      throw new Error('Supabase config requires supabaseUrl and supabaseKey');
+      issues.push('Supabase config requires supabaseUrl and supabaseKey');
+    } else if (!/^https?:\/\//.test(config.database.supabaseUrl)) {
+      issues.push(`database.supabaseUrl must be an http(s) URL (got "${config.database.supabaseUrl}")`);
+    }
+  }
+
+  if (typeof config.auth?.enabled !== 'boolean') {
+    issues.push('auth.enabled must be true or false');
+  }
+
+  if (config.tagCategories !== undefined) {
+    if (!Array.isArray(config.tagCategories) || !config.tagCategories.length
+      || config.tagCategories.some(c => typeof c !== 'string' || !c.trim())) {
+      issues.push('tagCategories must be a non-empty array of strings');
+    }
+  }
+
+  if (config.tagPatterns !== undefined) {
+    if (!Array.isArray(config.tagPatterns)) {
+      issues.push('tagPatterns must be an array');
+    } else {
+      config.tagPatterns.forEach((tp, i) => {
+        if (!tp || typeof tp.name !== 'string' || !tp.name) issues.push(`tagPatterns[${i}].name is required`);
+        if (!tp || typeof tp.category !== 'string') {
+          issues.push(`tagPatterns[${i}].category is required`);
+        } else if ((config.tagCategories === undefined || Array.isArray(config.tagCategories)) && !tagCategories(config).includes(tp.category)) {
+          issues.push(`tagPatterns[${i}].category "${tp.category}" is not one of tagCategories (${tagCategories(config).join(', ')})`);
+        }
+        if (!tp || typeof tp.pattern !== 'string') {
+          issues.push(`tagPatterns[${i}].pattern is required`);
+        } else {
+          try {
+            new RegExp(tp.pattern, 'i');
+          } catch (err) {
+            issues.push(`tagPatterns[${i}].pattern is not a valid regex: ${err instanceof Error ? err.message : String(err)}`);
+          }
+        }
+      });
+    }
+  }
+
+  if (config.llm !== undefined) {
+    const llm = config.llm;
+    if (!llm || typeof llm.baseUrl !== 'string' || !/^https?:\/\//.test(llm.baseUrl)) {
+      issues.push(`llm.baseUrl must be an http(s) URL (got ${JSON.stringify(llm?.baseUrl)})`);
+    }
+    if (!llm || typeof llm.model !== 'string' || !llm.model) {
+      issues.push('llm.model is required');
+    }
+    if (llm?.temperature !== undefined && (typeof llm.temperature !== 'number' || llm.temperature < 0 || llm.temperature > 2)) {
+      issues.push('llm.temperature must be a number between 0 and 2');
+    }
+    if (llm?.timeoutMs !== undefined && (typeof llm.timeoutMs !== 'number' || llm.timeoutMs <= 0)) {
+      issues.push('llm.timeoutMs must be a positive number');
+    }
+  }
+
+  if (config.embeddings !== undefined) {
+    const emb = config.embeddings;
+    if (!emb || typeof emb.baseUrl !== 'string' || !/^https?:\/\//.test(emb.baseUrl)) {
+      issues.push(`embeddings.baseUrl must be an http(s) URL (got ${JSON.stringify(emb?.baseUrl)})`);
+    }
+    if (!emb || typeof emb.model !== 'string' || !emb.model) {
+      issues.push('embeddings.model is required');
+    }
+  }
+
+  if (config.sync !== undefined) {
+    const sync = config.sync;
+    if (sync?.intervalMinutes !== undefined && (typeof sync.intervalMinutes !== 'number' || sync.intervalMinutes <= 0)) {
+      issues.push('sync.intervalMinutes must be a positive number');
     }
+    if (sync?.lookbackDays !== undefined && (typeof sync.lookbackDays !== 'number' || sync.lookbackDays < 0)) {
+      issues.push('sync.lookbackDays must be 0 or more');
+    }
+    if (!Array.isArray(sync?.connectors)) {
+      issues.push('sync.connectors must be an array');
+    } else {
+      sync.connectors.forEach((c, i) => {
+        if (!c || !SYNC_PLATFORMS.includes(c.platform)) {
+          issues.push(`sync.connectors[${i}].platform must be one of: ${SYNC_PLATFORMS.join(', ')}`);
+          return;
+        }
+        const missing = {
+          substack: !c.exportPath,
+          beehiiv: !c.apiKey || !c.publicationId,
+          ghost: !c.exportPath && !(c.apiUrl && c.apiKey),
+          kit: !c.apiKey,
+          rss: !c.apiUrl && !c.exportPath,
+          markdown: !c.exportPath,
+        }[c.platform];
+        if (missing) issues.push(`sync.connectors[${i}] (${c.platform}) needs ${SYNC_CREDENTIALS[c.platform]}`);
+      });
+    }
+  }
+
+  if (config.calendar !== undefined) {
+    const cal = config.calendar;
+    if (cal?.weekdays !== undefined && (!Array.isArray(cal.weekdays) || !cal.weekdays.length
+      || cal.weekdays.some(d => !WEEKDAYS.includes(String(d).toLowerCase())))) {
+      issues.push(`calendar.weekdays must list days of the week (got ${JSON.stringify(cal.weekdays)})`);
+    }
+    if (cal?.time !== undefined && !/^([01]\d|2[0-3]):[0-5]\d$/.test(String(cal.time))) {
+      issues.push(`calendar.time must be HH:MM (got ${JSON.stringify(cal.time)})`);
+    }
+    if (cal?.timeZone !== undefined) {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: cal.timeZone });
+      } catch {
+        issues.push(`calendar.timeZone is not a known time zone (got ${JSON.stringify(cal.timeZone)})`);
+      }
+    }
+  }
+
+  if (config.subscribers !== undefined) {
+    const subs = config.subscribers;
+    if (subs?.hashEmails !== undefined && typeof subs.hashEmails !== 'boolean') {
+      issues.push('subscribers.hashEmails must be true or false');
+    }
+    if (subs?.hashSalt !== undefined && typeof subs.hashSalt !== 'string') {
+      issues.push('subscribers.hashSalt must be a string');
+    }
+  }
+
+  return issues;
+}
+
+/** Find inkwell.config.{ts,js,json} in a directory */
+export function findConfigFile(dir: string): string | null {
+  for (const name of CONFIG_FILES) {
+    const candidate = join(dir, name);
+    if (existsSync(candidate)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Load a config file (.ts, .js, .mjs or .json). Uses the default export for modules.
+ * Relative database.path and sync export paths are resolved against the config file's directory.
+ */
+export async function loadConfigFile(filePath: string): Promise<DeepPartial<InkwellConfig>> {
+  const path = resolve(filePath);
+  if (!existsSync(path)) {
+    throw new Error(`Config file not found: ${path}`);
   }
 
+  let data: unknown;
+  const ext = extname(path);
+  try {
+    if (ext === '.json') {
+      data = JSON.parse(readFileSync(path, 'utf-8'));
+    } else {
+      const mod = await importConfigModule(path) as { default?: unknown };
+      data = mod.default ?? mod;
+    }
+  } catch (err) {
+    throw new Error(`Failed to load config ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  if (!isPlainObject(data)) {
+    throw new Error(`Config ${path} must export an object (got ${Array.isArray(data) ? 'array' : typeof data})`);
+  }
+
+  const config = data as DeepPartial<InkwellConfig>;
+  if (config.database?.path && !isAbsolute(config.database.path)) {
+    config.database = { ...config.database, path: resolve(dirname(path), config.database.path) };
+  }
+  if (Array.isArray(config.sync?.connectors)) {
+    config.sync.connectors = config.sync.connectors.map(c =>
+      c?.exportPath && !isAbsolute(c.exportPath) ? { ...c, exportPath: resolve(dirname(path), c.exportPath) } : c);
+  }
   return config;
 }
+
+async function importConfigModule(path: string): Promise<unknown> {
+  try {
+    return await import(pathToFileURL(path).href);
+  } catch (err) {
+    const code = (err as { code?: string }).code;
+    if (extname(path) !== '.ts' || code !== 'ERR_UNKNOWN_FILE_EXTENSION') throw err;
+  }
+
+  // Node can't import .ts natively here — transpile with TypeScript if it's installed
+  let ts: typeof import('typescript');
+  try {
+    ts = (await import('typescript')).default;
+  } catch {
+    throw new Error('this Node version cannot import .ts files. Install typescript, or use inkwell.config.js / inkwell.config.json');
+  }
+
+  const output = ts.transpileModule(readFileSync(path, 'utf-8'), {
+    compilerOptions: { module: ts.ModuleKind.ES2022, target: ts.ScriptTarget.ES2022 },
+    fileName: path,
+  }).outputText;
+
+  const tmp = join(tmpdir(), `inkwell-config-${process.pid}-${Date.now()}.mjs`);
+  writeFileSync(tmp, output);
+  try {
+    return await import(pathToFileURL(tmp).href);
+  } finally {
+    unlinkSync(tmp);
+  }
+}
+
+/**
+ * Config overrides from environment variables:
+ * INKWELL_NAME, INKWELL_DESCRIPTION, INKWELL_WATERMARK, INKWELL_DB_TYPE, INKWELL_DB_PATH,
+ * INKWELL_AUTH_ENABLED, INKWELL_OWNER_KEY, SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY,
+ * INKWELL_LLM_BASE_URL, INKWELL_LLM_MODEL, INKWELL_LLM_API_KEY,
+ * INKWELL_EMBEDDINGS_BASE_URL, INKWELL_EMBEDDINGS_MODEL, INKWELL_EMBEDDINGS_API_KEY,
+ * INKWELL_HASH_SUBSCRIBER_EMAILS, INKWELL_SUBSCRIBER_HASH_SALT.
+ * Setting SUPABASE_URL selects the Supabase adapter unless INKWELL_DB_TYPE says otherwise.
+ */
+export function envOverrides(env: NodeJS.ProcessEnv = process.env): DeepPartial<InkwellConfig> {
+  const out: DeepPartial<InkwellConfig> = {};
+  const database: DeepPartial<InkwellConfig['database']> = {};
+  const auth: DeepPartial<InkwellConfig['auth']> = {};
+  const llm: DeepPartial<NonNullable<InkwellConfig['llm']>> = {};
+  const embeddings: DeepPartial<NonNullable<InkwellConfig['embeddings']>> = {};
+  const subscribers: DeepPartial<NonNullable<InkwellConfig['subscribers']>> = {};
+
+  if (env.INKWELL_NAME) out.name = env.INKWELL_NAME;
+  if (env.INKWELL_DESCRIPTION) out.description = env.INKWELL_DESCRIPTION;
+  if (env.INKWELL_WATERMARK) out.watermark = env.INKWELL_WATERMARK;
+
+  if (env.SUPABASE_URL) {
+    database.type = 'supabase';
+    database.supabaseUrl = env.SUPABASE_URL;
+  }
+  if (env.SUPABASE_SERVICE_ROLE_KEY) database.supabaseKey = env.SUPABASE_SERVICE_ROLE_KEY;
+  if (env.INKWELL_DB_TYPE) database.type = env.INKWELL_DB_TYPE as InkwellConfig['database']['type'];
+  if (env.INKWELL_DB_PATH) database.path = resolve(env.INKWELL_DB_PATH);
+
+  if (env.INKWELL_AUTH_ENABLED) {
+    const v = env.INKWELL_AUTH_ENABLED.toLowerCase();
+    if (!['true', 'false', '1', '0'].includes(v)) {
+      throw new Error(`INKWELL_AUTH_ENABLED must be true or false (got "${env.INKWELL_AUTH_ENABLED}")`);
+    }
+    auth.enabled = v === 'true' || v === '1';
+  }
+  if (env.INKWELL_OWNER_KEY) auth.ownerKey = env.INKWELL_OWNER_KEY;
+
+  if (env.INKWELL_LLM_BASE_URL) llm.baseUrl = env.INKWELL_LLM_BASE_URL;
+  if (env.INKWELL_LLM_MODEL) llm.model = env.INKWELL_LLM_MODEL;
+  if (env.INKWELL_LLM_API_KEY) llm.apiKey = env.INKWELL_LLM_API_KEY;
+
+  if (env.INKWELL_EMBEDDINGS_BASE_URL) embeddings.baseUrl = env.INKWELL_EMBEDDINGS_BASE_URL;
+  if (env.INKWELL_EMBEDDINGS_MODEL) embeddings.model = env.INKWELL_EMBEDDINGS_MODEL;
+  if (env.INKWELL_EMBEDDINGS_API_KEY) embeddings.apiKey = env.INKWELL_EMBEDDINGS_API_KEY;
+
+  if (env.INKWELL_HASH_SUBSCRIBER_EMAILS) {
+    const v = env.INKWELL_HASH_SUBSCRIBER_EMAILS.toLowerCase();
+    if (!['true', 'false', '1', '0'].includes(v)) {
+      throw new Error(`INKWELL_HASH_SUBSCRIBER_EMAILS must be true or false (got "${env.INKWELL_HASH_SUBSCRIBER_EMAILS}")`);
+    }
+    subscribers.hashEmails = v === 'true' || v === '1';
+  }
+  if (env.INKWELL_SUBSCRIBER_HASH_SALT) subscribers.hashSalt = env.INKWELL_SUBSCRIBER_HASH_SALT;
+
+  if (Object.keys(database).length) out.database = database;
+  if (Object.keys(auth).length) out.auth = auth;
+  if (Object.keys(llm).length) out.llm = llm;
+  if (Object.keys(embeddings).length) out.embeddings = embeddings;
+  if (Object.keys(subscribers).length) out.subscribers = subscribers;
+  return out;
+}
@@ -0,0 +1,178 @@
+/**
+ * Export files from a directory or a .zip archive. ZIP entries are read from memory
+ * (stored or deflated, ZIP64 included) — nothing is extracted to disk.
+ */
+
+import { readFileSync, readdirSync, statSync } from 'fs';
+import { join, relative, sep } from 'path';
+import { inflateRawSync } from 'zlib';
+
+/** Files of an export; paths are relative with forward slashes */
+export interface ExportFiles {
+  /** Relative paths of every file */
+  list(): string[];
+  /** UTF-8 text of a file, or null when there is none */
+  read(path: string): string | null;
+}
+
+export function isZipPath(path: string): boolean {
+  return path.toLowerCase().endsWith('.zip');
+}
+
+export function openExport(path: string): ExportFiles {
+  return isZipPath(path) ? openZip(readFileSync(path)) : openDirectory(path);
+}
+
+/** Paths under `dir`, relative to it */
+export function subdirectory(files: ExportFiles, dir: string): ExportFiles {
+  if (!dir) return files;
+  const prefix = `${dir.replace(/\/+$/, '')}/`;
+  return {
+    list: () => files.list().filter(p => p.startsWith(prefix)).map(p => p.slice(prefix.length)),
+    read: (path) => files.read(prefix + path),
+  };
+}
+
+function openDirectory(root: string): ExportFiles {
+  let paths: string[] | null = null;
+  const walk = (dir: string, out: string[]) => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const full = join(dir, entry.name);
+      if (entry.isDirectory()) walk(full, out);
+      else if (entry.isFile()) out.push(relative(root, full).split(sep).join('/'));
+    }
+    return out;
+  };
+
+  return {
+    list: () => (paths ??= walk(root, [])),
+    read: (path) => {
+      const full = join(root, ...path.split('/'));
+      try {
+        return statSync(full).isFile() ? readFileSync(full, 'utf-8') : null;
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+// --- ZIP ---
+
+interface ZipEntry {
+  method: number;
+  flags: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+const EOCD = 0x06054b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const ZIP64_EOCD = 0x06064b50;
+const CENTRAL_HEADER = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+const MAX_32 = 0xffffffff;
+
+function invalid(message: string): never {
+  throw new Error(`Invalid ZIP archive: ${message}`);
+}
+
+/** Offsets and sizes come from the archive itself, so check them before every read */
+function need(buf: Buffer, pos: number, length: number, what: string): void {
+  if (!Number.isSafeInteger(pos) || pos < 0 || length < 0 || pos + length > buf.length) {
+    invalid(`${what} is out of bounds (truncated or corrupt)`);
+  }
+}
+
+/** Read an archive held in memory */
+export function openZip(buf: Buffer): ExportFiles {
+  // End of central directory: last 22 bytes plus a comment of up to 64 KB
+  let eocd = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 22 - 0xffff); i--) {
+    if (buf.readUInt32LE(i) === EOCD) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) invalid('end of central directory not found');
+
+  need(buf, eocd, 22, 'end of central directory');
+  let count = buf.readUInt16LE(eocd + 10);
+  let offset = buf.readUInt32LE(eocd + 16);
+  if ((count === 0xffff || offset === MAX_32) && eocd >= 20 && buf.readUInt32LE(eocd - 20) === ZIP64_LOCATOR) {
+    const zip64 = Number(buf.readBigUInt64LE(eocd - 20 + 8));
+    need(buf, zip64, 56, 'ZIP64 end of central directory');
+    if (buf.readUInt32LE(zip64) !== ZIP64_EOCD) invalid('ZIP64 end of central directory not found');
+    count = Number(buf.readBigUInt64LE(zip64 + 32));
+    offset = Number(buf.readBigUInt64LE(zip64 + 48));
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  let p = offset;
+  for (let n = 0; n < count; n++) {
+    need(buf, p, 46, 'central directory entry');
+    if (buf.readUInt32LE(p) !== CENTRAL_HEADER) invalid('bad central directory entry');
+    const flags = buf.readUInt16LE(p + 8);
+    const method = buf.readUInt16LE(p + 10);
+    let compressedSize = buf.readUInt32LE(p + 20);
+    const uncompressedSize = buf.readUInt32LE(p + 24);
+    const nameLength = buf.readUInt16LE(p + 28);
+    const extraLength = buf.readUInt16LE(p + 30);
+    const commentLength = buf.readUInt16LE(p + 32);
+    let localOffset = buf.readUInt32LE(p + 42);
+    need(buf, p + 46, nameLength + extraLength + commentLength, 'central directory entry');
+    const name = buf.toString('utf8', p + 46, p + 46 + nameLength);
+
+    // ZIP64 extra field: the 64-bit values, in order, for each 32-bit field set to 0xFFFFFFFF
+    let e = p + 46 + nameLength;
+    const extraEnd = e + extraLength;
+    while (e + 4 <= extraEnd) {
+      const id = buf.readUInt16LE(e);
+      const size = buf.readUInt16LE(e + 2);
+      if (id === 0x0001) {
+        need(buf, e + 4, size, 'ZIP64 extra field');
+        const end = e + 4 + size;
+        let q = e + 4;
+        if (uncompressedSize === MAX_32) q += 8;
+        if (compressedSize === MAX_32) {
+          if (q + 8 > end) invalid(`ZIP64 extra field of ${name} is too short`);
+          compressedSize = Number(buf.readBigUInt64LE(q));
+          q += 8;
+        }
+        if (localOffset === MAX_32) {
+          if (q + 8 > end) invalid(`ZIP64 extra field of ${name} is too short`);
+          localOffset = Number(buf.readBigUInt64LE(q));
+        }
+      }
+      e += 4 + size;
+    }
+
+    if (!name.endsWith('/')) entries.set(name, { method, flags, compressedSize, localOffset });
+    p = extraEnd + commentLength;
+  }
+  // Entries running into the end record mean the directory was cut short
+  if (p > eocd) invalid('central directory is truncated');
+
+  return {
+    list: () => [...entries.keys()],
+    read: (path) => {
+      const entry = entries.get(path);
+      if (!entry) return null;
+      if (entry.flags & 0x1) invalid(`${path} is encrypted`);
+      need(buf, entry.localOffset, 30, `local header of ${path}`);
+      if (buf.readUInt32LE(entry.localOffset) !== LOCAL_HEADER) invalid(`bad local header for ${path}`);
+      const start = entry.localOffset + 30 + buf.readUInt16LE(entry.localOffset + 26) + buf.readUInt16LE(entry.localOffset + 28);
+      need(buf, start, entry.compressedSize, `data of ${path}`);
+      const data = buf.subarray(start, start + entry.compressedSize);
+      if (entry.method === 0) return data.toString('utf-8');
+      if (entry.method === 8) {
+        try {
+          return inflateRawSync(data).toString('utf-8');
+        } catch {
+          return invalid(`${path} could not be inflated`);
+        }
+      }
+      return invalid(`${path} uses unsupported compression method ${entry.method}`);
+    },
+  };
+}
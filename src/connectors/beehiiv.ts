@@ -4,9 +4,20 @@
  * API docs: https://developers.beehiiv.com
  * Requires: API key + publication ID
  * Stats available via ?expand=stats
+ * Posts carry no last-modified time, so incremental imports fetch posts published after the cursor
+ * (newest first, stopping at the first older page).
+ * publish() creates a draft via POST /posts (Create Post API)
  */
 
-import type { NewsletterConnector, ConnectorConfig, ImportResult, ImportedArticle } from './interface.js';
+import type {
+  NewsletterConnector, ConnectorConfig, ImportResult, ImportedArticle, PublishableArticle, PublishResult,
+} from './interface.js';
+
+const DEFAULT_API_URL = 'https://api.beehiiv.com';
+
+function apiBase(config: ConnectorConfig): string {
+  return (config.apiUrl ?? DEFAULT_API_URL).replace(/\/+$/, '');
+}
 
 interface BeehiivPost {
   id: string;
@@ -45,7 +56,7 @@ export class BeehiivConnector implements NewsletterConnector {
 
     try {
       const res = await fetch(
-        `https://api.beehiiv.com/v2/publications/${config.publicationId}/posts?limit=1`,
+        `${apiBase(config)}/v2/publications/${config.publicationId}/posts?limit=1`,
         { headers: { Authorization: `Bearer ${config.apiKey}` } }
       );
       if (!res.ok) {
@@ -64,9 +75,12 @@ export class BeehiivConnector implements NewsletterConnector {
     let errors = 0;
     let page = 1;
     let totalFetched = 0;
+    const sinceTs = config.since ? Math.floor(new Date(config.since).getTime() / 1000) : 0;
+    let latest = sinceTs;
 
     while (true) {
-      const url = `https://api.beehiiv.com/v2/publications/${publicationId}/posts?expand=stats&status=confirmed&limit=100&page=${page}`;
+      const url = `${apiBase(config)}/v2/publications/${publicationId}/posts?expand=stats&status=confirmed&limit=100&page=${page}`
+        + '&order_by=publish_date&direction=desc';
 
       const res = await fetch(url, {
         headers: { Authorization: `Bearer ${apiKey}` },
@@ -79,9 +93,11 @@ export class BeehiivConnector implements NewsletterConnector {
       }
 
       const data = await res.json() as BeehiivResponse;
-      totalFetched += data.data.length;
+      const fresh = data.data.filter(post => !sinceTs || post.publish_date > sinceTs);
+      totalFetched += fresh.length;
 
-      for (const post of data.data) {
+      for (const post of fresh) {
+        if (post.publish_date > latest) latest = post.publish_date;
         try {
           const article: ImportedArticle = {
             title: post.title,
@@ -109,11 +125,12 @@ export class BeehiivConnector implements NewsletterConnector {
         }
       }
 
-      if (page >= data.total_pages) break;
+      // Newest first: once a page reaches already-synced posts, the rest are older still
+      if (page >= data.total_pages || fresh.length < data.data.length) break;
       page++;
     }
 
-    messages.push(`Fetched ${totalFetched} posts from Beehiiv API`);
+    messages.push(`Fetched ${totalFetched} posts from Beehiiv API${config.since ? ` published since ${config.since}` : ''}`);
 
     return {
       articles,
@@ -124,6 +141,34 @@ export class BeehiivConnector implements NewsletterConnector {
         errors,
       },
       messages,
+      cursor: latest ? new Date(latest * 1000).toISOString() : undefined,
     };
   }
+
+  async publish(article: PublishableArticle, config: ConnectorConfig): Promise<PublishResult> {
+    if (!config.apiKey || !config.publicationId) {
+      throw new Error('Beehiiv publish needs apiKey and publicationId');
+    }
+
+    const res = await fetch(`${apiBase(config)}/v2/publications/${config.publicationId}/posts`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${config.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        title: article.title,
+        subtitle: article.subtitle,
+        body_content: article.html,
+        status: 'draft',
+      }),
+    });
+    if (!res.ok) {
+      throw new Error(`Beehiiv API returned ${res.status}: ${await res.text()}`);
+    }
+
+    const data = await res.json() as { data: { id: string; web_url?: string; status?: string } };
+    if (!data.data?.id) throw new Error('Beehiiv API response has no post');
+    return { external_id: data.data.id, url: data.data.web_url || undefined, status: data.data.status ?? 'draft' };
+  }
 }
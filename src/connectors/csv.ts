@@ -0,0 +1,61 @@
+/**
+ * RFC 4180 CSV parser — quoted fields may hold commas, doubled quotes and line breaks.
+ * A leading UTF-8 BOM is dropped; CRLF and LF line endings are both accepted.
+ */
+
+/** Rows of fields, blank lines skipped */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length) endRow();
+
+  return rows;
+}
+
+/** Records keyed by the (trimmed) header row; missing trailing fields are '' */
+export function parseCsv(text: string): Array<Record<string, string>> {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) return [];
+  const columns = header.map(h => h.trim());
+  return rows.map(values => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, j) => {
+      record[column] = (values[j] ?? '').trim();
+    });
+    return record;
+  });
+}
@@ -3,7 +3,8 @@
  * Port of backfill_article_structure.py to TypeScript.
  */
 
-import type { DatabaseAdapter } from '../types.js';
+import type { DatabaseAdapter, LlmProvider } from '../types.js';
+import { linkExpertMentions } from './expert-matching.js';
 
 export interface TagPattern {
   name: string;
@@ -14,11 +15,21 @@ export interface TagPattern {
 export interface EnrichmentResult {
   articleId: string;
   tags: number;
+  /** Experts newly linked as confirmed */
   experts: number;
+  /** Expert matches left for review_expert_matches */
+  experts_pending: number;
   signal: string;
   tl_dr: number;
+  /** Where the TL;DR came from: the configured LLM, or the regex heuristics */
+  tl_dr_by: 'llm' | 'heuristic';
+  /** Where the signal came from — tracked apart from the TL;DR since either LLM call can fail alone */
+  signal_by: 'llm' | 'heuristic';
 }
 
+/** Article text sent to the LLM is capped to keep prompts within small local context windows */
+const LLM_INPUT_CHARS = 12_000;
+
 // Default signal detection patterns
 const BULLISH_PATTERNS = [
   /\b(growth|opportunity|expansion|invest\w+|record|milestone|launch\w+|surge|winning|dominant|leader|boom)\b/gi,
@@ -32,12 +43,15 @@ const BEARISH_PATTERNS = [
 
 /**
  * Enrich a single article: detect tags, link experts, determine signal, extract TL;DR.
+ * With an LLM provider the TL;DR and signal come from the model; if it fails or returns
+ * something unusable, the heuristics below are used instead.
  */
 export async function enrichArticle(
   db: DatabaseAdapter,
   articleId: string,
   content: string,
   tagPatterns: TagPattern[],
+  llm?: LlmProvider,
 ): Promise<EnrichmentResult> {
   const fullText = content.toLowerCase();
 
@@ -63,7 +77,13 @@ export async function enrichArticle(
         tagId = String(created.id);
       }
 
-      // Link to article (ignore duplicate errors)
+      // Link to article; only new links count, so re-enriching an article doesn't inflate the total
+      const linked = await db.queryOne({
+        table: 'article_tags',
+        select: ['tag_id'],
+        filters: [{ column: 'article_id', op: 'eq', value: articleId }, { column: 'tag_id', op: 'eq', value: tagId }],
+      });
+      if (linked) continue;
       try {
         await db.raw(
           'INSERT OR IGNORE INTO article_tags (article_id, tag_id) VALUES (?, ?)',
@@ -76,40 +96,24 @@ export async function enrichArticle(
     }
   }
 
-  // 2. Detect experts by name matching
-  let expertCount = 0;
-  const allExperts = await db.query({ table: 'experts' });
-  for (const expert of allExperts) {
-    const name = String(expert.name ?? '');
-    const lastName = name.split(' ').pop() ?? '';
-    if (lastName.length >= 3) {
-      const escapedName = lastName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-      const nameRegex = new RegExp(`\\b${escapedName}\\b`, 'i');
-      if (nameRegex.test(fullText)) {
-        try {
-          await db.raw(
-            'INSERT OR IGNORE INTO article_experts (article_id, expert_id) VALUES (?, ?)',
-            [articleId, String(expert.id)]
-          );
-          // Update citation count
-          await db.update(
-            'experts',
-            [{ column: 'id', op: 'eq', value: String(expert.id) }],
-            { times_cited: (Number(expert.times_cited) || 0) + 1 }
-          );
-          expertCount++;
-        } catch {
-          // Already linked
-        }
-      }
-    }
-  }
+  // 2. Link experts mentioned by full name or alias (low-confidence matches wait for review)
+  const experts = await linkExpertMentions(db, articleId, plainText(content));
+
+  // 3 + 4. Editorial signal and TL;DR — LLM first when configured
+  let signal: string | null = null;
+  let bullets: string[] = [];
 
-  // 3. Detect editorial signal
-  const signal = detectSignal(fullText);
+  // Endpoint down or timed out — each falls back to its heuristic on its own
+  if (llm) {
+    const text = plainText(content).slice(0, LLM_INPUT_CHARS);
+    bullets = await llmTlDr(llm, text).catch(() => []);
+    signal = await llmSignal(llm, text).catch(() => null);
+  }
 
-  // 4. Extract TL;DR (bullet points from content)
-  const bullets = extractBullets(content);
+  const tlDrBy: EnrichmentResult['tl_dr_by'] = bullets.length ? 'llm' : 'heuristic';
+  const signalBy: EnrichmentResult['signal_by'] = signal ? 'llm' : 'heuristic';
+  signal = signal ?? detectSignal(fullText);
+  if (!bullets.length) bullets = extractBullets(content);
 
   // 5. Update article
   const updatePayload: Record<string, unknown> = {
@@ -124,12 +128,46 @@ export async function enrichArticle(
   return {
     articleId,
     tags: tagCount,
-    experts: expertCount,
+    experts: experts.confirmed,
+    experts_pending: experts.pending,
     signal,
     tl_dr: bullets.length,
+    tl_dr_by: tlDrBy,
+    signal_by: signalBy,
   };
 }
 
+function plainText(html: string): string {
+  return html.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+async function llmTlDr(llm: LlmProvider, text: string): Promise<string[]> {
+  const result = await llm.complete({
+    systemPrompt: 'You summarize newsletter articles. Reply with 3 to 5 bullet points, one per line, each starting with "- ". No other text.',
+    messages: [{ role: 'user', text: `Summarize this article as a TL;DR:\n\n${text}` }],
+    maxTokens: 400,
+    temperature: 0.2,
+  });
+
+  return result.text
+    .split('\n')
+    .map(line => line.match(/^\s*(?:[-*•]|\d+[.)])\s+(.+)$/)?.[1]?.trim())
+    .filter((line): line is string => !!line && line.length > 10)
+    .slice(0, 8);
+}
+
+async function llmSignal(llm: LlmProvider, text: string): Promise<string | null> {
+  const result = await llm.complete({
+    systemPrompt: 'You classify the editorial conclusion of newsletter articles. Answer with exactly one word: bullish, bearish or neutral.',
+    messages: [{ role: 'user', text }],
+    maxTokens: 5,
+    temperature: 0,
+  });
+
+  const match = result.text.toLowerCase().match(/\b(bullish|bearish|neutral)\b/);
+  return match ? match[1] : null;
+}
+
 function detectSignal(text: string): string {
   let bullishCount = 0;
   let bearishCount = 0;
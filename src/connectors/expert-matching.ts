@@ -0,0 +1,199 @@
+/**
+ * Expert mention detection for enrichment. An expert matches on their full name or an alias
+ * (accents and case ignored). A name or alias is only confirmed when the expert's affiliation
+ * also appears in the article, since common names ("John Smith") are shared; a handle is
+ * confirmed on its own, and a bare last name only counts next to the affiliation. Matches below
+ * AUTO_CONFIRM are linked as 'pending' for review_expert_matches.
+ */
+
+import type { DatabaseAdapter } from '../types.js';
+
+/** Matches at or above this confidence are linked as confirmed */
+export const AUTO_CONFIRM = 0.8;
+
+/** How far (in characters) from a mention the affiliation counts as "next to it" */
+const NEAR_CHARS = 300;
+const CONTEXT_CHARS = 80;
+
+export interface ExpertCandidate {
+  id: string;
+  name: string;
+  affiliation: string | null;
+  aliases: Array<{ alias: string; kind: string }>;
+}
+
+export interface ExpertMention {
+  expertId: string;
+  /** Name, alias or handle that matched */
+  matchedOn: string;
+  confidence: number;
+  /** Text around the first mention */
+  context: string;
+}
+
+/** Lower-case and strip accents without changing the length, so indexes map back to the original */
+function fold(text: string): string {
+  let out = '';
+  for (const ch of text) {
+    const folded = ch.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+    out += folded.length === ch.length ? folded : ch.toLowerCase().length === ch.length ? ch.toLowerCase() : ch;
+  }
+  return out;
+}
+
+function phraseRegex(phrase: string): RegExp | null {
+  const words = fold(phrase).trim().split(/\s+/).filter(Boolean);
+  if (!words.length) return null;
+  const body = words.map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+');
+  return new RegExp(`(?<![\\p{L}\\p{N}_])${body}(?![\\p{L}\\p{N}_])`, 'gu');
+}
+
+function positions(folded: string, phrase: string): number[] {
+  const regex = phraseRegex(phrase);
+  return regex ? [...folded.matchAll(regex)].map(m => m.index ?? 0) : [];
+}
+
+/** "Partner, Acme Ventures (Paris)" → ["Partner", "Acme Ventures", "Paris"]; short fragments dropped */
+function affiliationParts(affiliation: string | null): string[] {
+  if (!affiliation) return [];
+  return affiliation.split(/[,;|()/]|\s+(?:at|@|-|–|—)\s+/i).map(p => p.trim()).filter(p => p.length >= 3);
+}
+
+function context(text: string, at: number): string {
+  const start = Math.max(0, at - CONTEXT_CHARS);
+  const end = Math.min(text.length, at + CONTEXT_CHARS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+}
+
+/** The best mention of each expert in `text` (plain text, not HTML) */
+export function findExpertMentions(text: string, experts: ExpertCandidate[]): ExpertMention[] {
+  const folded = fold(text);
+  const found: Array<ExpertMention & { at: number; affiliated: boolean }> = [];
+
+  for (const expert of experts) {
+    const affiliation = affiliationParts(expert.affiliation).flatMap(p => positions(folded, p));
+    const near = (at: number) => affiliation.some(a => Math.abs(a - at) <= NEAR_CHARS);
+
+    let best: (ExpertMention & { at: number; affiliated: boolean }) | null = null;
+    const consider = (matchedOn: string, at: number, confidence: number, affiliated: boolean) => {
+      if (!best || confidence > best.confidence) {
+        best = { expertId: expert.id, matchedOn, confidence, context: context(text, at), at, affiliated };
+      }
+    };
+
+    for (const name of [{ alias: expert.name, kind: 'name' }, ...expert.aliases]) {
+      for (const at of positions(folded, name.alias)) {
+        if (name.kind === 'handle') consider(name.alias, at, 0.9, near(at));
+        else if (near(at)) consider(name.alias, at, 0.95, true);
+        else if (affiliation.length) consider(name.alias, at, 0.9, true);
+        // Name only: left for review however full the name
+        else consider(name.alias, at, /\s/.test(name.alias.trim()) ? 0.7 : 0.6, false);
+      }
+    }
+
+    // A bare last name is only a candidate with the affiliation next to it
+    const parts = expert.name.trim().split(/\s+/);
+    const lastName = parts[parts.length - 1];
+    if (!best && parts.length > 1 && lastName.length >= 3) {
+      for (const at of positions(folded, lastName)) {
+        if (near(at)) consider(lastName, at, 0.5, true);
+      }
+    }
+
+    if (best) found.push(best);
+  }
+
+  // Two experts matching on the same name can't both be right unless the affiliation says so
+  const byName = new Map<string, number>();
+  for (const m of found) byName.set(fold(m.matchedOn), (byName.get(fold(m.matchedOn)) ?? 0) + 1);
+  return found.map(({ at: _at, affiliated, ...m }) => ({
+    ...m,
+    confidence: (byName.get(fold(m.matchedOn)) ?? 0) > 1 && !affiliated ? m.confidence / 2 : m.confidence,
+  }));
+}
+
+/** Experts with their aliases, ready for findExpertMentions */
+export async function loadExpertCandidates(db: DatabaseAdapter): Promise<ExpertCandidate[]> {
+  const experts = await db.query({ table: 'experts', select: ['id', 'name', 'affiliation'] });
+  const aliases = await db.query({ table: 'expert_aliases', select: ['expert_id', 'alias', 'kind'] });
+  const byExpert = new Map<string, Array<{ alias: string; kind: string }>>();
+  for (const a of aliases) {
+    const list = byExpert.get(String(a.expert_id)) ?? [];
+    list.push({ alias: String(a.alias), kind: String(a.kind) });
+    byExpert.set(String(a.expert_id), list);
+  }
+  return experts.map(e => ({
+    id: String(e.id),
+    name: String(e.name ?? ''),
+    affiliation: e.affiliation ? String(e.affiliation) : null,
+    aliases: byExpert.get(String(e.id)) ?? [],
+  }));
+}
+
+/** times_cited is the number of confirmed article links */
+export async function recountCitations(db: DatabaseAdapter, expertIds: Iterable<string>): Promise<void> {
+  for (const id of new Set(expertIds)) {
+    const count = await db.count('article_experts', [
+      { column: 'expert_id', op: 'eq', value: id },
+      { column: 'status', op: 'eq', value: 'confirmed' },
+    ]);
+    await db.update('experts', [{ column: 'id', op: 'eq', value: id }], { times_cited: count });
+  }
+}
+
+/**
+ * Link the experts mentioned in an article. New links are confirmed or pending by confidence;
+ * a pending link is confirmed when a later match is confident enough. Confirmed and rejected
+ * links are left alone.
+ */
+export async function linkExpertMentions(
+  db: DatabaseAdapter,
+  articleId: string,
+  text: string,
+): Promise<{ confirmed: number; pending: number }> {
+  const mentions = findExpertMentions(text, await loadExpertCandidates(db));
+  if (!mentions.length) return { confirmed: 0, pending: 0 };
+
+  const existing = new Map(
+    (await db.query({
+      table: 'article_experts',
+      select: ['expert_id', 'status'],
+      filters: [{ column: 'article_id', op: 'eq', value: articleId }],
+    })).map(r => [String(r.expert_id), String(r.status)]),
+  );
+
+  let confirmed = 0;
+  let pending = 0;
+  const changed: string[] = [];
+
+  for (const m of mentions) {
+    const status = m.confidence >= AUTO_CONFIRM ? 'confirmed' : 'pending';
+    const current = existing.get(m.expertId);
+    const values = { status, confidence: Math.round(m.confidence * 100) / 100, matched_on: m.matchedOn, context: m.context };
+
+    if (!current) {
+      await db.raw(
+        'INSERT INTO article_experts (article_id, expert_id, status, confidence, matched_on, context) VALUES (?, ?, ?, ?, ?, ?)',
+        [articleId, m.expertId, values.status, values.confidence, values.matched_on, values.context]
+      );
+    } else if (current === 'pending' && status === 'confirmed') {
+      await db.update(
+        'article_experts',
+        [{ column: 'article_id', op: 'eq', value: articleId }, { column: 'expert_id', op: 'eq', value: m.expertId }],
+        values,
+      );
+    } else {
+      continue;
+    }
+
+    if (status === 'confirmed') {
+      confirmed++;
+      changed.push(m.expertId);
+    } else {
+      pending++;
+    }
+  }
+
+  await recountCitations(db, changed);
+  return { confirmed, pending };
+}
@@ -2,11 +2,14 @@
  * Ghost connector — imports via Content API or JSON export.
  *
  * Content API: read-only, requires API key (simple hex string)
- * Admin API: CRUD, requires JWT (for future publish support)
+ * Admin API: CRUD, requires a short-lived JWT signed with the Admin API key ("id:secret") — used by publish()
  */
 
 import { readFileSync, existsSync } from 'fs';
-import type { NewsletterConnector, ConnectorConfig, ImportResult, ImportedArticle } from './interface.js';
+import { createHmac } from 'crypto';
+import type {
+  NewsletterConnector, ConnectorConfig, ImportResult, ImportedArticle, PublishableArticle, PublishResult,
+} from './interface.js';
 
 interface GhostPost {
   id: string;
@@ -16,6 +19,7 @@ interface GhostPost {
   html: string;
   status: string;
   published_at: string | null;
+  updated_at: string | null;
   url: string;
   tags?: Array<{ name: string; slug: string }>;
   authors?: Array<{ name: string; slug: string }>;
@@ -60,7 +64,38 @@ export class GhostConnector implements NewsletterConnector {
     if (config.exportPath) {
       return this.importFromJSON(config.exportPath);
     }
-    return this.importFromAPI(config.apiUrl!, config.apiKey!);
+    return this.importFromAPI(config.apiUrl!, config.apiKey!, config.since);
+  }
+
+  async publish(article: PublishableArticle, config: ConnectorConfig): Promise<PublishResult> {
+    if (!config.apiUrl || !config.apiKey) {
+      throw new Error('Ghost publish needs apiUrl (site URL) and apiKey (Admin API key, "id:secret")');
+    }
+
+    const res = await fetch(`${config.apiUrl.replace(/\/+$/, '')}/ghost/api/admin/posts/?source=html`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Ghost ${adminToken(config.apiKey)}`,
+        'Accept-Version': 'v5.0',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        posts: [{
+          title: article.title,
+          custom_excerpt: article.subtitle,
+          html: article.html,
+          status: 'draft',
+        }],
+      }),
+    });
+    if (!res.ok) {
+      throw new Error(`Ghost Admin API returned ${res.status}: ${await res.text()}`);
+    }
+
+    const data = await res.json() as { posts: Array<{ id: string; url?: string; status?: string }> };
+    const post = data.posts?.[0];
+    if (!post?.id) throw new Error('Ghost Admin API response has no post');
+    return { external_id: post.id, url: post.url, status: post.status ?? 'draft' };
   }
 
   private async importFromJSON(exportPath: string): Promise<ImportResult> {
@@ -87,7 +122,8 @@ export class GhostConnector implements NewsletterConnector {
           type: 'edition',
           published_at: post.published_at || undefined,
           url: post.url || undefined,
-          external_id: post.uuid || post.id,
+          external_id: post.id,
+          updated_at: post.updated_at || undefined,
         };
         articles.push(article);
       } catch (err) {
@@ -103,15 +139,20 @@ export class GhostConnector implements NewsletterConnector {
     };
   }
 
-  private async importFromAPI(apiUrl: string, apiKey: string): Promise<ImportResult> {
+  private async importFromAPI(apiUrl: string, apiKey: string, since?: string): Promise<ImportResult> {
     const messages: string[] = [];
     const articles: ImportedArticle[] = [];
     let errors = 0;
     let page = 1;
     let totalFetched = 0;
+    let cursor = since;
+
+    // NQL filter; with a cursor only posts edited after it come back
+    const filter = since ? `status:published+updated_at:>'${since}'` : 'status:published';
 
     while (true) {
-      const url = `${apiUrl}/ghost/api/content/posts/?key=${apiKey}&include=tags,authors&limit=100&page=${page}&filter=status:published`;
+      const url = `${apiUrl}/ghost/api/content/posts/?key=${apiKey}&include=tags,authors&limit=100&page=${page}`
+        + `&order=updated_at%20asc&filter=${encodeURIComponent(filter)}`;
 
       const res = await fetch(url);
       if (!res.ok) {
@@ -133,9 +174,11 @@ export class GhostConnector implements NewsletterConnector {
             type: 'edition',
             published_at: post.published_at || undefined,
             url: post.url || undefined,
-            external_id: post.uuid || post.id,
+            external_id: post.id,
+            updated_at: post.updated_at || undefined,
           };
           articles.push(article);
+          if (post.updated_at && (!cursor || post.updated_at > cursor)) cursor = post.updated_at;
         } catch (err) {
           messages.push(`Error: ${err instanceof Error ? err.message : String(err)}`);
           errors++;
@@ -146,12 +189,27 @@ export class GhostConnector implements NewsletterConnector {
       page++;
     }
 
-    messages.push(`Fetched ${totalFetched} posts from Ghost Content API`);
+    messages.push(`Fetched ${totalFetched} posts from Ghost Content API${since ? ` updated since ${since}` : ''}`);
 
     return {
       articles,
       stats: { total: totalFetched, imported: articles.length, skipped: 0, errors },
       messages,
+      cursor,
     };
   }
 }
+
+/** Admin API JWT: HS256 over the hex-decoded secret, valid for 5 minutes */
+function adminToken(adminKey: string): string {
+  const [id, secret] = adminKey.split(':');
+  if (!id || !secret || !/^[0-9a-f]+$/i.test(secret)) {
+    throw new Error('Ghost Admin API key must look like "<id>:<hex secret>"');
+  }
+
+  const b64url = (obj: object) => Buffer.from(JSON.stringify(obj)).toString('base64url');
+  const iat = Math.floor(Date.now() / 1000);
+  const unsigned = `${b64url({ alg: 'HS256', typ: 'JWT', kid: id })}.${b64url({ iat, exp: iat + 300, aud: '/admin/' })}`;
+  const signature = createHmac('sha256', Buffer.from(secret, 'hex')).update(unsigned).digest('base64url');
+  return `${unsigned}.${signature}`;
+}
@@ -4,7 +4,7 @@ export interface ImportedArticle {
   title: string;
   subtitle?: string;
   content?: string;
-  status: 'draft' | 'published' | 'archived';
+  status: 'drafting' | 'published' | 'archived';
   type: 'edition' | 'analysis' | 'special';
   number?: number;
   published_at?: string;
@@ -15,14 +15,36 @@ export interface ImportedArticle {
   editorial_angle?: string;
   /** External ID from source platform */
   external_id?: string;
+  /** Last-modified time on the platform (ISO 8601), when it reports one */
+  updated_at?: string;
 }
 
 export interface ConnectorConfig {
   /** Path to export directory or API credentials */
   exportPath?: string;
   apiKey?: string;
+  /** Site URL (Ghost) or API base URL override (Beehiiv, Kit — e.g. a local stub) */
   apiUrl?: string;
   publicationId?: string;
+  /** Incremental import: only fetch posts changed after this ISO 8601 time (API connectors) */
+  since?: string;
+}
+
+/** An Inkwell article ready to send to a platform */
+export interface PublishableArticle {
+  title: string;
+  subtitle?: string;
+  /** Body converted to HTML */
+  html: string;
+}
+
+export interface PublishResult {
+  /** Post/broadcast ID on the platform */
+  external_id: string;
+  /** Public or preview URL, when the platform returns one */
+  url?: string;
+  /** Status on the platform — drafts unless the platform says otherwise */
+  status: string;
 }
 
 export interface ImportResult {
@@ -34,6 +56,8 @@ export interface ImportResult {
     errors: number;
   };
   messages: string[];
+  /** High-water mark for the next incremental import; unset when the connector can't filter (file exports) */
+  cursor?: string;
 }
 
 export interface NewsletterConnector {
@@ -41,4 +65,6 @@ export interface NewsletterConnector {
   displayName: string;
   import(config: ConnectorConfig): Promise<ImportResult>;
   validate(config: ConnectorConfig): Promise<{ valid: boolean; message: string }>;
+  /** Create a draft post on the platform (connectors that support export) */
+  publish?(article: PublishableArticle, config: ConnectorConfig): Promise<PublishResult>;
 }
@@ -4,9 +4,20 @@
  * API docs: https://developers.kit.com
  * Requires: API secret
  * Stats available per broadcast via /broadcasts/{id}/stats
+ * Broadcasts carry no last-modified time; incremental imports skip broadcasts created before the cursor
+ * (and their per-broadcast stats calls).
+ * publish() creates an unscheduled (draft) broadcast
  */
 
-import type { NewsletterConnector, ConnectorConfig, ImportResult, ImportedArticle } from './interface.js';
+import type {
+  NewsletterConnector, ConnectorConfig, ImportResult, ImportedArticle, PublishableArticle, PublishResult,
+} from './interface.js';
+
+const DEFAULT_API_URL = 'https://api.kit.com';
+
+function apiBase(config: ConnectorConfig): string {
+  return (config.apiUrl ?? DEFAULT_API_URL).replace(/\/+$/, '');
+}
 
 interface KitBroadcast {
   id: number;
@@ -15,6 +26,7 @@ interface KitBroadcast {
   content: string | null;
   published_at: string | null;
   send_at: string | null;
+  created_at: string | null;
 }
 
 interface KitBroadcastStats {
@@ -36,7 +48,7 @@ export class KitConnector implements NewsletterConnector {
     }
 
     try {
-      const res = await fetch(`https://api.kit.com/v3/broadcasts?api_secret=${config.apiKey}&page=1&per_page=1`);
+      const res = await fetch(`${apiBase(config)}/v3/broadcasts?api_secret=${config.apiKey}&page=1&per_page=1`);
       if (!res.ok) {
         return { valid: false, message: `API returned ${res.status}: ${await res.text()}` };
       }
@@ -53,10 +65,12 @@ export class KitConnector implements NewsletterConnector {
     let errors = 0;
     let page = 1;
     let totalFetched = 0;
+    let older = 0;
+    let cursor = config.since;
 
     // Fetch broadcasts
     while (true) {
-      const url = `https://api.kit.com/v3/broadcasts?api_secret=${apiSecret}&page=${page}&per_page=50`;
+      const url = `${apiBase(config)}/v3/broadcasts?api_secret=${apiSecret}&page=${page}&per_page=50`;
 
       const res = await fetch(url);
       if (!res.ok) {
@@ -69,6 +83,13 @@ export class KitConnector implements NewsletterConnector {
       totalFetched += data.broadcasts.length;
 
       for (const broadcast of data.broadcasts) {
+        const createdAt = broadcast.created_at ? new Date(broadcast.created_at).toISOString() : undefined;
+        if (config.since && createdAt && createdAt <= config.since) {
+          older++;
+          continue;
+        }
+        if (createdAt && (!cursor || createdAt > cursor)) cursor = createdAt;
+
         try {
           // Fetch stats for each broadcast
           let openRate: number | undefined;
@@ -77,7 +98,7 @@ export class KitConnector implements NewsletterConnector {
 
           try {
             const statsRes = await fetch(
-              `https://api.kit.com/v3/broadcasts/${broadcast.id}/stats?api_secret=${apiSecret}`
+              `${apiBase(config)}/v3/broadcasts/${broadcast.id}/stats?api_secret=${apiSecret}`
             );
             if (statsRes.ok) {
               const statsData = await statsRes.json() as KitBroadcastStats;
@@ -116,12 +137,39 @@ export class KitConnector implements NewsletterConnector {
       page++;
     }
 
-    messages.push(`Fetched ${totalFetched} broadcasts from Kit API`);
+    messages.push(`Fetched ${totalFetched} broadcasts from Kit API${older ? ` (${older} created before ${config.since} skipped)` : ''}`);
 
     return {
       articles,
-      stats: { total: totalFetched, imported: articles.length, skipped: 0, errors },
+      stats: { total: totalFetched, imported: articles.length, skipped: older, errors },
       messages,
+      cursor,
     };
   }
+
+  async publish(article: PublishableArticle, config: ConnectorConfig): Promise<PublishResult> {
+    if (!config.apiKey) {
+      throw new Error('Kit publish needs apiKey (API secret)');
+    }
+
+    // No send_at: the broadcast stays a draft until scheduled in Kit
+    const res = await fetch(`${apiBase(config)}/v3/broadcasts`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        api_secret: config.apiKey,
+        subject: article.title,
+        description: article.subtitle,
+        content: article.html,
+        public: false,
+      }),
+    });
+    if (!res.ok) {
+      throw new Error(`Kit API returned ${res.status}: ${await res.text()}`);
+    }
+
+    const data = await res.json() as { broadcast: { id: number } };
+    if (!data.broadcast?.id) throw new Error('Kit API response has no broadcast');
+    return { external_id: String(data.broadcast.id), status: 'draft' };
+  }
 }
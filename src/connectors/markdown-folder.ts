@@ -0,0 +1,159 @@
+/**
+ * Markdown folder connector — imports a directory (or .zip) of .md files with YAML front matter.
+ * Front matter gives title/subtitle/date/status/type/number/url; the body is kept as markdown
+ * in `content`. Files are matched on re-import by front matter `id`/`slug`, else their path.
+ */
+
+import { existsSync } from 'fs';
+import type { NewsletterConnector, ConnectorConfig, ImportResult, ImportedArticle } from './interface.js';
+import { openExport } from './archive.js';
+
+const STATUSES: Record<string, ImportedArticle['status']> = {
+  published: 'published',
+  publish: 'published',
+  live: 'published',
+  draft: 'drafting',
+  drafting: 'drafting',
+  archived: 'archived',
+};
+const TYPES = ['edition', 'analysis', 'special'];
+
+function yamlScalar(raw: string): unknown {
+  const value = raw.trim();
+  const quoted = value.match(/^"((?:[^"\\]|\\.)*)"$|^'((?:[^']|'')*)'$/);
+  if (quoted) return quoted[1] != null ? quoted[1].replace(/\\(.)/g, '$1') : quoted[2].replace(/''/g, "'");
+  const bare = value.replace(/\s+#.*$/, '');
+  if (/^(true|yes)$/i.test(bare)) return true;
+  if (/^(false|no)$/i.test(bare)) return false;
+  if (/^(null|~)?$/i.test(bare)) return null;
+  if (/^-?\d+(\.\d+)?$/.test(bare)) return Number(bare);
+  return bare;
+}
+
+/**
+ * Split `---` front matter from the body. Handles the flat subset articles use: scalars,
+ * quoted strings, [inline] and "- item" lists. Nested maps and multi-line strings are ignored.
+ */
+export function parseFrontMatter(source: string): { data: Record<string, unknown>; body: string } {
+  const text = source.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const match = text.match(/^---\n([\s\S]*?)\n(?:---|\.\.\.)[ \t]*(?:\n|$)/);
+  if (!match) return { data: {}, body: text };
+
+  const data: Record<string, unknown> = {};
+  let listKey: string | null = null;
+  for (const line of match[1].split('\n')) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      const list = Array.isArray(data[listKey]) ? data[listKey] as unknown[] : [];
+      list.push(yamlScalar(item[1]));
+      data[listKey] = list;
+      continue;
+    }
+
+    const kv = line.match(/^([A-Za-z_][\w-]*)\s*:(?:\s+(.*))?$/);
+    if (!kv) continue;
+    const [, key, raw = ''] = kv;
+    listKey = raw.trim() ? null : key;
+    data[key] = /^\[.*\]$/.test(raw.trim())
+      ? raw.trim().slice(1, -1).split(',').map(yamlScalar).filter(v => v !== null)
+      : yamlScalar(raw);
+  }
+
+  return { data, body: text.slice(match[0].length) };
+}
+
+function pick(data: Record<string, unknown>, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = data[key];
+    if (value != null && value !== '' && !Array.isArray(value)) return String(value);
+  }
+  return undefined;
+}
+
+function isoDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const t = Date.parse(value);
+  return Number.isNaN(t) ? undefined : new Date(t).toISOString();
+}
+
+export class MarkdownFolderConnector implements NewsletterConnector {
+  platform = 'markdown';
+  displayName = 'Markdown folder';
+
+  async validate(config: ConnectorConfig): Promise<{ valid: boolean; message: string }> {
+    if (!config.exportPath) {
+      return { valid: false, message: 'exportPath is required (folder or .zip of Markdown files)' };
+    }
+    if (!existsSync(config.exportPath)) {
+      return { valid: false, message: `Not found: ${config.exportPath}` };
+    }
+    return { valid: true, message: 'Markdown folder found' };
+  }
+
+  async import(config: ConnectorConfig): Promise<ImportResult> {
+    const files = openExport(config.exportPath!);
+    const paths = files.list()
+      .filter(p => /\.(md|markdown)$/i.test(p) && !p.split('/').some(seg => seg.startsWith('.') || seg === 'node_modules'))
+      .sort();
+
+    const messages: string[] = [`Found ${paths.length} Markdown files`];
+    const articles: ImportedArticle[] = [];
+    let skipped = 0;
+    let errors = 0;
+
+    for (const path of paths) {
+      try {
+        const article = this.toArticle(path, files.read(path) ?? '');
+        if (article) {
+          articles.push(article);
+        } else {
+          messages.push(`Skipped ${path}: no title in front matter or heading`);
+          skipped++;
+        }
+      } catch (err) {
+        messages.push(`Error processing ${path}: ${err instanceof Error ? err.message : String(err)}`);
+        errors++;
+      }
+    }
+
+    return {
+      articles,
+      stats: { total: paths.length, imported: articles.length, skipped, errors },
+      messages,
+    };
+  }
+
+  private toArticle(path: string, source: string): ImportedArticle | null {
+    const { data, body: rawBody } = parseFrontMatter(source);
+    let body = rawBody.trim();
+
+    // Without a front matter title, a leading "# Heading" is the title (and leaves the body)
+    let title = pick(data, 'title');
+    if (!title) {
+      const heading = body.match(/^#\s+(.+)\n*/);
+      if (!heading) return null;
+      title = heading[1].trim();
+      body = body.slice(heading[0].length).trim();
+    }
+
+    const statusValue = pick(data, 'status')?.toLowerCase();
+    const status = data.draft === true ? 'drafting' : (statusValue && STATUSES[statusValue]) || 'published';
+    const typeValue = pick(data, 'type')?.toLowerCase();
+    const number = Number(pick(data, 'number', 'edition', 'issue'));
+
+    return {
+      title,
+      subtitle: pick(data, 'subtitle', 'description', 'summary'),
+      content: body || undefined,
+      status,
+      type: (typeValue && TYPES.includes(typeValue) ? typeValue : 'edition') as ImportedArticle['type'],
+      number: Number.isInteger(number) && number > 0 ? number : undefined,
+      published_at: isoDate(pick(data, 'date', 'published_at', 'published', 'pubDate')),
+      url: pick(data, 'url', 'canonical_url', 'link'),
+      external_id: pick(data, 'id', 'slug') ?? path.replace(/\.(md|markdown)$/i, ''),
+      updated_at: isoDate(pick(data, 'updated', 'updated_at', 'lastmod')),
+    };
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Minimal markdown → HTML for publishing drafts.
+ * Covers what drafts use: headings, paragraphs, lists, blockquotes, code, rules,
+ * bold/italic/code/links/images and [^1] footnotes. Raw HTML in the source is escaped.
+ */
+
+/** Footnote definitions by label, and labels in the order they are first referenced */
+interface Footnotes {
+  definitions: Map<string, string>;
+  order: string[];
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function safeUrl(url: string): string {
+  return /^\s*(javascript|vbscript|data):/i.test(url) ? '#' : url;
+}
+
+function inline(text: string, notes: Footnotes): string {
+  // Pull out code spans first so their content isn't formatted, then footnote references
+  const held: string[] = [];
+  const hold = (html: string) => {
+    held.push(html);
+    return `\u0000${held.length - 1}\u0000`;
+  };
+  let out = text
+    .replace(/`([^`]+)`/g, (_, code: string) => hold(`<code>${escapeHtml(code)}</code>`))
+    .replace(/\[\^([^\]\s]+)\](?!:)/g, (match, label: string) => {
+      if (!notes.definitions.has(label)) return match;
+      let n = notes.order.indexOf(label) + 1;
+      const first = n === 0;
+      if (first) n = notes.order.push(label);
+      // Only the first reference gets an id for the back link to return to
+      return hold(`<sup><a href="#fn-${n}"${first ? ` id="fnref-${n}"` : ''}>${n}</a></sup>`);
+    });
+
+  out = escapeHtml(out)
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (_, alt: string, src: string) => `<img src="${safeUrl(src)}" alt="${alt}">`)
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label: string, href: string) => `<a href="${safeUrl(href)}">${label}</a>`)
+    .replace(/\*\*([^*]+)\*\*|__([^_]+)__/g, (_, a?: string, b?: string) => `<strong>${a ?? b}</strong>`)
+    .replace(/(^|[^*\w])\*([^*\s][^*]*)\*(?!\*)/g, '$1<em>$2</em>')
+    .replace(/(^|[^_\w])_([^_\s][^_]*)_(?!\w)/g, '$1<em>$2</em>');
+
+  return out.replace(/\u0000(\d+)\u0000/g, (_, i: string) => held[Number(i)]);
+}
+
+/** Take `[^label]: text` definitions (and their indented continuation lines) out of the body */
+function extractFootnotes(lines: string[]): { body: string[]; definitions: Map<string, string> } {
+  const body: string[] = [];
+  const definitions = new Map<string, string>();
+  let fenced = false;
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].startsWith('```')) fenced = !fenced;
+    const def = fenced ? null : lines[i].match(/^\[\^([^\]\s]+)\]:\s*(.*)$/);
+    if (!def) {
+      body.push(lines[i]);
+      continue;
+    }
+    const text = [def[2].trim()];
+    while (i + 1 < lines.length && /^( {2,}|\t)\S/.test(lines[i + 1])) text.push(lines[++i].trim());
+    if (!definitions.has(def[1])) definitions.set(def[1], text.join(' '));
+  }
+  return { body, definitions };
+}
+
+export function markdownToHtml(md: string): string {
+  const { body, definitions } = extractFootnotes(md.replace(/\r\n?/g, '\n').split('\n'));
+  const notes: Footnotes = { definitions, order: [] };
+  const html = blocks(body, notes);
+  if (!notes.order.length) return html;
+
+  // Footnotes can cite other footnotes, which extends the order while it is walked
+  const items: string[] = [];
+  for (let n = 1; n <= notes.order.length; n++) {
+    const text = inline(definitions.get(notes.order[n - 1]) ?? '', notes);
+    items.push(`<li id="fn-${n}"><p>${text} <a href="#fnref-${n}">↩</a></p></li>`);
+  }
+  return `${html}\n<section class="footnotes"><ol>${items.join('')}</ol></section>`;
+}
+
+function blocks(lines: string[], notes: Footnotes): string {
+  const html: string[] = [];
+  let i = 0;
+
+  const isBlockStart = (line: string) =>
+    /^(#{1,6})\s|^```|^>\s?|^\s*([-*+]|\d+[.)])\s+|^(\*\s*){3,}$|^(-\s*){3,}$|^(_\s*){3,}$/.test(line);
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (line.startsWith('```')) {
+      const lang = line.slice(3).trim();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].startsWith('```')) code.push(lines[i++]);
+      i++; // closing fence
+      const cls = lang ? ` class="language-${escapeHtml(lang)}"` : '';
+      html.push(`<pre><code${cls}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*$/);
+    if (heading) {
+      const level = heading[1].length;
+      html.push(`<h${level}>${inline(heading[2], notes)}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (/^((\*\s*){3,}|(-\s*){3,}|(_\s*){3,})$/.test(line.trim())) {
+      html.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (/^>\s?/.test(line)) {
+      const quote: string[] = [];
+      while (i < lines.length && /^>\s?/.test(lines[i])) quote.push(lines[i++].replace(/^>\s?/, ''));
+      html.push(`<blockquote>${blocks(quote, notes)}</blockquote>`);
+      continue;
+    }
+
+    const listItem = line.match(/^\s*([-*+]|\d+[.)])\s+/);
+    if (listItem) {
+      const ordered = /\d/.test(listItem[1]);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const m = lines[i].match(/^\s*([-*+]|\d+[.)])\s+(.*)$/);
+        if (!m || /\d/.test(m[1]) !== ordered) break;
+        // Task list checkboxes render as plain text markers
+        items.push(`<li>${inline(m[2].replace(/^\[( |x)\]\s+/i, (_, c: string) => (c === ' ' ? '☐ ' : '☑ ')), notes)}</li>`);
+        i++;
+      }
+      const tag = ordered ? 'ol' : 'ul';
+      html.push(`<${tag}>${items.join('')}</${tag}>`);
+      continue;
+    }
+
+    const para: string[] = [];
+    while (i < lines.length && lines[i].trim() && !isBlockStart(lines[i])) para.push(lines[i++].trim());
+    html.push(`<p>${inline(para.join(' '), notes)}</p>`);
+  }
+
+  return html.join('\n');
+}
+
+/** Imported articles already hold HTML; drafts hold markdown */
+export function looksLikeHtml(content: string): boolean {
+  return /^\s*<(p|div|h[1-6]|ul|ol|figure|section|article|blockquote|table)[\s>]/i.test(content);
+}
@@ -0,0 +1,201 @@
+/**
+ * RSS/Atom connector — imports a blog's feed (RSS 2.0, RSS 1.0/RDF or Atom 1.0) from a URL
+ * or a saved file. Feeds only carry their latest items, so import the file of a full export
+ * (or the blog's complete feed) once, then let the URL keep it current. Only URL imports are
+ * incremental; a file is always read whole.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import type { NewsletterConnector, ConnectorConfig, ImportResult, ImportedArticle } from './interface.js';
+
+interface XmlElement {
+  attrs: string;
+  inner: string;
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Every <name> element (self-closing ones have an empty inner) */
+function elements(xml: string, name: string): XmlElement[] {
+  const n = escapeRegExp(name);
+  const regex = new RegExp(`<${n}(\\s[^>]*?)?(?:/>|>([\\s\\S]*?)</${n}\\s*>)`, 'gi');
+  const out: XmlElement[] = [];
+  let match;
+  while ((match = regex.exec(xml)) !== null) {
+    out.push({ attrs: match[1] ?? '', inner: match[2] ?? '' });
+  }
+  return out;
+}
+
+function attr(attrs: string, name: string): string | undefined {
+  const match = attrs.match(new RegExp(`\\b${escapeRegExp(name)}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+  return match ? decodeXml(match[1] ?? match[2]) : undefined;
+}
+
+function decodeXml(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, e: string) => {
+    const lower = e.toLowerCase();
+    if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[lower] ?? _;
+  });
+}
+
+/** Text of an element: CDATA sections verbatim, everything else entity-decoded */
+function text(inner: string): string {
+  let out = '';
+  let last = 0;
+  const cdata = /<!\[CDATA\[([\s\S]*?)\]\]>/g;
+  let match;
+  while ((match = cdata.exec(inner)) !== null) {
+    out += decodeXml(inner.slice(last, match.index)) + match[1];
+    last = match.index + match[0].length;
+  }
+  return (out + decodeXml(inner.slice(last))).trim();
+}
+
+/** Text of the first <name> child, or undefined when absent or empty */
+function child(xml: string, ...names: string[]): string | undefined {
+  for (const name of names) {
+    const el = elements(xml, name)[0];
+    const value = el ? text(el.inner) : '';
+    if (value) return value;
+  }
+  return undefined;
+}
+
+function isoDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const t = Date.parse(value);
+  return Number.isNaN(t) ? undefined : new Date(t).toISOString();
+}
+
+function plainText(html: string): string {
+  return decodeXml(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+/** Short descriptions become the subtitle when the item also has a full body */
+const SUBTITLE_MAX = 300;
+
+export class RssConnector implements NewsletterConnector {
+  platform = 'rss';
+  displayName = 'RSS/Atom';
+
+  async validate(config: ConnectorConfig): Promise<{ valid: boolean; message: string }> {
+    if (config.apiUrl) {
+      if (!/^https?:\/\//.test(config.apiUrl)) {
+        return { valid: false, message: `apiUrl must be an http(s) feed URL (got "${config.apiUrl}")` };
+      }
+      return { valid: true, message: 'Feed URL set' };
+    }
+    if (!config.exportPath) {
+      return { valid: false, message: 'Provide apiUrl (feed URL) or exportPath (saved feed file)' };
+    }
+    if (!existsSync(config.exportPath)) {
+      return { valid: false, message: `Feed file not found: ${config.exportPath}` };
+    }
+    return { valid: true, message: 'Feed file found' };
+  }
+
+  async import(config: ConnectorConfig): Promise<ImportResult> {
+    const xml = config.apiUrl ? await this.fetchFeed(config.apiUrl) : readFileSync(config.exportPath!, 'utf-8');
+    const messages: string[] = [];
+    const articles: ImportedArticle[] = [];
+    let skipped = 0;
+    let errors = 0;
+    let cursor: string | undefined;
+    const since = config.apiUrl ? config.since : undefined;
+
+    const atom = /<feed[\s>]/.test(xml) && !/<rss[\s>]/.test(xml);
+    const items = elements(xml, atom ? 'entry' : 'item');
+    const feedTitle = child(xml.replace(/<(item|entry)[\s>][\s\S]*$/, ''), 'title');
+    messages.push(`Found ${items.length} ${atom ? 'Atom entries' : 'RSS items'}${feedTitle ? ` in "${feedTitle}"` : ''}`);
+
+    for (const item of items) {
+      try {
+        const article = atom ? this.fromAtom(item.inner) : this.fromRss(item.inner);
+        if (!article) {
+          messages.push('Skipped an item without a title');
+          skipped++;
+          continue;
+        }
+
+        const changedAt = article.updated_at ?? article.published_at;
+        if (changedAt && (!cursor || changedAt > cursor)) cursor = changedAt;
+        if (since && changedAt && changedAt <= since) {
+          skipped++;
+          continue;
+        }
+        articles.push(article);
+      } catch (err) {
+        messages.push(`Error processing item: ${err instanceof Error ? err.message : String(err)}`);
+        errors++;
+      }
+    }
+
+    return {
+      articles,
+      stats: { total: items.length, imported: articles.length, skipped, errors },
+      messages,
+      cursor: config.apiUrl ? cursor : undefined,
+    };
+  }
+
+  private async fetchFeed(url: string): Promise<string> {
+    const res = await fetch(url, {
+      headers: { Accept: 'application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8' },
+    });
+    if (!res.ok) {
+      throw new Error(`Feed request failed: ${res.status} ${res.statusText}`);
+    }
+    return res.text();
+  }
+
+  private fromRss(xml: string): ImportedArticle | null {
+    const title = child(xml, 'title');
+    if (!title) return null;
+    const description = child(xml, 'description');
+    const body = child(xml, 'content:encoded');
+    const link = child(xml, 'link');
+    const published = isoDate(child(xml, 'pubDate', 'dc:date'));
+    const subtitle = body && description ? plainText(description) : undefined;
+
+    return {
+      title: plainText(title),
+      subtitle: subtitle && subtitle.length <= SUBTITLE_MAX ? subtitle : undefined,
+      content: body ?? description,
+      status: 'published',
+      type: 'edition',
+      published_at: published,
+      url: link,
+      external_id: child(xml, 'guid') ?? link,
+      updated_at: isoDate(child(xml, 'atom:updated', 'dc:modified')) ?? published,
+    };
+  }
+
+  private fromAtom(xml: string): ImportedArticle | null {
+    const title = child(xml, 'title');
+    if (!title) return null;
+    const links = elements(xml, 'link');
+    const alternate = links.find(l => (attr(l.attrs, 'rel') ?? 'alternate') === 'alternate') ?? links[0];
+    const summary = child(xml, 'summary');
+    const body = child(xml, 'content');
+    const published = isoDate(child(xml, 'published', 'issued'));
+    const updated = isoDate(child(xml, 'updated', 'modified'));
+    const subtitle = body && summary ? plainText(summary) : undefined;
+
+    return {
+      title: plainText(title),
+      subtitle: subtitle && subtitle.length <= SUBTITLE_MAX ? subtitle : undefined,
+      content: body ?? summary,
+      status: 'published',
+      type: 'edition',
+      published_at: published ?? updated,
+      url: alternate ? attr(alternate.attrs, 'href') : undefined,
+      external_id: child(xml, 'id') ?? (alternate ? attr(alternate.attrs, 'href') : undefined),
+      updated_at: updated ?? published,
+    };
+  }
+}
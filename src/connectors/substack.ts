@@ -1,13 +1,33 @@
 /**
- * Substack connector — imports from Substack export ZIP (CSV + HTML files).
+ * Substack connector — imports from a Substack export (CSV + HTML files).
  *
- * Substack has no public API. Import is via export ZIP only.
+ * Substack has no public API. Import is via the export ZIP, read in memory, or its extracted directory.
  * Export contains: posts.csv + posts/{post_id}.{slug}.html + posts/{post_id}.delivers.csv etc.
+ * The per-recipient delivers/opens CSVs and email_list.*.csv are also read by subscribers.ts.
  */
 
-import { readFileSync, existsSync, readdirSync } from 'fs';
-import { join } from 'path';
+import { existsSync, statSync } from 'fs';
 import type { NewsletterConnector, ConnectorConfig, ImportResult, ImportedArticle } from './interface.js';
+import { isZipPath, openExport, subdirectory } from './archive.js';
+import type { ExportFiles } from './archive.js';
+import { parseCsv } from './csv.js';
+
+/** One row of posts/{post_id}.delivers.csv or .opens.csv */
+export interface SubstackRecipientEvent {
+  email: string;
+  event_type: 'delivered' | 'opened';
+  occurred_at: string;
+  country?: string;
+  device?: string;
+}
+
+/** One row of email_list.*.csv */
+export interface SubstackSubscriber {
+  email: string;
+  subscribed_at?: string;
+  plan?: string;
+  active: boolean;
+}
 
 interface SubstackPost {
   post_id: string;
@@ -21,60 +41,70 @@ interface SubstackPost {
   audience: string;
 }
 
+function isSent(post: SubstackPost): boolean {
+  return post.is_published === 'true' && ['newsletter', 'podcast'].includes(post.type);
+}
+
 export class SubstackConnector implements NewsletterConnector {
   platform = 'substack';
   displayName = 'Substack';
 
   async validate(config: ConnectorConfig): Promise<{ valid: boolean; message: string }> {
     if (!config.exportPath) {
-      return { valid: false, message: 'exportPath is required (path to extracted Substack export)' };
+      return { valid: false, message: 'exportPath is required (Substack export .zip or its extracted directory)' };
+    }
+    if (!existsSync(config.exportPath)) {
+      return { valid: false, message: `Export not found: ${config.exportPath}` };
+    }
+    if (!isZipPath(config.exportPath) && !statSync(config.exportPath).isDirectory()) {
+      return { valid: false, message: `${config.exportPath} is neither a .zip nor a directory` };
     }
-    const postsCSV = join(config.exportPath, 'posts.csv');
-    if (!existsSync(postsCSV)) {
-      return { valid: false, message: `posts.csv not found in ${config.exportPath}` };
+    try {
+      if (this.open(config.exportPath).read('posts.csv') == null) {
+        return { valid: false, message: `posts.csv not found in ${config.exportPath}` };
+      }
+    } catch (err) {
+      return { valid: false, message: err instanceof Error ? err.message : String(err) };
     }
-    return { valid: true, message: 'Substack export directory found' };
+    return { valid: true, message: isZipPath(config.exportPath) ? 'Substack export archive found' : 'Substack export directory found' };
   }
 
   async import(config: ConnectorConfig): Promise<ImportResult> {
-    const exportPath = config.exportPath!;
-    const postsDir = join(exportPath, 'posts');
-    const postsCSV = join(exportPath, 'posts.csv');
+    const files = this.open(config.exportPath!);
 
     const messages: string[] = [];
     const articles: ImportedArticle[] = [];
     let skipped = 0;
     let errors = 0;
 
-    // Parse posts.csv
-    const csvContent = readFileSync(postsCSV, 'utf-8');
-    const posts = this.parseCSV(csvContent);
-
-    const publishedPosts = posts.filter(
-      p => p.is_published === 'true' && ['newsletter', 'podcast'].includes(p.type)
-    );
+    const posts = this.readPosts(files);
+    const publishedPosts = posts.filter(isSent);
 
     messages.push(`Found ${posts.length} total posts, ${publishedPosts.length} published`);
 
+    const htmlFiles = this.htmlFiles(files);
+
     for (const post of publishedPosts) {
       try {
         const postId = post.post_id.split('.')[0];
         const slug = post.post_id.includes('.') ? post.post_id.split('.')[1] : post.slug;
 
         // Compute open rate from delivers/opens CSVs
-        const openRate = this.computeOpenRate(postsDir, postId);
+        const openRate = this.computeOpenRate(files, postId);
 
-        // Extract editorial angle from HTML
-        const editorialAngle = this.extractEditorialAngle(postsDir, postId, slug);
+        // Full body, and the editorial angle extracted from it
+        const htmlPath = (slug && htmlFiles.get(`${postId}.${slug}`)) || htmlFiles.get(postId);
+        const html = htmlPath ? files.read(htmlPath)?.trim() : undefined;
 
         const article: ImportedArticle = {
           title: post.title.trim(),
           subtitle: post.subtitle?.trim() || undefined,
+          content: html || undefined,
           status: 'published',
           type: post.type === 'newsletter' ? 'edition' : 'special',
           published_at: post.email_sent_at || post.post_date || undefined,
           open_rate: openRate ?? undefined,
-          editorial_angle: editorialAngle ?? undefined,
+          editorial_angle: (html && this.extractTextFromHtml(html, 2000)) || undefined,
           external_id: postId,
         };
 
@@ -98,103 +128,89 @@ export class SubstackConnector implements NewsletterConnector {
     };
   }
 
-  private parseCSV(content: string): SubstackPost[] {
-    const lines = content.split('\n');
-    if (lines.length < 2) return [];
-
-    const headers = this.parseCSVLine(lines[0]);
-    const rows: SubstackPost[] = [];
-
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
-
-      const values = this.parseCSVLine(line);
-      const row: Record<string, string> = {};
-      for (let j = 0; j < headers.length; j++) {
-        row[headers[j]] = values[j] ?? '';
-      }
-      rows.push(row as unknown as SubstackPost);
-    }
+  /**
+   * Open an export .zip or directory. Paths are relative to the folder holding posts.csv,
+   * so archives that wrap everything in a top-level folder work too.
+   */
+  open(exportPath: string): ExportFiles {
+    const files = openExport(exportPath);
+    const postsCsv = files.list()
+      .filter(p => p === 'posts.csv' || p.endsWith('/posts.csv'))
+      .sort((a, b) => a.length - b.length)[0];
+    return postsCsv ? subdirectory(files, postsCsv.slice(0, -'posts.csv'.length)) : files;
+  }
 
-    return rows;
+  /** Published newsletter/podcast posts in the export, with the ID their event CSVs are named by */
+  listSentPosts(files: ExportFiles): Array<{ postId: string; sentAt?: string }> {
+    return this.readPosts(files)
+      .filter(isSent)
+      .map(p => ({ postId: p.post_id.split('.')[0], sentAt: p.email_sent_at || p.post_date || undefined }));
   }
 
-  private parseCSVLine(line: string): string[] {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      if (inQuotes) {
-        if (char === '"' && line[i + 1] === '"') {
-          current += '"';
-          i++;
-        } else if (char === '"') {
-          inQuotes = false;
-        } else {
-          current += char;
-        }
-      } else {
-        if (char === '"') {
-          inQuotes = true;
-        } else if (char === ',') {
-          result.push(current.trim());
-          current = '';
-        } else {
-          current += char;
-        }
+  /** Delivery and open events of one post; opens.csv has a row per open, not per opener */
+  readRecipientEvents(files: ExportFiles, postId: string): SubstackRecipientEvent[] {
+    const events: SubstackRecipientEvent[] = [];
+    for (const [suffix, eventType] of [['delivers', 'delivered'], ['opens', 'opened']] as const) {
+      const text = files.read(`posts/${postId}.${suffix}.csv`);
+      if (text == null) continue;
+      for (const row of parseCsv(text)) {
+        if (!row.email || !row.timestamp) continue;
+        events.push({
+          email: row.email,
+          event_type: eventType,
+          occurred_at: row.timestamp,
+          country: row.country || undefined,
+          device: row.device_type || undefined,
+        });
       }
     }
-    result.push(current.trim());
-    return result;
+    return events;
   }
 
-  private computeOpenRate(postsDir: string, postId: string): number | null {
-    const deliversFile = join(postsDir, `${postId}.delivers.csv`);
-    const opensFile = join(postsDir, `${postId}.opens.csv`);
-
-    if (!existsSync(deliversFile)) return null;
-
-    const deliversContent = readFileSync(deliversFile, 'utf-8');
-    const delivers = deliversContent.split('\n').filter(l => l.trim()).length - 1; // minus header
-
-    if (delivers <= 0) return null;
-
-    if (!existsSync(opensFile)) return 0;
-
-    const opensContent = readFileSync(opensFile, 'utf-8');
-    const opens = opensContent.split('\n').filter(l => l.trim()).length - 1;
-
-    return Math.round((opens / delivers) * 1000) / 10;
+  /** Subscribers from email_list.*.csv (empty when the export has none) */
+  readEmailList(files: ExportFiles): SubstackSubscriber[] {
+    const path = files.list().find(p => p.startsWith('email_list') && p.endsWith('.csv'));
+    const text = path ? files.read(path) : null;
+    if (text == null) return [];
+    return parseCsv(text)
+      .filter(row => row.email)
+      .map(row => ({
+        email: row.email,
+        subscribed_at: row.created_at || undefined,
+        plan: row.plan || undefined,
+        active: row.active_subscription !== 'false' && row.email_disabled !== 'true',
+      }));
   }
 
-  private extractEditorialAngle(postsDir: string, postId: string, slug?: string): string | null {
-    if (!existsSync(postsDir)) return null;
+  private readPosts(files: ExportFiles): SubstackPost[] {
+    const text = files.read('posts.csv');
+    return text == null ? [] : parseCsv(text) as unknown as SubstackPost[];
+  }
 
-    // Find HTML file
-    let htmlPath: string | null = null;
-    if (slug) {
-      const candidate = join(postsDir, `${postId}.${slug}.html`);
-      if (existsSync(candidate)) htmlPath = candidate;
+  /** posts/{post_id}.{slug}.html by "{post_id}.{slug}", and by "{post_id}" alone as a fallback */
+  private htmlFiles(files: ExportFiles): Map<string, string> {
+    const map = new Map<string, string>();
+    for (const path of files.list()) {
+      const match = path.match(/^posts\/((\d+)\.(.+))\.html$/);
+      if (!match) continue;
+      map.set(match[1], path);
+      if (!map.has(match[2])) map.set(match[2], path);
     }
+    return map;
+  }
 
-    if (!htmlPath) {
-      // Fallback: find any file matching postId.*.html
-      try {
-        const files = readdirSync(postsDir);
-        const match = files.find(f => f.startsWith(`${postId}.`) && f.endsWith('.html'));
-        if (match) htmlPath = join(postsDir, match);
-      } catch {
-        return null;
-      }
+  /** Unique openers over unique recipients — opens.csv counts re-opens, so line counts overstate it */
+  private computeOpenRate(files: ExportFiles, postId: string): number | null {
+    const delivered = new Set<string>();
+    const opened = new Set<string>();
+    for (const event of this.readRecipientEvents(files, postId)) {
+      const email = event.email.toLowerCase();
+      if (event.event_type === 'delivered') delivered.add(email);
+      else opened.add(email);
     }
 
-    if (!htmlPath) return null;
-
-    const content = readFileSync(htmlPath, 'utf-8');
-    return this.extractTextFromHtml(content, 2000);
+    if (!delivered.size) return null;
+    return Math.round((opened.size / delivered.size) * 1000) / 10;
   }
 
   private extractTextFromHtml(html: string, maxLength: number): string | null {
@@ -0,0 +1,31 @@
+/** Database factory — picks the adapter from config */
+
+import { resolve } from 'path';
+import type { DatabaseAdapter, InkwellConfig } from '../types.js';
+import { SqliteAdapter } from './sqlite.js';
+import { PostgrestAdapter } from './postgrest.js';
+
+/**
+ * Create and prepare the configured adapter.
+ * SQLite runs its inline migrations; Supabase/PostgREST expects supabase/migrations
+ * to have been applied already (PostgREST can't run DDL).
+ */
+export function createDatabase(config: InkwellConfig): DatabaseAdapter {
+  if (config.database.type === 'supabase') {
+    return new PostgrestAdapter({
+      url: PostgrestAdapter.restUrl(config.database.supabaseUrl!),
+      key: config.database.supabaseKey,
+    });
+  }
+
+  const db = new SqliteAdapter(resolve(config.database.path ?? './data/inkwell.db'));
+  db.migrate();
+  return db;
+}
+
+/** Human-readable description of where data lives, for startup logs */
+export function describeDatabase(config: InkwellConfig): string {
+  return config.database.type === 'supabase'
+    ? `Supabase: ${config.database.supabaseUrl}`
+    : `SQLite: ${resolve(config.database.path ?? './data/inkwell.db')}`;
+}
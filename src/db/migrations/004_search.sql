@@ -0,0 +1,66 @@
+-- Inkwell MCP — Full-text search
+-- FTS5 indexes over articles, notes and sources, kept in sync by triggers
+
+CREATE VIRTUAL TABLE IF NOT EXISTS articles_fts USING fts5(
+  title, subtitle, content, editorial_angle,
+  content='articles', content_rowid='rowid', tokenize='unicode61 remove_diacritics 2'
+);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS notes_fts USING fts5(
+  content, tags,
+  content='editorial_notes', content_rowid='rowid', tokenize='unicode61 remove_diacritics 2'
+);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS sources_fts USING fts5(
+  title, description, key_quotes,
+  content='editorial_sources', content_rowid='rowid', tokenize='unicode61 remove_diacritics 2'
+);
+
+-- Articles
+CREATE TRIGGER IF NOT EXISTS articles_fts_ai AFTER INSERT ON articles BEGIN
+  INSERT INTO articles_fts(rowid, title, subtitle, content, editorial_angle)
+  VALUES (new.rowid, new.title, new.subtitle, new.content, new.editorial_angle);
+END;
+CREATE TRIGGER IF NOT EXISTS articles_fts_ad AFTER DELETE ON articles BEGIN
+  INSERT INTO articles_fts(articles_fts, rowid, title, subtitle, content, editorial_angle)
+  VALUES ('delete', old.rowid, old.title, old.subtitle, old.content, old.editorial_angle);
+END;
+CREATE TRIGGER IF NOT EXISTS articles_fts_au AFTER UPDATE OF title, subtitle, content, editorial_angle ON articles BEGIN
+  INSERT INTO articles_fts(articles_fts, rowid, title, subtitle, content, editorial_angle)
+  VALUES ('delete', old.rowid, old.title, old.subtitle, old.content, old.editorial_angle);
+  INSERT INTO articles_fts(rowid, title, subtitle, content, editorial_angle)
+  VALUES (new.rowid, new.title, new.subtitle, new.content, new.editorial_angle);
+END;
+
+-- Notes
+CREATE TRIGGER IF NOT EXISTS notes_fts_ai AFTER INSERT ON editorial_notes BEGIN
+  INSERT INTO notes_fts(rowid, content, tags) VALUES (new.rowid, new.content, new.tags);
+END;
+CREATE TRIGGER IF NOT EXISTS notes_fts_ad AFTER DELETE ON editorial_notes BEGIN
+  INSERT INTO notes_fts(notes_fts, rowid, content, tags) VALUES ('delete', old.rowid, old.content, old.tags);
+END;
+CREATE TRIGGER IF NOT EXISTS notes_fts_au AFTER UPDATE OF content, tags ON editorial_notes BEGIN
+  INSERT INTO notes_fts(notes_fts, rowid, content, tags) VALUES ('delete', old.rowid, old.content, old.tags);
+  INSERT INTO notes_fts(rowid, content, tags) VALUES (new.rowid, new.content, new.tags);
+END;
+
+-- Sources
+CREATE TRIGGER IF NOT EXISTS sources_fts_ai AFTER INSERT ON editorial_sources BEGIN
+  INSERT INTO sources_fts(rowid, title, description, key_quotes)
+  VALUES (new.rowid, new.title, new.description, new.key_quotes);
+END;
+CREATE TRIGGER IF NOT EXISTS sources_fts_ad AFTER DELETE ON editorial_sources BEGIN
+  INSERT INTO sources_fts(sources_fts, rowid, title, description, key_quotes)
+  VALUES ('delete', old.rowid, old.title, old.description, old.key_quotes);
+END;
+CREATE TRIGGER IF NOT EXISTS sources_fts_au AFTER UPDATE OF title, description, key_quotes ON editorial_sources BEGIN
+  INSERT INTO sources_fts(sources_fts, rowid, title, description, key_quotes)
+  VALUES ('delete', old.rowid, old.title, old.description, old.key_quotes);
+  INSERT INTO sources_fts(rowid, title, description, key_quotes)
+  VALUES (new.rowid, new.title, new.description, new.key_quotes);
+END;
+
+-- Backfill existing rows
+INSERT INTO articles_fts(articles_fts) VALUES ('rebuild');
+INSERT INTO notes_fts(notes_fts) VALUES ('rebuild');
+INSERT INTO sources_fts(sources_fts) VALUES ('rebuild');
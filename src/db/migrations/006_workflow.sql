@@ -0,0 +1,70 @@
+-- Inkwell MCP — Article editorial workflow
+-- idea → drafting → in_review → scheduled → published → archived, with status history.
+-- SQLite can't alter a CHECK constraint, so articles is rebuilt (rowids kept for FTS).
+
+PRAGMA foreign_keys = OFF;
+
+CREATE TABLE articles_new (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  title TEXT NOT NULL,
+  subtitle TEXT,
+  content TEXT,
+  status TEXT NOT NULL DEFAULT 'idea' CHECK (status IN ('idea', 'drafting', 'in_review', 'scheduled', 'published', 'archived')),
+  type TEXT NOT NULL DEFAULT 'edition' CHECK (type IN ('edition', 'analysis', 'special')),
+  number INTEGER UNIQUE,
+  published_at TEXT,
+  views INTEGER NOT NULL DEFAULT 0,
+  open_rate REAL NOT NULL DEFAULT 0,
+  click_rate REAL NOT NULL DEFAULT 0,
+  substack_url TEXT,
+  editorial_angle TEXT,
+  tl_dr TEXT,
+  conclusion_signal TEXT CHECK (conclusion_signal IN ('bullish', 'bearish', 'neutral')),
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+INSERT INTO articles_new (rowid, id, title, subtitle, content, status, type, number, published_at, views, open_rate,
+  click_rate, substack_url, editorial_angle, tl_dr, conclusion_signal, created_at, updated_at)
+SELECT rowid, id, title, subtitle, content, CASE status WHEN 'draft' THEN 'drafting' ELSE status END, type, number,
+  published_at, views, open_rate, click_rate, substack_url, editorial_angle, tl_dr, conclusion_signal, created_at, updated_at
+FROM articles;
+
+DROP TABLE articles;
+ALTER TABLE articles_new RENAME TO articles;
+
+CREATE INDEX IF NOT EXISTS idx_articles_status ON articles(status);
+CREATE INDEX IF NOT EXISTS idx_articles_published_at ON articles(published_at);
+CREATE INDEX IF NOT EXISTS idx_articles_number ON articles(number);
+
+-- FTS triggers were dropped with the old table
+CREATE TRIGGER IF NOT EXISTS articles_fts_ai AFTER INSERT ON articles BEGIN
+  INSERT INTO articles_fts(rowid, title, subtitle, content, editorial_angle)
+  VALUES (new.rowid, new.title, new.subtitle, new.content, new.editorial_angle);
+END;
+CREATE TRIGGER IF NOT EXISTS articles_fts_ad AFTER DELETE ON articles BEGIN
+  INSERT INTO articles_fts(articles_fts, rowid, title, subtitle, content, editorial_angle)
+  VALUES ('delete', old.rowid, old.title, old.subtitle, old.content, old.editorial_angle);
+END;
+CREATE TRIGGER IF NOT EXISTS articles_fts_au AFTER UPDATE OF title, subtitle, content, editorial_angle ON articles BEGIN
+  INSERT INTO articles_fts(articles_fts, rowid, title, subtitle, content, editorial_angle)
+  VALUES ('delete', old.rowid, old.title, old.subtitle, old.content, old.editorial_angle);
+  INSERT INTO articles_fts(rowid, title, subtitle, content, editorial_angle)
+  VALUES (new.rowid, new.title, new.subtitle, new.content, new.editorial_angle);
+END;
+INSERT INTO articles_fts(articles_fts) VALUES ('rebuild');
+
+PRAGMA foreign_keys = ON;
+
+CREATE TABLE IF NOT EXISTS article_status_history (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  article_id TEXT NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  changed_by_name TEXT,
+  note TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_status_history_article ON article_status_history(article_id, created_at);
@@ -0,0 +1,17 @@
+-- Drafts pushed to external platforms by publish_article (one row per article and platform)
+
+CREATE TABLE IF NOT EXISTS article_publications (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  article_id TEXT NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL CHECK (platform IN ('ghost', 'beehiiv', 'kit')),
+  external_id TEXT NOT NULL,
+  external_url TEXT,
+  status TEXT NOT NULL DEFAULT 'draft',
+  published_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  published_by_name TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (article_id, platform)
+);
+
+CREATE INDEX IF NOT EXISTS idx_publications_article ON article_publications(article_id);
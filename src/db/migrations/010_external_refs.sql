@@ -0,0 +1,30 @@
+-- Platform post IDs mapped to articles, and per-platform cursors for incremental imports
+
+CREATE TABLE IF NOT EXISTS article_external_refs (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  platform TEXT NOT NULL,
+  external_id TEXT NOT NULL,
+  article_id TEXT NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  external_updated_at TEXT,
+  last_synced_at TEXT NOT NULL DEFAULT (datetime('now')),
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (platform, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_external_refs_article ON article_external_refs(article_id);
+
+-- scope separates accounts on the same platform (Beehiiv publication ID, Ghost site URL)
+CREATE TABLE IF NOT EXISTS import_cursors (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  platform TEXT NOT NULL,
+  scope TEXT NOT NULL DEFAULT '',
+  cursor TEXT,
+  last_success_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (platform, scope)
+);
+
+-- Posts already created by publish_article map back to their articles
+INSERT OR IGNORE INTO article_external_refs (platform, external_id, article_id, last_synced_at)
+SELECT platform, external_id, article_id, updated_at FROM article_publications;
@@ -0,0 +1,20 @@
+-- One row per connector run by the sync daemon (inkwell-mcp sync / serve --sync-interval)
+
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  platform TEXT NOT NULL,
+  scope TEXT NOT NULL DEFAULT '',
+  triggered_by TEXT NOT NULL DEFAULT 'manual' CHECK (triggered_by IN ('manual', 'schedule')),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'partial', 'failed')),
+  started_at TEXT NOT NULL DEFAULT (datetime('now')),
+  finished_at TEXT,
+  created INTEGER NOT NULL DEFAULT 0,
+  updated INTEGER NOT NULL DEFAULT 0,
+  skipped INTEGER NOT NULL DEFAULT 0,
+  errors INTEGER NOT NULL DEFAULT 0,
+  messages TEXT NOT NULL DEFAULT '[]',
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_started ON sync_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sync_runs_platform ON sync_runs(platform, scope, started_at DESC);
@@ -0,0 +1,16 @@
+-- Engagement over time: one row per article each time an import or sync reports its metrics
+-- (articles.views/open_rate/click_rate keep the latest values)
+
+CREATE TABLE IF NOT EXISTS article_metrics_snapshots (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  article_id TEXT NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL,
+  captured_at TEXT NOT NULL DEFAULT (datetime('now')),
+  hours_since_publish REAL,
+  views INTEGER,
+  open_rate REAL,
+  click_rate REAL
+);
+
+CREATE INDEX IF NOT EXISTS idx_metrics_article ON article_metrics_snapshots(article_id, captured_at);
+CREATE INDEX IF NOT EXISTS idx_metrics_captured ON article_metrics_snapshots(captured_at);
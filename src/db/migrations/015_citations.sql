@@ -0,0 +1,17 @@
+-- Notes remember the source they came from; drafts cite sources by number. article_citations
+-- holds the sources an article's latest draft cited, marked used when the article is published.
+
+ALTER TABLE editorial_notes ADD COLUMN source_id TEXT REFERENCES editorial_sources(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_notes_source ON editorial_notes(source_id);
+
+CREATE TABLE IF NOT EXISTS article_citations (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  article_id TEXT NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  source_id TEXT NOT NULL REFERENCES editorial_sources(id) ON DELETE CASCADE,
+  number INTEGER NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(article_id, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_article_citations_source ON article_citations(source_id);
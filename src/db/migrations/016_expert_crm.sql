@@ -0,0 +1,20 @@
+-- Expert CRM: contact details on experts, and a log of every time we reached out to one.
+
+ALTER TABLE experts ADD COLUMN email TEXT;
+ALTER TABLE experts ADD COLUMN phone TEXT;
+ALTER TABLE experts ADD COLUMN website TEXT;
+
+CREATE TABLE IF NOT EXISTS expert_interactions (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  expert_id TEXT NOT NULL REFERENCES experts(id) ON DELETE CASCADE,
+  occurred_at TEXT NOT NULL DEFAULT (datetime('now')),
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'call', 'meeting', 'message', 'social', 'event', 'other')),
+  topic TEXT,
+  outcome TEXT CHECK (outcome IN ('quoted', 'agreed', 'declined', 'no_response', 'follow_up', 'other')),
+  article_id TEXT REFERENCES articles(id) ON DELETE SET NULL,
+  notes TEXT,
+  logged_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_expert_interactions_expert ON expert_interactions(expert_id, occurred_at);
@@ -0,0 +1,26 @@
+-- Expert matching: aliases (alternate names, handles, transliterations) and reviewable links.
+-- Links found by enrichment below the confidence threshold stay 'pending' until reviewed;
+-- 'rejected' links are kept so re-imports don't suggest them again.
+
+CREATE TABLE IF NOT EXISTS expert_aliases (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  expert_id TEXT NOT NULL REFERENCES experts(id) ON DELETE CASCADE,
+  alias TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'name' CHECK (kind IN ('name', 'handle', 'transliteration')),
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(expert_id, alias)
+);
+
+ALTER TABLE article_experts ADD COLUMN status TEXT NOT NULL DEFAULT 'confirmed' CHECK (status IN ('confirmed', 'pending', 'rejected'));
+ALTER TABLE article_experts ADD COLUMN confidence REAL;
+ALTER TABLE article_experts ADD COLUMN matched_on TEXT;
+ALTER TABLE article_experts ADD COLUMN context TEXT;
+ALTER TABLE article_experts ADD COLUMN reviewed_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_expert_aliases_expert ON expert_aliases(expert_id);
+CREATE INDEX IF NOT EXISTS idx_article_experts_status ON article_experts(status, expert_id);
+
+-- times_cited is now the number of confirmed links; re-imports used to inflate it
+UPDATE experts SET times_cited = (
+  SELECT COUNT(*) FROM article_experts ae WHERE ae.expert_id = experts.id AND ae.status = 'confirmed'
+);
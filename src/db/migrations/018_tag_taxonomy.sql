@@ -0,0 +1,25 @@
+-- Inkwell MCP — Tag hierarchy and configurable categories
+-- Categories are validated against config.tagCategories instead of a fixed CHECK list.
+-- SQLite can't drop a CHECK constraint, so tags is rebuilt (article_tags rows are kept).
+
+PRAGMA foreign_keys = OFF;
+
+CREATE TABLE tags_new (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  name TEXT NOT NULL UNIQUE,
+  category TEXT,
+  parent_id TEXT REFERENCES tags(id) ON DELETE SET NULL,
+  description TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+INSERT INTO tags_new (id, name, category, description, created_at)
+SELECT id, name, category, description, created_at FROM tags;
+
+DROP TABLE tags;
+ALTER TABLE tags_new RENAME TO tags;
+
+CREATE INDEX IF NOT EXISTS idx_tags_category ON tags(category);
+CREATE INDEX IF NOT EXISTS idx_tags_parent ON tags(parent_id);
+
+PRAGMA foreign_keys = ON;
@@ -0,0 +1,47 @@
+-- Inkwell MCP — Note tags in the tags table
+-- note_tags replaces matching on the JSON editorial_notes.tags column, which now only mirrors
+-- the tag names for full-text search. Existing note tags become tags (case-insensitive).
+
+CREATE TABLE IF NOT EXISTS note_tags (
+  note_id TEXT NOT NULL REFERENCES editorial_notes(id) ON DELETE CASCADE,
+  tag_id TEXT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  PRIMARY KEY (note_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_note_tags_tag ON note_tags(tag_id);
+
+-- Tag names per note. A tags value that isn't a JSON array (a bare string, or text that isn't
+-- JSON at all) is read as a comma-separated list, and kept whole if that fails, so no tag is lost.
+CREATE TEMP TABLE note_tag_names AS
+SELECT n.id AS note_id, trim(j.value) AS name
+FROM editorial_notes n, json_each(
+  CASE
+    WHEN n.tags IS NULL OR trim(n.tags) = '' THEN '[]'
+    WHEN json_valid(n.tags) AND json_type(n.tags) = 'array' THEN n.tags
+    WHEN json_valid(n.tags) AND json_type(n.tags) <> 'text' THEN '[]'
+    ELSE (
+      SELECT CASE WHEN json_valid(split) THEN split ELSE json_array(raw) END
+      FROM (SELECT raw, '["' || replace(replace(replace(raw, '\', '\\'), '"', '\"'), ',', '","') || '"]' AS split
+            FROM (SELECT CASE WHEN json_valid(n.tags) THEN json_extract(n.tags, '$') ELSE n.tags END AS raw))
+    )
+  END
+) j
+WHERE trim(j.value) <> '';
+
+INSERT INTO tags (name)
+SELECT MIN(name)
+FROM note_tag_names
+WHERE lower(name) NOT IN (SELECT lower(name) FROM tags)
+GROUP BY lower(name);
+
+-- tags.name is case-sensitive, so "AI" and "ai" can both exist; link to one tag per spelling
+INSERT INTO note_tags (note_id, tag_id)
+SELECT DISTINCT nn.note_id, t.id
+FROM note_tag_names nn
+JOIN (SELECT lower(name) AS name_key, MIN(id) AS id FROM tags GROUP BY lower(name)) t ON t.name_key = lower(nn.name);
+
+DROP TABLE note_tag_names;
+
+UPDATE editorial_notes
+SET tags = (SELECT json_group_array(t.name) FROM note_tags nt JOIN tags t ON t.id = nt.tag_id WHERE nt.note_id = editorial_notes.id)
+WHERE id IN (SELECT note_id FROM note_tags);
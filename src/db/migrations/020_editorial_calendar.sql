@@ -0,0 +1,9 @@
+-- Inkwell MCP — Editorial calendar
+-- When an article is planned to go out, when its draft is due, and who is writing it.
+
+ALTER TABLE articles ADD COLUMN scheduled_for TEXT;
+ALTER TABLE articles ADD COLUMN due_at TEXT;
+ALTER TABLE articles ADD COLUMN assignee TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_articles_scheduled_for ON articles(scheduled_for);
+CREATE INDEX IF NOT EXISTS idx_articles_due_at ON articles(due_at);
@@ -0,0 +1,9 @@
+-- Values generated once per install and kept in the database, e.g. the salt for subscriber
+-- address hashes when subscribers.hashSalt is not configured
+
+CREATE TABLE IF NOT EXISTS instance_settings (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  key TEXT NOT NULL UNIQUE,
+  value TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
@@ -0,0 +1,285 @@
+/**
+ * PostgREST adapter (Supabase or self-hosted PostgREST).
+ * Translates QueryOptions into PostgREST requests.
+ * raw() goes through the inkwell_sql() RPC defined in supabase/migrations.
+ */
+
+import type { DatabaseAdapter, QueryOptions, Filter, Row } from '../types.js';
+
+export interface PostgrestAdapterOptions {
+  /** REST endpoint, e.g. https://xyz.supabase.co/rest/v1 or http://localhost:3001 */
+  url: string;
+  /** Service role key (Supabase) or JWT (PostgREST) */
+  key?: string;
+  /** Schema to use via Accept-Profile/Content-Profile (default: public) */
+  schema?: string;
+  /** Injectable fetch, e.g. for a local PostgREST stand-in */
+  fetch?: typeof fetch;
+}
+
+/** Rows per request in insertMany() */
+const INSERT_BATCH_SIZE = 1000;
+
+export class PostgrestAdapter implements DatabaseAdapter {
+  readonly dialect = 'postgres';
+  private url: string;
+  private key?: string;
+  private schema: string;
+  private fetchFn: typeof fetch;
+
+  constructor(opts: PostgrestAdapterOptions) {
+    this.url = opts.url.replace(/\/+$/, '');
+    this.key = opts.key;
+    this.schema = opts.schema ?? 'public';
+    this.fetchFn = opts.fetch ?? fetch;
+  }
+
+  /** Build the REST endpoint from a Supabase project URL (adds /rest/v1 unless already present) */
+  static restUrl(supabaseUrl: string): string {
+    const base = supabaseUrl.replace(/\/+$/, '');
+    return /\/rest\/v\d+$/.test(base) ? base : `${base}/rest/v1`;
+  }
+
+  async query(opts: QueryOptions): Promise<Row[]> {
+    const params = new URLSearchParams();
+    if (opts.select?.length) params.set('select', opts.select.join(','));
+    this.appendFilters(params, opts.filters ?? []);
+
+    if (opts.order?.length) {
+      params.set('order', opts.order.map(o => {
+        let clause = `${o.column}.${o.direction}`;
+        if (o.nulls === 'last') clause += '.nullslast';
+        if (o.nulls === 'first') clause += '.nullsfirst';
+        return clause;
+      }).join(','));
+    }
+
+    if (opts.limit != null) params.set('limit', String(opts.limit));
+    if (opts.offset != null) params.set('offset', String(opts.offset));
+
+    const res = await this.request('GET', `/${opts.table}`, params);
+    return await res.json() as Row[];
+  }
+
+  async queryOne(opts: QueryOptions): Promise<Row | null> {
+    const results = await this.query({ ...opts, limit: 1 });
+    return results[0] ?? null;
+  }
+
+  async insert(table: string, data: Row): Promise<Row> {
+    if (!data.id) {
+      data.id = this.generateId();
+    }
+
+    const res = await this.request('POST', `/${table}`, undefined, this.serializeRow(data), {
+      Prefer: 'return=representation',
+    });
+    const rows = await res.json() as Row[];
+    return rows[0] ?? data;
+  }
+
+  async insertMany(table: string, rows: Row[]): Promise<number> {
+    // A bulk POST takes its columns from the first row, so rows are grouped by column set
+    const groups = new Map<string, Row[]>();
+    for (const data of rows) {
+      if (!data.id) data.id = this.generateId();
+      const signature = Object.keys(data).sort().join(',');
+      const group = groups.get(signature) ?? [];
+      group.push(this.serializeRow(data));
+      groups.set(signature, group);
+    }
+
+    for (const group of groups.values()) {
+      for (let i = 0; i < group.length; i += INSERT_BATCH_SIZE) {
+        await this.request('POST', `/${table}`, undefined, group.slice(i, i + INSERT_BATCH_SIZE), {
+          Prefer: 'return=minimal',
+        });
+      }
+    }
+    return rows.length;
+  }
+
+  async update(table: string, filters: Filter[], data: Row): Promise<Row[]> {
+    const params = new URLSearchParams();
+    this.appendFilters(params, filters);
+    const res = await this.request('PATCH', `/${table}`, params, this.serializeRow(data), {
+      Prefer: 'return=representation',
+    });
+    return await res.json() as Row[];
+  }
+
+  async delete(table: string, filters: Filter[]): Promise<Row[]> {
+    const params = new URLSearchParams();
+    this.appendFilters(params, filters);
+    const res = await this.request('DELETE', `/${table}`, params, undefined, {
+      Prefer: 'return=representation',
+    });
+    return await res.json() as Row[];
+  }
+
+  async count(table: string, filters?: Filter[]): Promise<number> {
+    const params = new URLSearchParams({ select: '*', limit: '0' });
+    this.appendFilters(params, filters ?? []);
+    const res = await this.request('GET', `/${table}`, params, undefined, {
+      Prefer: 'count=exact',
+    });
+
+    // Content-Range: 0-0/42 or */42
+    const range = res.headers.get('content-range') ?? '';
+    const total = Number(range.split('/')[1]);
+    if (!Number.isFinite(total)) {
+      throw new Error(`PostgREST count on ${table} returned no total (Content-Range: "${range}")`);
+    }
+    return total;
+  }
+
+  async raw(sql: string, params?: unknown[]): Promise<Row[]> {
+    const res = await this.request('POST', '/rpc/inkwell_sql', undefined, {
+      query: this.translateSql(sql),
+      params: (params ?? []).map(p => this.serializeValue(p)),
+    });
+    const rows = await res.json() as Row[] | null;
+    return rows ?? [];
+  }
+
+  close(): void {
+    // Stateless HTTP — nothing to release
+  }
+
+  // --- Private helpers ---
+
+  private async request(
+    method: string,
+    path: string,
+    params?: URLSearchParams,
+    body?: unknown,
+    headers: Record<string, string> = {},
+  ): Promise<Response> {
+    const qs = params?.toString();
+    const url = `${this.url}${path}${qs ? `?${qs}` : ''}`;
+
+    const allHeaders: Record<string, string> = {
+      Accept: 'application/json',
+      'Accept-Profile': this.schema,
+      ...headers,
+    };
+    if (body !== undefined) {
+      allHeaders['Content-Type'] = 'application/json';
+      allHeaders['Content-Profile'] = this.schema;
+    }
+    if (this.key) {
+      allHeaders.apikey = this.key;
+      allHeaders.Authorization = `Bearer ${this.key}`;
+    }
+
+    const res = await this.fetchFn(url, {
+      method,
+      headers: allHeaders,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`PostgREST ${method} ${path} returned ${res.status}: ${text}`);
+    }
+    return res;
+  }
+
+  private generateId(): string {
+    const bytes = new Uint8Array(16);
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  /** JSON columns (jsonb) take arrays/objects as-is; everything else passes through */
+  private serializeRow(data: Row): Row {
+    const out: Row = {};
+    for (const [k, v] of Object.entries(data)) {
+      out[k] = v === undefined ? null : v;
+    }
+    return out;
+  }
+
+  private serializeValue(val: unknown): unknown {
+    if (val === undefined) return null;
+    if (Array.isArray(val) || (val !== null && typeof val === 'object')) return JSON.stringify(val);
+    return val;
+  }
+
+  private appendFilters(params: URLSearchParams, filters: Filter[]): void {
+    for (const f of filters) {
+      switch (f.op) {
+        case 'eq':
+        case 'neq':
+          if (f.value === null) params.append(f.column, f.op === 'eq' ? 'is.null' : 'not.is.null');
+          else params.append(f.column, `${f.op}.${this.formatScalar(f.value)}`);
+          break;
+        case 'gt':
+        case 'gte':
+        case 'lt':
+        case 'lte':
+          params.append(f.column, `${f.op}.${this.formatScalar(f.value)}`);
+          break;
+        case 'like':
+        case 'ilike':
+          // PostgREST uses * as the wildcard in URLs
+          params.append(f.column, `${f.op}.${String(f.value).replace(/%/g, '*')}`);
+          break;
+        case 'is':
+          params.append(f.column, `is.${f.value === null ? 'null' : String(f.value)}`);
+          break;
+        case 'in':
+          if (Array.isArray(f.value) && f.value.length > 0) {
+            params.append(f.column, `in.(${f.value.map(v => this.quoteListValue(v)).join(',')})`);
+          }
+          break;
+        case 'cs': {
+          // jsonb containment: tags=cs.["AI"]
+          const arr = Array.isArray(f.value) ? f.value : [f.value];
+          params.append(f.column, `cs.${JSON.stringify(arr)}`);
+          break;
+        }
+      }
+    }
+  }
+
+  private formatScalar(val: unknown): string {
+    if (typeof val === 'boolean') return val ? 'true' : 'false';
+    if (val !== null && typeof val === 'object') return JSON.stringify(val);
+    return String(val);
+  }
+
+  private quoteListValue(val: unknown): string {
+    const s = this.formatScalar(val);
+    return /[,.:()"\s]/.test(s) ? `"${s.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"` : s;
+  }
+
+  /**
+   * Rewrite the SQLite dialect used by tools into Postgres:
+   * ? placeholders → $n, INSERT OR IGNORE → ON CONFLICT DO NOTHING,
+   * LIKE … COLLATE NOCASE → ILIKE, datetime('now') → now().
+   */
+  private translateSql(sql: string): string {
+    let out = '';
+    let n = 0;
+    let inString = false;
+    for (let i = 0; i < sql.length; i++) {
+      const ch = sql[i];
+      if (ch === "'") inString = !inString;
+      if (ch === '?' && !inString) {
+        n++;
+        out += `$${n}`;
+      } else {
+        out += ch;
+      }
+    }
+
+    out = out.replace(/datetime\('now'\)/gi, 'now()');
+    out = out.replace(/\bLIKE\s+(\$\d+)\s+COLLATE\s+NOCASE/gi, 'ILIKE $1');
+    if (/^\s*INSERT\s+OR\s+IGNORE\s+INTO/i.test(out)) {
+      out = out.replace(/^\s*INSERT\s+OR\s+IGNORE\s+INTO/i, 'INSERT INTO');
+      out = out.replace(/(\s+RETURNING\s[\s\S]*)?$/i, m => ` ON CONFLICT DO NOTHING${m}`);
+    }
+    return out;
+  }
+}
@@ -123,11 +123,481 @@ CREATE TABLE IF NOT EXISTS search_queries (
 CREATE INDEX IF NOT EXISTS idx_usage_tool ON usage_stats(tool_name);
 CREATE INDEX IF NOT EXISTS idx_usage_ts ON usage_stats(timestamp);
 CREATE INDEX IF NOT EXISTS idx_search_ts ON search_queries(timestamp);
+`,
+  },
+  {
+    name: '004_search.sql',
+    sql: `
+CREATE VIRTUAL TABLE IF NOT EXISTS articles_fts USING fts5(
+  title, subtitle, content, editorial_angle,
+  content='articles', content_rowid='rowid', tokenize='unicode61 remove_diacritics 2'
+);
+CREATE VIRTUAL TABLE IF NOT EXISTS notes_fts USING fts5(
+  content, tags,
+  content='editorial_notes', content_rowid='rowid', tokenize='unicode61 remove_diacritics 2'
+);
+CREATE VIRTUAL TABLE IF NOT EXISTS sources_fts USING fts5(
+  title, description, key_quotes,
+  content='editorial_sources', content_rowid='rowid', tokenize='unicode61 remove_diacritics 2'
+);
+CREATE TRIGGER IF NOT EXISTS articles_fts_ai AFTER INSERT ON articles BEGIN
+  INSERT INTO articles_fts(rowid, title, subtitle, content, editorial_angle)
+  VALUES (new.rowid, new.title, new.subtitle, new.content, new.editorial_angle);
+END;
+CREATE TRIGGER IF NOT EXISTS articles_fts_ad AFTER DELETE ON articles BEGIN
+  INSERT INTO articles_fts(articles_fts, rowid, title, subtitle, content, editorial_angle)
+  VALUES ('delete', old.rowid, old.title, old.subtitle, old.content, old.editorial_angle);
+END;
+CREATE TRIGGER IF NOT EXISTS articles_fts_au AFTER UPDATE OF title, subtitle, content, editorial_angle ON articles BEGIN
+  INSERT INTO articles_fts(articles_fts, rowid, title, subtitle, content, editorial_angle)
+  VALUES ('delete', old.rowid, old.title, old.subtitle, old.content, old.editorial_angle);
+  INSERT INTO articles_fts(rowid, title, subtitle, content, editorial_angle)
+  VALUES (new.rowid, new.title, new.subtitle, new.content, new.editorial_angle);
+END;
+CREATE TRIGGER IF NOT EXISTS notes_fts_ai AFTER INSERT ON editorial_notes BEGIN
+  INSERT INTO notes_fts(rowid, content, tags) VALUES (new.rowid, new.content, new.tags);
+END;
+CREATE TRIGGER IF NOT EXISTS notes_fts_ad AFTER DELETE ON editorial_notes BEGIN
+  INSERT INTO notes_fts(notes_fts, rowid, content, tags) VALUES ('delete', old.rowid, old.content, old.tags);
+END;
+CREATE TRIGGER IF NOT EXISTS notes_fts_au AFTER UPDATE OF content, tags ON editorial_notes BEGIN
+  INSERT INTO notes_fts(notes_fts, rowid, content, tags) VALUES ('delete', old.rowid, old.content, old.tags);
+  INSERT INTO notes_fts(rowid, content, tags) VALUES (new.rowid, new.content, new.tags);
+END;
+CREATE TRIGGER IF NOT EXISTS sources_fts_ai AFTER INSERT ON editorial_sources BEGIN
+  INSERT INTO sources_fts(rowid, title, description, key_quotes)
+  VALUES (new.rowid, new.title, new.description, new.key_quotes);
+END;
+CREATE TRIGGER IF NOT EXISTS sources_fts_ad AFTER DELETE ON editorial_sources BEGIN
+  INSERT INTO sources_fts(sources_fts, rowid, title, description, key_quotes)
+  VALUES ('delete', old.rowid, old.title, old.description, old.key_quotes);
+END;
+CREATE TRIGGER IF NOT EXISTS sources_fts_au AFTER UPDATE OF title, description, key_quotes ON editorial_sources BEGIN
+  INSERT INTO sources_fts(sources_fts, rowid, title, description, key_quotes)
+  VALUES ('delete', old.rowid, old.title, old.description, old.key_quotes);
+  INSERT INTO sources_fts(rowid, title, description, key_quotes)
+  VALUES (new.rowid, new.title, new.description, new.key_quotes);
+END;
+INSERT INTO articles_fts(articles_fts) VALUES ('rebuild');
+INSERT INTO notes_fts(notes_fts) VALUES ('rebuild');
+INSERT INTO sources_fts(sources_fts) VALUES ('rebuild');
+`,
+  },
+  {
+    name: '005_accounts.sql',
+    sql: `
+CREATE TABLE IF NOT EXISTS users (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  name TEXT NOT NULL,
+  email TEXT UNIQUE,
+  role TEXT NOT NULL DEFAULT 'contributor' CHECK (role IN ('owner', 'editor', 'contributor', 'readonly')),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'disabled')),
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE TABLE IF NOT EXISTS api_keys (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT,
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  role TEXT CHECK (role IN ('owner', 'editor', 'contributor', 'readonly')),
+  expires_at TEXT,
+  last_used_at TEXT,
+  revoked_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS idx_api_keys_user ON api_keys(user_id);
+CREATE INDEX IF NOT EXISTS idx_api_keys_prefix ON api_keys(key_prefix);
+`,
+  },
+  {
+    name: '006_workflow.sql',
+    sql: `
+PRAGMA foreign_keys = OFF;
+CREATE TABLE articles_new (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  title TEXT NOT NULL,
+  subtitle TEXT,
+  content TEXT,
+  status TEXT NOT NULL DEFAULT 'idea' CHECK (status IN ('idea', 'drafting', 'in_review', 'scheduled', 'published', 'archived')),
+  type TEXT NOT NULL DEFAULT 'edition' CHECK (type IN ('edition', 'analysis', 'special')),
+  number INTEGER UNIQUE,
+  published_at TEXT,
+  views INTEGER NOT NULL DEFAULT 0,
+  open_rate REAL NOT NULL DEFAULT 0,
+  click_rate REAL NOT NULL DEFAULT 0,
+  substack_url TEXT,
+  editorial_angle TEXT,
+  tl_dr TEXT,
+  conclusion_signal TEXT CHECK (conclusion_signal IN ('bullish', 'bearish', 'neutral')),
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+INSERT INTO articles_new (rowid, id, title, subtitle, content, status, type, number, published_at, views, open_rate,
+  click_rate, substack_url, editorial_angle, tl_dr, conclusion_signal, created_at, updated_at)
+SELECT rowid, id, title, subtitle, content, CASE status WHEN 'draft' THEN 'drafting' ELSE status END, type, number,
+  published_at, views, open_rate, click_rate, substack_url, editorial_angle, tl_dr, conclusion_signal, created_at, updated_at
+FROM articles;
+DROP TABLE articles;
+ALTER TABLE articles_new RENAME TO articles;
+CREATE INDEX IF NOT EXISTS idx_articles_status ON articles(status);
+CREATE INDEX IF NOT EXISTS idx_articles_published_at ON articles(published_at);
+CREATE INDEX IF NOT EXISTS idx_articles_number ON articles(number);
+CREATE TRIGGER IF NOT EXISTS articles_fts_ai AFTER INSERT ON articles BEGIN
+  INSERT INTO articles_fts(rowid, title, subtitle, content, editorial_angle)
+  VALUES (new.rowid, new.title, new.subtitle, new.content, new.editorial_angle);
+END;
+CREATE TRIGGER IF NOT EXISTS articles_fts_ad AFTER DELETE ON articles BEGIN
+  INSERT INTO articles_fts(articles_fts, rowid, title, subtitle, content, editorial_angle)
+  VALUES ('delete', old.rowid, old.title, old.subtitle, old.content, old.editorial_angle);
+END;
+CREATE TRIGGER IF NOT EXISTS articles_fts_au AFTER UPDATE OF title, subtitle, content, editorial_angle ON articles BEGIN
+  INSERT INTO articles_fts(articles_fts, rowid, title, subtitle, content, editorial_angle)
+  VALUES ('delete', old.rowid, old.title, old.subtitle, old.content, old.editorial_angle);
+  INSERT INTO articles_fts(rowid, title, subtitle, content, editorial_angle)
+  VALUES (new.rowid, new.title, new.subtitle, new.content, new.editorial_angle);
+END;
+INSERT INTO articles_fts(articles_fts) VALUES ('rebuild');
+PRAGMA foreign_keys = ON;
+CREATE TABLE IF NOT EXISTS article_status_history (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  article_id TEXT NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  changed_by_name TEXT,
+  note TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS idx_status_history_article ON article_status_history(article_id, created_at);
+`,
+  },
+  {
+    name: '007_revisions.sql',
+    sql: `
+CREATE TABLE IF NOT EXISTS article_revisions (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  article_id TEXT NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  revision INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  subtitle TEXT,
+  content TEXT,
+  source TEXT NOT NULL DEFAULT 'edit' CHECK (source IN ('baseline', 'create', 'edit', 'import', 'restore')),
+  created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  created_by_name TEXT,
+  note TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (article_id, revision)
+);
+CREATE INDEX IF NOT EXISTS idx_revisions_article ON article_revisions(article_id, revision);
+`,
+  },
+  {
+    name: '008_embeddings.sql',
+    sql: `
+CREATE TABLE IF NOT EXISTS embeddings (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  item_type TEXT NOT NULL CHECK (item_type IN ('article', 'note', 'source')),
+  item_id TEXT NOT NULL,
+  model TEXT NOT NULL,
+  dimensions INTEGER NOT NULL,
+  vector TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (item_type, item_id, model)
+);
+CREATE INDEX IF NOT EXISTS idx_embeddings_model ON embeddings(model, item_type);
+`,
+  },
+  {
+    name: '009_publications.sql',
+    sql: `
+CREATE TABLE IF NOT EXISTS article_publications (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  article_id TEXT NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL CHECK (platform IN ('ghost', 'beehiiv', 'kit')),
+  external_id TEXT NOT NULL,
+  external_url TEXT,
+  status TEXT NOT NULL DEFAULT 'draft',
+  published_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  published_by_name TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (article_id, platform)
+);
+CREATE INDEX IF NOT EXISTS idx_publications_article ON article_publications(article_id);
+`,
+  },
+  {
+    name: '010_external_refs.sql',
+    sql: `
+CREATE TABLE IF NOT EXISTS article_external_refs (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  platform TEXT NOT NULL,
+  external_id TEXT NOT NULL,
+  article_id TEXT NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  external_updated_at TEXT,
+  last_synced_at TEXT NOT NULL DEFAULT (datetime('now')),
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (platform, external_id)
+);
+CREATE INDEX IF NOT EXISTS idx_external_refs_article ON article_external_refs(article_id);
+CREATE TABLE IF NOT EXISTS import_cursors (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  platform TEXT NOT NULL,
+  scope TEXT NOT NULL DEFAULT '',
+  cursor TEXT,
+  last_success_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (platform, scope)
+);
+INSERT OR IGNORE INTO article_external_refs (platform, external_id, article_id, last_synced_at)
+SELECT platform, external_id, article_id, updated_at FROM article_publications;
+`,
+  },
+  {
+    name: '011_sync_runs.sql',
+    sql: `
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  platform TEXT NOT NULL,
+  scope TEXT NOT NULL DEFAULT '',
+  triggered_by TEXT NOT NULL DEFAULT 'manual' CHECK (triggered_by IN ('manual', 'schedule')),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'partial', 'failed')),
+  started_at TEXT NOT NULL DEFAULT (datetime('now')),
+  finished_at TEXT,
+  created INTEGER NOT NULL DEFAULT 0,
+  updated INTEGER NOT NULL DEFAULT 0,
+  skipped INTEGER NOT NULL DEFAULT 0,
+  errors INTEGER NOT NULL DEFAULT 0,
+  messages TEXT NOT NULL DEFAULT '[]',
+  error TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_sync_runs_started ON sync_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sync_runs_platform ON sync_runs(platform, scope, started_at DESC);
+`,
+  },
+  {
+    name: '012_metrics_snapshots.sql',
+    sql: `
+CREATE TABLE IF NOT EXISTS article_metrics_snapshots (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  article_id TEXT NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL,
+  captured_at TEXT NOT NULL DEFAULT (datetime('now')),
+  hours_since_publish REAL,
+  views INTEGER,
+  open_rate REAL,
+  click_rate REAL
+);
+CREATE INDEX IF NOT EXISTS idx_metrics_article ON article_metrics_snapshots(article_id, captured_at);
+CREATE INDEX IF NOT EXISTS idx_metrics_captured ON article_metrics_snapshots(captured_at);
+`,
+  },
+  {
+    name: '013_subscriber_events.sql',
+    sql: `
+CREATE TABLE IF NOT EXISTS subscribers (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  platform TEXT NOT NULL,
+  subscriber_key TEXT NOT NULL,
+  email TEXT,
+  subscribed_at TEXT,
+  plan TEXT,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'inactive')),
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(platform, subscriber_key)
+);
+CREATE TABLE IF NOT EXISTS subscriber_events (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  platform TEXT NOT NULL,
+  subscriber_key TEXT NOT NULL,
+  external_post_id TEXT NOT NULL,
+  article_id TEXT REFERENCES articles(id) ON DELETE SET NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('delivered', 'opened')),
+  occurred_at TEXT NOT NULL,
+  country TEXT,
+  device TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS idx_subscriber_events_post ON subscriber_events(platform, external_post_id, event_type);
+CREATE INDEX IF NOT EXISTS idx_subscriber_events_subscriber ON subscriber_events(subscriber_key, event_type, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_subscriber_events_article ON subscriber_events(article_id);
+`,
+  },
+  {
+    name: '014_source_snapshots.sql',
+    sql: `
+CREATE TABLE IF NOT EXISTS source_snapshots (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  source_id TEXT NOT NULL REFERENCES editorial_sources(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  final_url TEXT,
+  http_status INTEGER,
+  content_hash TEXT NOT NULL,
+  title TEXT,
+  author TEXT,
+  published_at TEXT,
+  site_name TEXT,
+  description TEXT,
+  text TEXT NOT NULL,
+  word_count INTEGER NOT NULL DEFAULT 0,
+  fetched_at TEXT NOT NULL DEFAULT (datetime('now')),
+  checked_at TEXT NOT NULL DEFAULT (datetime('now')),
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS idx_source_snapshots_source ON source_snapshots(source_id, fetched_at);
+`,
+  },
+  {
+    name: '015_citations.sql',
+    sql: `
+ALTER TABLE editorial_notes ADD COLUMN source_id TEXT REFERENCES editorial_sources(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_notes_source ON editorial_notes(source_id);
+CREATE TABLE IF NOT EXISTS article_citations (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  article_id TEXT NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  source_id TEXT NOT NULL REFERENCES editorial_sources(id) ON DELETE CASCADE,
+  number INTEGER NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(article_id, source_id)
+);
+CREATE INDEX IF NOT EXISTS idx_article_citations_source ON article_citations(source_id);
+`,
+  },
+  {
+    name: '016_expert_crm.sql',
+    sql: `
+ALTER TABLE experts ADD COLUMN email TEXT;
+ALTER TABLE experts ADD COLUMN phone TEXT;
+ALTER TABLE experts ADD COLUMN website TEXT;
+CREATE TABLE IF NOT EXISTS expert_interactions (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  expert_id TEXT NOT NULL REFERENCES experts(id) ON DELETE CASCADE,
+  occurred_at TEXT NOT NULL DEFAULT (datetime('now')),
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'call', 'meeting', 'message', 'social', 'event', 'other')),
+  topic TEXT,
+  outcome TEXT CHECK (outcome IN ('quoted', 'agreed', 'declined', 'no_response', 'follow_up', 'other')),
+  article_id TEXT REFERENCES articles(id) ON DELETE SET NULL,
+  notes TEXT,
+  logged_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS idx_expert_interactions_expert ON expert_interactions(expert_id, occurred_at);
+`,
+  },
+  {
+    name: '017_expert_matching.sql',
+    sql: `
+CREATE TABLE IF NOT EXISTS expert_aliases (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  expert_id TEXT NOT NULL REFERENCES experts(id) ON DELETE CASCADE,
+  alias TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'name' CHECK (kind IN ('name', 'handle', 'transliteration')),
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(expert_id, alias)
+);
+ALTER TABLE article_experts ADD COLUMN status TEXT NOT NULL DEFAULT 'confirmed' CHECK (status IN ('confirmed', 'pending', 'rejected'));
+ALTER TABLE article_experts ADD COLUMN confidence REAL;
+ALTER TABLE article_experts ADD COLUMN matched_on TEXT;
+ALTER TABLE article_experts ADD COLUMN context TEXT;
+ALTER TABLE article_experts ADD COLUMN reviewed_at TEXT;
+CREATE INDEX IF NOT EXISTS idx_expert_aliases_expert ON expert_aliases(expert_id);
+CREATE INDEX IF NOT EXISTS idx_article_experts_status ON article_experts(status, expert_id);
+UPDATE experts SET times_cited = (
+  SELECT COUNT(*) FROM article_experts ae WHERE ae.expert_id = experts.id AND ae.status = 'confirmed'
+);
+`,
+  },
+  {
+    name: '018_tag_taxonomy.sql',
+    sql: `
+PRAGMA foreign_keys = OFF;
+CREATE TABLE tags_new (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  name TEXT NOT NULL UNIQUE,
+  category TEXT,
+  parent_id TEXT REFERENCES tags(id) ON DELETE SET NULL,
+  description TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+INSERT INTO tags_new (id, name, category, description, created_at)
+SELECT id, name, category, description, created_at FROM tags;
+DROP TABLE tags;
+ALTER TABLE tags_new RENAME TO tags;
+CREATE INDEX IF NOT EXISTS idx_tags_category ON tags(category);
+CREATE INDEX IF NOT EXISTS idx_tags_parent ON tags(parent_id);
+PRAGMA foreign_keys = ON;
+`,
+  },
+  {
+    name: '019_note_tags.sql',
+    sql: `
+CREATE TABLE IF NOT EXISTS note_tags (
+  note_id TEXT NOT NULL REFERENCES editorial_notes(id) ON DELETE CASCADE,
+  tag_id TEXT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  PRIMARY KEY (note_id, tag_id)
+);
+CREATE INDEX IF NOT EXISTS idx_note_tags_tag ON note_tags(tag_id);
+CREATE TEMP TABLE note_tag_names AS
+SELECT n.id AS note_id, trim(j.value) AS name
+FROM editorial_notes n, json_each(
+  CASE
+    WHEN n.tags IS NULL OR trim(n.tags) = '' THEN '[]'
+    WHEN json_valid(n.tags) AND json_type(n.tags) = 'array' THEN n.tags
+    WHEN json_valid(n.tags) AND json_type(n.tags) <> 'text' THEN '[]'
+    ELSE (
+      SELECT CASE WHEN json_valid(split) THEN split ELSE json_array(raw) END
+      FROM (SELECT raw, '["' || replace(replace(replace(raw, '\\', '\\\\'), '"', '\\"'), ',', '","') || '"]' AS split
+            FROM (SELECT CASE WHEN json_valid(n.tags) THEN json_extract(n.tags, '$') ELSE n.tags END AS raw))
+    )
+  END
+) j
+WHERE trim(j.value) <> '';
+INSERT INTO tags (name)
+SELECT MIN(name)
+FROM note_tag_names
+WHERE lower(name) NOT IN (SELECT lower(name) FROM tags)
+GROUP BY lower(name);
+INSERT INTO note_tags (note_id, tag_id)
+SELECT DISTINCT nn.note_id, t.id
+FROM note_tag_names nn
+JOIN (SELECT lower(name) AS name_key, MIN(id) AS id FROM tags GROUP BY lower(name)) t ON t.name_key = lower(nn.name);
+DROP TABLE note_tag_names;
+UPDATE editorial_notes
+SET tags = (SELECT json_group_array(t.name) FROM note_tags nt JOIN tags t ON t.id = nt.tag_id WHERE nt.note_id = editorial_notes.id)
+WHERE id IN (SELECT note_id FROM note_tags);
+`,
+  },
+  {
+    name: '020_editorial_calendar.sql',
+    sql: `
+ALTER TABLE articles ADD COLUMN scheduled_for TEXT;
+ALTER TABLE articles ADD COLUMN due_at TEXT;
+ALTER TABLE articles ADD COLUMN assignee TEXT;
+CREATE INDEX IF NOT EXISTS idx_articles_scheduled_for ON articles(scheduled_for);
+CREATE INDEX IF NOT EXISTS idx_articles_due_at ON articles(due_at);
+`,
+  },
+  {
+    name: '021_instance_settings.sql',
+    sql: `
+CREATE TABLE IF NOT EXISTS instance_settings (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  key TEXT NOT NULL UNIQUE,
+  value TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
 `,
   },
 ];
 
 export class SqliteAdapter implements DatabaseAdapter {
+  readonly dialect = 'sqlite';
   private db: Database.Database;
 
   constructor(dbPath: string) {
@@ -186,6 +656,26 @@ export class SqliteAdapter implements DatabaseAdapter {
     return result ?? data;
   }
 
+  async insertMany(table: string, rows: Row[]): Promise<number> {
+    // One statement per column set, so columns a row leaves out keep their defaults
+    const statements = new Map<string, Database.Statement>();
+    const insertAll = this.db.transaction((batch: Row[]) => {
+      for (const data of batch) {
+        if (!data.id) data.id = this.generateId();
+        const columns = Object.keys(data);
+        const signature = columns.join(',');
+        let stmt = statements.get(signature);
+        if (!stmt) {
+          stmt = this.db.prepare(`INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`);
+          statements.set(signature, stmt);
+        }
+        stmt.run(...columns.map(c => this.serializeValue(data[c])));
+      }
+    });
+    insertAll(rows);
+    return rows.length;
+  }
+
   async update(table: string, filters: Filter[], data: Row): Promise<Row[]> {
     const setClauses: string[] = [];
     const setParams: unknown[] = [];
@@ -214,7 +704,13 @@ export class SqliteAdapter implements DatabaseAdapter {
   }
 
   async raw(sql: string, params?: unknown[]): Promise<Row[]> {
-    return this.db.prepare(sql).all(...(params ?? [])) as Row[];
+    const stmt = this.db.prepare(sql);
+    // Statements without a result set (INSERT/UPDATE/DELETE without RETURNING) must use run()
+    if (!stmt.reader) {
+      stmt.run(...(params ?? []));
+      return [];
+    }
+    return stmt.all(...(params ?? [])) as Row[];
   }
 
   close(): void {
@@ -318,10 +814,15 @@ export class SqliteAdapter implements DatabaseAdapter {
             params.push(...f.value);
           }
           break;
-        case 'cs':
-          clauses.push(`${f.column} LIKE ?`);
-          params.push(`%${String(f.value)}%`);
+        case 'cs': {
+          // JSON array containment, matching whole elements like Postgres' @>
+          const values = Array.isArray(f.value) ? f.value : [f.value];
+          for (const v of values) {
+            clauses.push(`EXISTS (SELECT 1 FROM json_each(CASE WHEN json_valid(${f.column}) THEN ${f.column} ELSE '[]' END) WHERE value = ?)`);
+            params.push(v);
+          }
           break;
+        }
       }
     }
 
@@ -0,0 +1,113 @@
+/**
+ * LLM-backed drafting — builds prompts from a voice template and the brief
+ * (notes + unused sources) and writes one section per voice structure point.
+ */
+
+import type { Row, Sampler } from './types.js';
+import type { VoiceTemplate } from './voice/interface.js';
+import { noteMarker } from './citations.js';
+
+export interface DraftInput {
+  newsletter: string;
+  title: string;
+  focus?: string;
+  voice: VoiceTemplate;
+  notes: Row[];
+  /** In citation order — source [n] is sources[n - 1] */
+  sources: Row[];
+  maxTokensPerSection: number;
+}
+
+export interface DraftSection {
+  point: string;
+  text: string;
+}
+
+export interface GeneratedDraft {
+  sections: DraftSection[];
+  model?: string;
+}
+
+/** System prompt carrying the voice template's tone, style and formatting rules */
+export function voiceSystemPrompt(newsletter: string, voice: VoiceTemplate): string {
+  const lines = [`You are writing for the newsletter "${newsletter}".`];
+  if (voice.tone) lines.push('', `Tone: ${voice.tone}`);
+  if (voice.style.length) lines.push('', 'Style:', ...voice.style.map(s => `- ${s}`));
+  if (voice.formatting.length) lines.push('', 'Formatting:', ...voice.formatting.map(f => `- ${f}`));
+  lines.push(
+    '',
+    'Only use facts, numbers and quotes from the material you are given. Cite a source by its number in square brackets right after the claim, like [1] or [2, 3]. Do not add a references list.',
+    'Reply with the section text only — no preamble, no closing remarks.',
+  );
+  return lines.join('\n');
+}
+
+/** The notes and numbered sources as a compact plain-text brief */
+export function briefMaterial(notes: Row[], sources: Row[]): string {
+  const lines: string[] = [];
+
+  // TODOs are reminders for the writer, not material
+  const material = notes.filter(n => n.type !== 'todo');
+  if (material.length) {
+    lines.push('Notes:');
+    for (const n of material) lines.push(`- [${n.type}] ${n.content}${noteMarker(n, sources)}`);
+  }
+
+  if (sources.length) {
+    if (lines.length) lines.push('');
+    lines.push('Sources:');
+    sources.forEach((s, i) => {
+      lines.push(`[${i + 1}] ${s.title} — ${s.url}${s.published_date ? ` (${s.published_date})` : ''}`);
+      if (s.description) lines.push(`  ${s.description}`);
+      if (s.key_quotes) lines.push(`  Key quotes: ${s.key_quotes}`);
+      if (s.captured_text) lines.push(`  From the page: ${String(s.captured_text).replace(/\s+/g, ' ')}`);
+    });
+  }
+
+  return lines.length ? lines.join('\n') : '(No notes or sources collected yet.)';
+}
+
+function sectionPrompt(input: DraftInput, index: number, material: string, written: DraftSection[]): string {
+  const { title, focus, voice } = input;
+  const lines = [
+    `Article: "${title}"`,
+    ...(focus ? [`Focus: ${focus}`] : []),
+    '',
+    `Write part ${index + 1} of ${voice.structure.length}. Its job: ${voice.structure[index]}`,
+    '',
+    'Material:',
+    material,
+  ];
+
+  if (written.length) {
+    lines.push('', 'Already written (continue from here, do not repeat it):', '', written.map(s => s.text).join('\n\n'));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Write the article section by section. Each request sees the sections written so far,
+ * so the draft reads as one piece.
+ */
+export async function generateDraft(sample: Sampler, input: DraftInput): Promise<GeneratedDraft> {
+  const systemPrompt = voiceSystemPrompt(input.newsletter, input.voice);
+  const material = briefMaterial(input.notes, input.sources);
+  const points = input.voice.structure.length ? input.voice.structure : ['Write the full article'];
+  const voice = { ...input.voice, structure: points };
+
+  const sections: DraftSection[] = [];
+  let model: string | undefined;
+
+  for (let i = 0; i < points.length; i++) {
+    const result = await sample({
+      systemPrompt,
+      messages: [{ role: 'user', text: sectionPrompt({ ...input, voice }, i, material, sections) }],
+      maxTokens: input.maxTokensPerSection,
+    });
+    sections.push({ point: points[i], text: result.text.trim() });
+    model = result.model ?? model;
+  }
+
+  return { sections, model };
+}
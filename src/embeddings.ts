@@ -0,0 +1,311 @@
+/**
+ * Embeddings for semantic search.
+ * The built-in HashingEmbedder works offline: words and word pairs are hashed into a fixed-size
+ * signed vector (feature hashing), so similar wording lands close together without a model.
+ * OpenAiCompatibleEmbedder calls an /embeddings endpoint instead.
+ * Vectors are computed lazily — syncEmbeddings() re-embeds only items whose text changed.
+ */
+
+import { createHash } from 'crypto';
+import type { Embedder, Env, InkwellConfig, Row } from './types.js';
+import { parseJsonArray } from './utils.js';
+
+export type EmbeddableType = 'article' | 'note' | 'source';
+
+export const EMBEDDABLE_TYPES: EmbeddableType[] = ['article', 'note', 'source'];
+
+const TABLES: Record<EmbeddableType, string> = {
+  article: 'articles',
+  note: 'editorial_notes',
+  source: 'editorial_sources',
+};
+
+/** Long articles are cut before embedding; the opening carries most of the topic */
+const MAX_TEXT_CHARS = 8_000;
+const BATCH_SIZE = 32;
+
+// --- Built-in embedder ---
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one', 'our', 'out',
+  'has', 'have', 'his', 'how', 'its', 'may', 'new', 'now', 'see', 'who', 'did', 'get', 'into', 'more', 'than',
+  'that', 'this', 'with', 'from', 'they', 'been', 'were', 'what', 'when', 'will', 'would', 'there', 'their',
+  'about', 'which', 'these', 'those', 'also', 'just', 'over', 'such', 'some', 'then', 'them', 'very', 'your',
+  'les', 'des', 'une', 'est', 'dans', 'pour', 'par', 'sur', 'pas', 'plus', 'que', 'qui', 'aux', 'avec', 'son',
+  'ses', 'ces', 'sont', 'mais', 'ont', 'cette', 'comme', 'elle', 'nous', 'vous', 'leur', 'leurs', 'tout',
+]);
+
+function tokenize(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .match(/[a-z0-9]+/g) ?? [];
+
+  return words
+    .filter(w => w.length >= 2 && !STOPWORDS.has(w))
+    // Fold simple plurals so "chips" and "chip" share a feature
+    .map(w => (w.length > 4 && w.endsWith('s') && !w.endsWith('ss') ? w.slice(0, -1) : w));
+}
+
+/** FNV-1a, 32-bit */
+function hash32(s: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function normalize(v: number[]): number[] {
+  const norm = Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+  return norm ? v.map(x => x / norm) : v;
+}
+
+export class HashingEmbedder implements Embedder {
+  readonly model: string;
+  private dimensions: number;
+
+  constructor(dimensions = 1024) {
+    this.dimensions = dimensions;
+    this.model = `inkwell-hash-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(t => this.vector(t));
+  }
+
+  private vector(text: string): number[] {
+    const tokens = tokenize(text);
+    const counts = new Map<string, number>();
+    for (let i = 0; i < tokens.length; i++) {
+      counts.set(tokens[i], (counts.get(tokens[i]) ?? 0) + 1);
+      if (i > 0) {
+        const pair = `${tokens[i - 1]} ${tokens[i]}`;
+        counts.set(pair, (counts.get(pair) ?? 0) + 1);
+      }
+    }
+
+    const v = new Array<number>(this.dimensions).fill(0);
+    for (const [term, tf] of counts) {
+      const h = hash32(term);
+      // A second hash picks the sign, so collisions cancel out instead of piling up
+      const sign = hash32(`~${term}`) & 1 ? 1 : -1;
+      const weight = (1 + Math.log(tf)) * (term.includes(' ') ? 0.5 : 1);
+      v[h % this.dimensions] += sign * weight;
+    }
+    return normalize(v);
+  }
+}
+
+// --- Endpoint embedder ---
+
+export interface OpenAiCompatibleEmbedderOptions {
+  /** Base URL including the API version, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  /** Injectable fetch, e.g. for a local mock server */
+  fetch?: typeof fetch;
+}
+
+export class OpenAiCompatibleEmbedder implements Embedder {
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+  private fetchFn: typeof fetch;
+
+  constructor(opts: OpenAiCompatibleEmbedderOptions) {
+    this.baseUrl = opts.baseUrl.replace(/\/+$/, '').replace(/\/embeddings$/, '');
+    this.model = opts.model;
+    this.apiKey = opts.apiKey;
+    this.fetchFn = opts.fetch ?? fetch;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!texts.length) return [];
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+    const res = await this.fetchFn(`${this.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: this.model, input: texts }),
+    });
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      throw new Error(`Embeddings request failed (${res.status}): ${text.slice(0, 300)}`);
+    }
+
+    const data = await res.json() as { data?: Array<{ index?: number; embedding?: number[] }> };
+    const items = [...(data.data ?? [])].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+    if (items.length !== texts.length || items.some(i => !Array.isArray(i.embedding))) {
+      throw new Error(`Embeddings response returned ${items.length} vectors for ${texts.length} inputs`);
+    }
+    return items.map(i => normalize(i.embedding as number[]));
+  }
+}
+
+const DEFAULT_EMBEDDER = new HashingEmbedder();
+
+/** Embedder from config.embeddings, or undefined to use the built-in one */
+export function createEmbedder(config: InkwellConfig): Embedder | undefined {
+  if (!config.embeddings) return undefined;
+  return new OpenAiCompatibleEmbedder(config.embeddings);
+}
+
+export function getEmbedder(env: Env): Embedder {
+  return env.embedder ?? DEFAULT_EMBEDDER;
+}
+
+// --- Indexing ---
+
+/** The text embedded for an item */
+export function itemText(type: EmbeddableType, row: Row): string {
+  let parts: unknown[];
+  if (type === 'article') {
+    parts = [row.title, row.subtitle, row.editorial_angle, String(row.content ?? '').replace(/<[^>]+>/g, ' ')];
+  } else if (type === 'note') {
+    parts = [row.content, parseJsonArray(row.tags).join(' ')];
+  } else {
+    parts = [row.title, row.description, row.key_quotes];
+  }
+  return parts.filter(Boolean).map(String).join('\n').replace(/[ \t]+/g, ' ').slice(0, MAX_TEXT_CHARS);
+}
+
+const TEXT_COLUMNS: Record<EmbeddableType, string[]> = {
+  article: ['id', 'title', 'subtitle', 'editorial_angle', 'content'],
+  note: ['id', 'content', 'tags'],
+  source: ['id', 'title', 'description', 'key_quotes'],
+};
+
+function contentHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex').slice(0, 32);
+}
+
+/**
+ * Bring stored vectors up to date for the given item types: embed new or changed items,
+ * drop vectors of deleted ones. Cheap when nothing changed.
+ */
+export async function syncEmbeddings(
+  env: Env,
+  types: EmbeddableType[] = EMBEDDABLE_TYPES,
+): Promise<{ embedded: number; removed: number }> {
+  const embedder = getEmbedder(env);
+  let embedded = 0;
+  let removed = 0;
+
+  for (const type of types) {
+    const items = await env.db.query({ table: TABLES[type], select: TEXT_COLUMNS[type] });
+    const stored = await env.db.query({
+      table: 'embeddings',
+      select: ['id', 'item_id', 'content_hash'],
+      filters: [
+        { column: 'model', op: 'eq', value: embedder.model },
+        { column: 'item_type', op: 'eq', value: type },
+      ],
+    });
+    const storedById = new Map(stored.map(s => [String(s.item_id), s]));
+
+    const stale: Array<{ id: string; text: string; hash: string; existing?: Row }> = [];
+    for (const item of items) {
+      const text = itemText(type, item);
+      const hash = contentHash(text);
+      const existing = storedById.get(String(item.id));
+      if (!existing || existing.content_hash !== hash) {
+        stale.push({ id: String(item.id), text, hash, existing });
+      }
+    }
+
+    for (let i = 0; i < stale.length; i += BATCH_SIZE) {
+      const batch = stale.slice(i, i + BATCH_SIZE);
+      const vectors = await embedder.embed(batch.map(b => b.text));
+      for (let j = 0; j < batch.length; j++) {
+        const data = {
+          vector: vectors[j].map(x => Math.round(x * 1e6) / 1e6),
+          dimensions: vectors[j].length,
+          content_hash: batch[j].hash,
+          updated_at: new Date().toISOString(),
+        };
+        if (batch[j].existing) {
+          await env.db.update('embeddings', [{ column: 'id', op: 'eq', value: String(batch[j].existing!.id) }], data);
+        } else {
+          await env.db.insert('embeddings', { item_type: type, item_id: batch[j].id, model: embedder.model, ...data });
+        }
+        embedded++;
+      }
+    }
+
+    const live = new Set(items.map(item => String(item.id)));
+    const orphans = stored.filter(s => !live.has(String(s.item_id))).map(s => String(s.id));
+    if (orphans.length) {
+      await env.db.delete('embeddings', [{ column: 'id', op: 'in', value: orphans }]);
+      removed += orphans.length;
+    }
+  }
+
+  return { embedded, removed };
+}
+
+export interface SemanticHit {
+  type: EmbeddableType;
+  id: string;
+  score: number;
+}
+
+function parseVector(v: unknown): number[] {
+  if (Array.isArray(v)) return v as number[];
+  try {
+    return JSON.parse(String(v)) as number[];
+  } catch {
+    return [];
+  }
+}
+
+/** Stored vector for an item, or null if it hasn't been embedded */
+export async function getItemVector(env: Env, type: EmbeddableType, id: string): Promise<number[] | null> {
+  const row = await env.db.queryOne({
+    table: 'embeddings',
+    select: ['vector'],
+    filters: [
+      { column: 'model', op: 'eq', value: getEmbedder(env).model },
+      { column: 'item_type', op: 'eq', value: type },
+      { column: 'item_id', op: 'eq', value: id },
+    ],
+  });
+  return row ? parseVector(row.vector) : null;
+}
+
+/** Rank stored vectors by cosine similarity (vectors are unit length, so a dot product) */
+export async function rankBySimilarity(
+  env: Env,
+  vector: number[],
+  types: EmbeddableType[],
+  opts: { limit: number; minScore?: number; exclude?: { type: EmbeddableType; id: string } },
+): Promise<SemanticHit[]> {
+  const rows = await env.db.query({
+    table: 'embeddings',
+    select: ['item_type', 'item_id', 'vector'],
+    filters: [
+      { column: 'model', op: 'eq', value: getEmbedder(env).model },
+      { column: 'item_type', op: 'in', value: types },
+    ],
+  });
+
+  const hits: SemanticHit[] = [];
+  for (const row of rows) {
+    const type = row.item_type as EmbeddableType;
+    const id = String(row.item_id);
+    if (opts.exclude && opts.exclude.type === type && opts.exclude.id === id) continue;
+
+    const v = parseVector(row.vector);
+    if (v.length !== vector.length) continue;
+    let score = 0;
+    for (let i = 0; i < v.length; i++) score += v[i] * vector[i];
+    if (score >= (opts.minScore ?? 0)) hits.push({ type, id, score });
+  }
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, opts.limit);
+}
@@ -0,0 +1,250 @@
+/**
+ * Expert CRM — aliases, merging duplicate experts, linking experts to the articles that quote
+ * them, reviewing uncertain matches, and finding experts we haven't quoted lately.
+ * "Quoted" means a confirmed link to a published article.
+ */
+
+import type { Env, Row } from './types.js';
+import { parseJsonArray } from './utils.js';
+import { recountCitations } from './connectors/expert-matching.js';
+
+export const CONTACT_CHANNELS = ['email', 'call', 'meeting', 'message', 'social', 'event', 'other'] as const;
+export const CONTACT_OUTCOMES = ['quoted', 'agreed', 'declined', 'no_response', 'follow_up', 'other'] as const;
+export const ALIAS_KINDS = ['name', 'handle', 'transliteration'] as const;
+
+/** Fields filled from a merged expert when the kept one has none */
+const FILLABLE = ['affiliation', 'country', 'tier', 'email', 'phone', 'website'];
+
+export async function getExpertOrThrow(env: Env, id: string): Promise<Row> {
+  const expert = await env.db.queryOne({
+    table: 'experts',
+    filters: [{ column: 'id', op: 'eq', value: id }],
+  });
+  if (!expert) throw { code: 404, message: `Expert not found: ${id}` };
+  return expert;
+}
+
+// article_experts has no id column, so the adapters' insert() (which adds one) can't be used
+async function addLink(env: Env, articleId: string, expertId: string, matchedOn: string | null): Promise<void> {
+  await env.db.raw(
+    "INSERT INTO article_experts (article_id, expert_id, status, confidence, matched_on, reviewed_at) VALUES (?, ?, 'confirmed', 1, ?, ?)",
+    [articleId, expertId, matchedOn, new Date().toISOString()]
+  );
+}
+
+function linkFilters(articleId: string, expertId: string) {
+  return [
+    { column: 'article_id', op: 'eq' as const, value: articleId },
+    { column: 'expert_id', op: 'eq' as const, value: expertId },
+  ];
+}
+
+/** Confirm an expert's link to an article (creating it if needed); false when it was already confirmed */
+export async function linkExpert(env: Env, articleId: string, expertId: string, matchedOn: string | null = null): Promise<boolean> {
+  const existing = await env.db.queryOne({ table: 'article_experts', select: ['status'], filters: linkFilters(articleId, expertId) });
+  if (existing?.status === 'confirmed') return false;
+
+  if (existing) {
+    await env.db.update('article_experts', linkFilters(articleId, expertId), { status: 'confirmed', reviewed_at: new Date().toISOString() });
+  } else {
+    await addLink(env, articleId, expertId, matchedOn);
+  }
+  await recountCitations(env.db, [expertId]);
+  return true;
+}
+
+/** Replace an expert's aliases. Entries are "name" or {alias, kind}; blanks and the expert's own name are dropped. */
+export async function setAliases(env: Env, expert: Row, aliases: unknown[]): Promise<Row[]> {
+  const wanted = new Map<string, string>();
+  for (const entry of aliases) {
+    const raw = typeof entry === 'object' && entry ? entry as Row : { alias: entry };
+    const alias = String(raw.alias ?? '').trim();
+    const kind = raw.kind != null ? String(raw.kind) : alias.startsWith('@') ? 'handle' : 'name';
+    if (!(ALIAS_KINDS as readonly string[]).includes(kind)) {
+      throw { code: 400, message: `Invalid alias kind "${kind}". Expected one of: ${ALIAS_KINDS.join(', ')}` };
+    }
+    if (alias && alias.toLowerCase() !== String(expert.name).toLowerCase()) wanted.set(alias, kind);
+  }
+
+  const expertId = String(expert.id);
+  await env.db.delete('expert_aliases', [{ column: 'expert_id', op: 'eq', value: expertId }]);
+  const rows: Row[] = [];
+  for (const [alias, kind] of wanted) {
+    rows.push(await env.db.insert('expert_aliases', { expert_id: expertId, alias, kind }));
+  }
+  return rows;
+}
+
+export async function getAliases(env: Env, expertId: string): Promise<Row[]> {
+  return env.db.query({
+    table: 'expert_aliases',
+    select: ['alias', 'kind'],
+    filters: [{ column: 'expert_id', op: 'eq', value: expertId }],
+    order: [{ column: 'alias', direction: 'asc' }],
+  });
+}
+
+export const REVIEW_ACTIONS = ['confirm', 'reject'] as const;
+
+/** Pending expert matches, least confident first, with article titles and expert names */
+export async function pendingMatches(env: Env, opts: { articleId?: string; expertId?: string; limit: number }): Promise<Row[]> {
+  const where = ["ae.status = 'pending'"];
+  const params: unknown[] = [];
+  if (opts.articleId) {
+    where.push('ae.article_id = ?');
+    params.push(opts.articleId);
+  }
+  if (opts.expertId) {
+    where.push('ae.expert_id = ?');
+    params.push(opts.expertId);
+  }
+  return env.db.raw(
+    `SELECT ae.article_id, a.title AS article_title, ae.expert_id, e.name AS expert_name, e.affiliation,
+            ae.matched_on, ae.confidence, ae.context
+     FROM article_experts ae
+     JOIN articles a ON a.id = ae.article_id
+     JOIN experts e ON e.id = ae.expert_id
+     WHERE ${where.join(' AND ')}
+     ORDER BY ae.confidence ASC, a.published_at DESC
+     LIMIT ?`,
+    [...params, opts.limit]
+  );
+}
+
+/** Confirm or reject a match. Rejected links stay so enrichment doesn't suggest them again. */
+export async function reviewMatch(env: Env, articleId: string, expertId: string, action: string): Promise<Row> {
+  if (!(REVIEW_ACTIONS as readonly string[]).includes(action)) {
+    throw { code: 400, message: `Invalid action "${action}". Expected one of: ${REVIEW_ACTIONS.join(', ')}` };
+  }
+  const rows = await env.db.update('article_experts', linkFilters(articleId, expertId), {
+    status: action === 'confirm' ? 'confirmed' : 'rejected',
+    reviewed_at: new Date().toISOString(),
+  });
+  if (!rows.length) throw { code: 404, message: `No match between article ${articleId} and expert ${expertId}` };
+  await recountCitations(env.db, [expertId]);
+  return rows[0];
+}
+
+export interface MergeResult {
+  expert: Row;
+  merged: Array<{ id: string; name: string }>;
+  articles_moved: number;
+  interactions_moved: number;
+}
+
+/**
+ * Fold `mergeIds` into `keepId`: article links, aliases and contact history move over (the
+ * merged names become aliases), expertise is combined, empty fields are filled in and notes
+ * are appended. The merged experts are then deleted and times_cited recounted.
+ */
+export async function mergeExperts(env: Env, keepId: string, mergeIds: string[]): Promise<MergeResult> {
+  const ids = [...new Set(mergeIds)].filter(id => id !== keepId);
+  if (!ids.length) throw { code: 400, message: 'merge_ids must name at least one expert other than keep_id' };
+
+  const keep = await getExpertOrThrow(env, keepId);
+  const others: Row[] = [];
+  for (const id of ids) others.push(await getExpertOrThrow(env, id));
+
+  const linked = new Map(
+    (await env.db.query({
+      table: 'article_experts',
+      select: ['article_id', 'status'],
+      filters: [{ column: 'expert_id', op: 'eq', value: keepId }],
+    })).map(r => [String(r.article_id), String(r.status)]),
+  );
+  const aliases: unknown[] = (await getAliases(env, keepId)).map(a => ({ alias: a.alias, kind: a.kind }));
+
+  let articlesMoved = 0;
+  let interactionsMoved = 0;
+  const patch: Row = {};
+  const expertise = new Set(parseJsonArray(keep.expertise));
+  const notes = keep.notes ? [String(keep.notes)] : [];
+
+  for (const other of others) {
+    const otherId = String(other.id);
+    // A confirmed link wins over a pending or rejected one for the same article
+    const links = await env.db.query({
+      table: 'article_experts',
+      filters: [{ column: 'expert_id', op: 'eq', value: otherId }],
+    });
+    for (const link of links) {
+      const articleId = String(link.article_id);
+      const current = linked.get(articleId);
+      if (current === 'confirmed' || (current && link.status !== 'confirmed')) continue;
+      if (current) {
+        await env.db.update('article_experts', linkFilters(articleId, keepId), { status: 'confirmed' });
+      } else {
+        await env.db.update('article_experts', linkFilters(articleId, otherId), { expert_id: keepId });
+        articlesMoved++;
+      }
+      linked.set(articleId, String(link.status));
+    }
+
+    aliases.push(other.name, ...(await getAliases(env, otherId)).map(a => ({ alias: a.alias, kind: a.kind })));
+
+    const moved = await env.db.update(
+      'expert_interactions',
+      [{ column: 'expert_id', op: 'eq', value: otherId }],
+      { expert_id: keepId },
+    );
+    interactionsMoved += moved.length;
+
+    for (const e of parseJsonArray(other.expertise)) expertise.add(e);
+    if (other.notes) notes.push(`[Merged from ${other.name}] ${other.notes}`);
+    for (const field of FILLABLE) {
+      if ((keep[field] == null || keep[field] === '') && patch[field] == null && other[field] != null && other[field] !== '') {
+        patch[field] = other[field];
+      }
+    }
+
+    // Its remaining article_experts and alias rows go with it (ON DELETE CASCADE)
+    await env.db.delete('experts', [{ column: 'id', op: 'eq', value: otherId }]);
+  }
+
+  await setAliases(env, keep, aliases);
+  await recountCitations(env.db, [keepId]);
+  const rows = await env.db.update('experts', [{ column: 'id', op: 'eq', value: keepId }], {
+    ...patch,
+    expertise: JSON.stringify([...expertise]),
+    notes: notes.length ? notes.join('\n') : null,
+    updated_at: new Date().toISOString(),
+  });
+
+  return {
+    expert: rows[0],
+    merged: others.map(o => ({ id: String(o.id), name: String(o.name) })),
+    articles_moved: articlesMoved,
+    interactions_moved: interactionsMoved,
+  };
+}
+
+/** Publication date of each expert's most recent published article (absent when never quoted) */
+export async function lastQuoted(env: Env, expertIds?: string[]): Promise<Map<string, string>> {
+  if (expertIds && !expertIds.length) return new Map();
+  const rows = await env.db.raw(
+    `SELECT ae.expert_id, MAX(a.published_at) AS last_quoted_at
+     FROM article_experts ae
+     JOIN articles a ON a.id = ae.article_id
+     WHERE ae.status = 'confirmed' AND a.status = 'published' AND a.published_at IS NOT NULL
+       ${expertIds ? `AND ae.expert_id IN (${expertIds.map(() => '?').join(', ')})` : ''}
+     GROUP BY ae.expert_id`,
+    expertIds ?? []
+  );
+  return new Map(rows.map(r => [String(r.expert_id), String(r.last_quoted_at)]));
+}
+
+/**
+ * Experts not quoted since `cutoff` (ISO date), never-quoted ones included: longest since
+ * last quoted first, then the never quoted, best tier first.
+ */
+export async function expertsNotQuotedSince(env: Env, experts: Row[], cutoff: string): Promise<Row[]> {
+  const last = await lastQuoted(env);
+  return experts
+    .map((e): Row & { last_quoted_at: string | null } => ({ ...e, last_quoted_at: last.get(String(e.id)) ?? null }))
+    .filter(e => !e.last_quoted_at || e.last_quoted_at < cutoff)
+    .sort((a, b) => {
+      if (a.last_quoted_at && b.last_quoted_at) return a.last_quoted_at < b.last_quoted_at ? -1 : 1;
+      if (a.last_quoted_at || b.last_quoted_at) return a.last_quoted_at ? -1 : 1;
+      return (Number(a.tier) || 2) - (Number(b.tier) || 2);
+    });
+}
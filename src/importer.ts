@@ -0,0 +1,311 @@
+/**
+ * Newsletter import — runs a connector and upserts its posts into articles.
+ * Posts are matched by their platform ID (article_external_refs) first, then by title for
+ * articles imported before IDs were kept. API imports are incremental: a per-platform cursor in
+ * import_cursors records how far the last successful run got. Each run also appends the metrics
+ * it saw to article_metrics_snapshots. Substack exports also bring per-recipient events (subscribers.ts).
+ */
+
+import type { AuthContext, Env, Row } from './types.js';
+import { SubstackConnector } from './connectors/substack.js';
+import { BeehiivConnector } from './connectors/beehiiv.js';
+import { GhostConnector } from './connectors/ghost.js';
+import { KitConnector } from './connectors/kit.js';
+import { RssConnector } from './connectors/rss.js';
+import { MarkdownFolderConnector } from './connectors/markdown-folder.js';
+import { looksLikeHtml, markdownToHtml } from './connectors/markdown.js';
+import { enrichArticle } from './connectors/enrichment.js';
+import type { EnrichmentResult } from './connectors/enrichment.js';
+import type { NewsletterConnector, ConnectorConfig, ImportedArticle } from './connectors/interface.js';
+import { recordRevision } from './revisions.js';
+import { recordMetricsSnapshot } from './metrics.js';
+import { importSubscriberEvents } from './subscribers.js';
+
+export const CONNECTORS: Record<string, NewsletterConnector> = {
+  substack: new SubstackConnector(),
+  beehiiv: new BeehiivConnector(),
+  ghost: new GhostConnector(),
+  kit: new KitConnector(),
+  rss: new RssConnector(),
+  markdown: new MarkdownFolderConnector(),
+};
+
+export interface ImportOptions {
+  /** Run enrichment (auto-tag, expert linking). Default true. */
+  enrich?: boolean;
+  /** Preview without writing to the database */
+  dryRun?: boolean;
+  /** Ignore the stored cursor and fetch everything */
+  full?: boolean;
+  /** Start this many days before the stored cursor, to refresh stats of recent posts */
+  lookbackDays?: number;
+  /** Also import per-recipient deliveries and opens (Substack exports). Default true. */
+  subscriberEvents?: boolean;
+}
+
+// --- External IDs ---
+
+/** Article mapped to a platform post, or null */
+export async function findArticleByExternalId(env: Env, platform: string, externalId: string): Promise<Row | null> {
+  const ref = await env.db.queryOne({
+    table: 'article_external_refs',
+    select: ['article_id'],
+    filters: [
+      { column: 'platform', op: 'eq', value: platform },
+      { column: 'external_id', op: 'eq', value: externalId },
+    ],
+  });
+  if (!ref) return null;
+  return env.db.queryOne({ table: 'articles', filters: [{ column: 'id', op: 'eq', value: String(ref.article_id) }] });
+}
+
+/** Map a platform post to an article (or refresh the mapping's sync time) */
+export async function linkExternalRef(
+  env: Env,
+  platform: string,
+  externalId: string,
+  articleId: string,
+  externalUpdatedAt?: string,
+): Promise<void> {
+  const data = {
+    article_id: articleId,
+    external_updated_at: externalUpdatedAt ?? null,
+    last_synced_at: new Date().toISOString(),
+  };
+  const filters = [
+    { column: 'platform', op: 'eq' as const, value: platform },
+    { column: 'external_id', op: 'eq' as const, value: externalId },
+  ];
+  const existing = await env.db.queryOne({ table: 'article_external_refs', select: ['id'], filters });
+  if (existing) {
+    await env.db.update('article_external_refs', filters, data);
+  } else {
+    await env.db.insert('article_external_refs', { platform, external_id: externalId, ...data });
+  }
+}
+
+async function findExisting(env: Env, platform: string, post: ImportedArticle): Promise<Row | null> {
+  if (post.external_id) {
+    const mapped = await findArticleByExternalId(env, platform, post.external_id);
+    if (mapped) return mapped;
+  }
+
+  // Articles imported before IDs were kept only match by title — and never one already
+  // mapped to a different post on this platform (two posts can share a title)
+  const rows = await env.db.raw(
+    `SELECT a.* FROM articles a
+     WHERE a.title = ?
+       AND NOT EXISTS (
+         SELECT 1 FROM article_external_refs r
+         WHERE r.article_id = a.id AND r.platform = ? AND r.external_id <> ?
+       )
+     LIMIT 1`,
+    [post.title, platform, post.external_id ?? '']
+  );
+  return rows[0] ?? null;
+}
+
+// --- Cursors ---
+
+/** Cursor key within a platform, so two Beehiiv publications or Ghost sites don't share one */
+export function cursorScope(config: ConnectorConfig): string {
+  return config.publicationId ?? config.apiUrl?.replace(/\/+$/, '') ?? '';
+}
+
+export async function getImportCursor(env: Env, platform: string, scope: string): Promise<Row | null> {
+  return env.db.queryOne({
+    table: 'import_cursors',
+    filters: [
+      { column: 'platform', op: 'eq', value: platform },
+      { column: 'scope', op: 'eq', value: scope },
+    ],
+  });
+}
+
+async function saveImportCursor(env: Env, platform: string, scope: string, cursor: string): Promise<void> {
+  const now = new Date().toISOString();
+  const existing = await getImportCursor(env, platform, scope);
+  if (existing) {
+    await env.db.update('import_cursors', [{ column: 'id', op: 'eq', value: String(existing.id) }], {
+      cursor,
+      last_success_at: now,
+      updated_at: now,
+    });
+  } else {
+    await env.db.insert('import_cursors', { platform, scope, cursor, last_success_at: now });
+  }
+}
+
+// --- Import ---
+
+export async function importNewsletter(
+  env: Env,
+  ctx: AuthContext | null,
+  platform: string,
+  config: ConnectorConfig,
+  opts: ImportOptions = {},
+): Promise<Record<string, unknown>> {
+  const connector = CONNECTORS[platform];
+  if (!connector) {
+    throw { code: 400, message: `Unknown platform: ${platform}. Supported: ${Object.keys(CONNECTORS).join(', ')}` };
+  }
+
+  // Validate
+  const validation = await connector.validate(config);
+  if (!validation.valid) {
+    throw { code: 400, message: `Validation failed: ${validation.message}` };
+  }
+
+  const scope = cursorScope(config);
+  const stored = opts.full ? null : await getImportCursor(env, platform, scope);
+  const storedCursor = stored?.cursor ? String(stored.cursor) : undefined;
+  const since = storedCursor && opts.lookbackDays
+    ? new Date(Date.parse(storedCursor) - opts.lookbackDays * 86_400_000).toISOString()
+    : storedCursor;
+
+  // Import
+  const result = await connector.import({ ...config, since });
+
+  if (opts.dryRun) {
+    return {
+      dry_run: true,
+      platform,
+      since: since ?? null,
+      ...result.stats,
+      messages: result.messages,
+      preview: result.articles.slice(0, 5).map(a => ({
+        title: a.title,
+        published_at: a.published_at,
+        open_rate: a.open_rate,
+      })),
+    };
+  }
+
+  const tagPatterns = (env.config.tagPatterns ?? []).map(tp => ({
+    name: tp.name,
+    category: tp.category,
+    pattern: tp.pattern,
+  }));
+
+  // Insert articles
+  let created = 0;
+  let updated = 0;
+  let skipped = 0;
+  const enrichResults: EnrichmentResult[] = [];
+
+  for (const article of result.articles) {
+    const existing = await findExisting(env, platform, article);
+    let articleId: string;
+    // Only new or rewritten bodies are enriched, so a re-sync doesn't call the LLM for the whole catalog
+    let contentChanged = false;
+
+    if (existing) {
+      articleId = String(existing.id);
+
+      // The platform copy wins (a renamed post renames the article); the old text stays in revisions.
+      // Only changed fields count, so re-fetched posts with nothing new are skipped.
+      const patch: Record<string, unknown> = { updated_at: new Date().toISOString() };
+      const changes: Record<string, unknown> = {
+        title: article.title,
+        subtitle: article.subtitle || undefined,
+        content: article.content || undefined,
+        published_at: article.published_at,
+        open_rate: article.open_rate,
+        click_rate: article.click_rate,
+        views: article.views,
+        editorial_angle: article.editorial_angle || undefined,
+        substack_url: article.url || undefined,
+      };
+      for (const [column, value] of Object.entries(changes)) {
+        if (value != null && value !== existing[column]) patch[column] = value;
+      }
+
+      if (Object.keys(patch).length > 1) {
+        const rows = await env.db.update('articles', [{ column: 'id', op: 'eq', value: articleId }], patch);
+        await recordRevision(env, ctx, existing, rows[0], 'import', `Synced from ${platform}`);
+        contentChanged = patch.content !== undefined;
+        updated++;
+      } else {
+        skipped++;
+      }
+    } else {
+      // Create new
+      const inserted = await env.db.insert('articles', {
+        title: article.title,
+        subtitle: article.subtitle ?? null,
+        content: article.content ?? null,
+        status: article.status,
+        type: article.type,
+        number: article.number ?? null,
+        published_at: article.published_at ?? null,
+        views: article.views ?? 0,
+        open_rate: article.open_rate ?? 0,
+        click_rate: article.click_rate ?? 0,
+        substack_url: article.url ?? null,
+        editorial_angle: article.editorial_angle ?? null,
+      });
+      articleId = String(inserted.id);
+      await recordRevision(env, ctx, null, inserted, 'import', `Imported from ${platform}`);
+      contentChanged = true;
+      created++;
+    }
+
+    // Every import adds a point to the engagement curve, changed or not
+    await recordMetricsSnapshot(
+      env,
+      articleId,
+      platform,
+      { views: article.views, open_rate: article.open_rate, click_rate: article.click_rate },
+      article.published_at ?? (existing?.published_at as string | undefined),
+    );
+
+    if (article.external_id) {
+      await linkExternalRef(env, platform, article.external_id, articleId, article.updated_at);
+    }
+
+    // Enrich if requested (TL;DR extraction reads HTML lists, so markdown bodies are converted first)
+    if (opts.enrich !== false && article.content && contentChanged) {
+      const html = looksLikeHtml(article.content) ? article.content : markdownToHtml(article.content);
+      const er = await enrichArticle(env.db, articleId, html, tagPatterns, env.llm);
+      enrichResults.push(er);
+    }
+  }
+
+  // Events are linked to articles through their external refs, so they come after the posts
+  const subscriberEvents = platform === 'substack' && config.exportPath && opts.subscriberEvents !== false
+    ? await importSubscriberEvents(env, config.exportPath, { full: opts.full })
+    : null;
+
+  // Only a clean run moves the cursor, so a failed page is fetched again next time.
+  // A lookback start must not pull it backwards.
+  const nextCursor = result.cursor && storedCursor && Date.parse(storedCursor) > Date.parse(result.cursor)
+    ? storedCursor
+    : result.cursor;
+  const cursorSaved = !!nextCursor && result.stats.errors === 0;
+  if (cursorSaved) await saveImportCursor(env, platform, scope, nextCursor!);
+
+  const totalTags = enrichResults.reduce((sum, r) => sum + r.tags, 0);
+  const totalExperts = enrichResults.reduce((sum, r) => sum + r.experts, 0);
+  const expertsToReview = enrichResults.reduce((sum, r) => sum + r.experts_pending, 0);
+
+  return {
+    platform,
+    incremental: !!since,
+    since: since ?? null,
+    cursor: cursorSaved ? nextCursor : storedCursor ?? null,
+    created,
+    updated,
+    skipped,
+    errors: result.stats.errors,
+    enrichment: opts.enrich !== false ? {
+      articles_enriched: enrichResults.length,
+      total_tags_linked: totalTags,
+      total_experts_linked: totalExperts,
+      expert_matches_to_review: expertsToReview,
+      llm_summarized: enrichResults.filter(r => r.tl_dr_by === 'llm').length,
+      llm_signals: enrichResults.filter(r => r.signal_by === 'llm').length,
+    } : null,
+    subscriber_events: subscriberEvents,
+    messages: result.messages,
+  };
+}
@@ -2,14 +2,66 @@
 
 export { handleJsonRpc, ALL_TOOLS } from './mcp.js';
 export { SqliteAdapter } from './db/sqlite.js';
-export { loadConfig } from './config.js';
+export { PostgrestAdapter } from './db/postgrest.js';
+export type { PostgrestAdapterOptions } from './db/postgrest.js';
+export { createDatabase } from './db/factory.js';
+export { loadConfig, loadConfigFile, findConfigFile, envOverrides } from './config.js';
 export { startStdioServer } from './local/stdio.js';
-export { resolveAuth } from './auth.js';
+export { startHttpServer } from './local/http.js';
+export type { HttpServerOptions } from './local/http.js';
+export { resolveAuth, requirePermission, hasPermission } from './auth.js';
+export type { Permission } from './auth.js';
+export { createUser, createApiKey, revokeApiKey, listApiKeys, listUsers } from './accounts.js';
+export { transitionArticle, ARTICLE_STATUSES, TRANSITIONS } from './workflow.js';
+export type { ArticleStatus } from './workflow.js';
+export { recordRevision, unifiedDiff } from './revisions.js';
+export type { RevisionSource } from './revisions.js';
+export { generateDraft, voiceSystemPrompt } from './drafting.js';
+export type { DraftInput, GeneratedDraft } from './drafting.js';
+export { mergeExperts, linkExpert, lastQuoted, expertsNotQuotedSince, setAliases, reviewMatch, CONTACT_CHANNELS, CONTACT_OUTCOMES } from './experts.js';
+export type { MergeResult } from './experts.js';
+export { tagCategories, resolveTag, descendantIds, articleIdsTagged, noteIdsTagged, tagArticle, setNoteTags, mergeTags, DEFAULT_TAG_CATEGORIES } from './tags.js';
+export type { TagMergeResult } from './tags.js';
+export { findExpertMentions, linkExpertMentions, recountCitations, AUTO_CONFIRM } from './connectors/expert-matching.js';
+export { citationOrder, renderCitations, recordCitations, markCitedSourcesUsed, CITATION_STYLES } from './citations.js';
+export type { Citation, CitationStyle } from './citations.js';
+export { loadCalendar, calendarMarkdown, calendarIcs, calendarSettings, publishSlots, parsePlannedTime } from './calendar.js';
+export type { Calendar, CalendarSettings, CalendarSlot } from './calendar.js';
+export { OpenAiCompatibleProvider, createLlmProvider } from './llm.js';
+export type { OpenAiCompatibleOptions } from './llm.js';
+export { HashingEmbedder, OpenAiCompatibleEmbedder, createEmbedder, syncEmbeddings } from './embeddings.js';
+export type { EmbeddableType, OpenAiCompatibleEmbedderOptions } from './embeddings.js';
+export { markdownToHtml } from './connectors/markdown.js';
+export { parseCsv, parseCsvRows } from './connectors/csv.js';
+export { openExport, openZip } from './connectors/archive.js';
+export type { ExportFiles } from './connectors/archive.js';
+export { importNewsletter, linkExternalRef, findArticleByExternalId } from './importer.js';
+export type { ImportOptions } from './importer.js';
+export { runSync, syncAll, startSyncScheduler } from './sync.js';
+export type { SyncTrigger, SyncScheduler } from './sync.js';
+export { recordMetricsSnapshot, checkpointValues, periodTrend, CHECKPOINTS } from './metrics.js';
+export type { MetricsSample, PeriodTrend } from './metrics.js';
+export { loadInsightData, breakdown, INSIGHT_DIMENSIONS } from './insights.js';
+export type { InsightDimension, GroupStats } from './insights.js';
+export { importSubscriberEvents, subscriberKey, postOpens, cohortRetention, mostEngaged, stoppedOpening } from './subscribers.js';
+export type { SubscriberImportResult, PostOpens, Cohort, SubscriberEngagement, LapsedSubscriber } from './subscribers.js';
+export { extractReadable, fetchPage, recordSnapshot, httpFetcher, fileFetcher, isPublicAddress } from './capture.js';
+export type { ExtractedPage, CaptureResult } from './capture.js';
+export type { PublishableArticle, PublishResult } from './connectors/interface.js';
 export type { InkwellConfig } from './config.js';
 export type {
   McpTool,
   AuthContext,
+  Role,
   Env,
+  Sampler,
+  LlmProvider,
+  Embedder,
+  Fetcher,
+  FetchedPage,
+  SyncConnectorConfig,
+  SamplingRequest,
+  SamplingResult,
   DatabaseAdapter,
   QueryOptions,
   Filter,
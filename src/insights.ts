@@ -0,0 +1,182 @@
+/**
+ * Engagement breakdowns for get_insights — open/click rates of published articles grouped by
+ * tag, tag category, cited expert, signal, type and send weekday/hour. A parent tag's group
+ * includes articles tagged with its children.
+ * Rates of 0 are the column default (no data from the platform), so they are left out of averages.
+ */
+
+import type { Env, Row } from './types.js';
+import { ancestorIds } from './tags.js';
+
+export const INSIGHT_DIMENSIONS = ['tag', 'tag_category', 'expert', 'signal', 'type', 'weekday', 'hour'] as const;
+export type InsightDimension = typeof INSIGHT_DIMENSIONS[number];
+
+const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+export interface InsightData {
+  articles: Row[];
+  tags: Map<string, Array<{ name: string; category: string | null }>>;
+  experts: Map<string, string[]>;
+}
+
+export interface GroupStats {
+  group: string;
+  articles: number;
+  /** Articles in the group that have an open rate */
+  with_open_rate: number;
+  avg_open_rate: number | null;
+  avg_click_rate: number | null;
+  avg_views: number | null;
+  /** Difference from all articles in the range, in points */
+  open_rate_vs_all: number | null;
+  click_rate_vs_all: number | null;
+}
+
+function pushTo<T>(map: Map<string, T[]>, key: string, value: T): void {
+  const list = map.get(key) ?? [];
+  list.push(value);
+  map.set(key, list);
+}
+
+/** Published articles in the date range, with their tags and cited experts */
+export async function loadInsightData(env: Env, range: { since?: string; until?: string }): Promise<InsightData> {
+  const where = ["status = 'published'"];
+  const params: unknown[] = [];
+  if (range.since) {
+    where.push('published_at >= ?');
+    params.push(range.since);
+  }
+  if (range.until) {
+    where.push('published_at <= ?');
+    params.push(range.until);
+  }
+
+  const articles = await env.db.raw(
+    `SELECT id, title, number, type, published_at, views, open_rate, click_rate, conclusion_signal
+     FROM articles WHERE ${where.join(' AND ')}`,
+    params
+  );
+  const ids = new Set(articles.map(a => String(a.id)));
+
+  // An article tagged "Agents" also counts towards its parent tags ("LLMs", "AI")
+  const allTags = await env.db.query({ table: 'tags', select: ['id', 'name', 'category', 'parent_id'] });
+  const tagById = new Map(allTags.map(t => [String(t.id), t]));
+  const tagIds = new Map<string, Set<string>>();
+  for (const row of await env.db.query({ table: 'article_tags', select: ['article_id', 'tag_id'] })) {
+    const articleId = String(row.article_id);
+    if (!ids.has(articleId)) continue;
+    const set = tagIds.get(articleId) ?? new Set<string>();
+    for (const id of [String(row.tag_id), ...ancestorIds(allTags, String(row.tag_id))]) set.add(id);
+    tagIds.set(articleId, set);
+  }
+  const tags = new Map<string, Array<{ name: string; category: string | null }>>();
+  for (const [articleId, set] of tagIds) {
+    for (const id of set) {
+      const tag = tagById.get(id);
+      if (tag) pushTo(tags, articleId, { name: String(tag.name), category: tag.category ? String(tag.category) : null });
+    }
+  }
+
+  const experts = new Map<string, string[]>();
+  for (const row of await env.db.raw(
+    "SELECT ae.article_id, e.name FROM article_experts ae JOIN experts e ON e.id = ae.expert_id WHERE ae.status = 'confirmed'"
+  )) {
+    if (ids.has(String(row.article_id))) pushTo(experts, String(row.article_id), String(row.name));
+  }
+
+  return { articles, tags, experts };
+}
+
+/** Weekday name and hour of a timestamp in the given IANA time zone */
+export function sendTime(publishedAt: string, timeZone: string): { weekday: string; hour: number } | null {
+  const date = new Date(publishedAt);
+  if (Number.isNaN(date.getTime())) return null;
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'long', hour: 'numeric', hourCycle: 'h23' })
+    .formatToParts(date);
+  return {
+    weekday: parts.find(p => p.type === 'weekday')?.value ?? '',
+    hour: Number(parts.find(p => p.type === 'hour')?.value ?? 0),
+  };
+}
+
+/** Group keys of one article for a dimension (an article can sit in several tag/expert groups) */
+function groupKeys(dimension: InsightDimension, article: Row, data: InsightData, timeZone: string): string[] {
+  const id = String(article.id);
+  switch (dimension) {
+    case 'tag':
+      return (data.tags.get(id) ?? []).map(t => t.name);
+    case 'tag_category':
+      return [...new Set((data.tags.get(id) ?? []).map(t => t.category ?? 'uncategorized'))];
+    case 'expert':
+      return data.experts.get(id) ?? [];
+    case 'signal':
+      return [article.conclusion_signal ? String(article.conclusion_signal) : 'none'];
+    case 'type':
+      return [String(article.type)];
+    case 'weekday':
+    case 'hour': {
+      const t = article.published_at ? sendTime(String(article.published_at), timeZone) : null;
+      if (!t) return [];
+      return [dimension === 'weekday' ? t.weekday : `${String(t.hour).padStart(2, '0')}:00`];
+    }
+  }
+}
+
+function average(values: number[]): number | null {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+function round1(v: number | null): number | null {
+  return v == null ? null : Math.round(v * 10) / 10;
+}
+
+export function summarize(group: string, articles: Row[], all?: GroupStats): GroupStats {
+  const opens = articles.map(a => Number(a.open_rate)).filter(v => v > 0);
+  const clicks = articles.map(a => Number(a.click_rate)).filter(v => v > 0);
+  const views = articles.map(a => Number(a.views)).filter(v => v > 0);
+  const avgOpen = average(opens);
+  const avgClick = average(clicks);
+
+  return {
+    group,
+    articles: articles.length,
+    with_open_rate: opens.length,
+    avg_open_rate: round1(avgOpen),
+    avg_click_rate: round1(avgClick),
+    avg_views: views.length ? Math.round(average(views)!) : null,
+    open_rate_vs_all: avgOpen != null && all?.avg_open_rate != null ? round1(avgOpen - all.avg_open_rate) : null,
+    click_rate_vs_all: avgClick != null && all?.avg_click_rate != null ? round1(avgClick - all.avg_click_rate) : null,
+  };
+}
+
+/**
+ * Stats per group for one dimension. Weekdays and hours keep calendar order; other
+ * dimensions are sorted by the chosen rate, best first.
+ */
+export function breakdown(
+  dimension: InsightDimension,
+  data: InsightData,
+  all: GroupStats,
+  opts: { timeZone: string; minArticles: number; sortBy: 'open_rate' | 'click_rate' },
+): GroupStats[] {
+  const groups = new Map<string, Row[]>();
+  for (const article of data.articles) {
+    for (const key of groupKeys(dimension, article, data, opts.timeZone)) pushTo(groups, key, article);
+  }
+
+  const rows = [...groups.entries()]
+    .filter(([, articles]) => articles.length >= opts.minArticles)
+    .map(([group, articles]) => summarize(group, articles, all));
+
+  if (dimension === 'weekday') return rows.sort((a, b) => WEEKDAYS.indexOf(a.group) - WEEKDAYS.indexOf(b.group));
+  if (dimension === 'hour') return rows.sort((a, b) => a.group.localeCompare(b.group));
+
+  const key = opts.sortBy === 'click_rate' ? 'avg_click_rate' : 'avg_open_rate';
+  return rows.sort((a, b) => (b[key] ?? -1) - (a[key] ?? -1) || b.articles - a.articles);
+}
+
+/** Articles carrying every one of the given tags or their child tags (case-insensitive) */
+export function hasAllTags(article: Row, data: InsightData, tagNames: string[]): boolean {
+  const names = new Set((data.tags.get(String(article.id)) ?? []).map(t => t.name.toLowerCase()));
+  return tagNames.every(t => names.has(t.toLowerCase()));
+}
@@ -0,0 +1,84 @@
+/**
+ * LLM provider for an OpenAI-compatible chat completions endpoint
+ * (llama.cpp server, Ollama, vLLM, LM Studio, OpenAI itself).
+ */
+
+import type { InkwellConfig, LlmProvider, SamplingRequest, SamplingResult } from './types.js';
+
+export interface OpenAiCompatibleOptions {
+  /** Base URL including the API version, e.g. http://localhost:8080/v1 */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  temperature?: number;
+  timeoutMs?: number;
+  /** Injectable fetch, e.g. for a local mock server */
+  fetch?: typeof fetch;
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{ message?: { content?: string | null }; finish_reason?: string }>;
+}
+
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+  private temperature?: number;
+  private timeoutMs: number;
+  private fetchFn: typeof fetch;
+
+  constructor(opts: OpenAiCompatibleOptions) {
+    this.baseUrl = opts.baseUrl.replace(/\/+$/, '').replace(/\/chat\/completions$/, '');
+    this.model = opts.model;
+    this.apiKey = opts.apiKey;
+    this.temperature = opts.temperature;
+    this.timeoutMs = opts.timeoutMs ?? 120_000;
+    this.fetchFn = opts.fetch ?? fetch;
+  }
+
+  async complete(req: SamplingRequest): Promise<SamplingResult> {
+    const messages = [
+      ...(req.systemPrompt ? [{ role: 'system', content: req.systemPrompt }] : []),
+      ...req.messages.map(m => ({ role: m.role, content: m.text })),
+    ];
+    const temperature = req.temperature ?? this.temperature;
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+    const res = await this.fetchFn(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+        max_tokens: req.maxTokens,
+        ...(temperature != null ? { temperature } : {}),
+        stream: false,
+      }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      throw new Error(`LLM request failed (${res.status}): ${text.slice(0, 300)}`);
+    }
+
+    const data = await res.json() as ChatCompletionResponse;
+    const choice = data.choices?.[0];
+    const text = choice?.message?.content;
+    if (typeof text !== 'string') {
+      throw new Error('LLM response has no choices[0].message.content');
+    }
+
+    return { text, model: data.model ?? this.model, stopReason: choice?.finish_reason };
+  }
+}
+
+/** Provider from config.llm, or undefined when no endpoint is configured */
+export function createLlmProvider(config: InkwellConfig): LlmProvider | undefined {
+  if (!config.llm) return undefined;
+  return new OpenAiCompatibleProvider(config.llm);
+}
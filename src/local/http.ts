@@ -0,0 +1,269 @@
+/**
+ * Streamable HTTP transport for MCP — JSON-RPC over POST, optional SSE.
+ * POST /mcp (or /) accepts a single message or a batch and replies with JSON,
+ * or with an SSE stream when the client only accepts text/event-stream.
+ * GET /mcp opens a long-lived SSE stream for server-initiated messages.
+ * Used by the browser extension and remote MCP clients.
+ */
+
+import { createServer } from 'http';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Env, JsonRpcRequest, JsonRpcResponse } from '../types.js';
+import { handleJsonRpc } from '../mcp.js';
+import { resolveAuth } from '../auth.js';
+
+export interface HttpServerOptions {
+  port: number;
+  /** On a loopback address (the default) only requests with a loopback Host header are served */
+  host?: string;
+  /** Allowed CORS origins. Extension origins (chrome-extension://, moz-extension://) are always allowed; requests from any other Origin get a 403. */
+  corsOrigins?: string[];
+}
+
+const MCP_PATHS = new Set(['/', '/mcp', '/message']);
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const INVALID_REQUEST: JsonRpcResponse = { jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid Request' } };
+
+export async function startHttpServer(env: Env, opts: HttpServerOptions): Promise<void> {
+  const sessions = new Set<string>();
+  const streams = new Set<ServerResponse>();
+
+  const server = createServer((req, res) => {
+    handleRequest(req, res).catch(err => {
+      const message = err instanceof Error ? err.message : String(err);
+      if (!res.headersSent) {
+        sendJson(res, 500, { jsonrpc: '2.0', id: null, error: { code: -32603, message: `Internal error: ${message}` } });
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  const loopbackOnly = isLoopbackHost(opts.host ?? '127.0.0.1');
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    // Without auth every caller is owner, so web pages must not reach the server: a foreign
+    // Host means DNS rebinding, a foreign Origin a cross-site request
+    if (loopbackOnly && !isLoopbackHost(hostName(header(req, 'host')))) {
+      sendJson(res, 403, { error: 'Host not allowed' });
+      return;
+    }
+    const origin = header(req, 'origin');
+    if (origin && !originAllowed(origin, opts.corsOrigins ?? [])) {
+      sendJson(res, 403, { error: `Origin not allowed: ${origin}` });
+      return;
+    }
+    applyCors(res, origin);
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (!MCP_PATHS.has(path)) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (req.method === 'GET') {
+      if (!accepts(req, 'text/event-stream')) {
+        sendJson(res, 405, { error: 'GET requires Accept: text/event-stream' });
+        return;
+      }
+      openStream(req, res);
+      return;
+    }
+
+    if (req.method === 'DELETE') {
+      const sessionId = header(req, 'mcp-session-id');
+      if (sessionId) sessions.delete(sessionId);
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: `Method not allowed: ${req.method}` });
+      return;
+    }
+
+    // Forms can post text/plain across origins without a preflight; JSON can't
+    const contentType = (header(req, 'content-type') ?? '').split(';')[0].trim().toLowerCase();
+    if (contentType !== 'application/json') {
+      sendJson(res, 415, { error: 'Content-Type must be application/json' });
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(await readBody(req));
+    } catch {
+      sendJson(res, 400, { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+      return;
+    }
+
+    if (Array.isArray(payload) && !payload.length) {
+      sendJson(res, 200, INVALID_REQUEST);
+      return;
+    }
+
+    const messages = (Array.isArray(payload) ? payload : [payload]) as JsonRpcRequest[];
+    const ctx = await resolveAuth(env, bearerToken(req));
+
+    const responses: JsonRpcResponse[] = [];
+    let sessionId = header(req, 'mcp-session-id');
+
+    for (const msg of messages) {
+      // The server sends no requests over HTTP, so anything without a method is invalid
+      if (!msg || typeof msg !== 'object' || Array.isArray(msg) || typeof msg.method !== 'string') {
+        responses.push(INVALID_REQUEST);
+        continue;
+      }
+      const response = await handleJsonRpc(msg, ctx, env);
+      if (msg.method === 'initialize' && !response.error) {
+        sessionId = crypto.randomUUID();
+        sessions.add(sessionId);
+      }
+      // Notifications have no id — no response
+      if (msg.id !== null && msg.id !== undefined) {
+        responses.push(response);
+      }
+    }
+
+    if (sessionId && sessions.has(sessionId)) {
+      res.setHeader('Mcp-Session-Id', sessionId);
+    }
+
+    if (!responses.length) {
+      res.writeHead(202);
+      res.end();
+      return;
+    }
+
+    const body = Array.isArray(payload) ? responses : responses[0];
+
+    if (accepts(req, 'text/event-stream') && !accepts(req, 'application/json')) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+      for (const r of responses) {
+        res.write(`event: message\ndata: ${JSON.stringify(r)}\n\n`);
+      }
+      res.end();
+      return;
+    }
+
+    sendJson(res, 200, body);
+  }
+
+  function openStream(req: IncomingMessage, res: ServerResponse): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write(': connected\n\n');
+    streams.add(res);
+
+    // Keep intermediaries from closing an idle stream
+    const keepAlive = setInterval(() => res.write(': ping\n\n'), 25_000);
+    req.on('close', () => {
+      clearInterval(keepAlive);
+      streams.delete(res);
+    });
+  }
+
+  await new Promise<void>((resolvePromise, reject) => {
+    server.once('error', reject);
+    server.listen(opts.port, opts.host ?? '127.0.0.1', () => resolvePromise());
+  });
+
+  // Graceful shutdown
+  const cleanup = () => {
+    for (const s of streams) s.end();
+    server.close();
+    env.db.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', cleanup);
+  process.on('SIGTERM', cleanup);
+}
+
+// --- Helpers ---
+
+/** Extension origins, plus the configured ones ('*' allows any) */
+function originAllowed(origin: string, allowed: string[]): boolean {
+  const isExtension = origin.startsWith('chrome-extension://') || origin.startsWith('moz-extension://');
+  return isExtension || allowed.includes('*') || allowed.includes(origin);
+}
+
+function applyCors(res: ServerResponse, origin: string | undefined): void {
+  if (!origin) return;
+
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Accept, Mcp-Session-Id, Mcp-Protocol-Version');
+  res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+  res.setHeader('Access-Control-Max-Age', '86400');
+}
+
+/** Host header without the port, IPv6 brackets removed */
+function hostName(host: string | undefined): string {
+  if (!host) return '';
+  try {
+    return new URL(`http://${host}`).hostname.replace(/^\[|\]$/g, '');
+  } catch {
+    return '';
+  }
+}
+
+function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || /^127\.\d+\.\d+\.\d+$/.test(host);
+}
+
+function header(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function accepts(req: IncomingMessage, type: string): boolean {
+  return (header(req, 'accept') ?? '').includes(type);
+}
+
+function bearerToken(req: IncomingMessage): string | undefined {
+  const auth = header(req, 'authorization');
+  const match = auth?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : undefined;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  const json = JSON.stringify(body);
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Content-Length': Buffer.byteLength(json),
+  });
+  res.end(json);
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolvePromise, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolvePromise(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
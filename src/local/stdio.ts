@@ -2,19 +2,65 @@
  * stdio transport for MCP — reads JSON-RPC from stdin, writes to stdout.
  * Supports both Content-Length framed and line-delimited JSON.
  * Compatible with Claude Desktop and other MCP clients.
+ *
+ * Server-initiated requests (sampling/createMessage) are written to stdout too;
+ * the client's responses come back on stdin and are matched by id.
  */
 
-import type { Env, JsonRpcRequest, JsonRpcResponse, AuthContext } from '../types.js';
+import type { Env, JsonRpcRequest, JsonRpcResponse, AuthContext, SamplingRequest, SamplingResult } from '../types.js';
 import { handleJsonRpc } from '../mcp.js';
 
+/** Clients may ask the user to approve each sampling request, so allow plenty of time */
+const SAMPLING_TIMEOUT_MS = 5 * 60_000;
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
 export async function startStdioServer(env: Env, ctx: AuthContext | null): Promise<void> {
-  // Write a JSON-RPC response to stdout
-  function send(response: JsonRpcResponse): void {
-    const json = JSON.stringify(response);
+  // Write a JSON-RPC message to stdout
+  function send(message: JsonRpcResponse | JsonRpcRequest): void {
+    const json = JSON.stringify(message);
     const header = `Content-Length: ${Buffer.byteLength(json)}\r\n\r\n`;
     process.stdout.write(header + json);
   }
 
+  const pending = new Map<string, PendingRequest>();
+  let nextRequestId = 1;
+
+  // Send a request to the client and wait for its response
+  function request(method: string, params: Record<string, unknown>, timeoutMs: number): Promise<unknown> {
+    const id = `inkwell-${nextRequestId++}`;
+    return new Promise((resolvePromise, reject) => {
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        reject(new Error(`${method} timed out after ${Math.round(timeoutMs / 1000)}s`));
+      }, timeoutMs);
+      pending.set(id, { resolve: resolvePromise, reject, timer });
+      send({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  async function sample(req: SamplingRequest): Promise<SamplingResult> {
+    const result = await request('sampling/createMessage', {
+      messages: req.messages.map(m => ({ role: m.role, content: { type: 'text', text: m.text } })),
+      ...(req.systemPrompt ? { systemPrompt: req.systemPrompt } : {}),
+      maxTokens: req.maxTokens,
+      ...(req.temperature != null ? { temperature: req.temperature } : {}),
+      includeContext: 'none',
+    }, SAMPLING_TIMEOUT_MS) as { content?: { type?: string; text?: string }; model?: string; stopReason?: string };
+
+    if (result?.content?.type !== 'text' || typeof result.content.text !== 'string') {
+      throw new Error('Client returned a non-text sampling result');
+    }
+    return { text: result.content.text, model: result.model, stopReason: result.stopReason };
+  }
+
+  // Sampling is only offered once the client declares the capability in initialize
+  let session: Env = env;
+
   let buffer = '';
 
   process.stdin.setEncoding('utf8');
@@ -23,7 +69,7 @@ export async function startStdioServer(env: Env, ctx: AuthContext | null): Promi
     processBuffer();
   });
 
-  async function processBuffer(): Promise<void> {
+  function processBuffer(): void {
     while (buffer.length > 0) {
       // Try Content-Length framed protocol first
       const headerEnd = buffer.indexOf('\r\n\r\n');
@@ -39,7 +85,7 @@ export async function startStdioServer(env: Env, ctx: AuthContext | null): Promi
           const body = buffer.slice(bodyStart, bodyStart + contentLength);
           buffer = buffer.slice(bodyStart + contentLength);
 
-          await handleMessage(body);
+          handleMessage(body);
           continue;
         }
       }
@@ -52,21 +98,56 @@ export async function startStdioServer(env: Env, ctx: AuthContext | null): Promi
       buffer = buffer.slice(lineEnd + 1);
 
       if (line) {
-        await handleMessage(line);
+        handleMessage(line);
       }
     }
   }
 
-  async function handleMessage(body: string): Promise<void> {
+  // Not awaited: a tool call waiting on sampling must not block reading the client's reply
+  function handleMessage(body: string): void {
+    let msg: JsonRpcRequest | JsonRpcResponse;
     try {
-      const req = JSON.parse(body) as JsonRpcRequest;
-      const response = await handleJsonRpc(req, ctx, env);
+      msg = JSON.parse(body);
+    } catch {
+      return; // Skip malformed messages
+    }
+
+    // Valid JSON that isn't a message object (null, 1, "x", [])
+    if (typeof msg !== 'object' || msg === null || Array.isArray(msg)) {
+      send({ jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid Request' } });
+      return;
+    }
+
+    if (!('method' in msg)) {
+      handleResponse(msg);
+      return;
+    }
+
+    const req = msg;
+    if (req.method === 'initialize') {
+      const capabilities = req.params?.capabilities as Record<string, unknown> | undefined;
+      session = capabilities?.sampling ? { ...env, sample } : env;
+    }
+
+    handleJsonRpc(req, ctx, session).then(response => {
       // Notifications have null id — don't send response
       if (req.id !== null && req.id !== undefined) {
         send(response);
       }
-    } catch {
-      // Skip malformed messages
+    }).catch(() => {
+      // handleJsonRpc reports errors as responses; nothing else to do
+    });
+  }
+
+  function handleResponse(res: JsonRpcResponse): void {
+    const entry = res.id != null ? pending.get(String(res.id)) : undefined;
+    if (!entry) return;
+    pending.delete(String(res.id));
+    clearTimeout(entry.timer);
+    if (res.error) {
+      entry.reject(new Error(res.error.message));
+    } else {
+      entry.resolve(res.result);
     }
   }
 
@@ -7,9 +7,16 @@ import { tagTools } from './tools/tags.js';
 import { noteTools } from './tools/notes.js';
 import { sourceTools } from './tools/sources.js';
 import { briefTools } from './tools/brief.js';
+import { calendarTools } from './tools/calendar.js';
 import { statsTools } from './tools/stats.js';
 import { importTools } from './tools/import.js';
 import { writeTools } from './tools/write.js';
+import { searchTools } from './tools/search.js';
+import { revisionTools } from './tools/revisions.js';
+import { semanticTools } from './tools/semantic.js';
+import { publishTools } from './tools/publish.js';
+import { syncTools } from './tools/sync.js';
+import { subscriberTools } from './tools/subscribers.js';
 
 const ALL_TOOLS: McpTool[] = [
   ...articleTools,
@@ -18,9 +25,16 @@ const ALL_TOOLS: McpTool[] = [
   ...noteTools,
   ...sourceTools,
   ...briefTools,
+  ...calendarTools,
   ...statsTools,
   ...importTools,
   ...writeTools,
+  ...searchTools,
+  ...revisionTools,
+  ...semanticTools,
+  ...publishTools,
+  ...syncTools,
+  ...subscriberTools,
 ];
 
 const TOOL_MAP = new Map<string, McpTool>(ALL_TOOLS.map(t => [t.name, t]));
@@ -0,0 +1,176 @@
+/**
+ * Engagement snapshots — every import/sync appends the metrics it saw, so an article's
+ * curve after the send (and trends across editions) can be rebuilt later.
+ */
+
+import type { Env, Row } from './types.js';
+
+export interface MetricsSample {
+  views?: number;
+  open_rate?: number;
+  click_rate?: number;
+}
+
+export interface Checkpoint {
+  label: string;
+  hours: number;
+}
+
+/** Ages after publication the curve is read at */
+export const CHECKPOINTS: Checkpoint[] = [
+  { label: '1h', hours: 1 },
+  { label: '24h', hours: 24 },
+  { label: '7d', hours: 24 * 7 },
+  { label: '30d', hours: 24 * 30 },
+];
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Append a snapshot; null when the platform reported no metrics */
+export async function recordMetricsSnapshot(
+  env: Env,
+  articleId: string,
+  platform: string,
+  sample: MetricsSample,
+  publishedAt?: string | null,
+): Promise<Row | null> {
+  if (sample.views == null && sample.open_rate == null && sample.click_rate == null) return null;
+
+  const now = Date.now();
+  const published = publishedAt ? Date.parse(publishedAt) : NaN;
+  const hours = Number.isFinite(published) && published <= now ? Math.round((now - published) / HOUR_MS * 100) / 100 : null;
+
+  return env.db.insert('article_metrics_snapshots', {
+    article_id: articleId,
+    platform,
+    captured_at: new Date(now).toISOString(),
+    hours_since_publish: hours,
+    views: sample.views ?? null,
+    open_rate: sample.open_rate ?? null,
+    click_rate: sample.click_rate ?? null,
+  });
+}
+
+/** Snapshots for the given articles, oldest first */
+export async function getSnapshots(env: Env, articleIds: string[]): Promise<Row[]> {
+  if (!articleIds.length) return [];
+  return env.db.query({
+    table: 'article_metrics_snapshots',
+    select: ['article_id', 'captured_at', 'hours_since_publish', 'views', 'open_rate', 'click_rate'],
+    filters: [{ column: 'article_id', op: 'in', value: articleIds }],
+    order: [{ column: 'captured_at', direction: 'asc' }],
+  });
+}
+
+/**
+ * The snapshot nearest each checkpoint, within half the checkpoint's age either side
+ * (a reading at 30h stands in for 24h; one at 3h does not). Null when none is close enough.
+ */
+export function checkpointValues(snapshots: Row[]): Record<string, Row | null> {
+  const out: Record<string, Row | null> = {};
+  for (const cp of CHECKPOINTS) {
+    let best: Row | null = null;
+    for (const s of snapshots) {
+      if (s.hours_since_publish == null) continue;
+      const h = Number(s.hours_since_publish);
+      if (h < cp.hours * 0.5 || h > cp.hours * 1.5) continue;
+      if (!best || Math.abs(h - cp.hours) < Math.abs(Number(best.hours_since_publish) - cp.hours)) best = s;
+    }
+    out[cp.label] = best;
+  }
+  return out;
+}
+
+export function median(values: number[]): number | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Group snapshots by article, keeping each group oldest first */
+export function byArticle(snapshots: Row[]): Map<string, Row[]> {
+  const groups = new Map<string, Row[]>();
+  for (const s of snapshots) {
+    const id = String(s.article_id);
+    const list = groups.get(id) ?? [];
+    list.push(s);
+    groups.set(id, list);
+  }
+  return groups;
+}
+
+/** Latest value of a metric captured at or before `at` (series oldest first) */
+function valueAt(series: Row[], column: string, at: number): number | null {
+  let value: number | null = null;
+  for (const s of series) {
+    if (Date.parse(String(s.captured_at)) > at) break;
+    if (s[column] != null) value = Number(s[column]);
+  }
+  return value;
+}
+
+export interface PeriodTrend {
+  days: number;
+  /** Views gained by all articles during the period, from snapshot deltas */
+  views_gained: { current: number; previous: number; change_pct: number | null };
+  /** Editions published during the period */
+  editions: { current: number; previous: number };
+  /** Average open rate 24h after send, for editions published in the period */
+  avg_open_rate_24h: { current: number | null; previous: number | null; change_pts: number | null };
+}
+
+/**
+ * Compare the last `days` with the `days` before: views gained, editions sent and
+ * 24h open rate. Articles without a snapshot before a window's start only count if
+ * they were published inside it.
+ */
+export function periodTrend(articles: Row[], snapshots: Map<string, Row[]>, days: number, now = Date.now()): PeriodTrend {
+  const windows = [
+    { start: now - days * DAY_MS, end: now },
+    { start: now - 2 * days * DAY_MS, end: now - days * DAY_MS },
+  ];
+
+  const gained = windows.map(({ start, end }) => {
+    let total = 0;
+    for (const article of articles) {
+      const series = snapshots.get(String(article.id));
+      if (!series) continue;
+      const endValue = valueAt(series, 'views', end);
+      if (endValue == null) continue;
+      const published = article.published_at ? Date.parse(String(article.published_at)) : NaN;
+      const startValue = valueAt(series, 'views', start) ?? (published >= start ? 0 : null);
+      if (startValue != null) total += Math.max(0, endValue - startValue);
+    }
+    return total;
+  });
+
+  const sent = windows.map(({ start, end }) => articles.filter(a => {
+    const t = a.published_at ? Date.parse(String(a.published_at)) : NaN;
+    return t >= start && t < end;
+  }));
+
+  const openRates = sent.map(list => {
+    const rates = list
+      .map(a => checkpointValues(snapshots.get(String(a.id)) ?? [])['24h']?.open_rate)
+      .filter((r): r is number => r != null)
+      .map(Number);
+    return rates.length ? Math.round(rates.reduce((sum, r) => sum + r, 0) / rates.length * 10) / 10 : null;
+  });
+
+  return {
+    days,
+    views_gained: {
+      current: gained[0],
+      previous: gained[1],
+      change_pct: gained[1] ? Math.round((gained[0] - gained[1]) / gained[1] * 1000) / 10 : null,
+    },
+    editions: { current: sent[0].length, previous: sent[1].length },
+    avg_open_rate_24h: {
+      current: openRates[0],
+      previous: openRates[1],
+      change_pts: openRates[0] != null && openRates[1] != null ? Math.round((openRates[0] - openRates[1]) * 10) / 10 : null,
+    },
+  };
+}
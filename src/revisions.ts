@@ -0,0 +1,195 @@
+/**
+ * Article revision history.
+ * Every title/subtitle/content change stores a numbered snapshot in article_revisions.
+ */
+
+import type { AuthContext, Env, Filter, Row } from './types.js';
+import { actorName } from './workflow.js';
+
+export type RevisionSource = 'baseline' | 'create' | 'edit' | 'import' | 'restore';
+
+const TEXT_FIELDS = ['title', 'subtitle', 'content'] as const;
+
+/** True when title, subtitle and content match */
+export function sameText(a: Row, b: Row): boolean {
+  return TEXT_FIELDS.every(f => String(a[f] ?? '') === String(b[f] ?? ''));
+}
+
+export async function getRevision(env: Env, articleId: string, revision?: number): Promise<Row | null> {
+  const filters: Filter[] = [{ column: 'article_id', op: 'eq', value: articleId }];
+  if (revision != null) filters.push({ column: 'revision', op: 'eq', value: revision });
+  return env.db.queryOne({
+    table: 'article_revisions',
+    filters,
+    order: [{ column: 'revision', direction: 'desc' }],
+  });
+}
+
+/**
+ * Snapshot an article after a change. Returns null when title, subtitle and content are unchanged.
+ * Articles edited for the first time get a 'baseline' revision of their previous state,
+ * so the first edit can be diffed too.
+ */
+export async function recordRevision(
+  env: Env,
+  ctx: AuthContext | null,
+  before: Row | null,
+  after: Row,
+  source: RevisionSource,
+  note?: string,
+): Promise<Row | null> {
+  const articleId = String(after.id);
+  const latest = await getRevision(env, articleId);
+  const previous = latest ?? before;
+  if (previous && sameText(previous, after)) return null;
+
+  let revision = latest ? Number(latest.revision) + 1 : 1;
+
+  if (!latest && before) {
+    await env.db.insert('article_revisions', {
+      article_id: articleId,
+      revision,
+      title: before.title,
+      subtitle: before.subtitle ?? null,
+      content: before.content ?? null,
+      source: 'baseline',
+      created_by_name: 'system',
+      note: 'State before revision tracking',
+    });
+    revision++;
+  }
+
+  return env.db.insert('article_revisions', {
+    article_id: articleId,
+    revision,
+    title: after.title,
+    subtitle: after.subtitle ?? null,
+    content: after.content ?? null,
+    source,
+    created_by: ctx?.userId ?? null,
+    created_by_name: actorName(ctx),
+    note: note ?? null,
+  });
+}
+
+// --- Line diff ---
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+/** Above this many LCS cells, the changed middle is shown as a full replace */
+const MAX_LCS_CELLS = 16_000_000;
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = a.slice(0, start).map(line => ({ type: ' ', line }));
+  const n = endA - start;
+  const m = endB - start;
+
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    for (let i = start; i < endA; i++) ops.push({ type: '-', line: a[i] });
+    for (let j = start; j < endB; j++) ops.push({ type: '+', line: b[j] });
+  } else {
+    // lcs[i][j] = LCS length of a[start+i..endA) and b[start+j..endB)
+    const w = m + 1;
+    const lcs = new Uint32Array((n + 1) * w);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * w + j] = a[start + i] === b[start + j]
+          ? lcs[(i + 1) * w + j + 1] + 1
+          : Math.max(lcs[(i + 1) * w + j], lcs[i * w + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && a[start + i] === b[start + j]) {
+        ops.push({ type: ' ', line: a[start + i] });
+        i++;
+        j++;
+      } else if (i < n && (j === m || lcs[(i + 1) * w + j] >= lcs[i * w + j + 1])) {
+        ops.push({ type: '-', line: a[start + i] });
+        i++;
+      } else {
+        ops.push({ type: '+', line: b[start + j] });
+        j++;
+      }
+    }
+  }
+
+  for (let i = endA; i < a.length; i++) ops.push({ type: ' ', line: a[i] });
+  return ops;
+}
+
+function hunkRange(start: number, count: number): string {
+  // Empty ranges point at the line before, per the unified format
+  return `${count === 0 ? start : start + 1},${count}`;
+}
+
+/** Line-level unified diff (3 lines of context). Empty diff when the texts are equal. */
+export function unifiedDiff(
+  from: string,
+  to: string,
+  fromLabel = 'a',
+  toLabel = 'b',
+  context = 3,
+): { diff: string; added: number; removed: number } {
+  const ops = diffLines(from.split('\n'), to.split('\n'));
+  const added = ops.filter(o => o.type === '+').length;
+  const removed = ops.filter(o => o.type === '-').length;
+  if (!added && !removed) return { diff: '', added, removed };
+
+  // Line position in each file before each op
+  const posA: number[] = [];
+  const posB: number[] = [];
+  let la = 0;
+  let lb = 0;
+  for (const op of ops) {
+    posA.push(la);
+    posB.push(lb);
+    if (op.type !== '+') la++;
+    if (op.type !== '-') lb++;
+  }
+
+  const out = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i].type === ' ') {
+      i++;
+      continue;
+    }
+
+    // Grow the hunk while the next change is within 2×context unchanged lines
+    let last = i;
+    let j = i + 1;
+    while (j < ops.length) {
+      if (ops[j].type !== ' ') {
+        last = j++;
+        continue;
+      }
+      let k = j;
+      while (k < ops.length && ops[k].type === ' ') k++;
+      if (k === ops.length || k - j > 2 * context) break;
+      j = k;
+    }
+
+    const first = Math.max(0, i - context);
+    const end = Math.min(ops.length, last + 1 + context);
+    const slice = ops.slice(first, end);
+    const countA = slice.filter(o => o.type !== '+').length;
+    const countB = slice.filter(o => o.type !== '-').length;
+
+    out.push(`@@ -${hunkRange(posA[first], countA)} +${hunkRange(posB[first], countB)} @@`);
+    for (const op of slice) out.push(op.type + op.line);
+    i = end;
+  }
+
+  return { diff: out.join('\n'), added, removed };
+}
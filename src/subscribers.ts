@@ -0,0 +1,445 @@
+/**
+ * Subscriber-level engagement — per-recipient deliveries and opens read from a local Substack
+ * export, .zip or directory (posts/{id}.delivers.csv, posts/{id}.opens.csv, email_list.*.csv) into subscriber_events
+ * and subscribers, and the reports built on them. Addresses are stored as a salted SHA-256 unless
+ * config.subscribers.hashEmails is false. The salt is config.subscribers.hashSalt, or else a random
+ * one generated on the first import and kept in instance_settings. A hash can't be turned back
+ * into an address, so the import that generates the salt drops the rows stored before and starts over.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { Env, InkwellConfig, Row } from './types.js';
+import { SubstackConnector } from './connectors/substack.js';
+
+const PLATFORM = 'substack';
+const DAY_MS = 86_400_000;
+
+/** Posts sent this recently are re-read on every import, since opens keep arriving */
+const REFRESH_DAYS = 30;
+
+const substack = new SubstackConnector();
+
+const SALT_SETTING = 'subscriber_hash_salt';
+
+/** Stored key for an address, plus the address itself when hashing is off. Hashing needs a salt. */
+export function subscriberKey(
+  email: string,
+  settings: InkwellConfig['subscribers'],
+): { key: string; email: string | null } {
+  const normalized = email.trim().toLowerCase();
+  if (settings?.hashEmails === false) return { key: normalized, email: normalized };
+  if (!settings?.hashSalt) throw new Error('subscriberKey: hashing addresses needs a salt');
+  const key = createHash('sha256').update(`${settings.hashSalt}:${normalized}`).digest('hex');
+  return { key, email: null };
+}
+
+/**
+ * The salt for address hashes: the configured one, else this install's stored one, generated
+ * on first use. `generated` is true when it was just created.
+ */
+async function hashSalt(env: Env): Promise<{ salt: string; generated: boolean }> {
+  const configured = env.config.subscribers?.hashSalt;
+  if (configured) return { salt: configured, generated: false };
+
+  const stored = await env.db.queryOne({
+    table: 'instance_settings',
+    select: ['value'],
+    filters: [{ column: 'key', op: 'eq', value: SALT_SETTING }],
+  });
+  if (stored) return { salt: String(stored.value), generated: false };
+
+  const salt = randomBytes(32).toString('hex');
+  await env.db.insert('instance_settings', { key: SALT_SETTING, value: salt });
+  return { salt, generated: true };
+}
+
+/** Export timestamps ("2024-03-01 09:00:00.123+00") as ISO, or null when unreadable */
+function toIso(value: string | undefined): string | null {
+  if (!value) return null;
+  const t = Date.parse(value.trim().replace(' ', 'T').replace(/([+-]\d\d)$/, '$1:00'));
+  return Number.isNaN(t) ? null : new Date(t).toISOString();
+}
+
+// --- Import ---
+
+export interface SubscriberImportResult {
+  subscribers: number;
+  posts: number;
+  posts_skipped: number;
+  events: number;
+  /** Stored subscribers and events were dropped first: `full` was set, or this import generated the salt */
+  started_over: boolean;
+}
+
+/**
+ * Read the email list and the delivers/opens CSVs of every sent post. A post's events are
+ * replaced as a whole; posts already imported are only re-read while they are recent, unless `full`.
+ * `full` also drops everything stored before, e.g. after changing the hash settings; the import
+ * that generates this install's salt does so too.
+ */
+export async function importSubscriberEvents(
+  env: Env,
+  exportPath: string,
+  opts: { full?: boolean } = {},
+): Promise<SubscriberImportResult> {
+  const files = substack.open(exportPath);
+  const platformFilter = [{ column: 'platform', op: 'eq' as const, value: PLATFORM }];
+
+  let settings = env.config.subscribers;
+  let full = opts.full;
+  if (settings?.hashEmails !== false) {
+    const { salt, generated } = await hashSalt(env);
+    settings = { ...settings, hashSalt: salt };
+    // Rows stored before the install had a salt were hashed without one and would never match again
+    if (generated) full = true;
+  }
+
+  if (full) {
+    await env.db.delete('subscriber_events', platformFilter);
+    await env.db.delete('subscribers', platformFilter);
+  }
+
+  // Email list — upsert by key
+  const existing = new Map<string, Row>();
+  for (const row of await env.db.query({
+    table: 'subscribers',
+    select: ['id', 'subscriber_key', 'subscribed_at', 'plan', 'status'],
+    filters: platformFilter,
+  })) {
+    existing.set(String(row.subscriber_key), row);
+  }
+
+  let subscribers = 0;
+  const added: Row[] = [];
+  for (const sub of substack.readEmailList(files)) {
+    const { key, email } = subscriberKey(sub.email, settings);
+    const data = {
+      email,
+      subscribed_at: toIso(sub.subscribed_at),
+      plan: sub.plan ?? null,
+      status: sub.active ? 'active' : 'inactive',
+    };
+    const current = existing.get(key);
+    if (!current) {
+      added.push({ platform: PLATFORM, subscriber_key: key, ...data });
+      existing.set(key, data);
+    } else if (current.subscribed_at !== data.subscribed_at || current.plan !== data.plan || current.status !== data.status) {
+      await env.db.update('subscribers', [{ column: 'id', op: 'eq', value: String(current.id) }], {
+        ...data,
+        updated_at: new Date().toISOString(),
+      });
+    }
+    subscribers++;
+  }
+  await env.db.insertMany('subscribers', added);
+
+  // Per-post events
+  const imported = new Set((await env.db.raw(
+    'SELECT DISTINCT external_post_id FROM subscriber_events WHERE platform = ?',
+    [PLATFORM]
+  )).map(r => String(r.external_post_id)));
+
+  let posts = 0;
+  let skipped = 0;
+  let events = 0;
+  for (const post of substack.listSentPosts(files)) {
+    const sent = post.sentAt ? Date.parse(toIso(post.sentAt) ?? '') : NaN;
+    const recent = Number.isFinite(sent) && Date.now() - sent < REFRESH_DAYS * DAY_MS;
+    if (imported.has(post.postId) && !recent) {
+      skipped++;
+      continue;
+    }
+
+    const rows = substack.readRecipientEvents(files, post.postId);
+    if (!rows.length) continue;
+
+    const ref = await env.db.queryOne({
+      table: 'article_external_refs',
+      select: ['article_id'],
+      filters: [...platformFilter, { column: 'external_id', op: 'eq', value: post.postId }],
+    });
+
+    const batch: Row[] = [];
+    for (const row of rows) {
+      const occurredAt = toIso(row.occurred_at);
+      if (!occurredAt) continue;
+      batch.push({
+        platform: PLATFORM,
+        subscriber_key: subscriberKey(row.email, settings).key,
+        external_post_id: post.postId,
+        article_id: ref?.article_id ?? null,
+        event_type: row.event_type,
+        occurred_at: occurredAt,
+        country: row.country ?? null,
+        device: row.device ?? null,
+      });
+    }
+    await env.db.delete('subscriber_events', [...platformFilter, { column: 'external_post_id', op: 'eq', value: post.postId }]);
+    events += await env.db.insertMany('subscriber_events', batch);
+    posts++;
+  }
+
+  // Events of posts whose article was imported after them
+  await env.db.raw(
+    `UPDATE subscriber_events SET article_id = (
+       SELECT r.article_id FROM article_external_refs r
+       WHERE r.platform = subscriber_events.platform AND r.external_id = subscriber_events.external_post_id
+     )
+     WHERE platform = ? AND article_id IS NULL`,
+    [PLATFORM]
+  );
+
+  return { subscribers, posts, posts_skipped: skipped, events, started_over: !!full };
+}
+
+// --- Reports ---
+
+/** Address when stored, otherwise a short prefix of the hash */
+export function subscriberLabel(key: string, email?: unknown): string {
+  return email ? String(email) : key.slice(0, 12);
+}
+
+function rate(part: number, whole: number): number | null {
+  return whole ? Math.round(part / whole * 1000) / 10 : null;
+}
+
+export interface PostOpens {
+  external_post_id: string;
+  article_id: string | null;
+  sent_at: string | null;
+  delivered: number;
+  unique_opens: number;
+  total_opens: number;
+  /** Unique openers over recipients, in percent */
+  unique_open_rate: number | null;
+  /** Average number of opens per opener */
+  opens_per_opener: number | null;
+}
+
+/** Unique vs total opens per post, newest send first */
+export async function postOpens(env: Env, range: { since?: string; until?: string } = {}): Promise<PostOpens[]> {
+  const rows = await env.db.raw(
+    `SELECT external_post_id, MAX(article_id) AS article_id,
+       MIN(CASE WHEN event_type = 'delivered' THEN occurred_at END) AS sent_at,
+       COUNT(DISTINCT CASE WHEN event_type = 'delivered' THEN subscriber_key END) AS delivered,
+       COUNT(DISTINCT CASE WHEN event_type = 'opened' THEN subscriber_key END) AS unique_opens,
+       SUM(CASE WHEN event_type = 'opened' THEN 1 ELSE 0 END) AS total_opens
+     FROM subscriber_events WHERE platform = ?
+     GROUP BY external_post_id`,
+    [PLATFORM]
+  );
+
+  return rows
+    .filter(r => (!range.since || String(r.sent_at ?? '') >= range.since) && (!range.until || String(r.sent_at ?? '') <= range.until))
+    .map(r => {
+      const delivered = Number(r.delivered);
+      const unique = Number(r.unique_opens);
+      const total = Number(r.total_opens);
+      return {
+        external_post_id: String(r.external_post_id),
+        article_id: r.article_id ? String(r.article_id) : null,
+        sent_at: r.sent_at ? String(r.sent_at) : null,
+        delivered,
+        unique_opens: unique,
+        total_opens: total,
+        unique_open_rate: rate(unique, delivered),
+        opens_per_opener: unique ? Math.round(total / unique * 100) / 100 : null,
+      };
+    })
+    .sort((a, b) => String(b.sent_at ?? '').localeCompare(String(a.sent_at ?? '')));
+}
+
+export interface Cohort {
+  /** Month joined (YYYY-MM): subscribed_at from the email list, else the first delivery */
+  cohort: string;
+  size: number;
+  /** Share of the cohort that opened at least one email in month 0, 1, 2… after joining; null when that month has no data yet */
+  retention: Array<number | null>;
+}
+
+function monthIndex(month: string): number {
+  return Number(month.slice(0, 4)) * 12 + Number(month.slice(5, 7)) - 1;
+}
+
+/** Monthly cohorts of subscribers that received at least one email */
+export async function cohortRetention(env: Env, opts: { months: number; since?: string }): Promise<Cohort[]> {
+  const firstDelivery = await env.db.raw(
+    `SELECT subscriber_key, MIN(occurred_at) AS first_at FROM subscriber_events
+     WHERE platform = ? AND event_type = 'delivered' GROUP BY subscriber_key`,
+    [PLATFORM]
+  );
+  if (!firstDelivery.length) return [];
+
+  const joined = new Map<string, string>();
+  for (const row of firstDelivery) joined.set(String(row.subscriber_key), String(row.first_at).slice(0, 7));
+  for (const row of await env.db.query({
+    table: 'subscribers',
+    select: ['subscriber_key', 'subscribed_at'],
+    filters: [{ column: 'platform', op: 'eq', value: PLATFORM }],
+  })) {
+    const key = String(row.subscriber_key);
+    if (row.subscribed_at && joined.has(key)) joined.set(key, String(row.subscribed_at).slice(0, 7));
+  }
+
+  // Months each subscriber opened something in (first open of each post)
+  const openMonths = new Map<string, Set<number>>();
+  let lastMonth = 0;
+  for (const row of await env.db.raw(
+    `SELECT subscriber_key, external_post_id, MIN(occurred_at) AS opened_at FROM subscriber_events
+     WHERE platform = ? AND event_type = 'opened' GROUP BY subscriber_key, external_post_id`,
+    [PLATFORM]
+  )) {
+    const month = monthIndex(String(row.opened_at));
+    const set = openMonths.get(String(row.subscriber_key)) ?? new Set<number>();
+    set.add(month);
+    openMonths.set(String(row.subscriber_key), set);
+    lastMonth = Math.max(lastMonth, month);
+  }
+  for (const row of firstDelivery) lastMonth = Math.max(lastMonth, monthIndex(String(row.first_at)));
+
+  const members = new Map<string, string[]>();
+  for (const [key, month] of joined) {
+    if (opts.since && month < opts.since.slice(0, 7)) continue;
+    const list = members.get(month) ?? [];
+    list.push(key);
+    members.set(month, list);
+  }
+
+  return [...members.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([cohort, keys]) => {
+      const start = monthIndex(cohort);
+      const retention: Array<number | null> = [];
+      for (let offset = 0; offset < opts.months; offset++) {
+        if (start + offset > lastMonth) {
+          retention.push(null);
+          continue;
+        }
+        const active = keys.filter(k => openMonths.get(k)?.has(start + offset)).length;
+        retention.push(rate(active, keys.length));
+      }
+      return { cohort, size: keys.length, retention };
+    });
+}
+
+export interface SubscriberEngagement {
+  subscriber: string;
+  subscriber_key: string;
+  status: string | null;
+  plan: string | null;
+  /** Posts delivered and posts opened at least once */
+  delivered: number;
+  opened: number;
+  open_rate: number | null;
+  /** Opens including re-opens */
+  total_opens: number;
+  last_open_at: string | null;
+}
+
+/** Per-subscriber counts, optionally only for events since a date */
+async function engagement(env: Env, since?: string): Promise<SubscriberEngagement[]> {
+  const params: unknown[] = [PLATFORM];
+  let range = '';
+  if (since) {
+    range = ' AND occurred_at >= ?';
+    params.push(since);
+  }
+  const rows = await env.db.raw(
+    `SELECT subscriber_key,
+       COUNT(DISTINCT CASE WHEN event_type = 'delivered' THEN external_post_id END) AS delivered,
+       COUNT(DISTINCT CASE WHEN event_type = 'opened' THEN external_post_id END) AS opened,
+       SUM(CASE WHEN event_type = 'opened' THEN 1 ELSE 0 END) AS total_opens,
+       MAX(CASE WHEN event_type = 'opened' THEN occurred_at END) AS last_open_at
+     FROM subscriber_events WHERE platform = ?${range}
+     GROUP BY subscriber_key`,
+    params
+  );
+
+  return rows.map(r => ({
+    subscriber: String(r.subscriber_key),
+    subscriber_key: String(r.subscriber_key),
+    status: null,
+    plan: null,
+    delivered: Number(r.delivered),
+    opened: Number(r.opened),
+    open_rate: rate(Number(r.opened), Number(r.delivered)),
+    total_opens: Number(r.total_opens ?? 0),
+    last_open_at: r.last_open_at ? String(r.last_open_at) : null,
+  }));
+}
+
+/** Fill in address, status and plan from the subscribers table */
+async function withDetails<T extends SubscriberEngagement>(env: Env, list: T[]): Promise<T[]> {
+  if (!list.length) return list;
+  const details = new Map((await env.db.query({
+    table: 'subscribers',
+    select: ['subscriber_key', 'email', 'status', 'plan'],
+    filters: [
+      { column: 'platform', op: 'eq', value: PLATFORM },
+      { column: 'subscriber_key', op: 'in', value: list.map(s => s.subscriber_key) },
+    ],
+  })).map(r => [String(r.subscriber_key), r]));
+
+  return list.map(s => {
+    const d = details.get(s.subscriber_key);
+    return {
+      ...s,
+      subscriber: subscriberLabel(s.subscriber_key, d?.email),
+      status: d?.status ? String(d.status) : null,
+      plan: d?.plan ? String(d.plan) : null,
+    };
+  });
+}
+
+/** Highest open rate among subscribers sent at least `minDeliveries` posts; ties go to more opens */
+export async function mostEngaged(
+  env: Env,
+  opts: { since?: string; minDeliveries: number; limit: number },
+): Promise<SubscriberEngagement[]> {
+  const ranked = (await engagement(env, opts.since))
+    .filter(s => s.delivered >= opts.minDeliveries && s.opened > 0)
+    .sort((a, b) => (b.open_rate ?? 0) - (a.open_rate ?? 0) || b.opened - a.opened || b.total_opens - a.total_opens)
+    .slice(0, opts.limit);
+  return withDetails(env, ranked);
+}
+
+export interface LapsedSubscriber extends SubscriberEngagement {
+  /** Posts delivered since the last open */
+  missed: number;
+  last_delivered_at: string | null;
+}
+
+/**
+ * Subscribers who opened at least `minOpens` posts but none of the last `missed` or more
+ * delivered to them — most engaged before first. Subscribers who never opened are not included.
+ */
+export async function stoppedOpening(
+  env: Env,
+  opts: { minOpens: number; missed: number; limit: number },
+): Promise<LapsedSubscriber[]> {
+  const lapsed = await env.db.raw(
+    `SELECT d.subscriber_key, COUNT(DISTINCT d.external_post_id) AS missed, MAX(d.occurred_at) AS last_delivered_at
+     FROM subscriber_events d
+     JOIN (
+       SELECT subscriber_key, MAX(occurred_at) AS last_open FROM subscriber_events
+       WHERE platform = ? AND event_type = 'opened' GROUP BY subscriber_key
+     ) o ON o.subscriber_key = d.subscriber_key
+     WHERE d.platform = ? AND d.event_type = 'delivered' AND d.occurred_at > o.last_open
+     GROUP BY d.subscriber_key
+     HAVING COUNT(DISTINCT d.external_post_id) >= ?`,
+    [PLATFORM, PLATFORM, opts.missed]
+  );
+  if (!lapsed.length) return [];
+
+  const missed = new Map(lapsed.map(r => [String(r.subscriber_key), r]));
+  const list = (await engagement(env))
+    .filter(s => missed.has(s.subscriber_key) && s.opened >= opts.minOpens)
+    .map(s => ({
+      ...s,
+      missed: Number(missed.get(s.subscriber_key)!.missed),
+      last_delivered_at: String(missed.get(s.subscriber_key)!.last_delivered_at),
+    }))
+    .sort((a, b) => b.opened - a.opened || b.missed - a.missed)
+    .slice(0, opts.limit);
+  return withDetails(env, list);
+}
@@ -0,0 +1,123 @@
+/**
+ * Background sync — runs each connector in config.sync through the importer and logs
+ * every run to sync_runs. Used by `inkwell-mcp sync` and `serve --sync-interval`.
+ */
+
+import type { Env, Row, SyncConnectorConfig } from './types.js';
+import { cursorScope, importNewsletter } from './importer.js';
+import type { ConnectorConfig } from './connectors/interface.js';
+
+export type SyncTrigger = 'manual' | 'schedule';
+
+const DEFAULT_LOOKBACK_DAYS = 7;
+
+export function toConnectorConfig(c: SyncConnectorConfig): ConnectorConfig {
+  return {
+    exportPath: c.exportPath,
+    apiKey: c.apiKey,
+    apiUrl: c.apiUrl,
+    publicationId: c.publicationId,
+  };
+}
+
+/** Configured credentials for a platform (first match), for tools called without them */
+export function configuredConnector(env: Env, platform: string): SyncConnectorConfig | undefined {
+  return env.config.sync?.connectors.find(c => c.platform === platform);
+}
+
+/** Days before the saved cursor that an incremental import re-fetches, since open rates keep changing after a send */
+export function lookbackDays(env: Env): number {
+  return env.config.sync?.lookbackDays ?? DEFAULT_LOOKBACK_DAYS;
+}
+
+/** Label for logs: platform plus publication/site when set */
+export function connectorLabel(c: SyncConnectorConfig): string {
+  const scope = cursorScope(toConnectorConfig(c));
+  return scope ? `${c.platform} (${scope})` : c.platform;
+}
+
+/** Run one connector and record the outcome. Never throws — failures end up in the row. */
+export async function runSync(env: Env, connector: SyncConnectorConfig, trigger: SyncTrigger): Promise<Row> {
+  const config = toConnectorConfig(connector);
+  const run = await env.db.insert('sync_runs', {
+    platform: connector.platform,
+    scope: cursorScope(config),
+    triggered_by: trigger,
+    status: 'running',
+    started_at: new Date().toISOString(),
+  });
+  const runFilter = [{ column: 'id', op: 'eq' as const, value: String(run.id) }];
+
+  try {
+    const result = await importNewsletter(env, null, connector.platform, config, {
+      enrich: connector.enrich !== false,
+      lookbackDays: lookbackDays(env),
+    });
+    const errors = Number(result.errors ?? 0);
+    const rows = await env.db.update('sync_runs', runFilter, {
+      status: errors ? 'partial' : 'success',
+      finished_at: new Date().toISOString(),
+      created: Number(result.created ?? 0),
+      updated: Number(result.updated ?? 0),
+      skipped: Number(result.skipped ?? 0),
+      errors,
+      messages: (result.messages as string[] | undefined) ?? [],
+    });
+    return rows[0];
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String((err as { message?: unknown })?.message ?? err);
+    const rows = await env.db.update('sync_runs', runFilter, {
+      status: 'failed',
+      finished_at: new Date().toISOString(),
+      errors: 1,
+      error: message,
+    });
+    return rows[0];
+  }
+}
+
+/** Run every configured connector in turn */
+export async function syncAll(env: Env, trigger: SyncTrigger): Promise<Row[]> {
+  const runs: Row[] = [];
+  for (const connector of env.config.sync?.connectors ?? []) {
+    runs.push(await runSync(env, connector, trigger));
+  }
+  return runs;
+}
+
+export function describeRun(run: Row): string {
+  const label = run.scope ? `${run.platform} (${run.scope})` : String(run.platform);
+  if (run.status === 'failed') return `${label}: failed — ${run.error}`;
+  return `${label}: ${run.status} — ${run.created} created, ${run.updated} updated, ${run.errors} errors`;
+}
+
+export interface SyncScheduler {
+  stop(): void;
+}
+
+/**
+ * Run syncAll now and then every intervalMinutes. A run still in progress when the next one
+ * is due is not doubled up — that tick is skipped.
+ */
+export function startSyncScheduler(env: Env, intervalMinutes: number, log: (line: string) => void): SyncScheduler {
+  let running = false;
+
+  const tick = async () => {
+    if (running) {
+      log('[sync] Previous run still in progress — skipping this one');
+      return;
+    }
+    running = true;
+    try {
+      for (const run of await syncAll(env, 'schedule')) log(`[sync] ${describeRun(run)}`);
+    } catch (err) {
+      log(`[sync] ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  const timer = setInterval(() => void tick(), intervalMinutes * 60_000);
+  return { stop: () => clearInterval(timer) };
+}
@@ -0,0 +1,258 @@
+/**
+ * Tag taxonomy — configurable categories, parent/child tags, tagging articles and notes, and
+ * merging tags. A query on a tag covers its descendants: "AI" finds articles tagged "LLMs" or
+ * "Agents". note_tags is the source of truth for note tags; editorial_notes.tags mirrors the
+ * names so full-text search still finds them.
+ */
+
+import type { Env, InkwellConfig, Row } from './types.js';
+
+export const DEFAULT_TAG_CATEGORIES = ['platform', 'business', 'trend', 'tech', 'event'];
+
+export function tagCategories(config: InkwellConfig): string[] {
+  return config.tagCategories?.length ? config.tagCategories : DEFAULT_TAG_CATEGORIES;
+}
+
+export function assertTagCategory(config: InkwellConfig, category: string): void {
+  const allowed = tagCategories(config);
+  if (!allowed.includes(category)) {
+    throw { code: 400, message: `Invalid category "${category}". Expected one of: ${allowed.join(', ')}` };
+  }
+}
+
+/** Find a tag by id or exact name (case-insensitive) */
+export async function resolveTag(env: Env, ref: string): Promise<Row> {
+  const byId = await env.db.queryOne({ table: 'tags', filters: [{ column: 'id', op: 'eq', value: ref }] });
+  if (byId) return byId;
+  const byName = (await env.db.query({ table: 'tags' })).find(t => String(t.name).toLowerCase() === ref.trim().toLowerCase());
+  if (!byName) throw { code: 404, message: `Tag not found: ${ref}` };
+  return byName;
+}
+
+/** Every tag id under `rootId` (children, grandchildren…), the root included */
+export function descendantIds(tags: Row[], rootId: string): string[] {
+  const children = new Map<string, string[]>();
+  for (const t of tags) {
+    if (!t.parent_id) continue;
+    const list = children.get(String(t.parent_id)) ?? [];
+    list.push(String(t.id));
+    children.set(String(t.parent_id), list);
+  }
+  const out = [rootId];
+  for (let i = 0; i < out.length; i++) {
+    for (const child of children.get(out[i]) ?? []) {
+      if (!out.includes(child)) out.push(child);
+    }
+  }
+  return out;
+}
+
+/** Parent, grandparent… of a tag, nearest first */
+export function ancestorIds(tags: Row[], tagId: string): string[] {
+  const parents = new Map(tags.map(t => [String(t.id), t.parent_id ? String(t.parent_id) : null]));
+  const out: string[] = [];
+  let current = parents.get(tagId) ?? null;
+  while (current && !out.includes(current) && current !== tagId) {
+    out.push(current);
+    current = parents.get(current) ?? null;
+  }
+  return out;
+}
+
+/** "AI › LLMs › Agents" */
+export function tagPath(tags: Row[], tag: Row): string {
+  const byId = new Map(tags.map(t => [String(t.id), t]));
+  return [...ancestorIds(tags, String(tag.id)).reverse().map(id => String(byId.get(id)?.name)), String(tag.name)].join(' › ');
+}
+
+/** Reject a parent that is the tag itself or one of its descendants */
+export async function assertParent(env: Env, tagId: string, parentId: string): Promise<void> {
+  const tags = await env.db.query({ table: 'tags', select: ['id', 'parent_id'] });
+  if (descendantIds(tags, tagId).includes(parentId)) {
+    throw { code: 400, message: 'A tag cannot be placed under itself or one of its own children' };
+  }
+}
+
+async function idsTagged(env: Env, table: 'article_tags' | 'note_tags', column: string, tagId: string): Promise<string[]> {
+  const tags = await env.db.query({ table: 'tags', select: ['id', 'parent_id'] });
+  const links = await env.db.query({
+    table,
+    select: [column],
+    filters: [{ column: 'tag_id', op: 'in', value: descendantIds(tags, tagId) }],
+  });
+  return [...new Set(links.map(l => String(l[column])))];
+}
+
+/** Ids of articles carrying the tag or any of its descendants */
+export async function articleIdsTagged(env: Env, tagId: string): Promise<string[]> {
+  return idsTagged(env, 'article_tags', 'article_id', tagId);
+}
+
+/** Ids of notes carrying the tag or any of its descendants */
+export async function noteIdsTagged(env: Env, tagId: string): Promise<string[]> {
+  return idsTagged(env, 'note_tags', 'note_id', tagId);
+}
+
+/**
+ * Tags by name (case-insensitive), created without a category when missing. Where spellings
+ * differ only in case ("AI", "ai"), the one with the lowest id is used, as migration 019 does.
+ */
+export async function ensureTags(env: Env, names: string[]): Promise<Row[]> {
+  // Lowest id last, so it is the one the map keeps
+  const existing = await env.db.query({ table: 'tags', order: [{ column: 'id', direction: 'desc' }] });
+  const byName = new Map(existing.map(t => [String(t.name).toLowerCase(), t]));
+  const out: Row[] = [];
+  for (const raw of names) {
+    const name = raw.trim();
+    if (!name) continue;
+    let tag = byName.get(name.toLowerCase());
+    if (!tag) {
+      tag = await env.db.insert('tags', { name });
+      byName.set(name.toLowerCase(), tag);
+    }
+    if (!out.includes(tag)) out.push(tag);
+  }
+  return out;
+}
+
+/** Replace a note's tags; returns the tag names as stored */
+export async function setNoteTags(env: Env, noteId: string, names: string[]): Promise<string[]> {
+  const tags = await ensureTags(env, names);
+  await env.db.delete('note_tags', [{ column: 'note_id', op: 'eq', value: noteId }]);
+  for (const tag of tags) {
+    // note_tags has no id column, so the adapters' insert() (which adds one) can't be used
+    await env.db.raw('INSERT INTO note_tags (note_id, tag_id) VALUES (?, ?)', [noteId, String(tag.id)]);
+  }
+  const stored = tags.map(t => String(t.name));
+  await env.db.update('editorial_notes', [{ column: 'id', op: 'eq', value: noteId }], { tags: stored });
+  return stored;
+}
+
+/** Rewrite the editorial_notes.tags mirror from note_tags (after a tag is renamed or merged) */
+export async function refreshNoteTagNames(env: Env, noteIds: string[]): Promise<void> {
+  if (!noteIds.length) return;
+  const links = await env.db.query({ table: 'note_tags', select: ['note_id', 'tag_id'], filters: [{ column: 'note_id', op: 'in', value: noteIds }] });
+  const names = new Map((await env.db.query({ table: 'tags', select: ['id', 'name'] })).map(t => [String(t.id), String(t.name)]));
+  for (const noteId of new Set(noteIds)) {
+    const tags = links.filter(l => String(l.note_id) === noteId).map(l => names.get(String(l.tag_id))).filter(Boolean);
+    await env.db.update('editorial_notes', [{ column: 'id', op: 'eq', value: noteId }], { tags });
+  }
+}
+
+/** Ids of notes tagged directly with one tag */
+export async function notesWithTag(env: Env, tagId: string): Promise<string[]> {
+  const links = await env.db.query({ table: 'note_tags', select: ['note_id'], filters: [{ column: 'tag_id', op: 'eq', value: tagId }] });
+  return links.map(l => String(l.note_id));
+}
+
+/** Tags linked directly to an article, with their full paths */
+export async function articleTags(env: Env, articleId: string): Promise<Row[]> {
+  const links = await env.db.query({
+    table: 'article_tags',
+    select: ['tag_id'],
+    filters: [{ column: 'article_id', op: 'eq', value: articleId }],
+  });
+  const linked = new Set(links.map(l => String(l.tag_id)));
+  const tags = await env.db.query({ table: 'tags', order: [{ column: 'name', direction: 'asc' }] });
+  return tags.filter(t => linked.has(String(t.id))).map(t => ({ id: t.id, name: t.name, category: t.category, path: tagPath(tags, t) }));
+}
+
+/** Link tags to an article; returns the ids that weren't linked yet */
+export async function tagArticle(env: Env, articleId: string, tagIds: string[]): Promise<string[]> {
+  const existing = new Set(
+    (await env.db.query({
+      table: 'article_tags',
+      select: ['tag_id'],
+      filters: [{ column: 'article_id', op: 'eq', value: articleId }],
+    })).map(r => String(r.tag_id)),
+  );
+  const added: string[] = [];
+  for (const tagId of new Set(tagIds)) {
+    if (existing.has(tagId)) continue;
+    // article_tags has no id column, so the adapters' insert() (which adds one) can't be used
+    await env.db.raw('INSERT INTO article_tags (article_id, tag_id) VALUES (?, ?)', [articleId, tagId]);
+    added.push(tagId);
+  }
+  return added;
+}
+
+export interface TagMergeResult {
+  tag: Row;
+  merged: Array<{ id: string; name: string }>;
+  articles_moved: number;
+  notes_moved: number;
+  children_moved: number;
+}
+
+/**
+ * Fold the `merge` tags into `keep` (ids or names): their articles and notes are tagged with
+ * the kept tag, their child tags move under it, and a missing category or description is filled in.
+ * When the kept tag sits below a merged one it takes that tag's place in the tree. The merged
+ * tags are then deleted.
+ */
+export async function mergeTags(env: Env, keepRef: string, mergeRefs: string[]): Promise<TagMergeResult> {
+  const keep = await resolveTag(env, keepRef);
+  const keepId = String(keep.id);
+  const others = new Map<string, Row>();
+  for (const ref of mergeRefs) {
+    const other = await resolveTag(env, ref);
+    if (String(other.id) !== keepId) others.set(String(other.id), other);
+  }
+  if (!others.size) throw { code: 400, message: 'merge must name at least one tag other than the one kept' };
+
+  let articlesMoved = 0;
+  let childrenMoved = 0;
+  const notesMoved = new Set<string>();
+  const patch: Row = {};
+
+  for (const [otherId, other] of others) {
+    const tree = await env.db.query({ table: 'tags', select: ['id', 'parent_id'] });
+    if (descendantIds(tree, otherId).includes(keepId)) {
+      await env.db.update('tags', [{ column: 'id', op: 'eq', value: keepId }], { parent_id: other.parent_id ?? null });
+    }
+
+    const links = await env.db.query({
+      table: 'article_tags',
+      select: ['article_id'],
+      filters: [{ column: 'tag_id', op: 'eq', value: otherId }],
+    });
+    for (const link of links) {
+      articlesMoved += (await tagArticle(env, String(link.article_id), [keepId])).length;
+    }
+
+    const keptNotes = new Set(await notesWithTag(env, keepId));
+    for (const noteId of await notesWithTag(env, otherId)) {
+      if (!keptNotes.has(noteId)) {
+        await env.db.raw('INSERT INTO note_tags (note_id, tag_id) VALUES (?, ?)', [noteId, keepId]);
+      }
+      notesMoved.add(noteId);
+    }
+
+    const children = await env.db.update(
+      'tags',
+      [{ column: 'parent_id', op: 'eq', value: otherId }, { column: 'id', op: 'neq', value: keepId }],
+      { parent_id: keepId },
+    );
+    childrenMoved += children.length;
+
+    for (const field of ['category', 'description']) {
+      if (!keep[field] && patch[field] == null && other[field]) patch[field] = other[field];
+    }
+
+    // Its article_tags and note_tags rows go with it (ON DELETE CASCADE)
+    await env.db.delete('tags', [{ column: 'id', op: 'eq', value: otherId }]);
+  }
+
+  await refreshNoteTagNames(env, [...notesMoved]);
+  const tag = Object.keys(patch).length
+    ? (await env.db.update('tags', [{ column: 'id', op: 'eq', value: keepId }], patch))[0]
+    : await resolveTag(env, keepId);
+
+  return {
+    tag,
+    merged: [...others.values()].map(o => ({ id: String(o.id), name: String(o.name) })),
+    articles_moved: articlesMoved,
+    notes_moved: notesMoved.size,
+    children_moved: childrenMoved,
+  };
+}
@@ -1,32 +1,94 @@
-/** Article tools — list, get, search, get_since */
+/** Article tools — list, get, search, get_since, create, update, transition */
 
-import type { McpTool, AuthContext, Env, Filter } from '../types.js';
+import type { McpTool, AuthContext, Env, Filter, Row } from '../types.js';
+import { hasPermission, requirePermission } from '../auth.js';
 import { formatArticleMd, getWatermark } from '../utils.js';
+import { ARTICLE_STATUSES, TRANSITIONS, transitionArticle, recordStatusChange, assertCanEdit } from '../workflow.js';
+import { recordRevision } from '../revisions.js';
+import type { ArticleStatus } from '../workflow.js';
+import { ftsClauses, ftsMatch } from './search.js';
+import { articleIdsTagged, articleTags, resolveTag } from '../tags.js';
+import { parsePlannedTime } from '../calendar.js';
+
+const ARTICLE_TYPES = ['edition', 'analysis', 'special'];
+
+const PLANNING_PROPERTIES = {
+  scheduled_for: { type: 'string', description: 'Planned send date (YYYY-MM-DD gets the calendar send time) or ISO datetime' },
+  due_at:        { type: 'string', description: 'Draft deadline (YYYY-MM-DD or ISO datetime)' },
+  assignee:      { type: 'string', description: 'Who is writing it' },
+};
+
+const PLANNING_COLUMNS = ['scheduled_for', 'due_at', 'assignee'];
+
+/** An article row without its planning columns, which only editorial roles see */
+function withoutPlanning(article: Row): Row {
+  const out = { ...article };
+  for (const column of PLANNING_COLUMNS) delete out[column];
+  return out;
+}
+
+/** scheduled_for / due_at / assignee from tool args; an empty string clears the field */
+function planningFields(env: Env, args: Record<string, unknown>): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const field of ['scheduled_for', 'due_at']) {
+    if (args[field] == null) continue;
+    fields[field] = String(args[field]).trim() ? parsePlannedTime(env.config, args[field], field) : null;
+  }
+  if (args.assignee != null) fields.assignee = String(args.assignee).trim() || null;
+  return fields;
+}
+
+async function assertNumberFree(env: Env, number: number, exceptId?: string): Promise<void> {
+  const taken = await env.db.queryOne({
+    table: 'articles',
+    select: ['id', 'title'],
+    filters: [{ column: 'number', op: 'eq', value: number }],
+  });
+  if (taken && String(taken.id) !== exceptId) {
+    throw { code: 409, message: `Edition number ${number} is already used by "${taken.title}" (${taken.id})` };
+  }
+}
 
 export const articleTools: McpTool[] = [
   {
     name: 'list_articles',
-    description: 'List newsletter articles with optional filters by status, type, and pagination.',
+    description: 'List newsletter articles with optional filters by status, type, tag (including its child tags), assignee, and pagination. Public callers see published articles only, without planning fields (send date, deadline, assignee).',
     inputSchema: {
       type: 'object',
       properties: {
-        status: { type: 'string', description: 'Filter by status', enum: ['published', 'draft', 'archived'] },
+        status: { type: 'string', description: 'Filter by status', enum: ARTICLE_STATUSES },
         type: { type: 'string', description: 'Filter by content type', enum: ['edition', 'analysis', 'special'] },
+        tag: { type: 'string', description: 'Filter by tag id or name; articles tagged with its child tags are included' },
+        assignee: { type: 'string', description: 'Filter by assignee (case-insensitive)' },
         limit: { type: 'number', description: 'Max results (default 20, max 50)', minimum: 1, maximum: 50 },
         offset: { type: 'number', description: 'Pagination offset (default 0)', minimum: 0 },
       },
     },
-    handler: async (args, _ctx: AuthContext | null, env: Env) => {
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
       const limit = Math.min(Number(args.limit ?? 20), 50);
       const offset = Number(args.offset ?? 0);
       const filters: Filter[] = [];
 
+      // Drafts, ideas and the plan for them are editorial material
+      const editorial = hasPermission(ctx, 'editorial:read');
+      if (!editorial) filters.push({ column: 'status', op: 'eq', value: 'published' });
       if (args.status) filters.push({ column: 'status', op: 'eq', value: String(args.status) });
       if (args.type) filters.push({ column: 'type', op: 'eq', value: String(args.type) });
+      if (args.assignee) {
+        requirePermission(ctx, 'editorial:read');
+        filters.push({ column: 'assignee', op: 'ilike', value: String(args.assignee) });
+      }
+      if (args.tag) {
+        const tag = await resolveTag(env, String(args.tag));
+        const ids = await articleIdsTagged(env, String(tag.id));
+        // An empty `in` list would match everything
+        if (!ids.length) return { articles: [], count: 0, offset, markdown: `_No articles tagged ${tag.name}_\n\n${getWatermark(env.config)}` };
+        filters.push({ column: 'id', op: 'in', value: ids });
+      }
 
       const rows = await env.db.query({
         table: 'articles',
-        select: ['id', 'number', 'title', 'subtitle', 'status', 'type', 'published_at', 'views', 'open_rate', 'substack_url', 'editorial_angle'],
+        select: ['id', 'number', 'title', 'subtitle', 'status', 'type', 'published_at', ...(editorial ? PLANNING_COLUMNS : []), 'views', 'open_rate', 'substack_url', 'editorial_angle'],
         filters,
         order: [{ column: 'published_at', direction: 'desc', nulls: 'last' }],
         limit,
@@ -41,7 +103,7 @@ export const articleTools: McpTool[] = [
 
   {
     name: 'get_article',
-    description: 'Get a single article by ID or edition number, including linked experts.',
+    description: 'Get a single article by ID or edition number, including tags, linked experts, status history and platform drafts. Public callers get published articles only, without planning fields, status history or platform drafts.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -49,7 +111,7 @@ export const articleTools: McpTool[] = [
         number: { type: 'number', description: 'Edition number' },
       },
     },
-    handler: async (args, _ctx: AuthContext | null, env: Env) => {
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
       if (!args.id && args.number == null) {
         throw { code: 400, message: 'Provide either id or number' };
       }
@@ -59,7 +121,8 @@ export const articleTools: McpTool[] = [
       else filters.push({ column: 'number', op: 'eq', value: Number(args.number) });
 
       const article = await env.db.queryOne({ table: 'articles', filters });
-      if (!article) throw { code: 404, message: 'Article not found' };
+      const editorial = hasPermission(ctx, 'editorial:read');
+      if (!article || (!editorial && article.status !== 'published')) throw { code: 404, message: 'Article not found' };
 
       // Fetch linked experts
       let experts: Record<string, unknown>[] = [];
@@ -68,7 +131,7 @@ export const articleTools: McpTool[] = [
           `SELECT e.id, e.name, e.affiliation, e.country
            FROM experts e
            JOIN article_experts ae ON ae.expert_id = e.id
-           WHERE ae.article_id = ?`,
+           WHERE ae.article_id = ? AND ae.status = 'confirmed'`,
           [article.id]
         );
         experts = links;
@@ -76,15 +139,40 @@ export const articleTools: McpTool[] = [
         // Junction table may not exist yet
       }
 
+      // Workflow history and platform drafts are editorial material
+      const editorialFields = editorial ? {
+        status_history: await env.db.query({
+          table: 'article_status_history',
+          select: ['from_status', 'to_status', 'changed_by_name', 'note', 'created_at'],
+          filters: [{ column: 'article_id', op: 'eq', value: String(article.id) }],
+          order: [{ column: 'created_at', direction: 'asc' }],
+        }),
+        publications: await env.db.query({
+          table: 'article_publications',
+          select: ['platform', 'external_id', 'external_url', 'status', 'published_by_name', 'updated_at'],
+          filters: [{ column: 'article_id', op: 'eq', value: String(article.id) }],
+        }),
+      } : {};
+
+      const tags = await articleTags(env, String(article.id));
+
       const watermark = getWatermark(env.config);
-      const markdown = formatArticleMd({ ...article, experts: experts.map(e => String(e.name)) }) + '\n\n' + watermark;
-      return { ...article, experts, experts_count: experts.length, markdown };
+      const tagsMd = tags.length ? `\n  Tags: ${tags.map(t => t.path).join(', ')}` : '';
+      const visible = editorial ? article : withoutPlanning(article);
+      const planning = [
+        visible.scheduled_for ? `scheduled for ${visible.scheduled_for}` : null,
+        visible.due_at ? `due ${visible.due_at}` : null,
+        visible.assignee ? `assigned to ${visible.assignee}` : null,
+      ].filter(Boolean);
+      const planningMd = planning.length ? `\n  Plan: ${planning.join(' · ')}` : '';
+      const markdown = formatArticleMd({ ...visible, experts: experts.map(e => String(e.name)) }) + tagsMd + planningMd + '\n\n' + watermark;
+      return { ...visible, tags, experts, experts_count: experts.length, ...editorialFields, markdown };
     },
   },
 
   {
     name: 'search_articles',
-    description: 'Full-text search across articles (title, subtitle, editorial_angle). Returns matching articles.',
+    description: 'Full-text search across published articles (title, subtitle, content, editorial_angle). Returns matching articles ranked by relevance.',
     inputSchema: {
       type: 'object',
       required: ['query'],
@@ -96,16 +184,16 @@ export const articleTools: McpTool[] = [
     handler: async (args, _ctx: AuthContext | null, env: Env) => {
       const q = String(args.query).trim();
       const limit = Math.min(Number(args.limit ?? 10), 30);
-      const pattern = `%${q}%`;
+      const match = ftsMatch(env.db, q);
+      if (!match) throw { code: 400, message: 'query must contain at least one search term' };
 
+      const fts = ftsClauses(env.db, 'article');
       const rows = await env.db.raw(
-        `SELECT id, number, title, subtitle, status, type, published_at, views, substack_url, editorial_angle
-         FROM articles
-         WHERE status = 'published'
-           AND (title LIKE ?1 COLLATE NOCASE OR subtitle LIKE ?1 COLLATE NOCASE OR editorial_angle LIKE ?1 COLLATE NOCASE)
-         ORDER BY published_at DESC
-         LIMIT ?2`,
-        [pattern, limit]
+        `SELECT a.id, a.number, a.title, a.subtitle, a.status, a.type, a.published_at, a.views, a.substack_url, a.editorial_angle
+         FROM ${fts.from} AND a.status = 'published'
+         ORDER BY ${fts.rank}, a.published_at DESC
+         LIMIT ?`,
+        [match, limit]
       );
 
       const watermark = getWatermark(env.config);
@@ -148,4 +236,153 @@ export const articleTools: McpTool[] = [
       return { since_date: since, articles: rows, count: rows.length, markdown };
     },
   },
+
+  {
+    name: 'create_article',
+    description: 'Create a new article in the editorial pipeline (status idea or drafting), optionally with a planned send date, draft deadline and assignee for the calendar. Use its ID as target_article for notes and sources. Contributor or above.',
+    inputSchema: {
+      type: 'object',
+      required: ['title'],
+      properties: {
+        title:           { type: 'string', description: 'Working title', minLength: 1 },
+        subtitle:        { type: 'string' },
+        content:         { type: 'string', description: 'Markdown body' },
+        type:            { type: 'string', enum: ARTICLE_TYPES, description: 'Content type (default edition)' },
+        number:          { type: 'number', description: 'Edition number (must be unique)' },
+        editorial_angle: { type: 'string', description: 'One-line angle or thesis' },
+        status:          { type: 'string', enum: ['idea', 'drafting'], description: 'Initial status (default idea)' },
+        ...PLANNING_PROPERTIES,
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'drafts:write');
+
+      const title = String(args.title ?? '').trim();
+      if (!title) throw { code: 400, message: 'title is required' };
+
+      const status = String(args.status ?? 'idea');
+      if (status !== 'idea' && status !== 'drafting') {
+        throw { code: 400, message: 'New articles start as idea or drafting — use transition_article to move them on' };
+      }
+      if (args.type && !ARTICLE_TYPES.includes(String(args.type))) {
+        throw { code: 400, message: `type must be one of: ${ARTICLE_TYPES.join(', ')}` };
+      }
+      if (args.number != null) await assertNumberFree(env, Number(args.number));
+
+      const article = await env.db.insert('articles', {
+        title,
+        subtitle: args.subtitle ? String(args.subtitle) : null,
+        content: args.content ? String(args.content) : null,
+        type: args.type ? String(args.type) : 'edition',
+        number: args.number != null ? Number(args.number) : null,
+        editorial_angle: args.editorial_angle ? String(args.editorial_angle) : null,
+        status,
+        ...planningFields(env, args),
+      });
+      await recordStatusChange(env, ctx, String(article.id), null, status, 'Created');
+      await recordRevision(env, ctx, null, article, 'create');
+
+      return { ...article, message: `Article created as ${status}` };
+    },
+  },
+
+  {
+    name: 'update_article',
+    description: 'Update an article\'s title, subtitle, content, type, number, angle, URL, planned send date, draft deadline or assignee (an empty string clears the last three). Title/content changes are saved as revisions. Status changes go through transition_article. Contributor or above; editors only once scheduled or published.',
+    inputSchema: {
+      type: 'object',
+      required: ['id'],
+      properties: {
+        id:              { type: 'string', description: 'Article UUID' },
+        title:           { type: 'string', minLength: 1 },
+        subtitle:        { type: 'string' },
+        content:         { type: 'string', description: 'Markdown body (replaces the current body)' },
+        type:            { type: 'string', enum: ARTICLE_TYPES },
+        number:          { type: 'number', description: 'Edition number (must be unique)' },
+        editorial_angle: { type: 'string' },
+        url:             { type: 'string', description: 'Published URL' },
+        ...PLANNING_PROPERTIES,
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'drafts:write');
+
+      const id = String(args.id);
+      const existing = await env.db.queryOne({ table: 'articles', filters: [{ column: 'id', op: 'eq', value: id }] });
+      if (!existing) throw { code: 404, message: 'Article not found' };
+
+      assertCanEdit(ctx, existing);
+
+      const patch: Record<string, unknown> = { updated_at: new Date().toISOString() };
+      if (args.title != null) {
+        const title = String(args.title).trim();
+        if (!title) throw { code: 400, message: 'title cannot be empty' };
+        patch.title = title;
+      }
+      if (args.subtitle != null) patch.subtitle = String(args.subtitle);
+      if (args.content != null) patch.content = String(args.content);
+      if (args.editorial_angle != null) patch.editorial_angle = String(args.editorial_angle);
+      if (args.url != null) patch.substack_url = String(args.url);
+      if (args.type != null) {
+        if (!ARTICLE_TYPES.includes(String(args.type))) {
+          throw { code: 400, message: `type must be one of: ${ARTICLE_TYPES.join(', ')}` };
+        }
+        patch.type = String(args.type);
+      }
+      if (args.number != null) {
+        await assertNumberFree(env, Number(args.number), id);
+        patch.number = Number(args.number);
+      }
+      Object.assign(patch, planningFields(env, args));
+
+      if (Object.keys(patch).length === 1) {
+        throw { code: 400, message: 'No fields to update' };
+      }
+
+      const rows = await env.db.update('articles', [{ column: 'id', op: 'eq', value: id }], patch);
+      const revision = await recordRevision(env, ctx, existing, rows[0], 'edit');
+      return {
+        ...rows[0],
+        revision: revision ? revision.revision : null,
+        message: revision ? `Article updated (revision ${revision.revision})` : 'Article updated',
+      };
+    },
+  },
+
+  {
+    name: 'transition_article',
+    description: `Move an article through the workflow: ${ARTICLE_STATUSES.join(' → ')}. Records who moved it and when. Contributors can move between idea, drafting and in_review; scheduling, publishing and archiving need an editor.`,
+    inputSchema: {
+      type: 'object',
+      required: ['id', 'status'],
+      properties: {
+        id:     { type: 'string', description: 'Article UUID' },
+        status: { type: 'string', enum: ARTICLE_STATUSES, description: 'Target status' },
+        note:   { type: 'string', description: 'Reason or comment for the history log' },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'drafts:write');
+
+      const { article, history, sourcesMarked } = await transitionArticle(
+        env,
+        ctx,
+        String(args.id),
+        String(args.status),
+        args.note ? String(args.note) : undefined,
+      );
+
+      const next = TRANSITIONS[String(article.status) as ArticleStatus];
+      return {
+        id: article.id,
+        title: article.title,
+        status: article.status,
+        from_status: history.from_status,
+        changed_by: history.changed_by_name,
+        next_statuses: next,
+        ...(sourcesMarked.length ? { sources_marked_used: sourcesMarked.map(s => ({ id: s.id, title: s.title })) } : {}),
+        message: `Article moved from ${history.from_status} to ${article.status}${sourcesMarked.length ? ` (${sourcesMarked.length} cited source${sourcesMarked.length === 1 ? '' : 's'} marked used)` : ''}`,
+      };
+    },
+  },
 ];
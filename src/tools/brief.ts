@@ -1,13 +1,13 @@
 /** Brief tool — prepare article writing brief from notes + sources */
 
 import type { McpTool, AuthContext, Env, Row } from '../types.js';
-import { requireOwner } from '../auth.js';
+import { requirePermission } from '../auth.js';
 import { getWatermark } from '../utils.js';
 
 export const briefTools: McpTool[] = [
   {
     name: 'prepare_brief',
-    description: 'Generate an article preparation brief: aggregated notes + sources, organized by type and status. Owner only.',
+    description: 'Generate an article preparation brief: aggregated notes + sources, organized by type and status. Any signed-in role.',
     inputSchema: {
       type: 'object',
       required: ['target_article'],
@@ -17,7 +17,7 @@ export const briefTools: McpTool[] = [
       },
     },
     handler: async (args, ctx: AuthContext | null, env: Env) => {
-      requireOwner(ctx);
+      requirePermission(ctx, 'editorial:read');
 
       const articleId = String(args.target_article);
       const includeBacklog = args.include_backlog !== false;
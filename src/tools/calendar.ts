@@ -0,0 +1,183 @@
+/** Calendar tools — editorial calendar (markdown + iCalendar), plan an issue for an open slot */
+
+import type { McpTool, AuthContext, Env, Row } from '../types.js';
+import { requirePermission } from '../auth.js';
+import { getWatermark } from '../utils.js';
+import { addDays, calendarIcs, calendarMarkdown, calendarSettings, loadCalendar, localDate } from '../calendar.js';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 86_400_000;
+
+function ageDays(created: unknown, now: Date): number {
+  const t = Date.parse(String(created));
+  return Number.isNaN(t) ? 0 : Math.max(0, Math.floor((now.getTime() - t) / DAY_MS));
+}
+
+export const calendarTools: McpTool[] = [
+  {
+    name: 'calendar',
+    description: 'Editorial calendar for the coming weeks: publishing slots from the configured cadence with the editions planned or published in them, open slots, articles off the cadence, drafts coming due and overdue drafts. Returned as markdown and as an iCalendar (.ics) file. Any signed-in role.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        from:  { type: 'string', description: 'First day (YYYY-MM-DD, default today in the calendar time zone)' },
+        weeks: { type: 'number', description: 'Number of weeks to show (default 4, max 26)', minimum: 1, maximum: 26 },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'editorial:read');
+
+      const weeks = Math.min(Math.max(Number(args.weeks ?? 4), 1), 26);
+      if (args.from != null && !DATE_RE.test(String(args.from))) {
+        throw { code: 400, message: 'from must be a date (YYYY-MM-DD)' };
+      }
+
+      const now = new Date();
+      const cal = await loadCalendar(env, { from: args.from ? String(args.from) : undefined, weeks, now });
+
+      return {
+        from: cal.from,
+        until: addDays(cal.until, -1),
+        cadence: cal.settings,
+        slots: cal.slots,
+        gaps: cal.gaps.map(s => s.date),
+        off_cadence: cal.offCadence,
+        due: cal.due,
+        overdue: cal.overdue,
+        markdown: `${calendarMarkdown(cal, now)}\n\n${getWatermark(env.config)}`,
+        ics: calendarIcs(cal, env.config.name, now),
+      };
+    },
+  },
+
+  {
+    name: 'plan_issue',
+    description: 'Propose material for a publishing slot: unscheduled drafts, then backlog notes by priority and age (oldest first within a priority), then the sources those notes cite and unused backlog sources, oldest first. Defaults to the next open slot. Read-only — assign what you pick with update_article and update_note. Any signed-in role.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        date:       { type: 'string', description: 'Slot date (YYYY-MM-DD, default the next open slot)' },
+        article_id: { type: 'string', description: 'Article being planned; its own notes and sources are proposed alongside the backlog' },
+        limit:      { type: 'number', description: 'Max notes and sources each (default 10, max 50)', minimum: 1, maximum: 50 },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'editorial:read');
+
+      const limit = Math.min(Number(args.limit ?? 10), 50);
+      const now = new Date();
+      const settings = calendarSettings(env.config);
+
+      let date: string;
+      let weekday: string;
+      let slotArticles: Row[] = [];
+      if (args.date != null) {
+        date = String(args.date);
+        if (!DATE_RE.test(date)) throw { code: 400, message: 'date must be a date (YYYY-MM-DD)' };
+        const cal = await loadCalendar(env, { from: date, weeks: 1, now });
+        const slot = cal.slots.find(s => s.date === date);
+        if (!slot) throw { code: 400, message: `${date} is not a publishing day (${settings.weekdays.join(', ')})` };
+        weekday = slot.weekday;
+        slotArticles = slot.articles;
+      } else {
+        const cal = await loadCalendar(env, { weeks: 26, now });
+        const gap = cal.gaps.find(s => s.at > now.toISOString());
+        if (!gap) throw { code: 404, message: 'No open slot in the next 26 weeks' };
+        date = gap.date;
+        weekday = gap.weekday;
+      }
+
+      let article: Row | null = null;
+      if (args.article_id) {
+        article = await env.db.queryOne({
+          table: 'articles',
+          select: ['id', 'number', 'title', 'status'],
+          filters: [{ column: 'id', op: 'eq', value: String(args.article_id) }],
+        });
+        if (!article) throw { code: 404, message: 'Article not found' };
+      }
+      const articleId = article ? String(article.id) : null;
+
+      // Drafts nobody has put on the calendar yet, soonest due first
+      const drafts = (await env.db.query({
+        table: 'articles',
+        select: ['id', 'number', 'title', 'status', 'due_at', 'assignee', 'created_at'],
+        filters: [
+          { column: 'status', op: 'in', value: ['idea', 'drafting', 'in_review'] },
+          { column: 'scheduled_for', op: 'is', value: null },
+        ],
+        order: [{ column: 'due_at', direction: 'asc', nulls: 'last' }, { column: 'created_at', direction: 'asc' }],
+        limit,
+      })).filter(a => String(a.id) !== articleId);
+
+      const notes = await env.db.raw(
+        `SELECT id, type, content, priority, source_id, target_article, created_at FROM editorial_notes
+         WHERE status = 'active' AND (target_article IS NULL OR target_article = ?)
+         ORDER BY priority ASC, created_at ASC
+         LIMIT ?`,
+        [articleId, limit]
+      );
+
+      const cited = [...new Set(notes.filter(n => n.source_id).map(n => String(n.source_id)))];
+      const citedSources = cited.length
+        ? await env.db.query({
+          table: 'editorial_sources',
+          select: ['id', 'title', 'url', 'published_date', 'target_article', 'used_in_article', 'status', 'created_at'],
+          filters: [{ column: 'id', op: 'in', value: cited }, { column: 'status', op: 'eq', value: 'active' }],
+        })
+        : [];
+      const backlogSources = await env.db.raw(
+        `SELECT id, title, url, published_date, target_article, used_in_article, status, created_at FROM editorial_sources
+         WHERE status = 'active' AND used_in_article IS NULL AND (target_article IS NULL OR target_article = ?)
+         ORDER BY created_at ASC
+         LIMIT ?`,
+        [articleId, limit]
+      );
+      const sources: Row[] = [];
+      for (const s of [...citedSources.filter(s => !s.used_in_article), ...backlogSources]) {
+        if (sources.length < limit && !sources.some(x => String(x.id) === String(s.id))) sources.push(s);
+      }
+
+      const label = (a: Row) => `${a.number != null ? `#${a.number} ` : ''}${a.title}`;
+      const lines = [`## Plan for ${weekday} ${date}${article ? ` — ${label(article)}` : ''}`];
+      if (slotArticles.length) {
+        lines.push(`_Slot already has: ${slotArticles.map(a => `${label(a)} [${a.status}]`).join('; ')}_`);
+      }
+
+      if (!article) {
+        lines.push('', '### Unscheduled drafts');
+        if (!drafts.length) lines.push('_None_');
+        for (const a of drafts) {
+          const due = a.due_at ? ` · due ${localDate(String(a.due_at), settings.timeZone)}` : '';
+          lines.push(`- ${label(a)} [${a.status}]${a.assignee ? ` · ${a.assignee}` : ''}${due} | ${a.id}`);
+        }
+      }
+
+      lines.push('', '### Notes');
+      if (!notes.length) lines.push('_No active backlog notes_');
+      for (const n of notes) {
+        const own = n.target_article ? ' _(this article)_' : '';
+        lines.push(`- P${n.priority} **[${String(n.type).toUpperCase()}]** ${n.content}${own}\n  _${ageDays(n.created_at, now)} days old | ${n.id}_`);
+      }
+
+      lines.push('', '### Sources');
+      if (!sources.length) lines.push('_No unused sources_');
+      for (const s of sources) {
+        const why = cited.includes(String(s.id)) ? ' _(cited by a note above)_' : '';
+        lines.push(`- ${s.title} (${s.published_date ?? '?'})${why}\n  ${s.url}\n  _${ageDays(s.created_at, now)} days old | ${s.id}_`);
+      }
+
+      lines.push('', getWatermark(env.config));
+
+      return {
+        date,
+        article_id: articleId,
+        slot_articles: slotArticles,
+        drafts: article ? [] : drafts,
+        notes,
+        sources,
+        markdown: lines.join('\n'),
+      };
+    },
+  },
+];
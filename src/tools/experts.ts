@@ -1,17 +1,72 @@
-/** Expert tools — list, get */
+/** Expert tools — list, get, add, update, merge, log contacts, review matches */
 
-import type { McpTool, AuthContext, Env, Filter } from '../types.js';
-import { formatArticleMd, getWatermark } from '../utils.js';
+import type { McpTool, AuthContext, Env, Filter, Row } from '../types.js';
+import { hasPermission, requirePermission } from '../auth.js';
+import { formatArticleMd, getWatermark, parseJsonArray } from '../utils.js';
+import {
+  CONTACT_CHANNELS,
+  CONTACT_OUTCOMES,
+  REVIEW_ACTIONS,
+  expertsNotQuotedSince,
+  getAliases,
+  getExpertOrThrow,
+  lastQuoted,
+  linkExpert,
+  mergeExperts,
+  pendingMatches,
+  reviewMatch,
+  setAliases,
+} from '../experts.js';
+
+/** Contact details are only shown to signed-in roles */
+const CONTACT_FIELDS = ['email', 'phone', 'website'];
+
+function withoutContact(expert: Row): Row {
+  const out = { ...expert };
+  for (const field of CONTACT_FIELDS) delete out[field];
+  return out;
+}
+
+function formatInteractionMd(i: Row): string {
+  const outcome = i.outcome ? ` → ${i.outcome}` : '';
+  const who = i.expert_name ? `${i.expert_name} · ` : '';
+  return `- ${String(i.occurred_at).slice(0, 10)} ${who}${i.channel}${i.topic ? `: ${i.topic}` : ''}${outcome}${i.notes ? `\n  ${i.notes}` : ''}`;
+}
+
+/** Expert columns settable through add_expert / update_expert */
+function expertFields(args: Record<string, unknown>): Row {
+  const fields: Row = {};
+  for (const key of ['name', 'affiliation', 'email', 'phone', 'website', 'notes']) {
+    if (args[key] != null) fields[key] = String(args[key]).trim() || null;
+  }
+  if (args.country != null) fields.country = String(args.country).trim().toUpperCase() || null;
+  if (args.tier != null) fields.tier = Number(args.tier);
+  if (args.expertise != null) fields.expertise = JSON.stringify((args.expertise as unknown[]).map(String));
+  return fields;
+}
+
+const EXPERT_PROPERTIES = {
+  affiliation: { type: 'string', description: 'Organisation and role' },
+  expertise:   { type: 'array', items: { type: 'string' }, description: 'Topics they can speak to' },
+  country:     { type: 'string', description: 'ISO country code (e.g. "US", "FR")' },
+  tier:        { type: 'number', enum: [1, 2, 3], description: 'Expert tier (1=top, 2=mid, 3=emerging)' },
+  email:       { type: 'string' },
+  phone:       { type: 'string' },
+  website:     { type: 'string', description: 'Website or profile URL' },
+  notes:       { type: 'string', description: 'Free-form notes (how we met, preferences)' },
+  aliases:     { type: 'array', items: { type: 'string' }, description: 'Other names they appear under (maiden name, transliteration, "@handle"), used to find them in articles' },
+};
 
 export const expertTools: McpTool[] = [
   {
     name: 'list_experts',
-    description: 'List experts cited in the newsletter with optional filters by tier or country.',
+    description: 'List experts cited in the newsletter with optional filters by tier or country. not_quoted_in_months lists experts we haven\'t quoted in that long (never-quoted ones last).',
     inputSchema: {
       type: 'object',
       properties: {
         tier: { type: 'number', description: 'Expert tier (1=top, 2=mid, 3=emerging)', enum: [1, 2, 3] },
         country: { type: 'string', description: 'ISO country code (e.g. "US", "FR")' },
+        not_quoted_in_months: { type: 'number', minimum: 1, description: 'Only experts not quoted in a published article for this many months, e.g. 6' },
         limit: { type: 'number', description: 'Max results (default 20, max 50)', minimum: 1, maximum: 50 },
       },
     },
@@ -22,9 +77,24 @@ export const expertTools: McpTool[] = [
       if (args.tier != null) filters.push({ column: 'tier', op: 'eq', value: Number(args.tier) });
       if (args.country) filters.push({ column: 'country', op: 'eq', value: String(args.country).toUpperCase() });
 
+      const select = ['id', 'name', 'affiliation', 'expertise', 'country', 'tier', 'times_cited'];
+
+      if (args.not_quoted_in_months != null) {
+        const months = Number(args.not_quoted_in_months);
+        const cutoff = new Date();
+        cutoff.setUTCMonth(cutoff.getUTCMonth() - months);
+        const all = await env.db.query({ table: 'experts', select, filters, order: [{ column: 'name', direction: 'asc' }] });
+        const rows = (await expertsNotQuotedSince(env, all, cutoff.toISOString())).slice(0, limit);
+
+        const markdown = rows.length
+          ? `## Not quoted in ${months} months\n\n${rows.map(e => `- **${e.name}**${e.affiliation ? ` — ${e.affiliation}` : ''} (tier ${e.tier ?? '?'}): ${e.last_quoted_at ? `last quoted ${String(e.last_quoted_at).slice(0, 10)}` : 'never quoted'}`).join('\n')}\n\n${getWatermark(env.config)}`
+          : `_Every expert was quoted in the last ${months} months_\n\n${getWatermark(env.config)}`;
+        return { experts: rows, count: rows.length, cutoff: cutoff.toISOString(), markdown };
+      }
+
       const rows = await env.db.query({
         table: 'experts',
-        select: ['id', 'name', 'affiliation', 'expertise', 'country', 'tier', 'times_cited'],
+        select,
         filters,
         order: [{ column: 'times_cited', direction: 'desc' }],
         limit,
@@ -36,7 +106,7 @@ export const expertTools: McpTool[] = [
 
   {
     name: 'get_expert',
-    description: 'Get a single expert by ID or name (partial match), including linked articles.',
+    description: 'Get a single expert by ID or name (partial match on name or alias), including aliases and linked articles.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -44,7 +114,7 @@ export const expertTools: McpTool[] = [
         name: { type: 'string', description: 'Expert name (partial match)' },
       },
     },
-    handler: async (args, _ctx: AuthContext | null, env: Env) => {
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
       if (!args.id && !args.name) {
         throw { code: 400, message: 'Provide either id or name' };
       }
@@ -60,9 +130,18 @@ export const expertTools: McpTool[] = [
           table: 'experts',
           filters: [{ column: 'name', op: 'ilike', value: `%${String(args.name).trim()}%` }],
         });
+        if (!expert) {
+          const alias = await env.db.queryOne({
+            table: 'expert_aliases',
+            select: ['expert_id'],
+            filters: [{ column: 'alias', op: 'ilike', value: `%${String(args.name).trim()}%` }],
+          });
+          if (alias) expert = await getExpertOrThrow(env, String(alias.expert_id));
+        }
       }
 
       if (!expert) throw { code: 404, message: 'Expert not found' };
+      const aliases = await getAliases(env, String(expert.id));
 
       // Fetch linked articles
       let articles: Record<string, unknown>[] = [];
@@ -71,18 +150,309 @@ export const expertTools: McpTool[] = [
           `SELECT a.id, a.title, a.published_at, a.substack_url, a.editorial_angle, a.number, a.type
            FROM articles a
            JOIN article_experts ae ON ae.article_id = a.id
-           WHERE ae.expert_id = ?`,
+           WHERE ae.expert_id = ? AND ae.status = 'confirmed'`,
           [expert.id]
         );
       } catch {
         // Junction table may not exist yet
       }
 
+      const lastQuotedAt = (await lastQuoted(env, [String(expert.id)])).get(String(expert.id)) ?? null;
+
+      // Contact details and history stay with the editorial team
+      const internal = hasPermission(ctx, 'editorial:read');
+      const interactions = internal
+        ? await env.db.query({
+          table: 'expert_interactions',
+          filters: [{ column: 'expert_id', op: 'eq', value: String(expert.id) }],
+          order: [{ column: 'occurred_at', direction: 'desc' }],
+          limit: 20,
+        })
+        : [];
+
       const watermark = getWatermark(env.config);
       const articlesMd = articles.map(a => formatArticleMd(a)).join('\n');
-      const markdown = `## ${expert.name}\n${expert.affiliation ? `_${expert.affiliation}_` : ''}${expert.country ? ` (${expert.country})` : ''}\n\n### Articles (${articles.length})\n${articlesMd || '_No linked articles_'}\n\n${watermark}`;
+      const contactsMd = internal ? `\n\n### Contacts (${interactions.length})\n${interactions.map(formatInteractionMd).join('\n') || '_No contacts logged_'}` : '';
+      const aliasesMd = aliases.length ? `Also known as: ${aliases.map(a => a.alias).join(', ')}\n` : '';
+      const markdown = `## ${expert.name}\n${expert.affiliation ? `_${expert.affiliation}_` : ''}${expert.country ? ` (${expert.country})` : ''}\n${aliasesMd}${lastQuotedAt ? `Last quoted ${lastQuotedAt.slice(0, 10)}` : 'Never quoted'}\n\n### Articles (${articles.length})\n${articlesMd || '_No linked articles_'}${contactsMd}\n\n${watermark}`;
+
+      return {
+        expert: internal ? expert : withoutContact(expert),
+        aliases,
+        articles,
+        articles_count: articles.length,
+        last_quoted_at: lastQuotedAt,
+        ...(internal ? { interactions } : {}),
+        markdown,
+      };
+    },
+  },
+
+  {
+    name: 'add_expert',
+    description: 'Add an expert to the directory. Imports link experts to the articles that mention them. Returns the existing expert when the name is already there. Contributor or above.',
+    inputSchema: {
+      type: 'object',
+      required: ['name'],
+      properties: {
+        name: { type: 'string', description: 'Full name', minLength: 1 },
+        ...EXPERT_PROPERTIES,
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'experts:write');
+
+      const name = String(args.name).trim();
+      if (!name) throw { code: 400, message: 'name is required' };
+
+      // Dedup check (case-insensitive exact name)
+      const existing = await env.db.queryOne({
+        table: 'experts',
+        filters: [{ column: 'name', op: 'ilike', value: name }],
+      });
+      if (existing) {
+        return {
+          duplicate: true,
+          existing_id: existing.id,
+          existing_name: existing.name,
+          message: 'An expert with this name already exists — use update_expert, or merge_experts if they are the same person',
+        };
+      }
+
+      const expert = await env.db.insert('experts', { ...expertFields(args), name });
+      const aliases = Array.isArray(args.aliases) ? await setAliases(env, expert, args.aliases) : [];
+      return { ...expert, expertise: parseJsonArray(expert.expertise), aliases, message: `Expert added: ${expert.name}` };
+    },
+  },
+
+  {
+    name: 'update_expert',
+    description: 'Update an expert\'s details. aliases replaces the whole alias list. Contributor or above.',
+    inputSchema: {
+      type: 'object',
+      required: ['id'],
+      properties: {
+        id:   { type: 'string', description: 'Expert UUID' },
+        name: { type: 'string', minLength: 1 },
+        ...EXPERT_PROPERTIES,
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'experts:write');
+
+      const id = String(args.id);
+      const fields = expertFields(args);
+      const hasAliases = Array.isArray(args.aliases);
+      if (!Object.keys(fields).length && !hasAliases) throw { code: 400, message: 'No fields to update' };
+      if ('name' in fields && !fields.name) throw { code: 400, message: 'name cannot be empty' };
+
+      const rows = await env.db.update('experts', [{ column: 'id', op: 'eq', value: id }], {
+        ...fields,
+        updated_at: new Date().toISOString(),
+      });
+      if (!rows.length) throw { code: 404, message: 'Expert not found' };
+
+      const aliases = hasAliases ? await setAliases(env, rows[0], args.aliases as unknown[]) : await getAliases(env, id);
+      return { ...rows[0], expertise: parseJsonArray(rows[0].expertise), aliases, message: 'Expert updated' };
+    },
+  },
+
+  {
+    name: 'merge_experts',
+    description: 'Merge duplicate experts into one: article links, aliases and contact history move to keep_id, the duplicates\' names become aliases, missing details are filled in, times_cited is recounted, and the duplicates are deleted. Editor or above.',
+    inputSchema: {
+      type: 'object',
+      required: ['keep_id', 'merge_ids'],
+      properties: {
+        keep_id:   { type: 'string', description: 'Expert to keep' },
+        merge_ids: { type: 'array', items: { type: 'string' }, minItems: 1, description: 'Experts to fold into keep_id' },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'editorial:manage');
+
+      const mergeIds = Array.isArray(args.merge_ids) ? args.merge_ids.map(String) : [];
+      const result = await mergeExperts(env, String(args.keep_id), mergeIds);
+
+      return {
+        ...result,
+        expert: { ...result.expert, expertise: parseJsonArray(result.expert.expertise) },
+        message: `Merged ${result.merged.map(m => m.name).join(', ')} into ${result.expert.name} (${result.articles_moved} article links, ${result.interactions_moved} contacts moved)`,
+      };
+    },
+  },
+
+  {
+    name: 'log_expert_contact',
+    description: 'Log a contact with an expert: date, channel, topic and outcome. An outcome of "quoted" with an article_id links the expert to that article. Contributor or above.',
+    inputSchema: {
+      type: 'object',
+      required: ['expert_id', 'channel'],
+      properties: {
+        expert_id:   { type: 'string', description: 'Expert UUID' },
+        channel:     { type: 'string', enum: [...CONTACT_CHANNELS] },
+        topic:       { type: 'string', description: 'What it was about' },
+        outcome:     { type: 'string', enum: [...CONTACT_OUTCOMES] },
+        occurred_at: { type: 'string', description: 'When (ISO date or datetime, default now)' },
+        article_id:  { type: 'string', description: 'Article the contact was for' },
+        notes:       { type: 'string' },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'experts:write');
+
+      const channel = String(args.channel);
+      if (!(CONTACT_CHANNELS as readonly string[]).includes(channel)) {
+        throw { code: 400, message: `Invalid channel "${channel}". Expected one of: ${CONTACT_CHANNELS.join(', ')}` };
+      }
+      if (args.outcome != null && !(CONTACT_OUTCOMES as readonly string[]).includes(String(args.outcome))) {
+        throw { code: 400, message: `Invalid outcome "${args.outcome}". Expected one of: ${CONTACT_OUTCOMES.join(', ')}` };
+      }
+
+      const expert = await getExpertOrThrow(env, String(args.expert_id));
+
+      let occurredAt = new Date().toISOString();
+      if (args.occurred_at) {
+        const t = Date.parse(String(args.occurred_at));
+        if (Number.isNaN(t)) throw { code: 400, message: `Invalid occurred_at "${args.occurred_at}"` };
+        occurredAt = new Date(t).toISOString();
+      }
+
+      const articleId = args.article_id ? String(args.article_id) : null;
+      if (articleId) {
+        const article = await env.db.queryOne({ table: 'articles', select: ['id'], filters: [{ column: 'id', op: 'eq', value: articleId }] });
+        if (!article) throw { code: 404, message: 'Article not found' };
+      }
+
+      const interaction = await env.db.insert('expert_interactions', {
+        expert_id: String(expert.id),
+        occurred_at: occurredAt,
+        channel,
+        topic: args.topic ? String(args.topic) : null,
+        outcome: args.outcome ? String(args.outcome) : null,
+        article_id: articleId,
+        notes: args.notes ? String(args.notes) : null,
+        logged_by: ctx?.userName ?? ctx?.role ?? null,
+      });
+
+      const linked = args.outcome === 'quoted' && articleId ? await linkExpert(env, articleId, String(expert.id)) : false;
+
+      return {
+        ...interaction,
+        linked_to_article: linked,
+        message: `Contact with ${expert.name} logged${linked ? ' and linked to the article' : ''}`,
+      };
+    },
+  },
+
+  {
+    name: 'review_expert_matches',
+    description: 'Review expert matches made during import that were too uncertain to confirm (a common name, a last name only, no affiliation nearby). Without decisions, lists pending matches with the text around them; with decisions, confirms or rejects them. Rejected matches aren\'t suggested again. Listing: any signed-in role; deciding: contributor or above.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        article_id: { type: 'string', description: 'Only matches in this article' },
+        expert_id:  { type: 'string', description: 'Only matches for this expert' },
+        decisions:  {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['article_id', 'expert_id', 'action'],
+            properties: {
+              article_id: { type: 'string' },
+              expert_id:  { type: 'string' },
+              action:     { type: 'string', enum: [...REVIEW_ACTIONS] },
+            },
+          },
+        },
+        limit: { type: 'number', minimum: 1, maximum: 100, description: 'Max pending matches listed (default 20)' },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      const watermark = getWatermark(env.config);
+
+      if (Array.isArray(args.decisions) && args.decisions.length) {
+        requirePermission(ctx, 'experts:write');
+        const decisions = args.decisions as Row[];
+        for (const d of decisions) {
+          if (!(REVIEW_ACTIONS as readonly string[]).includes(String(d.action))) {
+            throw { code: 400, message: `Invalid action "${d.action}". Expected one of: ${REVIEW_ACTIONS.join(', ')}` };
+          }
+        }
+        const reviewed: Row[] = [];
+        for (const d of decisions) {
+          reviewed.push(await reviewMatch(env, String(d.article_id), String(d.expert_id), String(d.action)));
+        }
+        const confirmed = reviewed.filter(r => r.status === 'confirmed').length;
+        const rejected = reviewed.length - confirmed;
+        return {
+          reviewed,
+          confirmed,
+          rejected,
+          markdown: `Reviewed ${reviewed.length} match${reviewed.length === 1 ? '' : 'es'}: ${confirmed} confirmed, ${rejected} rejected\n\n${watermark}`,
+        };
+      }
+
+      requirePermission(ctx, 'editorial:read');
+      const matches = await pendingMatches(env, {
+        articleId: args.article_id ? String(args.article_id) : undefined,
+        expertId: args.expert_id ? String(args.expert_id) : undefined,
+        limit: Math.min(Number(args.limit ?? 20), 100),
+      });
+
+      const markdown = matches.length
+        ? matches.map(m =>
+          `- **${m.expert_name}**${m.affiliation ? ` (${m.affiliation})` : ''} in _${m.article_title}_ — matched on "${m.matched_on}", confidence ${Number(m.confidence).toFixed(2)}\n  > ${m.context ?? ''}\n  article_id: ${m.article_id} · expert_id: ${m.expert_id}`
+        ).join('\n') + '\n\n' + watermark
+        : `_No matches waiting for review_\n\n${watermark}`;
+
+      return { matches, count: matches.length, markdown };
+    },
+  },
+
+  {
+    name: 'list_expert_contacts',
+    description: 'Contact history with experts, newest first. Filter by expert, channel, outcome or date. Any signed-in role.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        expert_id: { type: 'string', description: 'Expert UUID' },
+        channel:   { type: 'string', enum: [...CONTACT_CHANNELS] },
+        outcome:   { type: 'string', enum: [...CONTACT_OUTCOMES] },
+        since:     { type: 'string', description: 'Only contacts on or after this date (YYYY-MM-DD)' },
+        limit:     { type: 'number', minimum: 1, maximum: 100, description: 'Max results (default 50)' },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'editorial:read');
+
+      const limit = Math.min(Number(args.limit ?? 50), 100);
+      const filters: Filter[] = [];
+      if (args.expert_id) filters.push({ column: 'expert_id', op: 'eq', value: String(args.expert_id) });
+      if (args.channel) filters.push({ column: 'channel', op: 'eq', value: String(args.channel) });
+      if (args.outcome) filters.push({ column: 'outcome', op: 'eq', value: String(args.outcome) });
+      if (args.since) filters.push({ column: 'occurred_at', op: 'gte', value: String(args.since) });
+
+      const rows = await env.db.query({
+        table: 'expert_interactions',
+        filters,
+        order: [{ column: 'occurred_at', direction: 'desc' }],
+        limit,
+      });
+
+      const expertIds = [...new Set(rows.map(r => String(r.expert_id)))];
+      const experts = expertIds.length
+        ? await env.db.query({ table: 'experts', select: ['id', 'name'], filters: [{ column: 'id', op: 'in', value: expertIds }] })
+        : [];
+      const names = new Map(experts.map(e => [String(e.id), String(e.name)]));
+      const interactions = rows.map(r => ({ ...r, expert_name: names.get(String(r.expert_id)) ?? null }));
+
+      const watermark = getWatermark(env.config);
+      const markdown = interactions.length
+        ? interactions.map(formatInteractionMd).join('\n') + '\n\n' + watermark
+        : `_No contacts logged_\n\n${watermark}`;
 
-      return { expert, articles, articles_count: articles.length, markdown };
+      return { interactions, count: interactions.length, markdown };
     },
   },
 ];
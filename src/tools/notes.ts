@@ -1,13 +1,24 @@
 /** Note tools — add, list, update, clear */
 
 import type { McpTool, AuthContext, Env, Filter } from '../types.js';
-import { requireOwner } from '../auth.js';
+import { requirePermission } from '../auth.js';
 import { formatNoteMd, getWatermark, parseJsonArray } from '../utils.js';
+import { noteIdsTagged, resolveTag, setNoteTags } from '../tags.js';
+
+async function requireSource(env: Env, id: string): Promise<string> {
+  const source = await env.db.queryOne({
+    table: 'editorial_sources',
+    select: ['id'],
+    filters: [{ column: 'id', op: 'eq', value: id }],
+  });
+  if (!source) throw { code: 404, message: `Source not found: ${id}` };
+  return id;
+}
 
 export const noteTools: McpTool[] = [
   {
     name: 'add_note',
-    description: 'Add an editorial note (idea, angle, quote, fact, todo, outline) for an article or backlog. Owner only.',
+    description: 'Add an editorial note (idea, angle, quote, fact, todo, outline) for an article or backlog. Link quotes and facts to their source_id so drafts cite them. Contributor or above.',
     inputSchema: {
       type: 'object',
       required: ['type', 'content'],
@@ -15,24 +26,30 @@ export const noteTools: McpTool[] = [
         type:           { type: 'string', enum: ['idea', 'angle', 'quote', 'fact', 'todo', 'outline'], description: 'Note type' },
         content:        { type: 'string', description: 'Note content', minLength: 1 },
         target_article: { type: 'string', description: 'Target article ID (omit for backlog)' },
-        tags:           { type: 'array', items: { type: 'string' }, description: 'Tags for filtering' },
+        tags:           { type: 'array', items: { type: 'string' }, description: 'Tag names (shared with article tags; missing ones are created)' },
         priority:       { type: 'number', minimum: 1, maximum: 5, description: 'Priority 1-5 (default 3)' },
+        source_id:      { type: 'string', description: 'Editorial source the quote or fact comes from (cited in drafts)' },
       },
     },
     handler: async (args, ctx: AuthContext | null, env: Env) => {
-      requireOwner(ctx);
+      requirePermission(ctx, 'notes:write');
+
+      const sourceId = args.source_id ? await requireSource(env, String(args.source_id)) : null;
 
       const note = await env.db.insert('editorial_notes', {
         type: String(args.type),
         content: String(args.content),
         target_article: args.target_article ? String(args.target_article) : null,
-        tags: Array.isArray(args.tags) ? args.tags.map(String) : [],
+        source_id: sourceId,
+        tags: [],
         priority: args.priority != null ? Number(args.priority) : 3,
         status: 'active',
       });
+      const tags = Array.isArray(args.tags) ? await setNoteTags(env, String(note.id), args.tags.map(String)) : [];
 
       return {
         ...note,
+        tags,
         message: `Note added${note.target_article ? ` for article ${note.target_article}` : ' to backlog'}`,
       };
     },
@@ -40,19 +57,20 @@ export const noteTools: McpTool[] = [
 
   {
     name: 'list_notes',
-    description: 'List editorial notes with filters. Owner only.',
+    description: 'List editorial notes with filters. Any signed-in role.',
     inputSchema: {
       type: 'object',
       properties: {
         target_article: { type: 'string', description: 'Filter by article ID (use "backlog" for unassigned)' },
         type:           { type: 'string', enum: ['idea', 'angle', 'quote', 'fact', 'todo', 'outline'] },
         status:         { type: 'string', enum: ['active', 'used', 'discarded'], description: 'Default: active' },
-        tag:            { type: 'string', description: 'Filter by tag' },
+        tag:            { type: 'string', description: 'Filter by tag id or exact name; notes tagged with its child tags are included' },
+        source_id:      { type: 'string', description: 'Only notes taken from this source' },
         limit:          { type: 'number', minimum: 1, maximum: 100, description: 'Max results (default 50)' },
       },
     },
     handler: async (args, ctx: AuthContext | null, env: Env) => {
-      requireOwner(ctx);
+      requirePermission(ctx, 'editorial:read');
 
       const limit = Math.min(Number(args.limit ?? 50), 100);
       const filters: Filter[] = [];
@@ -67,7 +85,14 @@ export const noteTools: McpTool[] = [
       if (args.type) filters.push({ column: 'type', op: 'eq', value: String(args.type) });
       if (args.status) filters.push({ column: 'status', op: 'eq', value: String(args.status) });
       else filters.push({ column: 'status', op: 'eq', value: 'active' });
-      if (args.tag) filters.push({ column: 'tags', op: 'cs', value: String(args.tag) });
+      if (args.source_id) filters.push({ column: 'source_id', op: 'eq', value: String(args.source_id) });
+      if (args.tag) {
+        const tag = await resolveTag(env, String(args.tag));
+        const ids = await noteIdsTagged(env, String(tag.id));
+        // An empty `in` list would match everything
+        if (!ids.length) return { notes: [], count: 0, markdown: `_No notes found_\n\n${getWatermark(env.config)}` };
+        filters.push({ column: 'id', op: 'in', value: ids });
+      }
 
       const rows = await env.db.query({
         table: 'editorial_notes',
@@ -90,7 +115,7 @@ export const noteTools: McpTool[] = [
 
   {
     name: 'update_note',
-    description: 'Update an editorial note. Owner only.',
+    description: 'Update an editorial note. Contributor or above.',
     inputSchema: {
       type: 'object',
       required: ['id'],
@@ -101,11 +126,12 @@ export const noteTools: McpTool[] = [
         target_article: { type: 'string', description: 'Article ID or "backlog" to unassign' },
         status:         { type: 'string', enum: ['active', 'used', 'discarded'] },
         priority:       { type: 'number', minimum: 1, maximum: 5 },
-        tags:           { type: 'array', items: { type: 'string' } },
+        tags:           { type: 'array', items: { type: 'string' }, description: 'Replaces the note\'s tags' },
+        source_id:      { type: 'string', description: 'Source UUID, or "none" to unlink' },
       },
     },
     handler: async (args, ctx: AuthContext | null, env: Env) => {
-      requireOwner(ctx);
+      requirePermission(ctx, 'notes:write');
 
       const id = String(args.id);
       const patch: Record<string, unknown> = { updated_at: new Date().toISOString() };
@@ -114,25 +140,31 @@ export const noteTools: McpTool[] = [
       if (args.type != null) patch.type = String(args.type);
       if (args.status != null) patch.status = String(args.status);
       if (args.priority != null) patch.priority = Number(args.priority);
-      if (args.tags != null) patch.tags = (args.tags as string[]).map(String);
       if (args.target_article != null) {
         patch.target_article = String(args.target_article) === 'backlog' ? null : String(args.target_article);
       }
+      if (args.source_id != null) {
+        patch.source_id = String(args.source_id) === 'none' ? null : await requireSource(env, String(args.source_id));
+      }
 
-      if (Object.keys(patch).length === 1) {
+      if (Object.keys(patch).length === 1 && args.tags == null) {
         throw { code: 400, message: 'No fields to update' };
       }
 
-      const rows = await env.db.update('editorial_notes', [{ column: 'id', op: 'eq', value: id }], patch);
+      let rows = await env.db.update('editorial_notes', [{ column: 'id', op: 'eq', value: id }], patch);
       if (!rows.length) throw { code: 404, message: 'Note not found' };
+      if (args.tags != null) {
+        await setNoteTags(env, id, (args.tags as unknown[]).map(String));
+        rows = await env.db.query({ table: 'editorial_notes', filters: [{ column: 'id', op: 'eq', value: id }] });
+      }
 
-      return { ...rows[0], message: 'Note updated' };
+      return { ...rows[0], tags: parseJsonArray(rows[0].tags), message: 'Note updated' };
     },
   },
 
   {
     name: 'clear_notes',
-    description: 'Delete notes by ID, by article, or batch by status. Batch requires confirm=true. Owner only.',
+    description: 'Delete notes by ID, by article, or batch by status. Batch requires confirm=true. Editor or above.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -143,7 +175,7 @@ export const noteTools: McpTool[] = [
       },
     },
     handler: async (args, ctx: AuthContext | null, env: Env) => {
-      requireOwner(ctx);
+      requirePermission(ctx, 'editorial:manage');
 
       const confirm = Boolean(args.confirm);
 
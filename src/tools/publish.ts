@@ -0,0 +1,112 @@
+/** Publish tool — push an article to Ghost, Beehiiv or Kit as a draft */
+
+import type { McpTool, AuthContext, Env } from '../types.js';
+import { requirePermission } from '../auth.js';
+import { getWatermark } from '../utils.js';
+import { actorName } from '../workflow.js';
+import { linkExternalRef } from '../importer.js';
+import { BeehiivConnector } from '../connectors/beehiiv.js';
+import { GhostConnector } from '../connectors/ghost.js';
+import { KitConnector } from '../connectors/kit.js';
+import { markdownToHtml, looksLikeHtml } from '../connectors/markdown.js';
+import type { NewsletterConnector, ConnectorConfig, PublishResult } from '../connectors/interface.js';
+
+const PUBLISHERS: Record<string, NewsletterConnector> = {
+  ghost: new GhostConnector(),
+  beehiiv: new BeehiivConnector(),
+  kit: new KitConnector(),
+};
+
+export const publishTools: McpTool[] = [
+  {
+    name: 'publish_article',
+    description: 'Send an article to Ghost, Beehiiv or Kit as a draft post (markdown is converted to HTML). The platform\'s post ID and URL are stored on the article. Nothing is sent to subscribers — review and send from the platform. Editor or above.',
+    inputSchema: {
+      type: 'object',
+      required: ['article_id', 'platform'],
+      properties: {
+        article_id:     { type: 'string', description: 'Article UUID' },
+        platform:       { type: 'string', enum: Object.keys(PUBLISHERS), description: 'Target platform' },
+        api_key:        { type: 'string', description: 'Ghost Admin API key ("id:secret"), Beehiiv API key or Kit API secret' },
+        api_url:        { type: 'string', description: 'Ghost site URL (e.g. https://myblog.ghost.io); optional API base override for Beehiiv/Kit' },
+        publication_id: { type: 'string', description: 'Publication ID (Beehiiv only)' },
+        republish:      { type: 'boolean', description: 'Create another draft even if the article was already sent to this platform', default: false },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'articles:write');
+
+      const platform = String(args.platform);
+      const connector = PUBLISHERS[platform];
+      if (!connector?.publish) {
+        throw { code: 400, message: `Unknown platform: ${platform}. Supported: ${Object.keys(PUBLISHERS).join(', ')}` };
+      }
+
+      const articleId = String(args.article_id);
+      const article = await env.db.queryOne({ table: 'articles', filters: [{ column: 'id', op: 'eq', value: articleId }] });
+      if (!article) throw { code: 404, message: 'Article not found' };
+
+      const content = String(article.content ?? '').trim();
+      if (!content) throw { code: 400, message: 'Article has no content to publish' };
+
+      const existing = await env.db.queryOne({
+        table: 'article_publications',
+        filters: [
+          { column: 'article_id', op: 'eq', value: articleId },
+          { column: 'platform', op: 'eq', value: platform },
+        ],
+      });
+      if (existing && !args.republish) {
+        throw {
+          code: 409,
+          message: `Already sent to ${platform} as ${existing.external_id} on ${String(existing.updated_at).slice(0, 10)} — pass republish: true to create a new draft`,
+        };
+      }
+
+      const config: ConnectorConfig = {
+        apiKey: args.api_key ? String(args.api_key) : undefined,
+        apiUrl: args.api_url ? String(args.api_url) : undefined,
+        publicationId: args.publication_id ? String(args.publication_id) : undefined,
+      };
+
+      let result: PublishResult;
+      try {
+        result = await connector.publish({
+          title: String(article.title),
+          subtitle: article.subtitle ? String(article.subtitle) : undefined,
+          html: looksLikeHtml(content) ? content : markdownToHtml(content),
+        }, config);
+      } catch (err) {
+        throw { code: 502, message: `Publishing to ${platform} failed: ${err instanceof Error ? err.message : String(err)}` };
+      }
+
+      const record = {
+        external_id: result.external_id,
+        external_url: result.url ?? null,
+        status: result.status,
+        published_by: ctx?.userId ?? null,
+        published_by_name: actorName(ctx),
+        updated_at: new Date().toISOString(),
+      };
+      const publication = existing
+        ? (await env.db.update('article_publications', [{ column: 'id', op: 'eq', value: String(existing.id) }], record))[0]
+        : await env.db.insert('article_publications', { article_id: articleId, platform, ...record });
+      // Later imports from this platform update this article instead of creating a copy
+      await linkExternalRef(env, platform, result.external_id, articleId);
+
+      const link = result.url ? ` — ${result.url}` : '';
+      const markdown = `**"${article.title}"** sent to ${platform} as ${result.status} \`${result.external_id}\`${link}\n\n${getWatermark(env.config)}`;
+
+      return {
+        article_id: articleId,
+        platform,
+        external_id: result.external_id,
+        url: result.url ?? null,
+        status: result.status,
+        republished: !!existing,
+        publication,
+        markdown,
+      };
+    },
+  },
+];
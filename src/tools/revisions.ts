@@ -0,0 +1,158 @@
+/** Revision tools — list, diff, restore */
+
+import type { McpTool, AuthContext, Env } from '../types.js';
+import { requirePermission } from '../auth.js';
+import { getWatermark } from '../utils.js';
+import { assertCanEdit } from '../workflow.js';
+import { getRevision, recordRevision, sameText, unifiedDiff } from '../revisions.js';
+
+async function requireRevision(env: Env, articleId: string, revision?: number) {
+  const row = await getRevision(env, articleId, revision);
+  if (!row) {
+    throw {
+      code: 404,
+      message: revision != null
+        ? `Revision ${revision} not found for article ${articleId}`
+        : `No revisions recorded for article ${articleId} yet`,
+    };
+  }
+  return row;
+}
+
+export const revisionTools: McpTool[] = [
+  {
+    name: 'list_revisions',
+    description: 'List saved revisions of an article (newest first), with who made each change and why. Any signed-in role.',
+    inputSchema: {
+      type: 'object',
+      required: ['article_id'],
+      properties: {
+        article_id: { type: 'string', description: 'Article UUID' },
+        limit:      { type: 'number', description: 'Max results (default 20)', default: 20 },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'editorial:read');
+
+      const articleId = String(args.article_id);
+      const revisions = await env.db.query({
+        table: 'article_revisions',
+        filters: [{ column: 'article_id', op: 'eq', value: articleId }],
+        order: [{ column: 'revision', direction: 'desc' }],
+        limit: Math.min(Number(args.limit) || 20, 100),
+      });
+
+      return {
+        article_id: articleId,
+        revisions: revisions.map(r => ({
+          revision: r.revision,
+          title: r.title,
+          source: r.source,
+          created_by: r.created_by_name,
+          note: r.note,
+          created_at: r.created_at,
+          content_length: String(r.content ?? '').length,
+        })),
+        total: revisions.length,
+      };
+    },
+  },
+
+  {
+    name: 'diff_revisions',
+    description: 'Line-level unified diff of an article between two revisions (defaults: the latest revision against the one before it). Any signed-in role.',
+    inputSchema: {
+      type: 'object',
+      required: ['article_id'],
+      properties: {
+        article_id: { type: 'string', description: 'Article UUID' },
+        from:       { type: 'number', description: 'Older revision number (default: the one before `to`)' },
+        to:         { type: 'number', description: 'Newer revision number (default: latest)' },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'editorial:read');
+
+      const articleId = String(args.article_id);
+      const to = await requireRevision(env, articleId, args.to != null ? Number(args.to) : undefined);
+      const fromNumber = args.from != null ? Number(args.from) : Number(to.revision) - 1;
+      if (fromNumber < 1) {
+        throw { code: 400, message: `Revision ${to.revision} is the first revision — nothing to compare against` };
+      }
+      const from = await requireRevision(env, articleId, fromNumber);
+
+      const content = unifiedDiff(
+        String(from.content ?? ''),
+        String(to.content ?? ''),
+        `revision ${from.revision}`,
+        `revision ${to.revision}`,
+      );
+      const titleChanged = from.title !== to.title;
+      const subtitleChanged = (from.subtitle ?? '') !== (to.subtitle ?? '');
+
+      const lines = [`# Revision ${from.revision} → ${to.revision}`, ''];
+      if (titleChanged) lines.push(`**Title:** ${from.title} → ${to.title}`);
+      if (subtitleChanged) lines.push(`**Subtitle:** ${from.subtitle ?? '(none)'} → ${to.subtitle ?? '(none)'}`);
+      if (titleChanged || subtitleChanged) lines.push('');
+      lines.push(content.diff ? '```diff\n' + content.diff + '\n```' : '_Content unchanged._');
+      lines.push('', getWatermark(env.config));
+
+      return {
+        article_id: articleId,
+        from: { revision: from.revision, created_by: from.created_by_name, created_at: from.created_at },
+        to: { revision: to.revision, created_by: to.created_by_name, created_at: to.created_at },
+        title_changed: titleChanged,
+        subtitle_changed: subtitleChanged,
+        lines_added: content.added,
+        lines_removed: content.removed,
+        diff: content.diff,
+        markdown: lines.join('\n'),
+      };
+    },
+  },
+
+  {
+    name: 'restore_revision',
+    description: 'Restore an article\'s title, subtitle and content from an earlier revision. The restore itself is saved as a new revision. Contributor or above; editors only once scheduled or published.',
+    inputSchema: {
+      type: 'object',
+      required: ['article_id', 'revision'],
+      properties: {
+        article_id: { type: 'string', description: 'Article UUID' },
+        revision:   { type: 'number', description: 'Revision number to restore' },
+        note:       { type: 'string', description: 'Reason for the restore' },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'drafts:write');
+
+      const articleId = String(args.article_id);
+      const article = await env.db.queryOne({ table: 'articles', filters: [{ column: 'id', op: 'eq', value: articleId }] });
+      if (!article) throw { code: 404, message: 'Article not found' };
+      assertCanEdit(ctx, article);
+
+      const target = await requireRevision(env, articleId, Number(args.revision));
+      if (sameText(article, target)) {
+        return { article_id: articleId, revision: null, message: `Article already matches revision ${target.revision}` };
+      }
+
+      const rows = await env.db.update('articles', [{ column: 'id', op: 'eq', value: articleId }], {
+        title: target.title,
+        subtitle: target.subtitle ?? null,
+        content: target.content ?? null,
+        updated_at: new Date().toISOString(),
+      });
+
+      const note = args.note ? String(args.note) : `Restored revision ${target.revision}`;
+      const revision = await recordRevision(env, ctx, article, rows[0], 'restore', note);
+
+      return {
+        article_id: articleId,
+        restored_from: target.revision,
+        revision: revision?.revision ?? null,
+        title: rows[0].title,
+        message: `Restored revision ${target.revision}`,
+      };
+    },
+  },
+];
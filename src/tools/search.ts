@@ -0,0 +1,212 @@
+/**
+ * Search tool — unified full-text search across articles, notes and sources.
+ * SQLite uses the FTS5 tables; Postgres the search_vector columns from supabase/migrations/004.
+ */
+
+import type { McpTool, AuthContext, DatabaseAdapter, Env, Row } from '../types.js';
+import { hasPermission } from '../auth.js';
+import { getWatermark } from '../utils.js';
+
+export type EntityType = 'article' | 'note' | 'source';
+
+const ENTITY_TYPES: EntityType[] = ['article', 'note', 'source'];
+
+/**
+ * Turn free text into a safe FTS5 MATCH expression.
+ * Each term is quoted (so operators and punctuation can't break the query) and
+ * terms are ANDed; a trailing `*` on a term keeps prefix matching.
+ */
+export function toFtsQuery(input: string): string {
+  const terms = input
+    .split(/\s+/)
+    .map(t => t.replace(/"/g, '').trim())
+    .filter(Boolean)
+    .map(t => (t.endsWith('*') && t.length > 1 ? `"${t.slice(0, -1)}"*` : `"${t.replace(/\*/g, '')}"`))
+    .filter(t => t !== '""');
+  return terms.join(' ');
+}
+
+/**
+ * The Postgres equivalent of toFtsQuery for to_tsquery: each term is a quoted lexeme
+ * (so operators and punctuation can't break the query), ANDed, `:*` for prefix terms.
+ */
+export function toTsQuery(input: string): string {
+  return input
+    .split(/\s+/)
+    .map(t => t.trim())
+    .filter(t => t.replace(/\*/g, ''))
+    .map(t => {
+      const prefix = t.endsWith('*') && t.length > 1;
+      const word = t.replace(/\*/g, '').replace(/\\/g, '\\\\').replace(/'/g, "''");
+      return `'${word}'${prefix ? ':*' : ''}`;
+    })
+    .join(' & ');
+}
+
+interface FtsTable {
+  table: string;
+  alias: string;
+  /** FTS5 table and its bm25 column weights */
+  fts: string;
+  weights: string;
+  /** Text the Postgres snippet is cut from */
+  text: string;
+}
+
+const FTS_TABLES: Record<EntityType, FtsTable> = {
+  article: {
+    table: 'articles', alias: 'a', fts: 'articles_fts', weights: '10.0, 5.0, 1.0, 3.0',
+    text: "coalesce(a.title, '') || ' ' || coalesce(a.subtitle, '') || ' ' || coalesce(a.editorial_angle, '') || ' ' || coalesce(a.content, '')",
+  },
+  note: {
+    table: 'editorial_notes', alias: 'n', fts: 'notes_fts', weights: '1.0, 2.0',
+    text: 'n.content',
+  },
+  source: {
+    table: 'editorial_sources', alias: 's', fts: 'sources_fts', weights: '5.0, 2.0, 1.0',
+    text: "coalesce(s.title, '') || ' ' || coalesce(s.description, '') || ' ' || coalesce(s.key_quotes, '')",
+  },
+};
+
+/**
+ * FROM/WHERE clause matching one `?` search parameter, plus snippet and rank expressions
+ * (lower rank is better) for the database's dialect. Pass the parameter from ftsMatch().
+ */
+export function ftsClauses(db: DatabaseAdapter, entity: EntityType): { from: string; snippet: string; rank: string } {
+  const t = FTS_TABLES[entity];
+  if (db.dialect === 'postgres') {
+    return {
+      from: `${t.table} ${t.alias} CROSS JOIN to_tsquery('simple', ?) AS q WHERE ${t.alias}.search_vector @@ q`,
+      snippet: `ts_headline('simple', ${t.text}, q, 'StartSel=**, StopSel=**, MaxWords=16, MinWords=6, FragmentDelimiter=…, MaxFragments=1')`,
+      rank: `-ts_rank(${t.alias}.search_vector, q)`,
+    };
+  }
+  return {
+    from: `${t.fts} JOIN ${t.table} ${t.alias} ON ${t.alias}.rowid = ${t.fts}.rowid WHERE ${t.fts} MATCH ?`,
+    snippet: `snippet(${t.fts}, -1, '**', '**', '…', 16)`,
+    rank: `bm25(${t.fts}, ${t.weights})`,
+  };
+}
+
+/** The search parameter for ftsClauses(), or '' when the input has no terms */
+export function ftsMatch(db: DatabaseAdapter, input: string): string {
+  return db.dialect === 'postgres' ? toTsQuery(input) : toFtsQuery(input);
+}
+
+function dateClauses(column: string, since: string | null, until: string | null, params: unknown[]): string {
+  let sql = '';
+  if (since) {
+    sql += ` AND ${column} >= ?`;
+    params.push(since);
+  }
+  if (until) {
+    sql += ` AND ${column} <= ?`;
+    params.push(until);
+  }
+  return sql;
+}
+
+function formatHitMd(h: Row): string {
+  const label = String(h.entity_type).toUpperCase();
+  const date = h.date ? ` (${String(h.date).slice(0, 10)})` : '';
+  return `- **[${label}]** ${h.title}${date} — _${h.status}_\n  ${h.snippet}\n  _${h.id}_`;
+}
+
+export const searchTools: McpTool[] = [
+  {
+    name: 'search',
+    description: 'Ranked full-text search across articles (title, subtitle, content, angle), notes (content, tags) and sources (title, description, quotes). Returns highlighted snippets. Public callers only search published articles; notes and sources need a signed-in role.',
+    inputSchema: {
+      type: 'object',
+      required: ['query'],
+      properties: {
+        query:  { type: 'string', description: 'Search terms (all must match; end a term with * for prefix match)', minLength: 2 },
+        types:  { type: 'array', items: { type: 'string', enum: ENTITY_TYPES }, description: 'Entity types to search (default: all)' },
+        status: { type: 'string', description: 'Filter by status of each entity (e.g. published, active)' },
+        since:  { type: 'string', description: 'Only items dated on/after this ISO date' },
+        until:  { type: 'string', description: 'Only items dated on/before this ISO date' },
+        limit:  { type: 'number', description: 'Max results (default 20, max 50)', minimum: 1, maximum: 50 },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      const q = String(args.query).trim();
+      const match = ftsMatch(env.db, q);
+      if (!match) throw { code: 400, message: 'query must contain at least one search term' };
+
+      const limit = Math.min(Number(args.limit ?? 20), 50);
+      // Notes and sources are editorial material; public callers only see published articles
+      const editorial = hasPermission(ctx, 'editorial:read');
+      const allowed: EntityType[] = editorial ? ENTITY_TYPES : ['article'];
+      const types = Array.isArray(args.types) && args.types.length
+        ? (args.types.map(String).filter(t => allowed.includes(t as EntityType)) as EntityType[])
+        : allowed;
+      const status = args.status ? String(args.status) : null;
+      const since = args.since ? String(args.since) : null;
+      const until = args.until ? String(args.until) : null;
+
+      for (const d of [since, until]) {
+        if (d && !d.match(/^\d{4}-\d{2}-\d{2}/)) {
+          throw { code: 400, message: 'since/until must be ISO 8601 (e.g. "2026-02-01")' };
+        }
+      }
+
+      const parts: string[] = [];
+      const params: unknown[] = [];
+
+      if (types.includes('article')) {
+        const fts = ftsClauses(env.db, 'article');
+        params.push(match);
+        let sql = `SELECT 'article' AS entity_type, a.id, a.title, a.status,
+                          COALESCE(a.published_at, a.created_at) AS date,
+                          ${fts.snippet} AS snippet, ${fts.rank} AS rank
+                   FROM ${fts.from}`;
+        if (status) { sql += ' AND a.status = ?'; params.push(status); }
+        if (!editorial) sql += " AND a.status = 'published'";
+        sql += dateClauses('COALESCE(a.published_at, a.created_at)', since, until, params);
+        parts.push(sql);
+      }
+
+      if (types.includes('note')) {
+        const fts = ftsClauses(env.db, 'note');
+        params.push(match);
+        let sql = `SELECT 'note' AS entity_type, n.id, substr(n.content, 1, 80) AS title, n.status,
+                          n.created_at AS date,
+                          ${fts.snippet} AS snippet, ${fts.rank} AS rank
+                   FROM ${fts.from}`;
+        if (status) { sql += ' AND n.status = ?'; params.push(status); }
+        sql += dateClauses('n.created_at', since, until, params);
+        parts.push(sql);
+      }
+
+      if (types.includes('source')) {
+        const fts = ftsClauses(env.db, 'source');
+        params.push(match);
+        let sql = `SELECT 'source' AS entity_type, s.id, s.title, s.status,
+                          COALESCE(s.published_date, s.created_at) AS date,
+                          ${fts.snippet} AS snippet, ${fts.rank} AS rank
+                   FROM ${fts.from}`;
+        if (status) { sql += ' AND s.status = ?'; params.push(status); }
+        sql += dateClauses('COALESCE(s.published_date, s.created_at)', since, until, params);
+        parts.push(sql);
+      }
+
+      if (!parts.length) throw { code: 400, message: `types must be one or more of: ${allowed.join(', ')}` };
+
+      params.push(limit);
+      const rows = await env.db.raw(
+        `SELECT * FROM (${parts.join('\nUNION ALL\n')}) AS hits ORDER BY rank ASC LIMIT ?`,
+        params
+      );
+
+      const counts: Record<string, number> = { article: 0, note: 0, source: 0 };
+      for (const r of rows) counts[String(r.entity_type)]++;
+
+      const watermark = getWatermark(env.config);
+      const markdown = rows.length
+        ? rows.map(formatHitMd).join('\n') + '\n\n' + watermark
+        : `_No results for "${q}"_\n\n${watermark}`;
+
+      return { query: q, results: rows, count: rows.length, counts, markdown };
+    },
+  },
+];
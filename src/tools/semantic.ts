@@ -0,0 +1,148 @@
+/** Semantic tools — semantic_search, related_items (embedding similarity) */
+
+import type { McpTool, AuthContext, Env, Row } from '../types.js';
+import { requirePermission } from '../auth.js';
+import { getWatermark } from '../utils.js';
+import {
+  EMBEDDABLE_TYPES, getEmbedder, getItemVector, rankBySimilarity, syncEmbeddings,
+} from '../embeddings.js';
+import type { EmbeddableType, SemanticHit } from '../embeddings.js';
+
+const DETAIL_COLUMNS: Record<EmbeddableType, { table: string; select: string[] }> = {
+  article: { table: 'articles', select: ['id', 'title', 'number', 'status', 'published_at', 'substack_url'] },
+  note: { table: 'editorial_notes', select: ['id', 'type', 'content', 'status', 'target_article', 'created_at'] },
+  source: { table: 'editorial_sources', select: ['id', 'title', 'url', 'status', 'used_in_article', 'published_date'] },
+};
+
+function parseTypes(value: unknown): EmbeddableType[] {
+  if (!Array.isArray(value) || !value.length) return EMBEDDABLE_TYPES;
+  const types = value.map(String).filter(t => EMBEDDABLE_TYPES.includes(t as EmbeddableType)) as EmbeddableType[];
+  if (!types.length) throw { code: 400, message: `types must be some of: ${EMBEDDABLE_TYPES.join(', ')}` };
+  return types;
+}
+
+/** Attach titles/snippets to ranked hits, keeping rank order */
+async function describeHits(env: Env, hits: SemanticHit[]): Promise<Row[]> {
+  const details = new Map<string, Row>();
+  for (const type of EMBEDDABLE_TYPES) {
+    const ids = hits.filter(h => h.type === type).map(h => h.id);
+    if (!ids.length) continue;
+    const { table, select } = DETAIL_COLUMNS[type];
+    const rows = await env.db.query({ table, select, filters: [{ column: 'id', op: 'in', value: ids }] });
+    for (const row of rows) details.set(`${type}:${row.id}`, row);
+  }
+
+  return hits
+    .filter(h => details.has(`${h.type}:${h.id}`))
+    .map(h => ({ item_type: h.type, score: Math.round(h.score * 1000) / 1000, ...details.get(`${h.type}:${h.id}`) }));
+}
+
+function formatHitMd(h: Row): string {
+  const score = `_${Number(h.score).toFixed(2)}_`;
+  if (h.item_type === 'article') {
+    const num = h.number != null ? `#${h.number} ` : '';
+    const date = h.published_at ? `, ${String(h.published_at).slice(0, 10)}` : '';
+    return `- ${score} **[ARTICLE] ${num}${h.title}** (${h.status}${date})\n  _${h.id}_`;
+  }
+  if (h.item_type === 'note') {
+    const content = String(h.content ?? '');
+    const snippet = content.length > 160 ? `${content.slice(0, 160)}…` : content;
+    return `- ${score} **[NOTE ${String(h.type).toUpperCase()}]** ${snippet}\n  _${h.status} | ${h.id}_`;
+  }
+  const used = h.used_in_article ? `used in ${h.used_in_article}` : 'unused';
+  return `- ${score} **[SOURCE]** ${h.title} — ${h.url}\n  _${used} | ${h.id}_`;
+}
+
+export const semanticTools: McpTool[] = [
+  {
+    name: 'semantic_search',
+    description: 'Find articles, notes and sources by meaning rather than exact keywords (embedding similarity). Good for "have we covered this before?". Any signed-in role.',
+    inputSchema: {
+      type: 'object',
+      required: ['query'],
+      properties: {
+        query:     { type: 'string', description: 'What you are looking for, in plain words', minLength: 2 },
+        types:     { type: 'array', items: { type: 'string', enum: EMBEDDABLE_TYPES }, description: 'Item types to search (default: all)' },
+        limit:     { type: 'number', description: 'Max results (default 10, max 50)', minimum: 1, maximum: 50 },
+        min_score: { type: 'number', description: 'Minimum similarity 0-1 (default 0.1)' },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'editorial:read');
+
+      const query = String(args.query ?? '').trim();
+      if (!query) throw { code: 400, message: 'query is required' };
+      const types = parseTypes(args.types);
+      const limit = Math.min(Number(args.limit) || 10, 50);
+
+      const indexed = await syncEmbeddings(env, types);
+      const [vector] = await getEmbedder(env).embed([query]);
+      const hits = await rankBySimilarity(env, vector, types, {
+        limit,
+        minScore: args.min_score != null ? Number(args.min_score) : 0.1,
+      });
+      const results = await describeHits(env, hits);
+
+      const watermark = getWatermark(env.config);
+      const markdown = results.length
+        ? `**${results.length} related items for "${query}"**\n\n${results.map(formatHitMd).join('\n')}\n\n${watermark}`
+        : `_Nothing similar to "${query}"._\n\n${watermark}`;
+
+      return { query, model: getEmbedder(env).model, results, total: results.length, newly_indexed: indexed.embedded, markdown };
+    },
+  },
+
+  {
+    name: 'related_items',
+    description: 'Given an article, note or source ID, list the most similar other items — e.g. past editions that covered the topic of a note you just added. Any signed-in role.',
+    inputSchema: {
+      type: 'object',
+      required: ['id'],
+      properties: {
+        id:        { type: 'string', description: 'Article, note or source ID' },
+        item_type: { type: 'string', enum: EMBEDDABLE_TYPES, description: 'Type of the ID (detected when omitted)' },
+        types:     { type: 'array', items: { type: 'string', enum: EMBEDDABLE_TYPES }, description: 'Item types to return (default: all)' },
+        limit:     { type: 'number', description: 'Max results (default 5, max 50)', minimum: 1, maximum: 50 },
+        min_score: { type: 'number', description: 'Minimum similarity 0-1 (default 0.1)' },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'editorial:read');
+
+      const id = String(args.id);
+      let itemType: EmbeddableType | null = null;
+      let item: Row | null = null;
+      const candidates = args.item_type ? parseTypes([args.item_type]) : EMBEDDABLE_TYPES;
+      for (const type of candidates) {
+        const { table, select } = DETAIL_COLUMNS[type];
+        item = await env.db.queryOne({ table, select, filters: [{ column: 'id', op: 'eq', value: id }] });
+        if (item) {
+          itemType = type;
+          break;
+        }
+      }
+      if (!item || !itemType) throw { code: 404, message: `No article, note or source with ID ${id}` };
+
+      const types = parseTypes(args.types);
+      await syncEmbeddings(env, [...new Set([itemType, ...types])]);
+
+      const vector = await getItemVector(env, itemType, id);
+      if (!vector) throw { code: 500, message: `Could not embed ${itemType} ${id}` };
+
+      const hits = await rankBySimilarity(env, vector, types, {
+        limit: Math.min(Number(args.limit) || 5, 50),
+        minScore: args.min_score != null ? Number(args.min_score) : 0.1,
+        exclude: { type: itemType, id },
+      });
+      const results = await describeHits(env, hits);
+
+      const label = itemType === 'note' ? String(item.content).slice(0, 80) : String(item.title);
+      const watermark = getWatermark(env.config);
+      const markdown = results.length
+        ? `**Related to ${itemType} "${label}"**\n\n${results.map(formatHitMd).join('\n')}\n\n${watermark}`
+        : `_Nothing similar to ${itemType} "${label}"._\n\n${watermark}`;
+
+      return { id, item_type: itemType, model: getEmbedder(env).model, results, total: results.length, markdown };
+    },
+  },
+];
@@ -1,19 +1,40 @@
-/** Source tools — save, list, deactivate, mark_used */
+/** Source tools — save (with optional page capture), list, get, refresh, deactivate, mark_used */
 
-import type { McpTool, AuthContext, Env, Filter } from '../types.js';
-import { requireOwner } from '../auth.js';
+import type { McpTool, AuthContext, Env, Filter, Row } from '../types.js';
+import { requirePermission } from '../auth.js';
 import { formatSourceMd, getWatermark } from '../utils.js';
+import { fetchPage, latestSnapshot, recordSnapshot } from '../capture.js';
+import { unifiedDiff } from '../revisions.js';
+
+/** Longest diff returned by refresh_source, in characters */
+const MAX_DIFF_CHARS = 8000;
+
+function snapshotSummary(snap: Row): Row {
+  return {
+    id: snap.id,
+    content_hash: snap.content_hash,
+    title: snap.title,
+    author: snap.author,
+    published_at: snap.published_at,
+    site_name: snap.site_name,
+    word_count: snap.word_count,
+    final_url: snap.final_url,
+    fetched_at: snap.fetched_at,
+    checked_at: snap.checked_at,
+  };
+}
 
 export const sourceTools: McpTool[] = [
   {
     name: 'save_source',
-    description: 'Save a dated editorial source for research. Deduplicates by URL. Owner only.',
+    description: 'Save a dated editorial source for research. Deduplicates by URL. With capture: true the page is fetched and its readable text, author, published date and site name are archived as a snapshot (title and published_date default to the page\'s). Contributor or above.',
     inputSchema: {
       type: 'object',
-      required: ['url', 'title'],
+      required: ['url'],
       properties: {
         url:            { type: 'string', description: 'Full URL of the source' },
-        title:          { type: 'string', description: 'Source title', minLength: 1 },
+        title:          { type: 'string', description: 'Source title (required unless capture is true)', minLength: 1 },
+        capture:        { type: 'boolean', description: 'Fetch the page and archive its text and metadata (default false)' },
         published_date: { type: 'string', description: 'Publication date YYYY-MM-DD' },
         target_article: { type: 'string', description: 'Target article ID' },
         type:           { type: 'string', enum: ['article', 'report', 'dataset', 'interview', 'video', 'podcast', 'social', 'other'] },
@@ -22,9 +43,12 @@ export const sourceTools: McpTool[] = [
       },
     },
     handler: async (args, ctx: AuthContext | null, env: Env) => {
-      requireOwner(ctx);
+      requirePermission(ctx, 'sources:write');
 
       const url = String(args.url).trim();
+      const title = args.title ? String(args.title).trim() : '';
+      const capture = args.capture === true;
+      if (!title && !capture) throw { code: 400, message: 'title is required unless capture is true' };
 
       // Dedup check
       const existing = await env.db.query({
@@ -42,27 +66,51 @@ export const sourceTools: McpTool[] = [
         };
       }
 
+      // Fetch before saving so the page can fill in title and date; a failed capture still
+      // saves the source when the caller gave a title
+      let fetched: Awaited<ReturnType<typeof fetchPage>> | null = null;
+      let captureError: string | null = null;
+      if (capture) {
+        try {
+          fetched = await fetchPage(env, url);
+        } catch (err) {
+          const message = (err as { message?: string }).message ?? String(err);
+          if (!title) throw { code: 502, message: `${message}. Pass a title to save the source without a capture.` };
+          captureError = message;
+        }
+      }
+
+      const page = fetched?.extracted;
       const source = await env.db.insert('editorial_sources', {
         url,
-        title: String(args.title).trim(),
-        published_date: args.published_date ? String(args.published_date) : null,
+        title: title || page?.title || url,
+        published_date: args.published_date ? String(args.published_date) : page?.published_at?.slice(0, 10) ?? null,
         target_article: args.target_article ? String(args.target_article) : null,
         type: args.type ? String(args.type) : null,
-        description: args.description ? String(args.description) : null,
+        description: args.description ? String(args.description) : page?.description ?? null,
         key_quotes: args.key_quotes ? String(args.key_quotes) : null,
         status: 'active',
       });
 
+      const snapshot = fetched ? (await recordSnapshot(env, String(source.id), url, fetched)).snapshot : null;
+      const target = source.target_article ? ` for article ${source.target_article}` : '';
+
       return {
         ...source,
-        message: `Source saved${source.target_article ? ` for article ${source.target_article}` : ''}`,
+        ...(snapshot ? { snapshot: snapshotSummary(snapshot) } : {}),
+        ...(captureError ? { capture_error: captureError } : {}),
+        message: snapshot
+          ? `Source saved${target} with a ${snapshot.word_count}-word snapshot`
+          : captureError
+            ? `Source saved${target} without a snapshot: ${captureError}`
+            : `Source saved${target}`,
       };
     },
   },
 
   {
     name: 'list_sources',
-    description: 'List editorial sources with used/unused indicator. Owner only.',
+    description: 'List editorial sources with used/unused indicator. Any signed-in role.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -74,7 +122,7 @@ export const sourceTools: McpTool[] = [
       },
     },
     handler: async (args, ctx: AuthContext | null, env: Env) => {
-      requireOwner(ctx);
+      requirePermission(ctx, 'editorial:read');
 
       const limit = Math.min(Number(args.limit ?? 50), 100);
       const filters: Filter[] = [];
@@ -119,9 +167,140 @@ export const sourceTools: McpTool[] = [
     },
   },
 
+  {
+    name: 'get_source',
+    description: 'Get an editorial source with its latest captured text and snapshot history. Any signed-in role.',
+    inputSchema: {
+      type: 'object',
+      required: ['id'],
+      properties: {
+        id: { type: 'string', description: 'Source UUID' },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'editorial:read');
+
+      const id = String(args.id);
+      const source = await env.db.queryOne({
+        table: 'editorial_sources',
+        filters: [{ column: 'id', op: 'eq', value: id }],
+      });
+      if (!source) throw { code: 404, message: 'Source not found' };
+
+      const snapshots = await env.db.query({
+        table: 'source_snapshots',
+        filters: [{ column: 'source_id', op: 'eq', value: id }],
+        order: [{ column: 'fetched_at', direction: 'desc' }],
+      });
+      const latest = snapshots[0] ?? null;
+
+      const lines = [formatSourceMd(source)];
+      if (latest) {
+        const byline = [latest.author, latest.site_name, latest.published_at ? String(latest.published_at).slice(0, 10) : null].filter(Boolean).join(' · ');
+        lines.push(
+          '',
+          `**Snapshot** ${String(latest.fetched_at).slice(0, 10)} (checked ${String(latest.checked_at).slice(0, 10)}, ${latest.word_count} words, ${snapshots.length} version${snapshots.length === 1 ? '' : 's'})`,
+        );
+        if (byline) lines.push(`_${byline}_`);
+        lines.push('', String(latest.text));
+      } else {
+        lines.push('', '_Not captured — run refresh_source to archive the page_');
+      }
+      lines.push('', getWatermark(env.config));
+
+      return {
+        source,
+        snapshot: latest,
+        history: snapshots.map(snapshotSummary),
+        markdown: lines.join('\n'),
+      };
+    },
+  },
+
+  {
+    name: 'refresh_source',
+    description: 'Re-fetch a source page and archive a new snapshot when its text changed. Returns a diff against the previous snapshot; an unreachable page is reported, not an error. Contributor or above.',
+    inputSchema: {
+      type: 'object',
+      required: ['id'],
+      properties: {
+        id: { type: 'string', description: 'Source UUID' },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'sources:write');
+
+      const id = String(args.id);
+      const source = await env.db.queryOne({
+        table: 'editorial_sources',
+        filters: [{ column: 'id', op: 'eq', value: id }],
+      });
+      if (!source) throw { code: 404, message: 'Source not found' };
+
+      const url = String(source.url);
+      const watermark = getWatermark(env.config);
+
+      let fetched: Awaited<ReturnType<typeof fetchPage>>;
+      try {
+        fetched = await fetchPage(env, url);
+      } catch (err) {
+        // Link rot is what snapshots are for — report it and point at the archived copy
+        const message = (err as { message?: string }).message ?? String(err);
+        const last = await latestSnapshot(env, id);
+        const archived = last ? `last snapshot from ${String(last.fetched_at).slice(0, 10)} is still available` : 'no snapshot was ever captured';
+        return {
+          id,
+          url,
+          reachable: false,
+          error: message,
+          last_snapshot: last ? snapshotSummary(last) : null,
+          markdown: `**${source.title}** could not be fetched: ${message}\n\nThe ${archived}.\n\n${watermark}`,
+        };
+      }
+
+      const result = await recordSnapshot(env, id, url, fetched);
+      const snapshot = snapshotSummary(result.snapshot);
+
+      if (result.first) {
+        return {
+          id, url, reachable: true, changed: false, first_capture: true, snapshot,
+          markdown: `**${source.title}** captured for the first time (${result.snapshot.word_count} words).\n\n${watermark}`,
+        };
+      }
+      if (!result.changed || !result.previous) {
+        return {
+          id, url, reachable: true, changed: false, snapshot,
+          markdown: `**${source.title}** is unchanged since ${String(result.snapshot.fetched_at).slice(0, 10)}.\n\n${watermark}`,
+        };
+      }
+
+      const prev = result.previous;
+      const { diff, added, removed } = unifiedDiff(
+        String(prev.text), String(result.snapshot.text),
+        `snapshot ${String(prev.fetched_at).slice(0, 10)}`, `snapshot ${String(result.snapshot.fetched_at).slice(0, 10)}`,
+      );
+      const truncated = diff.length > MAX_DIFF_CHARS;
+      const shown = truncated ? `${diff.slice(0, MAX_DIFF_CHARS)}\n… (diff truncated)` : diff;
+
+      return {
+        id,
+        url,
+        reachable: true,
+        changed: true,
+        snapshot,
+        previous: snapshotSummary(prev),
+        added,
+        removed,
+        diff: shown,
+        truncated,
+        markdown: `**${source.title}** changed since ${String(prev.fetched_at).slice(0, 10)}: +${added} / -${removed} lines\n\n\`\`\`diff\n${shown}\n\`\`\`\n\n${watermark}`,
+      };
+    },
+  },
+
   {
     name: 'deactivate_source',
-    description: 'Mark an editorial source as inactive. Does not delete. Owner only.',
+    description: 'Mark an editorial source as inactive. Does not delete. Editor or above.',
     inputSchema: {
       type: 'object',
       required: ['id'],
@@ -131,7 +310,7 @@ export const sourceTools: McpTool[] = [
       },
     },
     handler: async (args, ctx: AuthContext | null, env: Env) => {
-      requireOwner(ctx);
+      requirePermission(ctx, 'editorial:manage');
 
       const id = String(args.id);
 
@@ -160,7 +339,7 @@ export const sourceTools: McpTool[] = [
 
   {
     name: 'mark_source_used',
-    description: 'Mark an editorial source as used in a specific article. Owner only.',
+    description: 'Mark an editorial source as used in a specific article. Editor or above.',
     inputSchema: {
       type: 'object',
       required: ['id', 'article_id'],
@@ -170,7 +349,7 @@ export const sourceTools: McpTool[] = [
       },
     },
     handler: async (args, ctx: AuthContext | null, env: Env) => {
-      requireOwner(ctx);
+      requirePermission(ctx, 'editorial:manage');
 
       const id = String(args.id);
       const articleId = String(args.article_id);
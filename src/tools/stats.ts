@@ -1,21 +1,74 @@
-/** Stats tool — newsletter aggregate statistics */
+/** Stats tools — newsletter aggregate statistics, per-article engagement curves */
 
-import type { McpTool, AuthContext, Env } from '../types.js';
-import { requireOwner } from '../auth.js';
+import type { McpTool, AuthContext, Env, Filter, Row } from '../types.js';
+import { requirePermission } from '../auth.js';
+import { getWatermark } from '../utils.js';
+import { ARTICLE_STATUSES } from '../workflow.js';
+import { CHECKPOINTS, byArticle, checkpointValues, getSnapshots, median, periodTrend } from '../metrics.js';
+import { INSIGHT_DIMENSIONS, breakdown, hasAllTags, loadInsightData, summarize } from '../insights.js';
+import type { GroupStats, InsightDimension } from '../insights.js';
+
+const METRICS = ['open_rate', 'click_rate', 'views'] as const;
+
+function fmtMetric(metric: string, value: unknown): string {
+  if (value == null) return '—';
+  return metric === 'views' ? String(Math.round(Number(value))) : `${Number(value).toFixed(1)}%`;
+}
+
+/** Difference against the median: points for rates, percent for views */
+function vsMedian(metric: string, value: unknown, med: number | null): number | null {
+  if (value == null || med == null) return null;
+  if (metric === 'views') return med ? Math.round((Number(value) - med) / med * 1000) / 10 : null;
+  return Math.round((Number(value) - med) * 10) / 10;
+}
+
+const DIMENSION_LABELS: Record<InsightDimension, string> = {
+  tag: 'Tag',
+  tag_category: 'Tag category',
+  expert: 'Cited expert',
+  signal: 'Signal',
+  type: 'Article type',
+  weekday: 'Send weekday',
+  hour: 'Send hour',
+};
+
+/** Below this many articles a group's average is flagged as a small sample */
+const SMALL_SAMPLE = 5;
+
+function fmtRate(v: number | null): string {
+  return v == null ? '—' : `${v.toFixed(1)}%`;
+}
+
+function fmtVsAll(v: number | null): string {
+  return v == null ? '—' : `${v > 0 ? '+' : ''}${v.toFixed(1)} pts`;
+}
+
+function insightRowMd(g: GroupStats): string {
+  const n = g.articles < SMALL_SAMPLE ? `${g.articles}*` : String(g.articles);
+  return `| ${g.group} | ${n} | ${fmtRate(g.avg_open_rate)} | ${fmtRate(g.avg_click_rate)} | ${fmtVsAll(g.open_rate_vs_all)} | ${g.avg_views ?? '—'} |`;
+}
+
+const INSIGHT_TABLE_HEADER = ['| Group | Articles | Open rate | Click rate | Open vs all | Avg views |', '|---|---|---|---|---|---|'];
+
+function fmtDelta(metric: string, delta: number | null): string {
+  if (delta == null) return '';
+  const sign = delta > 0 ? '+' : '';
+  return metric === 'views' ? ` (${sign}${delta}%)` : ` (${sign}${delta} pts)`;
+}
 
 export const statsTools: McpTool[] = [
   {
     name: 'get_stats',
-    description: 'Get aggregate newsletter statistics: article counts, engagement, top articles. Owner only.',
+    description: 'Get aggregate newsletter statistics: article counts, engagement, top articles, and week-over-week / month-over-month trends (views gained, editions sent, 24h open rate) from engagement snapshots. Any signed-in role.',
     inputSchema: {
       type: 'object',
       properties: {},
     },
     handler: async (_args, ctx: AuthContext | null, env: Env) => {
-      requireOwner(ctx);
+      requirePermission(ctx, 'editorial:read');
 
       const [allArticles, topArticles] = await Promise.all([
-        env.db.raw('SELECT id, views, open_rate, status FROM articles'),
+        env.db.raw('SELECT id, views, open_rate, status, published_at FROM articles'),
         env.db.raw('SELECT id, title, number, views, substack_url FROM articles WHERE status = ? ORDER BY views DESC LIMIT 5', ['published']),
       ]);
 
@@ -30,16 +83,198 @@ export const statsTools: McpTool[] = [
         env.db.count('editorial_sources', [{ column: 'status', op: 'eq', value: 'active' }]),
       ]);
 
+      const snapshots = byArticle(await getSnapshots(env, published.map(a => String(a.id))));
+
       return {
         total_articles: allArticles.length,
         published: published.length,
-        draft: allArticles.filter(a => a.status === 'draft').length,
-        archived: allArticles.filter(a => a.status === 'archived').length,
+        by_status: Object.fromEntries(
+          ARTICLE_STATUSES.map(status => [status, allArticles.filter(a => a.status === status).length])
+        ),
         total_views: totalViews,
         avg_open_rate: Math.round(avgOpenRate * 10) / 10,
         top_5_by_views: topArticles,
         active_notes: notesCount,
         active_sources: sourcesCount,
+        trends: {
+          week: periodTrend(published, snapshots, 7),
+          month: periodTrend(published, snapshots, 30),
+        },
+      };
+    },
+  },
+
+  {
+    name: 'get_article_performance',
+    description: 'Engagement curve of one article after its send (open rate, click rate and views at 1h / 24h / 7d / 30d, from import and sync snapshots), compared with the median of past editions of the same type. Any signed-in role.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id:       { type: 'string', description: 'Article UUID' },
+        number:   { type: 'number', description: 'Edition number' },
+        baseline: { type: 'number', description: 'How many past editions of the same type to take the median over (default 20, max 100)', minimum: 1, maximum: 100 },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'editorial:read');
+
+      if (!args.id && args.number == null) {
+        throw { code: 400, message: 'Provide either id or number' };
+      }
+      const filters: Filter[] = [];
+      if (args.id) filters.push({ column: 'id', op: 'eq', value: String(args.id) });
+      else filters.push({ column: 'number', op: 'eq', value: Number(args.number) });
+
+      const article = await env.db.queryOne({
+        table: 'articles',
+        select: ['id', 'number', 'title', 'type', 'status', 'published_at', 'views', 'open_rate', 'click_rate'],
+        filters,
+      });
+      if (!article) throw { code: 404, message: 'Article not found' };
+
+      const snapshots = await getSnapshots(env, [String(article.id)]);
+      const own = checkpointValues(snapshots);
+
+      // Past editions of the same type, most recent first
+      const pastFilters: Filter[] = [
+        { column: 'status', op: 'eq', value: 'published' },
+        { column: 'type', op: 'eq', value: String(article.type) },
+        { column: 'id', op: 'neq', value: String(article.id) },
+      ];
+      if (article.published_at) pastFilters.push({ column: 'published_at', op: 'lt', value: String(article.published_at) });
+      const past = await env.db.query({
+        table: 'articles',
+        select: ['id'],
+        filters: pastFilters,
+        order: [{ column: 'published_at', direction: 'desc', nulls: 'last' }],
+        limit: Math.min(Number(args.baseline) || 20, 100),
+      });
+      const pastCurves = [...byArticle(await getSnapshots(env, past.map(p => String(p.id)))).values()].map(checkpointValues);
+
+      const checkpoints: Row[] = CHECKPOINTS.map(cp => {
+        const point = own[cp.label];
+        const row: Row = { label: cp.label, hours: cp.hours, at_hours: point?.hours_since_publish ?? null };
+        for (const metric of METRICS) {
+          const med = median(pastCurves.map(c => c[cp.label]?.[metric]).filter(v => v != null).map(Number));
+          row[metric] = point?.[metric] ?? null;
+          row[`median_${metric}`] = med == null ? null : Math.round(med * 10) / 10;
+          row[`vs_median_${metric}`] = vsMedian(metric, point?.[metric], med);
+        }
+        return row;
+      });
+
+      const num = article.number != null ? `#${article.number} ` : '';
+      const lines = [`**${num}${article.title}** — ${snapshots.length} snapshot${snapshots.length === 1 ? '' : 's'}, vs median of ${pastCurves.length} earlier ${article.type} article${pastCurves.length === 1 ? '' : 's'}`, ''];
+      if (snapshots.length) {
+        lines.push('| After | Open rate | Click rate | Views |', '|---|---|---|---|');
+        for (const c of checkpoints) {
+          const cells = METRICS.map(m => `${fmtMetric(m, c[m])}${fmtDelta(m, c[`vs_median_${m}`] as number | null)}`);
+          lines.push(`| ${c.label} | ${cells.join(' | ')} |`);
+        }
+        lines.push('', '_In brackets: difference from the median (points for rates, percent for views)._');
+      } else {
+        lines.push('_No snapshots yet — they are recorded by import_newsletter and the background sync._');
+      }
+      lines.push('', getWatermark(env.config));
+
+      return {
+        article,
+        snapshots: snapshots.map(({ article_id: _id, ...s }) => s),
+        checkpoints,
+        baseline: { type: article.type, editions: pastCurves.length },
+        markdown: lines.join('\n'),
+      };
+    },
+  },
+
+  {
+    name: 'get_insights',
+    description: 'Which content performs best: average open and click rates of published articles by tag, tag category, cited expert, signal (bullish/bearish/neutral), article type and send weekday/hour, each with sample sizes and the difference from all articles. Pass tags to compare articles carrying all of them against the rest (e.g. "do our AI + Funding issues outperform?"). Any signed-in role.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        dimensions:   { type: 'array', items: { type: 'string', enum: INSIGHT_DIMENSIONS }, description: 'Breakdowns to include (default: all)' },
+        tags:         { type: 'array', items: { type: 'string' }, description: 'Compare articles tagged with all of these against the rest' },
+        since:        { type: 'string', description: 'Only articles published on or after this ISO date' },
+        until:        { type: 'string', description: 'Only articles published on or before this ISO date' },
+        timezone:     { type: 'string', description: 'IANA time zone for send weekday/hour (default UTC), e.g. "Europe/Paris"' },
+        min_articles: { type: 'number', description: 'Hide groups with fewer articles (default 2)', minimum: 1 },
+        sort_by:      { type: 'string', enum: ['open_rate', 'click_rate'], description: 'Order groups by this rate (default open_rate)' },
+        limit:        { type: 'number', description: 'Max groups per breakdown (default 10, max 50)', minimum: 1, maximum: 50 },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'editorial:read');
+
+      const dimensions = Array.isArray(args.dimensions) && args.dimensions.length
+        ? args.dimensions.map(String) as InsightDimension[]
+        : [...INSIGHT_DIMENSIONS];
+      const unknown = dimensions.filter(d => !INSIGHT_DIMENSIONS.includes(d));
+      if (unknown.length) {
+        throw { code: 400, message: `Unknown dimension(s): ${unknown.join(', ')}. Use: ${INSIGHT_DIMENSIONS.join(', ')}` };
+      }
+
+      const timeZone = args.timezone ? String(args.timezone) : 'UTC';
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+      } catch {
+        throw { code: 400, message: `Unknown time zone: ${timeZone}` };
+      }
+      for (const key of ['since', 'until'] as const) {
+        if (args[key] && !String(args[key]).match(/^\d{4}-\d{2}-\d{2}/)) {
+          throw { code: 400, message: `${key} must be ISO 8601 (e.g. "2026-02-01")` };
+        }
+      }
+
+      const data = await loadInsightData(env, {
+        since: args.since ? String(args.since) : undefined,
+        until: args.until ? String(args.until) : undefined,
+      });
+      const all = summarize('All articles', data.articles);
+      const opts = {
+        timeZone,
+        minArticles: Math.max(Number(args.min_articles) || 2, 1),
+        sortBy: args.sort_by === 'click_rate' ? 'click_rate' as const : 'open_rate' as const,
+      };
+      const limit = Math.min(Number(args.limit) || 10, 50);
+
+      const breakdowns: Record<string, GroupStats[]> = {};
+      for (const dimension of dimensions) {
+        breakdowns[dimension] = breakdown(dimension, data, all, opts).slice(0, limit);
+      }
+
+      let segment: { tags: string[]; tagged: GroupStats; rest: GroupStats } | null = null;
+      const segmentTags = Array.isArray(args.tags) ? args.tags.map(String).filter(Boolean) : [];
+      if (segmentTags.length) {
+        const tagged = data.articles.filter(a => hasAllTags(a, data, segmentTags));
+        const rest = data.articles.filter(a => !hasAllTags(a, data, segmentTags));
+        segment = {
+          tags: segmentTags,
+          tagged: summarize(`Tagged ${segmentTags.join(' + ')}`, tagged, all),
+          rest: summarize('Everything else', rest, all),
+        };
+      }
+
+      const range = args.since || args.until ? ` (${args.since ?? '…'} → ${args.until ?? 'now'})` : '';
+      const lines = [`**Insights** — ${all.articles} published articles${range}, ${all.with_open_rate} with open rates`, ''];
+      if (segment) {
+        lines.push(`### ${segment.tagged.group} vs the rest`, '', ...INSIGHT_TABLE_HEADER, insightRowMd(segment.tagged), insightRowMd(segment.rest), '');
+      }
+      lines.push('### All articles', '', ...INSIGHT_TABLE_HEADER, insightRowMd(all), '');
+      for (const dimension of dimensions) {
+        const rows = breakdowns[dimension];
+        const zone = dimension === 'weekday' || dimension === 'hour' ? ` (${timeZone})` : '';
+        lines.push(`### ${DIMENSION_LABELS[dimension]}${zone}`, '');
+        lines.push(...(rows.length ? [...INSIGHT_TABLE_HEADER, ...rows.map(insightRowMd)] : [`_No group with at least ${opts.minArticles} articles._`]), '');
+      }
+      lines.push(`_* fewer than ${SMALL_SAMPLE} articles — treat with caution. Rates average only articles that have one._`, '', getWatermark(env.config));
+
+      return {
+        range: { since: args.since ?? null, until: args.until ?? null, timezone: timeZone },
+        overall: all,
+        segment,
+        breakdowns,
+        markdown: lines.join('\n'),
       };
     },
   },
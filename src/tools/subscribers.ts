@@ -0,0 +1,178 @@
+/** Subscriber tools — unique vs total opens, cohort retention, most engaged and lapsed subscribers */
+
+import type { McpTool, AuthContext, Env } from '../types.js';
+import { requirePermission } from '../auth.js';
+import { getWatermark } from '../utils.js';
+import { cohortRetention, mostEngaged, postOpens, stoppedOpening } from '../subscribers.js';
+import type { SubscriberEngagement } from '../subscribers.js';
+
+const NO_DATA = '_No subscriber events yet — import a Substack export with import_newsletter._';
+
+function pct(value: number | null): string {
+  return value == null ? '—' : `${value.toFixed(1)}%`;
+}
+
+function day(value: string | null): string {
+  return value ? value.slice(0, 10) : '—';
+}
+
+function checkDate(args: Record<string, unknown>, key: string): string | undefined {
+  if (!args[key]) return undefined;
+  if (!String(args[key]).match(/^\d{4}-\d{2}(-\d{2})?/)) {
+    throw { code: 400, message: `${key} must be ISO 8601 (e.g. "2026-02-01")` };
+  }
+  return String(args[key]);
+}
+
+function subscriberRowMd(s: SubscriberEngagement, extra = ''): string {
+  const plan = s.plan ? ` (${s.plan})` : '';
+  return `| ${s.subscriber}${plan} | ${s.opened}/${s.delivered} | ${pct(s.open_rate)} | ${s.total_opens} | ${day(s.last_open_at)} |${extra}`;
+}
+
+export const subscriberTools: McpTool[] = [
+  {
+    name: 'get_subscriber_opens',
+    description: 'Unique vs total opens per sent post from the imported per-recipient events: recipients, unique openers, all opens including re-opens, unique open rate and opens per opener. Counts only, no individual subscribers, so any signed-in role.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        since: { type: 'string', description: 'Only posts sent on or after this ISO date' },
+        until: { type: 'string', description: 'Only posts sent on or before this ISO date' },
+        limit: { type: 'number', description: 'Max posts (default 20, max 100)', minimum: 1, maximum: 100 },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'editorial:read');
+
+      const limit = Math.min(Number(args.limit) || 20, 100);
+      const posts = (await postOpens(env, { since: checkDate(args, 'since'), until: checkDate(args, 'until') })).slice(0, limit);
+
+      const titles = new Map<string, string>();
+      const articleIds = posts.map(p => p.article_id).filter((id): id is string => !!id);
+      if (articleIds.length) {
+        for (const a of await env.db.query({
+          table: 'articles',
+          select: ['id', 'title'],
+          filters: [{ column: 'id', op: 'in', value: articleIds }],
+        })) {
+          titles.set(String(a.id), String(a.title));
+        }
+      }
+      const rows = posts.map(p => ({ ...p, title: p.article_id ? titles.get(p.article_id) ?? null : null }));
+
+      const delivered = rows.reduce((sum, p) => sum + p.delivered, 0);
+      const unique = rows.reduce((sum, p) => sum + p.unique_opens, 0);
+      const total = rows.reduce((sum, p) => sum + p.total_opens, 0);
+      const totals = {
+        delivered,
+        unique_opens: unique,
+        total_opens: total,
+        unique_open_rate: delivered ? Math.round(unique / delivered * 1000) / 10 : null,
+        opens_per_opener: unique ? Math.round(total / unique * 100) / 100 : null,
+      };
+
+      const lines: string[] = [];
+      if (rows.length) {
+        lines.push(
+          `**Opens** — ${rows.length} post${rows.length === 1 ? '' : 's'}: ${unique} unique / ${total} total opens, ${pct(totals.unique_open_rate)} unique open rate`,
+          '',
+          '| Sent | Post | Delivered | Unique opens | Total opens | Unique rate | Opens/opener |',
+          '|---|---|---|---|---|---|---|',
+          ...rows.map(p => `| ${day(p.sent_at)} | ${p.title ?? p.external_post_id} | ${p.delivered} | ${p.unique_opens} | ${p.total_opens} | ${pct(p.unique_open_rate)} | ${p.opens_per_opener ?? '—'} |`),
+        );
+      } else {
+        lines.push(NO_DATA);
+      }
+      lines.push('', getWatermark(env.config));
+
+      return { posts: rows, totals, markdown: lines.join('\n') };
+    },
+  },
+  {
+    name: 'get_cohort_retention',
+    description: 'Monthly subscriber cohorts (by signup month from the email list, else first delivery) and the share of each that opened at least one email 0, 1, 2… months after joining. Counts only, no individual subscribers, so any signed-in role.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        months: { type: 'number', description: 'Months after joining to report (default 6, max 24)', minimum: 1, maximum: 24 },
+        since:  { type: 'string', description: 'Only cohorts that joined in or after this month (YYYY-MM)' },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'editorial:read');
+
+      const months = Math.min(Math.max(Number(args.months) || 6, 1), 24);
+      const cohorts = await cohortRetention(env, { months, since: checkDate(args, 'since') });
+
+      const lines: string[] = [];
+      if (cohorts.length) {
+        const offsets = Array.from({ length: months }, (_, i) => `M${i}`);
+        lines.push(
+          `**Cohort retention** — ${cohorts.reduce((sum, c) => sum + c.size, 0)} subscribers in ${cohorts.length} cohorts`,
+          '',
+          `| Cohort | Size | ${offsets.join(' | ')} |`,
+          `|---|---|${offsets.map(() => '---').join('|')}|`,
+          ...cohorts.map(c => `| ${c.cohort} | ${c.size} | ${c.retention.map(pct).join(' | ')} |`),
+          '',
+          '_Share of each cohort that opened at least one email in that month after joining (M0 = the month they joined)._',
+        );
+      } else {
+        lines.push(NO_DATA);
+      }
+      lines.push('', getWatermark(env.config));
+
+      return { months, cohorts, markdown: lines.join('\n') };
+    },
+  },
+  {
+    name: 'list_subscribers',
+    description: 'Subscriber-level engagement from the imported per-recipient events. segment "most_engaged" ranks by open rate (posts opened / posts delivered); "stopped_opening" lists subscribers who used to open but have not opened any of their most recent deliveries. Addresses are shown only when stored unhashed (subscribers.hashEmails: false). Editor or above.',
+    inputSchema: {
+      type: 'object',
+      required: ['segment'],
+      properties: {
+        segment:        { type: 'string', enum: ['most_engaged', 'stopped_opening'], description: 'Which list' },
+        since:          { type: 'string', description: 'most_engaged: only count events on or after this ISO date' },
+        min_deliveries: { type: 'number', description: 'most_engaged: minimum posts delivered (default 5)', minimum: 1 },
+        min_opens:      { type: 'number', description: 'stopped_opening: minimum posts opened before going quiet (default 3)', minimum: 1 },
+        missed:         { type: 'number', description: 'stopped_opening: minimum posts delivered since the last open (default 3)', minimum: 1 },
+        limit:          { type: 'number', description: 'Max subscribers (default 25, max 200)', minimum: 1, maximum: 200 },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'editorial:manage');
+
+      const limit = Math.min(Number(args.limit) || 25, 200);
+      const header = ['| Subscriber | Opened/delivered | Open rate | Total opens | Last open |', '|---|---|---|---|---|'];
+
+      if (args.segment === 'most_engaged') {
+        const minDeliveries = Math.max(Number(args.min_deliveries) || 5, 1);
+        const subscribers = await mostEngaged(env, { since: checkDate(args, 'since'), minDeliveries, limit });
+        const lines = subscribers.length
+          ? [`**Most engaged subscribers** — at least ${minDeliveries} posts delivered${args.since ? ` since ${args.since}` : ''}`, '', ...header, ...subscribers.map(s => subscriberRowMd(s))]
+          : [`_No subscriber with at least ${minDeliveries} posts delivered._`];
+        lines.push('', getWatermark(env.config));
+        return { segment: 'most_engaged', subscribers, total: subscribers.length, markdown: lines.join('\n') };
+      }
+
+      if (args.segment === 'stopped_opening') {
+        const minOpens = Math.max(Number(args.min_opens) || 3, 1);
+        const missed = Math.max(Number(args.missed) || 3, 1);
+        const subscribers = await stoppedOpening(env, { minOpens, missed, limit });
+        const lines = subscribers.length
+          ? [
+            `**Stopped opening** — opened ${minOpens}+ posts, then none of the last ${missed}+ delivered`,
+            '',
+            `${header[0]} Missed | Status |`,
+            `${header[1]}---|---|`,
+            ...subscribers.map(s => subscriberRowMd(s, ` ${s.missed} | ${s.status ?? '—'} |`)),
+          ]
+          : ['_No subscriber has stopped opening._'];
+        lines.push('', getWatermark(env.config));
+        return { segment: 'stopped_opening', subscribers, total: subscribers.length, markdown: lines.join('\n') };
+      }
+
+      throw { code: 400, message: 'segment must be "most_engaged" or "stopped_opening"' };
+    },
+  },
+];
@@ -0,0 +1,103 @@
+/** Sync tool — get_sync_status (background connector runs) */
+
+import type { McpTool, AuthContext, Env, Filter, Row } from '../types.js';
+import { requirePermission } from '../auth.js';
+import { getWatermark, parseJsonArray } from '../utils.js';
+import { CONNECTORS, cursorScope } from '../importer.js';
+import { toConnectorConfig } from '../sync.js';
+
+const RUN_COLUMNS = [
+  'id', 'platform', 'scope', 'triggered_by', 'status', 'started_at', 'finished_at',
+  'created', 'updated', 'skipped', 'errors', 'messages', 'error',
+];
+
+function formatRunMd(r: Row): string {
+  const when = String(r.started_at).slice(0, 16).replace('T', ' ');
+  const counts = r.status === 'failed' ? String(r.error ?? '') : `+${r.created} new, ${r.updated} updated, ${r.errors} errors`;
+  return `| ${when} | ${r.platform}${r.scope ? ` (${r.scope})` : ''} | ${r.status} | ${counts} |`;
+}
+
+export const syncTools: McpTool[] = [
+  {
+    name: 'get_sync_status',
+    description: 'Status of the background connector sync (inkwell-mcp sync / serve --sync-interval): configured connectors with their last run, last success and cursor, plus recent runs and failures. Any signed-in role.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        platform:      { type: 'string', enum: Object.keys(CONNECTORS), description: 'Only runs for this platform' },
+        failures_only: { type: 'boolean', description: 'Only failed or partial runs', default: false },
+        limit:         { type: 'number', description: 'Max runs (default 20, max 100)', minimum: 1, maximum: 100 },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'editorial:read');
+
+      const limit = Math.min(Number(args.limit) || 20, 100);
+      const filters: Filter[] = [];
+      if (args.platform) filters.push({ column: 'platform', op: 'eq', value: String(args.platform) });
+      if (args.failures_only) filters.push({ column: 'status', op: 'in', value: ['failed', 'partial'] });
+
+      const runs: Row[] = (await env.db.query({
+        table: 'sync_runs',
+        select: RUN_COLUMNS,
+        filters,
+        order: [{ column: 'started_at', direction: 'desc' }],
+        limit,
+      })).map(r => ({ ...r, messages: parseJsonArray(r.messages) }));
+
+      // Per configured connector — credentials are never returned
+      const connectors: Row[] = [];
+      for (const c of env.config.sync?.connectors ?? []) {
+        if (args.platform && c.platform !== args.platform) continue;
+        const scope = cursorScope(toConnectorConfig(c));
+        const scoped: Filter[] = [
+          { column: 'platform', op: 'eq', value: c.platform },
+          { column: 'scope', op: 'eq', value: scope },
+        ];
+        const lastRun = await env.db.queryOne({
+          table: 'sync_runs',
+          select: ['status', 'started_at', 'finished_at', 'error'],
+          filters: scoped,
+          order: [{ column: 'started_at', direction: 'desc' }],
+        });
+        const lastSuccess = await env.db.queryOne({
+          table: 'sync_runs',
+          select: ['finished_at'],
+          filters: [...scoped, { column: 'status', op: 'eq', value: 'success' }],
+          order: [{ column: 'started_at', direction: 'desc' }],
+        });
+        const cursor = await env.db.queryOne({ table: 'import_cursors', select: ['cursor'], filters: scoped });
+        connectors.push({
+          platform: c.platform,
+          scope,
+          last_status: lastRun?.status ?? null,
+          last_run_at: lastRun?.started_at ?? null,
+          last_error: lastRun?.status === 'failed' ? lastRun.error : null,
+          last_success_at: lastSuccess?.finished_at ?? null,
+          cursor: cursor?.cursor ?? null,
+        });
+      }
+
+      const failures = runs.filter(r => r.status === 'failed' || r.status === 'partial').length;
+      const interval = env.config.sync?.intervalMinutes;
+
+      const lines: string[] = [];
+      if (connectors.length) {
+        lines.push(`**Sync** — ${connectors.length} connector${connectors.length === 1 ? '' : 's'}${interval ? `, every ${interval} min under serve` : ''}`, '');
+        for (const c of connectors) {
+          const last = c.last_run_at ? `${c.last_status} at ${String(c.last_run_at).slice(0, 16).replace('T', ' ')}` : 'never run';
+          const success = c.last_success_at ? `, last success ${String(c.last_success_at).slice(0, 16).replace('T', ' ')}` : '';
+          lines.push(`- **${c.platform}${c.scope ? ` (${c.scope})` : ''}**: ${last}${success}`);
+        }
+      } else {
+        lines.push('_No connectors configured — add them under `sync.connectors` in the config file._');
+      }
+      if (runs.length) {
+        lines.push('', `**Recent runs** (${failures} failed or partial)`, '', '| Started | Connector | Status | Result |', '|---|---|---|---|', ...runs.map(formatRunMd));
+      }
+      lines.push('', getWatermark(env.config));
+
+      return { connectors, runs, total: runs.length, failures, markdown: lines.join('\n') };
+    },
+  },
+];
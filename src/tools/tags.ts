@@ -1,15 +1,45 @@
-/** Tag tools — list */
+/** Tag tools — list, create, update, rename, merge, tag and untag articles, everything tagged X */
 
-import type { McpTool, AuthContext, Env, Filter } from '../types.js';
+import type { McpTool, AuthContext, Env, Filter, Row } from '../types.js';
+import { hasPermission, requirePermission } from '../auth.js';
+import { formatArticleMd, formatNoteMd, formatSourceMd, getWatermark, parseJsonArray } from '../utils.js';
+import {
+  articleIdsTagged,
+  articleTags,
+  assertParent,
+  assertTagCategory,
+  descendantIds,
+  mergeTags,
+  noteIdsTagged,
+  notesWithTag,
+  refreshNoteTagNames,
+  resolveTag,
+  tagArticle,
+  tagCategories,
+  tagPath,
+} from '../tags.js';
+
+async function assertNameFree(env: Env, name: string, exceptId?: string): Promise<void> {
+  const taken = (await env.db.query({ table: 'tags', select: ['id', 'name'] }))
+    .find(t => String(t.name).toLowerCase() === name.toLowerCase() && String(t.id) !== exceptId);
+  if (taken) throw { code: 409, message: `A tag named "${taken.name}" already exists (${taken.id})` };
+}
+
+async function getArticleOrThrow(env: Env, id: string): Promise<Row> {
+  const article = await env.db.queryOne({ table: 'articles', select: ['id', 'title'], filters: [{ column: 'id', op: 'eq', value: id }] });
+  if (!article) throw { code: 404, message: 'Article not found' };
+  return article;
+}
 
 export const tagTools: McpTool[] = [
   {
     name: 'list_tags',
-    description: 'List tags used in the newsletter, optionally filtered by category.',
+    description: 'List tags used in the newsletter with their parent and article and note counts (a parent\'s article count includes articles tagged with its children). Filter by category, or pass parent to list one branch of the taxonomy.',
     inputSchema: {
       type: 'object',
       properties: {
-        category: { type: 'string', description: 'Tag category', enum: ['platform', 'business', 'trend', 'tech', 'event'] },
+        category: { type: 'string', description: 'Tag category (see tagCategories in the config)' },
+        parent: { type: 'string', description: 'Only tags under this tag (id or name)' },
         limit: { type: 'number', description: 'Max results (default 50)', minimum: 1, maximum: 200 },
       },
     },
@@ -19,15 +49,316 @@ export const tagTools: McpTool[] = [
 
       if (args.category) filters.push({ column: 'category', op: 'eq', value: String(args.category) });
 
-      const rows = await env.db.query({
+      const all = await env.db.query({ table: 'tags', select: ['id', 'name', 'category', 'parent_id', 'description'] });
+      let rows = await env.db.query({
         table: 'tags',
-        select: ['id', 'name', 'category', 'description'],
+        select: ['id', 'name', 'category', 'parent_id', 'description'],
         filters,
         order: [{ column: 'name', direction: 'asc' }],
-        limit,
       });
+      if (args.parent) {
+        const parent = await resolveTag(env, String(args.parent));
+        const branch = new Set(descendantIds(all, String(parent.id)).slice(1));
+        rows = rows.filter(t => branch.has(String(t.id)));
+      }
+
+      const links = await env.db.query({ table: 'article_tags', select: ['article_id', 'tag_id'] });
+      const articlesByTag = new Map<string, Set<string>>();
+      for (const l of links) {
+        const set = articlesByTag.get(String(l.tag_id)) ?? new Set<string>();
+        set.add(String(l.article_id));
+        articlesByTag.set(String(l.tag_id), set);
+      }
+      const notesByTag = new Map<string, number>();
+      for (const l of await env.db.query({ table: 'note_tags', select: ['tag_id'] })) {
+        notesByTag.set(String(l.tag_id), (notesByTag.get(String(l.tag_id)) ?? 0) + 1);
+      }
+      const names = new Map(all.map(t => [String(t.id), String(t.name)]));
+
+      const tags = rows.slice(0, limit).map(t => {
+        const withChildren = new Set(descendantIds(all, String(t.id)).flatMap(id => [...(articlesByTag.get(id) ?? [])]));
+        return {
+          ...t,
+          parent: t.parent_id ? names.get(String(t.parent_id)) ?? null : null,
+          path: tagPath(all, t),
+          articles: articlesByTag.get(String(t.id))?.size ?? 0,
+          articles_with_children: withChildren.size,
+          notes: notesByTag.get(String(t.id)) ?? 0,
+        };
+      });
+
+      return { tags, count: tags.length, categories: tagCategories(env.config) };
+    },
+  },
+
+  {
+    name: 'create_tag',
+    description: 'Create a tag, optionally under a parent tag (e.g. "LLMs" under "AI"). Contributor or above.',
+    inputSchema: {
+      type: 'object',
+      required: ['name'],
+      properties: {
+        name:        { type: 'string', minLength: 1 },
+        category:    { type: 'string', description: 'One of the configured tag categories' },
+        parent:      { type: 'string', description: 'Parent tag (id or name)' },
+        description: { type: 'string' },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'drafts:write');
+
+      const name = String(args.name ?? '').trim();
+      if (!name) throw { code: 400, message: 'name is required' };
+      await assertNameFree(env, name);
+      if (args.category) assertTagCategory(env.config, String(args.category));
+      const parent = args.parent ? await resolveTag(env, String(args.parent)) : null;
+
+      const tag = await env.db.insert('tags', {
+        name,
+        category: args.category ? String(args.category) : null,
+        parent_id: parent ? String(parent.id) : null,
+        description: args.description ? String(args.description) : null,
+      });
+      const path = parent ? `${tagPath(await env.db.query({ table: 'tags' }), parent)} › ${name}` : name;
+      return { ...tag, path, message: `Tag created: ${path}` };
+    },
+  },
+
+  {
+    name: 'update_tag',
+    description: 'Change a tag\'s category, description or parent. parent: "none" makes it a top-level tag. Editor or above.',
+    inputSchema: {
+      type: 'object',
+      required: ['tag'],
+      properties: {
+        tag:         { type: 'string', description: 'Tag id or name' },
+        category:    { type: 'string', description: 'One of the configured tag categories' },
+        parent:      { type: 'string', description: 'New parent tag (id or name), or "none"' },
+        description: { type: 'string' },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'editorial:manage');
+
+      const tag = await resolveTag(env, String(args.tag));
+      const patch: Row = {};
+      if (args.category != null) {
+        assertTagCategory(env.config, String(args.category));
+        patch.category = String(args.category);
+      }
+      if (args.description != null) patch.description = String(args.description) || null;
+      if (args.parent != null) {
+        if (String(args.parent) === 'none') {
+          patch.parent_id = null;
+        } else {
+          const parent = await resolveTag(env, String(args.parent));
+          await assertParent(env, String(tag.id), String(parent.id));
+          patch.parent_id = String(parent.id);
+        }
+      }
+      if (!Object.keys(patch).length) throw { code: 400, message: 'No fields to update' };
+
+      const rows = await env.db.update('tags', [{ column: 'id', op: 'eq', value: String(tag.id) }], patch);
+      const path = tagPath(await env.db.query({ table: 'tags' }), rows[0]);
+      return { ...rows[0], path, message: `Tag updated: ${path}` };
+    },
+  },
+
+  {
+    name: 'rename_tag',
+    description: 'Rename a tag; its articles and child tags follow. Import enrichment finds tags by name, so also update any tagPatterns entry using the old name or the next import re-creates it. Editor or above.',
+    inputSchema: {
+      type: 'object',
+      required: ['tag', 'name'],
+      properties: {
+        tag:  { type: 'string', description: 'Tag id or current name' },
+        name: { type: 'string', minLength: 1, description: 'New name' },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'editorial:manage');
+
+      const tag = await resolveTag(env, String(args.tag));
+      const name = String(args.name ?? '').trim();
+      if (!name) throw { code: 400, message: 'name cannot be empty' };
+      await assertNameFree(env, name, String(tag.id));
+
+      const rows = await env.db.update('tags', [{ column: 'id', op: 'eq', value: String(tag.id) }], { name });
+      await refreshNoteTagNames(env, await notesWithTag(env, String(tag.id)));
+      return { ...rows[0], previous_name: tag.name, message: `Tag renamed: ${tag.name} → ${name}` };
+    },
+  },
+
+  {
+    name: 'merge_tags',
+    description: 'Merge duplicate tags into one: articles and notes tagged with any of them get the kept tag, child tags move under it, and the duplicates are deleted. Editor or above.',
+    inputSchema: {
+      type: 'object',
+      required: ['keep', 'merge'],
+      properties: {
+        keep:  { type: 'string', description: 'Tag to keep (id or name)' },
+        merge: { type: 'array', items: { type: 'string' }, minItems: 1, description: 'Tags to fold into it (ids or names)' },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'editorial:manage');
+
+      const merge = Array.isArray(args.merge) ? args.merge.map(String) : [];
+      const result = await mergeTags(env, String(args.keep), merge);
+      return {
+        ...result,
+        message: `Merged ${result.merged.map(m => m.name).join(', ')} into ${result.tag.name} (${result.articles_moved} articles, ${result.notes_moved} notes, ${result.children_moved} child tags moved)`,
+      };
+    },
+  },
+
+  {
+    name: 'tag_article',
+    description: 'Add tags (ids or names) to an article. Tags must exist; create them with create_tag. Contributor or above.',
+    inputSchema: {
+      type: 'object',
+      required: ['article_id', 'tags'],
+      properties: {
+        article_id: { type: 'string', description: 'Article UUID' },
+        tags:       { type: 'array', items: { type: 'string' }, minItems: 1, description: 'Tag ids or names' },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'drafts:write');
+
+      const article = await getArticleOrThrow(env, String(args.article_id));
+      const refs = Array.isArray(args.tags) ? args.tags.map(String) : [];
+      if (!refs.length) throw { code: 400, message: 'tags must name at least one tag' };
+      const tags: Row[] = [];
+      for (const ref of refs) tags.push(await resolveTag(env, ref));
+
+      const added = await tagArticle(env, String(article.id), tags.map(t => String(t.id)));
+      const current = await articleTags(env, String(article.id));
+      const watermark = getWatermark(env.config);
+      return {
+        article_id: article.id,
+        added: tags.filter(t => added.includes(String(t.id))).map(t => t.name),
+        tags: current,
+        markdown: `**${article.title}** — ${current.map(t => t.path).join(', ') || '_no tags_'}\n\n${watermark}`,
+      };
+    },
+  },
+
+  {
+    name: 'untag_article',
+    description: 'Remove tags (ids or names) from an article. Contributor or above.',
+    inputSchema: {
+      type: 'object',
+      required: ['article_id', 'tags'],
+      properties: {
+        article_id: { type: 'string', description: 'Article UUID' },
+        tags:       { type: 'array', items: { type: 'string' }, minItems: 1, description: 'Tag ids or names' },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      requirePermission(ctx, 'drafts:write');
+
+      const article = await getArticleOrThrow(env, String(args.article_id));
+      const refs = Array.isArray(args.tags) ? args.tags.map(String) : [];
+      if (!refs.length) throw { code: 400, message: 'tags must name at least one tag' };
+      const removed: string[] = [];
+      for (const ref of refs) {
+        const tag = await resolveTag(env, ref);
+        const rows = await env.db.count('article_tags', [
+          { column: 'article_id', op: 'eq', value: String(article.id) },
+          { column: 'tag_id', op: 'eq', value: String(tag.id) },
+        ]);
+        if (!rows) continue;
+        await env.db.delete('article_tags', [
+          { column: 'article_id', op: 'eq', value: String(article.id) },
+          { column: 'tag_id', op: 'eq', value: String(tag.id) },
+        ]);
+        removed.push(String(tag.name));
+      }
+
+      const current = await articleTags(env, String(article.id));
+      const watermark = getWatermark(env.config);
+      return {
+        article_id: article.id,
+        removed,
+        tags: current,
+        markdown: `**${article.title}** — ${current.map(t => t.path).join(', ') || '_no tags_'}\n\n${watermark}`,
+      };
+    },
+  },
+
+  {
+    name: 'get_tagged',
+    description: 'Everything tagged X: articles and notes carrying the tag or one of its child tags, and the sources behind them (cited by those notes, or planned for or used in those articles). Articles for everyone; notes and sources for signed-in roles.',
+    inputSchema: {
+      type: 'object',
+      required: ['tag'],
+      properties: {
+        tag:   { type: 'string', description: 'Tag id or name' },
+        limit: { type: 'number', minimum: 1, maximum: 100, description: 'Max results per kind (default 20)' },
+      },
+    },
+    handler: async (args, ctx: AuthContext | null, env: Env) => {
+      const tag = await resolveTag(env, String(args.tag));
+      const limit = Math.min(Number(args.limit ?? 20), 100);
+
+      // An empty `in` list would match everything, so each lookup is guarded
+      const articleIds = await articleIdsTagged(env, String(tag.id));
+      const articles = articleIds.length
+        ? await env.db.query({
+          table: 'articles',
+          select: ['id', 'number', 'title', 'status', 'type', 'published_at', 'views', 'open_rate', 'substack_url', 'editorial_angle'],
+          filters: [{ column: 'id', op: 'in', value: articleIds }],
+          order: [{ column: 'published_at', direction: 'desc', nulls: 'last' }],
+          limit,
+        })
+        : [];
+
+      let notes: Row[] = [];
+      let sources: Row[] = [];
+      const internal = hasPermission(ctx, 'editorial:read');
+      if (internal) {
+        const noteIds = await noteIdsTagged(env, String(tag.id));
+        const noteRows = noteIds.length
+          ? await env.db.query({
+            table: 'editorial_notes',
+            filters: [{ column: 'id', op: 'in', value: noteIds }],
+            order: [{ column: 'priority', direction: 'asc' }, { column: 'created_at', direction: 'desc' }],
+          })
+          : [];
+        notes = noteRows.slice(0, limit).map(n => ({ ...n, tags: parseJsonArray(n.tags) }));
+
+        const byId = new Map<string, Row>();
+        const sourceIds = [...new Set(noteRows.map(n => n.source_id).filter(Boolean).map(String))];
+        const lookups: Array<[string, string[]]> = [['id', sourceIds], ['target_article', articleIds], ['used_in_article', articleIds]];
+        for (const [column, ids] of lookups) {
+          if (!ids.length) continue;
+          for (const s of await env.db.query({ table: 'editorial_sources', filters: [{ column, op: 'in', value: ids }] })) {
+            byId.set(String(s.id), s);
+          }
+        }
+        sources = [...byId.values()]
+          .sort((a, b) => String(b.created_at).localeCompare(String(a.created_at)))
+          .slice(0, limit);
+      }
+
+      const watermark = getWatermark(env.config);
+      const section = (title: string, rows: Row[], format: (r: Row) => string) =>
+        `### ${title} (${rows.length})\n${rows.map(format).join('\n') || '_None_'}`;
+      const markdown = [
+        `## Tagged ${tag.name}`,
+        section('Articles', articles, a => formatArticleMd(a)),
+        ...(internal ? [section('Notes', notes, formatNoteMd), section('Sources', sources, formatSourceMd)] : []),
+        watermark,
+      ].join('\n\n');
 
-      return { tags: rows, count: rows.length };
+      return {
+        tag: { id: tag.id, name: tag.name, category: tag.category },
+        articles,
+        ...(internal ? { notes, sources } : {}),
+        counts: { articles: articles.length, ...(internal ? { notes: notes.length, sources: sources.length } : {}) },
+        markdown,
+      };
     },
   },
 ];
@@ -1,15 +1,22 @@
 /** Writing tools — draft_article, list_voice_templates */
 
-import type { McpTool, AuthContext, Env } from '../types.js';
-import { requireOwner } from '../auth.js';
+import type { McpTool, AuthContext, Env, Row } from '../types.js';
+import { requirePermission } from '../auth.js';
 import { loadVoiceTemplates } from '../voice/loader.js';
 import { getWatermark } from '../utils.js';
+import { generateDraft } from '../drafting.js';
+import { capturedExcerpts } from '../capture.js';
+import { CITATION_STYLES, citationOrder, noteMarker, recordCitations, renderCitations } from '../citations.js';
+import type { Citation, CitationStyle } from '../citations.js';
 import { resolve } from 'path';
 
+/** Captured page text handed to the drafter per source, in characters */
+const SOURCE_EXCERPT_CHARS = 1500;
+
 export const writeTools: McpTool[] = [
   {
     name: 'list_voice_templates',
-    description: 'List available voice/style templates for article drafting. Owner only.',
+    description: 'List available voice/style templates for article drafting. Any signed-in role.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -17,7 +24,7 @@ export const writeTools: McpTool[] = [
       },
     },
     handler: async (args, ctx: AuthContext | null, env: Env) => {
-      requireOwner(ctx);
+      requirePermission(ctx, 'editorial:read');
 
       const dir = args.templates_dir
         ? String(args.templates_dir)
@@ -47,7 +54,7 @@ export const writeTools: McpTool[] = [
 
   {
     name: 'draft_article',
-    description: 'Generate a structured article draft from a brief (notes + sources) using a voice template. Returns a markdown draft with sections based on collected material. Owner only.',
+    description: 'Generate a structured article draft from a brief (notes + sources) using a voice template. Returns a markdown scaffold with sections based on collected material, or a full draft written section by section by an LLM — the configured llm endpoint, otherwise the client\'s model via MCP sampling. Facts and quotes linked to a source get numbered citations and a references section; the sources a draft cites are marked used when the article is published. Contributor or above.',
     inputSchema: {
       type: 'object',
       required: ['target_article'],
@@ -57,13 +64,20 @@ export const writeTools: McpTool[] = [
         templates_dir:  { type: 'string', description: 'Custom templates directory' },
         title:          { type: 'string', description: 'Override article title' },
         focus:          { type: 'string', description: 'Specific angle or focus for this draft' },
+        generate:       { type: 'boolean', description: 'Write the sections with an LLM instead of returning a scaffold (default: true when an llm endpoint is configured)' },
+        max_tokens:     { type: 'number', description: 'Max tokens per generated section (default 800)', default: 800 },
+        citation_style: { type: 'string', enum: [...CITATION_STYLES], description: 'How [n] citations render: endnote (numbered References list, default), footnote (markdown [^n] footnotes) or inline (links in the text)' },
       },
     },
     handler: async (args, ctx: AuthContext | null, env: Env) => {
-      requireOwner(ctx);
+      requirePermission(ctx, 'drafts:write');
 
       const articleId = String(args.target_article);
       const voiceName = String(args.voice ?? 'default');
+      const style = String(args.citation_style ?? 'endnote') as CitationStyle;
+      if (!CITATION_STYLES.includes(style)) {
+        throw { code: 400, message: `Invalid citation_style "${style}". Expected one of: ${CITATION_STYLES.join(', ')}` };
+      }
 
       // Load voice template
       const dir = args.templates_dir
@@ -92,14 +106,76 @@ export const writeTools: McpTool[] = [
         [articleId]
       );
 
-      // Fetch sources
-      const sources = await env.db.raw(
+      // Fetch sources, plus any a note quotes that is no longer unused, numbered for citation
+      const sourceRows = await env.db.raw(
         `SELECT * FROM editorial_sources
          WHERE status = 'active' AND (target_article = ? OR target_article IS NULL)
            AND used_in_article IS NULL
          ORDER BY published_date DESC`,
         [articleId]
       );
+      const available = new Set(sourceRows.map(s => String(s.id)));
+      const missing = [...new Set(notes.map(n => n.source_id).filter(id => id && !available.has(String(id))).map(String))];
+      const linked = missing.length
+        ? await env.db.query({ table: 'editorial_sources', filters: [{ column: 'id', op: 'in', value: missing }] })
+        : [];
+      const ordered = citationOrder(notes, sourceRows, linked);
+
+      // With an excerpt of what captured pages actually say
+      const excerpts = await capturedExcerpts(env, ordered.map(s => String(s.id)), SOURCE_EXCERPT_CHARS);
+      const sources: Row[] = ordered.map(s => ({ ...s, captured_text: excerpts.get(String(s.id)) ?? null }));
+
+      // Only drafts of a saved article are remembered for marking sources used on publish
+      const citationList = async (cited: Citation[]) => {
+        if (article) await recordCitations(env, articleId, cited);
+        return cited.map(c => ({ number: c.number, source_id: c.source.id, title: c.source.title, url: c.source.url }));
+      };
+
+      // Configured endpoint first, then the client's model; no LLM means the scaffold below
+      const llm = env.llm;
+      const sampler = llm ? llm.complete.bind(llm) : env.sample;
+      const generate = args.generate != null ? Boolean(args.generate) : !!llm;
+
+      if (generate) {
+        if (!sampler) {
+          throw {
+            code: 400,
+            message: 'generate: true needs an llm endpoint in the config or an MCP client that supports sampling (sampling/createMessage). Omit generate to get a scaffold instead.',
+          };
+        }
+
+        const draft = await generateDraft(sampler, {
+          newsletter: env.config.name,
+          title: articleTitle,
+          focus: args.focus ? String(args.focus) : undefined,
+          voice,
+          notes,
+          sources,
+          maxTokensPerSection: Math.min(Number(args.max_tokens) || 800, 4000),
+        });
+
+        const body = draft.sections.map(section => section.text).join('\n\n');
+        const { text, references, cited } = renderCitations(body, sources, style);
+        const out: string[] = [`# ${articleTitle}`, '', text, ''];
+        if (references) out.push(references, '');
+        out.push(getWatermark(env.config));
+        const markdown = out.join('\n');
+
+        return {
+          target_article: articleId,
+          title: articleTitle,
+          voice: voice.name,
+          generated: true,
+          model: draft.model ?? null,
+          sections_written: draft.sections.length,
+          notes_used: notes.length,
+          sources_available: sources.length,
+          citation_style: style,
+          citations: await citationList(cited),
+          draft_length: markdown.length,
+          markdown,
+        };
+      }
 
       // Build the draft structure
       const lines: string[] = [];
@@ -120,7 +196,7 @@ export const writeTools: McpTool[] = [
       if (factNotes.length) {
         lines.push('## Key Facts');
         for (const n of factNotes) {
-          lines.push(`- ${n.content}`);
+          lines.push(`- ${n.content}${noteMarker(n, sources)}`);
         }
         lines.push('');
       }
@@ -131,7 +207,7 @@ export const writeTools: McpTool[] = [
         lines.push('## Angles to Explore');
         for (const n of angleNotes) {
           const prio = n.priority !== 3 ? ` (P${n.priority})` : '';
-          lines.push(`- ${n.content}${prio}`);
+          lines.push(`- ${n.content}${noteMarker(n, sources)}${prio}`);
         }
         lines.push('');
       }
@@ -158,11 +234,18 @@ export const writeTools: McpTool[] = [
         }
       }
 
+      // Citations keep their source numbers so the writer can cite the remaining sources as [n]
+      const { text, references, cited } = renderCitations(lines.join('\n'), sources, style, false);
+      lines.splice(0, lines.length, text);
+      if (references) lines.push(references, '');
+
       // Sources to cite
-      if (sources.length) {
+      const citedIds = new Set(cited.map(c => c.source.id));
+      const uncited = sources.map((s, i) => ({ s, n: i + 1 })).filter(({ s }) => !citedIds.has(s.id));
+      if (uncited.length) {
         lines.push('## Sources Available');
-        for (const s of sources) {
-          lines.push(`- [${s.title}](${s.url}) (${s.published_date ?? '?'})`);
+        for (const { s, n } of uncited) {
+          lines.push(`- ${style === 'inline' ? '' : `[${n}] `}[${s.title}](${s.url}) (${s.published_date ?? '?'})`);
           if (s.key_quotes) {
             lines.push(`  > ${s.key_quotes}`);
           }
@@ -199,6 +282,8 @@ export const writeTools: McpTool[] = [
         voice: voice.name,
         notes_used: notes.length,
         sources_available: sources.length,
+        citation_style: style,
+        citations: await citationList(cited),
         draft_length: markdown.length,
         markdown,
       };
@@ -3,6 +3,61 @@
 export interface Env {
   db: DatabaseAdapter;
   config: InkwellConfig;
+  /** Text generation via the connected client's model (MCP sampling), when the transport and client support it */
+  sample?: Sampler;
+  /** Configured LLM endpoint (config.llm) for drafting and enrichment */
+  llm?: LlmProvider;
+  /** Embedder for semantic search (config.embeddings); the built-in hashing embedder when unset */
+  embedder?: Embedder;
+  /** Page fetcher for source capture; plain HTTP fetch when unset */
+  fetcher?: Fetcher;
+}
+
+// Text generation
+
+export interface SamplingMessage {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+export interface SamplingRequest {
+  systemPrompt?: string;
+  messages: SamplingMessage[];
+  maxTokens: number;
+  temperature?: number;
+}
+
+export interface SamplingResult {
+  text: string;
+  model?: string;
+  stopReason?: string;
+}
+
+export type Sampler = (request: SamplingRequest) => Promise<SamplingResult>;
+
+/** Turns text into fixed-length, unit-length vectors */
+export interface Embedder {
+  /** Stored with each vector so switching embedders never mixes vector spaces */
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/** A page fetched for source capture */
+export interface FetchedPage {
+  /** URL after redirects */
+  url: string;
+  status: number;
+  contentType: string | null;
+  body: string;
+}
+
+/** Fetches a URL for source capture — swap in one serving local fixtures for tests */
+export type Fetcher = (url: string) => Promise<FetchedPage>;
+
+/** A text-generation backend the server calls directly (as opposed to MCP sampling via the client) */
+export interface LlmProvider {
+  readonly model: string;
+  complete(request: SamplingRequest): Promise<SamplingResult>;
 }
 
 export interface InkwellConfig {
@@ -20,6 +75,59 @@ export interface InkwellConfig {
     ownerKey?: string;
   };
   tagPatterns?: TagPattern[];
+  /** Allowed tag categories (default: platform, business, trend, tech, event) */
+  tagCategories?: string[];
+  /** OpenAI-compatible chat completions endpoint (llama.cpp, Ollama, vLLM…) for drafting and enrichment */
+  llm?: {
+    /** Base URL including the API version, e.g. http://localhost:11434/v1 */
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+    temperature?: number;
+    /** Per-request timeout (default 120000) */
+    timeoutMs?: number;
+  };
+  /** OpenAI-compatible /embeddings endpoint for semantic search (default: built-in offline hashing embedder) */
+  embeddings?: {
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+  };
+  /** Connectors run by `inkwell-mcp sync` and `serve --sync-interval` */
+  sync?: {
+    /** Minutes between scheduled runs under `serve`; unset = no schedule unless --sync-interval is passed */
+    intervalMinutes?: number;
+    /** Days behind the cursor re-fetched on each run, so open rates of recent sends keep updating (default 7) */
+    lookbackDays?: number;
+    connectors: SyncConnectorConfig[];
+  };
+  /** Publishing cadence for the editorial calendar: one slot per listed weekday */
+  calendar?: {
+    /** Days an edition goes out (default ["Tuesday"]) */
+    weekdays?: string[];
+    /** Send time, HH:MM (default "08:00") */
+    time?: string;
+    /** IANA time zone of weekdays and time (default "UTC") */
+    timeZone?: string;
+  };
+  /** Subscriber-level data imported from platform exports (Substack delivers/opens CSVs) */
+  subscribers?: {
+    /** Store a salted SHA-256 of each address instead of the address (default true) */
+    hashEmails?: boolean;
+    /** Secret mixed into the hash, so it can't be matched against a list of known addresses (default: random, generated on the first import and stored in the database) */
+    hashSalt?: string;
+  };
+}
+
+/** Credentials for one platform account; import_newsletter also falls back to these */
+export interface SyncConnectorConfig {
+  platform: 'substack' | 'beehiiv' | 'ghost' | 'kit' | 'rss' | 'markdown';
+  apiKey?: string;
+  apiUrl?: string;
+  publicationId?: string;
+  exportPath?: string;
+  /** Run enrichment on synced posts (default true) */
+  enrich?: boolean;
 }
 
 export interface TagPattern {
@@ -28,8 +136,14 @@ export interface TagPattern {
   pattern: string;
 }
 
+export type Role = 'owner' | 'editor' | 'contributor' | 'readonly' | 'public';
+
 export interface AuthContext {
-  role: 'owner' | 'public';
+  role: Role;
+  /** Set when the caller authenticated with a user API key */
+  userId?: string;
+  userName?: string;
+  keyId?: string;
 }
 
 export interface McpTool {
@@ -79,9 +193,13 @@ export interface OrderBy {
 export type Row = Record<string, unknown>;
 
 export interface DatabaseAdapter {
+  /** SQL dialect of the database behind raw(), for the few queries that differ (full-text search) */
+  readonly dialect: 'sqlite' | 'postgres';
   query(opts: QueryOptions): Promise<Row[]>;
   queryOne(opts: QueryOptions): Promise<Row | null>;
   insert(table: string, data: Row): Promise<Row>;
+  /** Insert many rows at once (one transaction or batched requests); returns how many were inserted */
+  insertMany(table: string, rows: Row[]): Promise<number>;
   update(table: string, filters: Filter[], data: Row): Promise<Row[]>;
   delete(table: string, filters: Filter[]): Promise<Row[]>;
   count(table: string, filters?: Filter[]): Promise<number>;
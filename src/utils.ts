@@ -26,7 +26,8 @@ export function formatNoteMd(n: Row): string {
   const tags = Array.isArray(n.tags) ? n.tags : parseJsonArray(n.tags);
   const tagsStr = tags.length ? ` [${tags.join(', ')}]` : '';
   const prio = n.priority !== 3 ? ` P${n.priority}` : '';
-  return `- **[${String(n.type).toUpperCase()}]** ${n.content}\n  _${article}${prio} | ${n.status}${tagsStr} | ${n.id}_`;
+  const source = n.source_id ? ` | source ${n.source_id}` : '';
+  return `- **[${String(n.type).toUpperCase()}]** ${n.content}\n  _${article}${prio} | ${n.status}${tagsStr}${source} | ${n.id}_`;
 }
 
 export function formatSourceMd(s: Row): string {
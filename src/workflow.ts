@@ -0,0 +1,107 @@
+/**
+ * Article editorial workflow.
+ * idea → drafting → in_review → scheduled → published → archived
+ */
+
+import type { AuthContext, Env, Row } from './types.js';
+import { hasPermission } from './auth.js';
+import { markCitedSourcesUsed } from './citations.js';
+
+export type ArticleStatus = 'idea' | 'drafting' | 'in_review' | 'scheduled' | 'published' | 'archived';
+
+export const ARTICLE_STATUSES: ArticleStatus[] = ['idea', 'drafting', 'in_review', 'scheduled', 'published', 'archived'];
+
+/** Allowed next statuses for each status */
+export const TRANSITIONS: Record<ArticleStatus, ArticleStatus[]> = {
+  idea:      ['drafting', 'archived'],
+  drafting:  ['idea', 'in_review', 'archived'],
+  in_review: ['drafting', 'scheduled', 'published', 'archived'],
+  scheduled: ['in_review', 'published', 'archived'],
+  published: ['archived'],
+  archived:  ['idea', 'drafting'],
+};
+
+/** Statuses that only holders of articles:write (editors) may move articles into or out of */
+const EDITOR_STATUSES: ArticleStatus[] = ['scheduled', 'published', 'archived'];
+
+export function canTransition(from: ArticleStatus, to: ArticleStatus): boolean {
+  return TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/** Scheduled, published and archived articles can only be edited by editors */
+export function assertCanEdit(ctx: AuthContext | null, article: Row): void {
+  if (EDITOR_STATUSES.includes(String(article.status) as ArticleStatus) && !hasPermission(ctx, 'articles:write')) {
+    throw { code: 403, message: `Only editors can edit ${article.status} articles` };
+  }
+}
+
+/** Label for history entries: user name, or role when acting without a user key */
+export function actorName(ctx: AuthContext | null): string {
+  return ctx?.userName ?? ctx?.role ?? 'system';
+}
+
+export async function recordStatusChange(
+  env: Env,
+  ctx: AuthContext | null,
+  articleId: string,
+  from: string | null,
+  to: string,
+  note?: string,
+): Promise<Row> {
+  return env.db.insert('article_status_history', {
+    article_id: articleId,
+    from_status: from,
+    to_status: to,
+    changed_by: ctx?.userId ?? null,
+    changed_by_name: actorName(ctx),
+    note: note ?? null,
+  });
+}
+
+/**
+ * Move an article to a new status, enforcing the workflow and role rules.
+ * Publishing stamps published_at if it isn't set yet and marks the sources the article cites as used.
+ */
+export async function transitionArticle(
+  env: Env,
+  ctx: AuthContext | null,
+  articleId: string,
+  to: string,
+  note?: string,
+): Promise<{ article: Row; history: Row; sourcesMarked: Row[] }> {
+  if (!ARTICLE_STATUSES.includes(to as ArticleStatus)) {
+    throw { code: 400, message: `Invalid status "${to}". Expected one of: ${ARTICLE_STATUSES.join(', ')}` };
+  }
+
+  const article = await env.db.queryOne({
+    table: 'articles',
+    filters: [{ column: 'id', op: 'eq', value: articleId }],
+  });
+  if (!article) throw { code: 404, message: 'Article not found' };
+
+  const from = String(article.status) as ArticleStatus;
+  const target = to as ArticleStatus;
+
+  if (from === target) {
+    throw { code: 400, message: `Article is already ${target}` };
+  }
+  if (!canTransition(from, target)) {
+    throw {
+      code: 409,
+      message: `Cannot move article from ${from} to ${target}. Allowed: ${TRANSITIONS[from].join(', ') || 'none'}`,
+    };
+  }
+  if ((EDITOR_STATUSES.includes(from) || EDITOR_STATUSES.includes(target)) && !hasPermission(ctx, 'articles:write')) {
+    throw { code: 403, message: `Only editors can move articles ${EDITOR_STATUSES.includes(target) ? `to ${target}` : `out of ${from}`}` };
+  }
+
+  const now = new Date().toISOString();
+  const patch: Record<string, unknown> = { status: target, updated_at: now };
+  if (target === 'published' && !article.published_at) patch.published_at = now;
+
+  const rows = await env.db.update('articles', [{ column: 'id', op: 'eq', value: articleId }], patch);
+  const history = await recordStatusChange(env, ctx, articleId, from, target, note);
+  const sourcesMarked = target === 'published' ? await markCitedSourcesUsed(env, rows[0]) : [];
+
+  return { article: rows[0], history, sourcesMarked };
+}
@@ -0,0 +1,47 @@
+-- Inkwell MCP — raw SQL bridge for PostgrestAdapter.raw()
+-- Fills $1..$n from a JSON array as quoted literals and returns each row as jsonb.
+-- Only the service role may call it.
+
+CREATE OR REPLACE FUNCTION inkwell_sql(query text, params jsonb DEFAULT '[]'::jsonb)
+RETURNS SETOF jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- The text between placeholders, and the placeholder numbers in order of appearance
+  pieces text[] := regexp_split_to_array(query, '\$[0-9]+');
+  refs int[] := ARRAY(
+    SELECT r.m[1]::int FROM regexp_matches(query, '\$([0-9]+)', 'g') WITH ORDINALITY AS r(m, n) ORDER BY r.n
+  );
+  stmt text := pieces[1];
+  k int;
+  p jsonb;
+BEGIN
+  -- One pass over the query as written: values are appended between the pieces, never
+  -- searched again, so a value containing "$1" or a backslash stays as it is
+  FOR k IN 1..coalesce(array_length(refs, 1), 0) LOOP
+    p := params -> (refs[k] - 1);
+    IF p IS NULL THEN
+      RAISE EXCEPTION 'inkwell_sql: no value for $%', refs[k];
+    END IF;
+    stmt := stmt || CASE jsonb_typeof(p)
+      WHEN 'null' THEN 'NULL'
+      WHEN 'number' THEN '(' || (p #>> '{}') || ')'
+      WHEN 'boolean' THEN p #>> '{}'
+      ELSE quote_literal(p #>> '{}')
+    END || pieces[k + 1];
+  END LOOP;
+
+  IF stmt ~* '^\s*(SELECT|WITH)\s' THEN
+    RETURN QUERY EXECUTE format('SELECT to_jsonb(t) FROM (%s) t', stmt);
+  ELSIF stmt ~* '\sRETURNING\s' THEN
+    RETURN QUERY EXECUTE format('WITH t AS (%s) SELECT to_jsonb(t) FROM t', stmt);
+  ELSE
+    EXECUTE stmt;
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION inkwell_sql(text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION inkwell_sql(text, jsonb) TO service_role;
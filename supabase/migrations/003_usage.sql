@@ -0,0 +1,19 @@
+-- Inkwell MCP — Usage tracking (Postgres)
+
+CREATE TABLE IF NOT EXISTS usage_stats (
+  id TEXT PRIMARY KEY DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  tool_name TEXT NOT NULL,
+  timestamp TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS search_queries (
+  id TEXT PRIMARY KEY DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  tool_name TEXT NOT NULL,
+  query TEXT NOT NULL,
+  result_count INTEGER,
+  timestamp TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_tool ON usage_stats(tool_name);
+CREATE INDEX IF NOT EXISTS idx_usage_ts ON usage_stats(timestamp);
+CREATE INDEX IF NOT EXISTS idx_search_ts ON search_queries(timestamp);
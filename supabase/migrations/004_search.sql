@@ -0,0 +1,27 @@
+-- Inkwell MCP — Full-text search (Postgres)
+-- Generated tsvector columns with GIN indexes, the equivalent of the SQLite FTS5 tables.
+-- The search and search_articles tools match them with to_tsquery('simple', …).
+
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(subtitle, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(editorial_angle, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(content, '')), 'C')
+  ) STORED;
+
+ALTER TABLE editorial_notes ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    to_tsvector('simple', coalesce(content, '') || ' ' || coalesce(tags::text, ''))
+  ) STORED;
+
+ALTER TABLE editorial_sources ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(key_quotes, '')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_articles_search ON articles USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_notes_search ON editorial_notes USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_sources_search ON editorial_sources USING GIN (search_vector);
@@ -0,0 +1,21 @@
+-- Inkwell MCP — Article editorial workflow (Postgres)
+-- idea → drafting → in_review → scheduled → published → archived, with status history
+
+ALTER TABLE articles DROP CONSTRAINT IF EXISTS articles_status_check;
+UPDATE articles SET status = 'drafting' WHERE status = 'draft';
+ALTER TABLE articles ALTER COLUMN status SET DEFAULT 'idea';
+ALTER TABLE articles ADD CONSTRAINT articles_status_check
+  CHECK (status IN ('idea', 'drafting', 'in_review', 'scheduled', 'published', 'archived'));
+
+CREATE TABLE IF NOT EXISTS article_status_history (
+  id TEXT PRIMARY KEY DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  article_id TEXT NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  changed_by_name TEXT,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_status_history_article ON article_status_history(article_id, created_at);
@@ -0,0 +1,18 @@
+-- Article revision history: a snapshot of title/subtitle/content after every change
+
+CREATE TABLE IF NOT EXISTS article_revisions (
+  id TEXT PRIMARY KEY DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  article_id TEXT NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  revision INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  subtitle TEXT,
+  content TEXT,
+  source TEXT NOT NULL DEFAULT 'edit' CHECK (source IN ('baseline', 'create', 'edit', 'import', 'restore')),
+  created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  created_by_name TEXT,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (article_id, revision)
+);
+
+CREATE INDEX IF NOT EXISTS idx_revisions_article ON article_revisions(article_id, revision);
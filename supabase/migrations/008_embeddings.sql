@@ -0,0 +1,16 @@
+-- Embedding vectors for semantic search across articles, notes and sources
+
+CREATE TABLE IF NOT EXISTS embeddings (
+  id TEXT PRIMARY KEY DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  item_type TEXT NOT NULL CHECK (item_type IN ('article', 'note', 'source')),
+  item_id TEXT NOT NULL,
+  model TEXT NOT NULL,
+  dimensions INTEGER NOT NULL,
+  vector JSONB NOT NULL, -- array of floats (unit length)
+  content_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (item_type, item_id, model)
+);
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_model ON embeddings(model, item_type);
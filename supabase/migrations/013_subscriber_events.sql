@@ -0,0 +1,34 @@
+-- Subscriber-level data from platform exports (Substack email_list.*.csv and the per-post
+-- delivers/opens CSVs). subscriber_key is the lower-cased address, or a salted SHA-256 of it
+-- when subscribers.hashEmails is on (the default) — then email stays NULL.
+
+CREATE TABLE IF NOT EXISTS subscribers (
+  id TEXT PRIMARY KEY DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  platform TEXT NOT NULL,
+  subscriber_key TEXT NOT NULL,
+  email TEXT,
+  subscribed_at TIMESTAMPTZ,
+  plan TEXT,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'inactive')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(platform, subscriber_key)
+);
+
+-- One row per delivery and per open (re-opens included)
+CREATE TABLE IF NOT EXISTS subscriber_events (
+  id TEXT PRIMARY KEY DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  platform TEXT NOT NULL,
+  subscriber_key TEXT NOT NULL,
+  external_post_id TEXT NOT NULL,
+  article_id TEXT REFERENCES articles(id) ON DELETE SET NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('delivered', 'opened')),
+  occurred_at TIMESTAMPTZ NOT NULL,
+  country TEXT,
+  device TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscriber_events_post ON subscriber_events(platform, external_post_id, event_type);
+CREATE INDEX IF NOT EXISTS idx_subscriber_events_subscriber ON subscriber_events(subscriber_key, event_type, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_subscriber_events_article ON subscriber_events(article_id);
@@ -0,0 +1,23 @@
+-- Captured copies of saved sources: readable text and page metadata, one row per distinct
+-- version (content_hash of the text). checked_at moves when a refresh finds no change.
+
+CREATE TABLE IF NOT EXISTS source_snapshots (
+  id TEXT PRIMARY KEY DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  source_id TEXT NOT NULL REFERENCES editorial_sources(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  final_url TEXT,
+  http_status INTEGER,
+  content_hash TEXT NOT NULL,
+  title TEXT,
+  author TEXT,
+  published_at TIMESTAMPTZ,
+  site_name TEXT,
+  description TEXT,
+  text TEXT NOT NULL,
+  word_count INTEGER NOT NULL DEFAULT 0,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  checked_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_source_snapshots_source ON source_snapshots(source_id, fetched_at);
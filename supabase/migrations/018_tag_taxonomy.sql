@@ -0,0 +1,7 @@
+-- Inkwell MCP — Tag hierarchy and configurable categories (Postgres)
+-- Categories are validated against config.tagCategories instead of a fixed CHECK list.
+
+ALTER TABLE tags DROP CONSTRAINT IF EXISTS tags_category_check;
+ALTER TABLE tags ADD COLUMN IF NOT EXISTS parent_id TEXT REFERENCES tags(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tags_parent ON tags(parent_id);
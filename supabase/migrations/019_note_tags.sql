@@ -0,0 +1,42 @@
+-- Inkwell MCP — Note tags in the tags table (Postgres)
+-- note_tags replaces matching on the JSONB editorial_notes.tags column, which now only mirrors
+-- the tag names for full-text search. Existing note tags become tags (case-insensitive).
+
+CREATE TABLE IF NOT EXISTS note_tags (
+  note_id TEXT NOT NULL REFERENCES editorial_notes(id) ON DELETE CASCADE,
+  tag_id TEXT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  PRIMARY KEY (note_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_note_tags_tag ON note_tags(tag_id);
+
+-- Tag names per note. A tags value that is a JSON string rather than an array is read as a
+-- comma-separated list, so no tag is lost.
+CREATE TEMP TABLE note_tag_names AS
+SELECT n.id AS note_id, trim(j.value) AS name
+FROM editorial_notes n
+CROSS JOIN LATERAL (
+  SELECT value FROM jsonb_array_elements_text(CASE WHEN jsonb_typeof(n.tags) = 'array' THEN n.tags ELSE '[]'::jsonb END)
+  UNION ALL
+  SELECT regexp_split_to_table(CASE WHEN jsonb_typeof(n.tags) = 'string' THEN n.tags #>> '{}' ELSE '' END, ',')
+) j(value)
+WHERE trim(j.value) <> '';
+
+INSERT INTO tags (name)
+SELECT MIN(name)
+FROM note_tag_names
+WHERE lower(name) NOT IN (SELECT lower(name) FROM tags)
+GROUP BY lower(name);
+
+-- tags.name is case-sensitive, so "AI" and "ai" can both exist; link to one tag per spelling
+INSERT INTO note_tags (note_id, tag_id)
+SELECT DISTINCT nn.note_id, t.id
+FROM note_tag_names nn
+JOIN (SELECT lower(name) AS name_key, MIN(id) AS id FROM tags GROUP BY lower(name)) t ON t.name_key = lower(nn.name)
+ON CONFLICT DO NOTHING;
+
+DROP TABLE note_tag_names;
+
+UPDATE editorial_notes
+SET tags = (SELECT jsonb_agg(t.name) FROM note_tags nt JOIN tags t ON t.id = nt.tag_id WHERE nt.note_id = editorial_notes.id)
+WHERE id IN (SELECT note_id FROM note_tags);
@@ -0,0 +1,9 @@
+-- Inkwell MCP — Editorial calendar (Postgres)
+-- When an article is planned to go out, when its draft is due, and who is writing it.
+
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS scheduled_for TIMESTAMPTZ;
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS due_at TIMESTAMPTZ;
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS assignee TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_articles_scheduled_for ON articles(scheduled_for);
+CREATE INDEX IF NOT EXISTS idx_articles_due_at ON articles(due_at);
@@ -0,0 +1,145 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { deflateRawSync } from 'zlib';
+import { openZip } from '../src/connectors/archive.js';
+
+// --- A minimal ZIP writer for fixtures ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let c = 0xffffffff;
+  for (const byte of data) c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+interface Fixture {
+  name: string;
+  text: string;
+  deflate?: boolean;
+}
+
+function buildZip(files: Fixture[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const file of files) {
+    const raw = Buffer.from(file.text, 'utf-8');
+    const data = file.deflate ? deflateRawSync(raw) : raw;
+    const name = Buffer.from(file.name, 'utf-8');
+    const method = file.deflate ? 8 : 0;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(crc32(raw), 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(crc32(raw), 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(files.length, 8);
+  eocd.writeUInt16LE(files.length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, eocd]);
+}
+
+const CSV = 'email,active\n"a@example.com",true\n';
+const POST = '<p>Hello, world — déjà vu</p>\n'.repeat(20);
+
+/** Open and read every entry; any failure must be a clean "Invalid ZIP archive" error */
+function readAll(buf: Buffer): void {
+  const files = openZip(buf);
+  for (const path of files.list()) files.read(path);
+}
+
+function assertInvalid(buf: Buffer): void {
+  assert.throws(() => readAll(buf), /^Error: Invalid ZIP archive: /);
+}
+
+test('reads a stored entry', () => {
+  const files = openZip(buildZip([{ name: 'email_list.csv', text: CSV }]));
+  assert.deepEqual(files.list(), ['email_list.csv']);
+  assert.equal(files.read('email_list.csv'), CSV);
+});
+
+test('reads a deflated entry next to a stored one', () => {
+  const files = openZip(buildZip([
+    { name: 'posts.csv', text: CSV },
+    { name: 'posts/1.html', text: POST, deflate: true },
+  ]));
+  assert.deepEqual(files.list(), ['posts.csv', 'posts/1.html']);
+  assert.equal(files.read('posts/1.html'), POST);
+  assert.equal(files.read('missing.csv'), null);
+});
+
+test('rejects input without an end of central directory', () => {
+  assertInvalid(Buffer.alloc(0));
+  assertInvalid(Buffer.from('not a zip at all'));
+});
+
+test('a truncated archive fails as an invalid ZIP, at every cut', () => {
+  const zip = buildZip([
+    { name: 'posts.csv', text: CSV },
+    { name: 'posts/1.html', text: POST, deflate: true },
+  ]);
+  const eocd = zip.subarray(zip.length - 22);
+  for (let cut = 0; cut < zip.length - 22; cut++) {
+    // Dropping the tail loses the directory; keeping the directory record but cutting before it
+    // leaves offsets that point past the end
+    assertInvalid(zip.subarray(0, cut));
+    assertInvalid(Buffer.concat([zip.subarray(0, cut), eocd]));
+  }
+});
+
+test('offsets and sizes pointing outside the archive are rejected', () => {
+  const zip = buildZip([{ name: 'posts.csv', text: CSV }]);
+  const centralAt = zip.readUInt32LE(zip.length - 22 + 16);
+
+  const badDirectory = Buffer.from(zip);
+  badDirectory.writeUInt32LE(0x7fffffff, zip.length - 22 + 16);
+  assertInvalid(badDirectory);
+
+  const badSize = Buffer.from(zip);
+  badSize.writeUInt32LE(0x7fffffff, centralAt + 20);
+  assertInvalid(badSize);
+
+  const badLocal = Buffer.from(zip);
+  badLocal.writeUInt32LE(0x7fffffff, centralAt + 42);
+  assertInvalid(badLocal);
+
+  const badName = Buffer.from(zip);
+  badName.writeUInt16LE(0xffff, centralAt + 28);
+  assertInvalid(badName);
+});
+
+test('corrupt deflate data is reported as an invalid ZIP', () => {
+  const zip = buildZip([{ name: 'posts/1.html', text: POST, deflate: true }]);
+  const dataAt = 30 + 'posts/1.html'.length;
+  zip.fill(0xff, dataAt, dataAt + 8);
+  assertInvalid(zip);
+});
@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SqliteAdapter } from '../src/db/sqlite.js';
+import { handleJsonRpc } from '../src/mcp.js';
+import { loadConfig } from '../src/config.js';
+import type { AuthContext, Env, Row } from '../src/types.js';
+
+const OWNER: AuthContext = { role: 'owner' };
+const PUBLIC: AuthContext = { role: 'public' };
+
+async function callTool(env: Env, ctx: AuthContext, name: string, args: Record<string, unknown>): Promise<Record<string, unknown>> {
+  const res = await handleJsonRpc({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } }, ctx, env);
+  if (res.error) throw new Error(res.error.message);
+  const content = (res.result as { content: Array<{ text: string }>; isError?: boolean }).content;
+  const text = content[0].text;
+  if ((res.result as { isError?: boolean }).isError) throw new Error(text);
+  return JSON.parse(text);
+}
+
+async function setup(): Promise<{ env: Env; published: string; draft: string }> {
+  const db = new SqliteAdapter(':memory:');
+  db.migrate();
+  const env: Env = { db, config: loadConfig({}) };
+  const published = await db.insert('articles', { title: 'Rail freight is back', status: 'published', published_at: '2026-03-04T09:30:00Z', content: '<p>Out</p>', scheduled_for: '2026-03-04T09:00:00Z', due_at: '2026-03-02T17:00:00Z', assignee: 'Ada' });
+  await db.insert('article_status_history', { article_id: published.id, from_status: 'scheduled', to_status: 'published', changed_by_name: 'Ada' });
+  await db.insert('article_publications', { article_id: published.id, platform: 'ghost', external_id: 'g1', status: 'draft' });
+  const draft = await db.insert('articles', { title: 'Secret scoop', status: 'drafting', content: 'Not yet' });
+  return { env, published: String(published.id), draft: String(draft.id) };
+}
+
+test('public callers only list published articles', async () => {
+  const { env } = await setup();
+  const pub = await callTool(env, PUBLIC, 'list_articles', {});
+  assert.deepEqual((pub.articles as Array<{ title: string }>).map(a => a.title), ['Rail freight is back']);
+  const drafts = await callTool(env, PUBLIC, 'list_articles', { status: 'drafting' });
+  assert.equal(drafts.count, 0);
+
+  const owner = await callTool(env, OWNER, 'list_articles', {});
+  assert.equal(owner.count, 2);
+});
+
+test('get_article hides drafts, status history and platform drafts from public callers', async () => {
+  const { env, published, draft } = await setup();
+  await assert.rejects(callTool(env, PUBLIC, 'get_article', { id: draft }), /Article not found/);
+
+  const pub = await callTool(env, PUBLIC, 'get_article', { id: published });
+  assert.equal(pub.title, 'Rail freight is back');
+  assert.equal(pub.status_history, undefined);
+  assert.equal(pub.publications, undefined);
+
+  const owner = await callTool(env, OWNER, 'get_article', { id: published });
+  assert.equal((owner.status_history as unknown[]).length, 1);
+  assert.equal((owner.publications as unknown[]).length, 1);
+  assert.equal((await callTool(env, OWNER, 'get_article', { id: draft })).title, 'Secret scoop');
+});
+
+test('public callers get no send dates, deadlines or assignees', async () => {
+  const { env, published } = await setup();
+  const planning = ['scheduled_for', 'due_at', 'assignee'];
+
+  const list = await callTool(env, PUBLIC, 'list_articles', {});
+  for (const field of planning) assert.equal(field in (list.articles as Row[])[0], false, field);
+  await assert.rejects(callTool(env, PUBLIC, 'list_articles', { assignee: 'Ada' }), /editorial:read/);
+
+  const pub = await callTool(env, PUBLIC, 'get_article', { id: published });
+  for (const field of planning) assert.equal(field in pub, false, field);
+  assert.doesNotMatch(String(pub.markdown), /Ada|Plan:/);
+
+  const owner = await callTool(env, OWNER, 'get_article', { id: published });
+  assert.equal(owner.assignee, 'Ada');
+  assert.match(String(owner.markdown), /assigned to Ada/);
+  assert.equal(((await callTool(env, OWNER, 'list_articles', { assignee: 'ada' })).articles as Row[]).length, 1);
+});
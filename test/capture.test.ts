@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'url';
+import { fetchPage, fileFetcher, httpFetcher, isPublicAddress } from '../src/capture.js';
+import { SqliteAdapter } from '../src/db/sqlite.js';
+import { handleJsonRpc } from '../src/mcp.js';
+import { loadConfig } from '../src/config.js';
+import type { Env } from '../src/types.js';
+
+// Compiled to dist-test/test/, so the fixtures are two levels up
+const fixture = (name: string) => fileURLToPath(new URL(`../../test/fixtures/${name}`, import.meta.url));
+
+const URL_A = 'https://transit.example/rail-freight';
+
+function testEnv(files: Record<string, string>): Env {
+  const db = new SqliteAdapter(':memory:');
+  db.migrate();
+  return { db, config: loadConfig({}), fetcher: fileFetcher(files) };
+}
+
+async function callTool(env: Env, name: string, args: Record<string, unknown>): Promise<Record<string, unknown>> {
+  const res = await handleJsonRpc({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } }, { role: 'owner' }, env);
+  assert.equal(res.error, undefined, res.error?.message);
+  const content = (res.result as { content: Array<{ text: string }> }).content;
+  return JSON.parse(content[0].text);
+}
+
+test('extracts text and metadata from an HTML fixture', async () => {
+  const { page, extracted } = await fetchPage(testEnv({ [URL_A]: fixture('article.html') }), URL_A);
+  assert.equal(page.status, 200);
+  assert.equal(extracted.title, 'Rail freight is back');
+  assert.equal(extracted.author, 'Ada Moreau');
+  assert.equal(extracted.published_at, '2026-03-04T09:30:00.000Z');
+  assert.equal(extracted.site_name, 'The Transit Desk');
+  assert.match(extracted.text, /grew 12% last year/);
+  assert.match(extracted.text, /fuel costs & new carbon rules/);
+  assert.doesNotMatch(extracted.text, /About us|tracking|font-family|All rights reserved/);
+});
+
+test('a missing fixture is reported as a failed fetch', async () => {
+  await assert.rejects(fetchPage(testEnv({}), URL_A), { code: 502 });
+});
+
+test('save_source captures the page and refresh_source diffs the new version', async () => {
+  const files = { [URL_A]: fixture('article.html') };
+  const env = testEnv(files);
+
+  const saved = await callTool(env, 'save_source', { url: URL_A, capture: true });
+  assert.equal(saved.title, 'Rail freight is back');
+
+  const unchanged = await callTool(env, 'refresh_source', { id: saved.id });
+  assert.equal(unchanged.changed, false);
+
+  files[URL_A] = fixture('article-updated.html');
+  const changed = await callTool(env, 'refresh_source', { id: saved.id });
+  assert.equal(changed.changed, true);
+  assert.match(String(changed.diff), /-.*grew 12%/);
+  assert.match(String(changed.diff), /\+.*grew 15%/);
+});
+
+test('httpFetcher only fetches http and https URLs', async () => {
+  for (const url of ['file:///etc/passwd', 'ftp://transit.example/', 'gopher://transit.example/']) {
+    await assert.rejects(httpFetcher(url), /Only http and https URLs/);
+  }
+});
+
+test('httpFetcher refuses loopback, private and link-local targets', async () => {
+  for (const url of [
+    'http://127.0.0.1/',
+    'http://2130706433/',
+    'http://[::1]/',
+    'http://[::ffff:127.0.0.1]/',
+    'http://10.0.0.8/',
+    'http://192.168.1.1/admin',
+    'http://169.254.169.254/latest/meta-data/',
+    'http://[fe80::1]/',
+  ]) {
+    await assert.rejects(httpFetcher(url), /private address/, url);
+  }
+  // Names are checked after DNS resolution
+  await assert.rejects(httpFetcher('http://localhost:9/'), /localhost resolves to a private address/);
+});
+
+test('isPublicAddress', () => {
+  for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700::1111', '::ffff:8.8.8.8']) {
+    assert.equal(isPublicAddress(address), true, address);
+  }
+  for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.0.1', '100.64.0.1', '169.254.169.254', '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:10.0.0.1', 'not-an-ip']) {
+    assert.equal(isPublicAddress(address), false, address);
+  }
+});
@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCsv, parseCsvRows } from '../src/connectors/csv.js';
+
+test('quoted fields keep commas, doubled quotes and line breaks', () => {
+  const rows = parseCsvRows('title,body\n"Hello, world","She said ""hi""\nthen left"\n');
+  assert.deepEqual(rows, [
+    ['title', 'body'],
+    ['Hello, world', 'She said "hi"\nthen left'],
+  ]);
+});
+
+test('a leading BOM is dropped from the first header', () => {
+  const records = parseCsv('\uFEFFemail,active\na@example.com,true\n');
+  assert.deepEqual(records, [{ email: 'a@example.com', active: 'true' }]);
+});
+
+test('CRLF line endings, also inside quoted fields', () => {
+  const rows = parseCsvRows('a,b\r\n1,"x\r\ny"\r\n2,z\r\n');
+  assert.deepEqual(rows, [['a', 'b'], ['1', 'x\r\ny'], ['2', 'z']]);
+});
+
+test('blank lines are skipped and missing trailing fields are empty', () => {
+  const records = parseCsv('a,b,c\n\n1,2\n\n');
+  assert.deepEqual(records, [{ a: '1', b: '2', c: '' }]);
+});
+
+test('a last row without a newline is kept', () => {
+  assert.deepEqual(parseCsvRows('a,b\n1,2'), [['a', 'b'], ['1', '2']]);
+});
@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AUTO_CONFIRM, findExpertMentions, linkExpertMentions } from '../src/connectors/expert-matching.js';
+import type { ExpertCandidate } from '../src/connectors/expert-matching.js';
+import { SqliteAdapter } from '../src/db/sqlite.js';
+
+const SMITH: ExpertCandidate = { id: 'e1', name: 'John Smith', affiliation: 'Rail Freight Institute', aliases: [{ alias: '@jsmith', kind: 'handle' }] };
+
+test('a full name without the affiliation in the text stays below AUTO_CONFIRM', () => {
+  const [m] = findExpertMentions('John Smith thinks rail volumes will keep growing.', [SMITH]);
+  assert.equal(m.matchedOn, 'John Smith');
+  assert.ok(m.confidence < AUTO_CONFIRM, String(m.confidence));
+
+  const noAffiliation = findExpertMentions('John Smith thinks so.', [{ ...SMITH, affiliation: null }]);
+  assert.ok(noAffiliation[0].confidence < AUTO_CONFIRM);
+});
+
+test('the affiliation next to the name, or a handle, confirms the match', () => {
+  const [near] = findExpertMentions('John Smith of the Rail Freight Institute thinks so.', [SMITH]);
+  assert.ok(near.confidence >= AUTO_CONFIRM);
+
+  const [handle] = findExpertMentions('As @jsmith put it on Friday.', [SMITH]);
+  assert.equal(handle.matchedOn, '@jsmith');
+  assert.ok(handle.confidence >= AUTO_CONFIRM);
+});
+
+test('a name-only match is linked as pending', async () => {
+  const db = new SqliteAdapter(':memory:');
+  db.migrate();
+  const expert = await db.insert('experts', { name: 'John Smith', affiliation: 'Rail Freight Institute' });
+  const article = await db.insert('articles', { title: 'Freight', status: 'published' });
+
+  assert.deepEqual(await linkExpertMentions(db, String(article.id), 'John Smith thinks so.'), { confirmed: 0, pending: 1 });
+  const link = await db.queryOne({ table: 'article_experts', filters: [{ column: 'expert_id', op: 'eq', value: String(expert.id) }] });
+  assert.equal(link?.status, 'pending');
+  assert.equal((await db.queryOne({ table: 'experts', filters: [{ column: 'id', op: 'eq', value: String(expert.id) }] }))?.times_cited, 0);
+  db.close();
+});
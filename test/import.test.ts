@@ -0,0 +1,68 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { SqliteAdapter } from '../src/db/sqlite.js';
+import { handleJsonRpc } from '../src/mcp.js';
+import { loadConfig } from '../src/config.js';
+import type { Env, InkwellConfig, Row } from '../src/types.js';
+
+// A Ghost Content API stand-in with one post; records the filter of every posts request
+let server: Server;
+let base: string;
+let filters: string[] = [];
+
+before(async () => {
+  server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://stub');
+    if (url.searchParams.has('filter')) filters.push(url.searchParams.get('filter')!);
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      posts: [{ id: 'g1', title: 'Rail freight is back', html: '<p>Out</p>', published_at: '2026-03-04T09:30:00.000Z', updated_at: '2026-03-10T12:00:00.000Z' }],
+      meta: { pagination: { pages: 1 } },
+    }));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+async function importGhost(env: Env, args: Record<string, unknown> = {}): Promise<Row> {
+  const res = await handleJsonRpc({
+    jsonrpc: '2.0', id: 1, method: 'tools/call',
+    params: { name: 'import_newsletter', arguments: { platform: 'ghost', api_url: base, api_key: 'content-key', enrich: false, ...args } },
+  }, { role: 'owner' }, env);
+  if (res.error) throw new Error(res.error.message);
+  const result = res.result as { content: Array<{ text: string }>; isError?: boolean };
+  if (result.isError) throw new Error(result.content[0].text);
+  return JSON.parse(result.content[0].text);
+}
+
+function setup(config: Partial<InkwellConfig> = {}): Env {
+  filters = [];
+  const db = new SqliteAdapter(':memory:');
+  db.migrate();
+  return { db, config: loadConfig(config) };
+}
+
+test('a re-import re-fetches the lookback before the saved cursor', async () => {
+  const env = setup();
+  const first = await importGhost(env);
+  assert.equal(first.cursor, '2026-03-10T12:00:00.000Z');
+
+  const second = await importGhost(env);
+  assert.equal(second.since, '2026-03-03T12:00:00.000Z');
+  assert.deepEqual(filters, ['status:published', "status:published+updated_at:>'2026-03-03T12:00:00.000Z'"]);
+  // The lookback start doesn't pull the saved cursor back
+  assert.equal(second.cursor, '2026-03-10T12:00:00.000Z');
+});
+
+test('lookback_days overrides sync.lookbackDays for one call', async () => {
+  const env = setup({ sync: { connectors: [], lookbackDays: 2 } });
+  await importGhost(env);
+  assert.equal((await importGhost(env)).since, '2026-03-08T12:00:00.000Z');
+  assert.equal((await importGhost(env, { lookback_days: 0 })).since, '2026-03-10T12:00:00.000Z');
+  await assert.rejects(importGhost(env, { lookback_days: -1 }), /lookback_days must be 0 or more/);
+});
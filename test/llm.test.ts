@@ -0,0 +1,138 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { OpenAiCompatibleProvider, createLlmProvider } from '../src/llm.js';
+import { enrichArticle } from '../src/connectors/enrichment.js';
+import { SqliteAdapter } from '../src/db/sqlite.js';
+import { handleJsonRpc } from '../src/mcp.js';
+import { loadConfig } from '../src/config.js';
+import type { Env, SamplingRequest } from '../src/types.js';
+
+interface Call {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+/** Mock completion server: answers every request with `reply(body)` */
+function mockFetch(reply: (body: Record<string, unknown>) => { status?: number; body: unknown }) {
+  const calls: Call[] = [];
+  const fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const body = JSON.parse(String(init?.body));
+    calls.push({ url: String(input), headers: init?.headers as Record<string, string>, body });
+    const res = reply(body);
+    const text = typeof res.body === 'string' ? res.body : JSON.stringify(res.body);
+    return new Response(text, { status: res.status ?? 200, headers: { 'Content-Type': 'application/json' } });
+  }) as typeof globalThis.fetch;
+  return { calls, fetch };
+}
+
+const completion = (content: unknown) => ({ body: { model: 'mock-7b', choices: [{ message: { content }, finish_reason: 'stop' }] } });
+
+const REQUEST: SamplingRequest = {
+  systemPrompt: 'Be brief.',
+  messages: [{ role: 'user', text: 'Summarize rail freight.' }],
+  maxTokens: 50,
+};
+
+test('a completion is sent as chat messages and its text returned', async () => {
+  const { calls, fetch } = mockFetch(() => completion('Rail is back.'));
+  const llm = new OpenAiCompatibleProvider({ baseUrl: 'http://mock.local/v1/', model: 'local', apiKey: 'k1', temperature: 0.4, fetch });
+
+  assert.deepEqual(await llm.complete(REQUEST), { text: 'Rail is back.', model: 'mock-7b', stopReason: 'stop' });
+  assert.equal(calls[0].url, 'http://mock.local/v1/chat/completions');
+  assert.equal(calls[0].headers.Authorization, 'Bearer k1');
+  assert.deepEqual(calls[0].body, {
+    model: 'local',
+    messages: [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: 'Summarize rail freight.' }],
+    max_tokens: 50,
+    temperature: 0.4,
+    stream: false,
+  });
+});
+
+test('a non-2xx response is an error with the status and body', async () => {
+  const { fetch } = mockFetch(() => ({ status: 503, body: 'model is loading' }));
+  const llm = new OpenAiCompatibleProvider({ baseUrl: 'http://mock.local/v1', model: 'local', fetch });
+  await assert.rejects(llm.complete(REQUEST), /LLM request failed \(503\): model is loading/);
+});
+
+test('a malformed body is an error', async () => {
+  for (const body of [{ choices: [] }, { choices: [{ message: { content: null } }] }, { error: 'nope' }]) {
+    const { fetch } = mockFetch(() => ({ body }));
+    const llm = new OpenAiCompatibleProvider({ baseUrl: 'http://mock.local/v1', model: 'local', fetch });
+    await assert.rejects(llm.complete(REQUEST), /no choices\[0\]\.message\.content/);
+  }
+  const { fetch } = mockFetch(() => ({ body: 'not json' }));
+  const llm = new OpenAiCompatibleProvider({ baseUrl: 'http://mock.local/v1', model: 'local', fetch });
+  await assert.rejects(llm.complete(REQUEST), SyntaxError);
+});
+
+test('no llm in the config means no provider', () => {
+  assert.equal(createLlmProvider(loadConfig({})), undefined);
+});
+
+async function draftEnv(extra: Partial<Env>): Promise<{ env: Env; articleId: string }> {
+  const db = new SqliteAdapter(':memory:');
+  db.migrate();
+  const article = await db.insert('articles', { title: 'Rail freight is back', status: 'drafting' });
+  await db.insert('editorial_notes', { type: 'fact', content: 'Rail volumes grew 12% last year', target_article: article.id, tags: [] });
+  return { env: { db, config: loadConfig({}), ...extra }, articleId: String(article.id) };
+}
+
+async function draft(env: Env, articleId: string): Promise<Record<string, unknown>> {
+  const res = await handleJsonRpc(
+    { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'draft_article', arguments: { target_article: articleId, generate: true } } },
+    { role: 'owner' },
+    env,
+  );
+  return JSON.parse((res.result as { content: Array<{ text: string }> }).content[0].text);
+}
+
+test('drafting uses the configured endpoint before the client\'s sampling', async () => {
+  const { calls, fetch } = mockFetch(() => completion('A paragraph from the endpoint.'));
+  let sampled = 0;
+  const { env, articleId } = await draftEnv({
+    llm: new OpenAiCompatibleProvider({ baseUrl: 'http://mock.local/v1', model: 'local', fetch }),
+    sample: async () => { sampled++; return { text: 'From sampling.' }; },
+  });
+
+  const out = await draft(env, articleId);
+  assert.equal(out.generated, true);
+  assert.equal(out.model, 'mock-7b');
+  assert.match(String(out.markdown), /A paragraph from the endpoint\./);
+  assert.ok(calls.length > 0);
+  assert.equal(sampled, 0);
+});
+
+test('without an endpoint, drafting falls back to sampling', async () => {
+  const requests: SamplingRequest[] = [];
+  const { env, articleId } = await draftEnv({
+    sample: async req => { requests.push(req); return { text: 'Written through sampling.', model: 'client-model' }; },
+  });
+
+  const out = await draft(env, articleId);
+  assert.equal(out.model, 'client-model');
+  assert.match(String(out.markdown), /Written through sampling\./);
+  assert.ok(requests.length > 0);
+  assert.match(requests[0].messages[0].text, /Rail volumes grew 12%/);
+});
+
+test('enrichment falls back to the heuristics when the endpoint fails', async () => {
+  const db = new SqliteAdapter(':memory:');
+  db.migrate();
+  const article = await db.insert('articles', { title: 'Rail', status: 'published' });
+  const html = '<ul><li>Rail freight volumes grew strongly across Europe</li></ul><p>Record growth and expansion.</p>';
+
+  const down = mockFetch(() => ({ status: 500, body: 'boom' }));
+  const failing = await enrichArticle(db, String(article.id), html, [], new OpenAiCompatibleProvider({ baseUrl: 'http://mock.local/v1', model: 'local', fetch: down.fetch }));
+  assert.equal(failing.tl_dr_by, 'heuristic');
+  assert.equal(failing.signal_by, 'heuristic');
+  assert.equal(failing.signal, 'bullish');
+
+  // The TL;DR call succeeds and the signal call doesn't: each is labelled on its own
+  const half = mockFetch(body => (Number(body.max_tokens) > 5 ? completion('- Rail freight is growing fast in Europe\n- Shippers move off the road') : { status: 500, body: 'boom' }));
+  const mixed = await enrichArticle(db, String(article.id), html, [], new OpenAiCompatibleProvider({ baseUrl: 'http://mock.local/v1', model: 'local', fetch: half.fetch }));
+  assert.equal(mixed.tl_dr_by, 'llm');
+  assert.equal(mixed.tl_dr, 2);
+  assert.equal(mixed.signal_by, 'heuristic');
+});
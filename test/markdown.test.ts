@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { markdownToHtml } from '../src/connectors/markdown.js';
+import { renderCitations } from '../src/citations.js';
+
+test('footnote references become numbered links to a footnotes list', () => {
+  const html = markdownToHtml([
+    'Rail volumes grew 12%.[^a] Trucking fell.[^b]',
+    '',
+    'As noted before.[^a]',
+    '',
+    '[^b]: Road haulage survey',
+    '[^a]: [Eurostat](https://ec.europa.eu/eurostat) (2026-03-04)',
+  ].join('\n'));
+
+  assert.equal(html, [
+    '<p>Rail volumes grew 12%.<sup><a href="#fn-1" id="fnref-1">1</a></sup> Trucking fell.<sup><a href="#fn-2" id="fnref-2">2</a></sup></p>',
+    '<p>As noted before.<sup><a href="#fn-1">1</a></sup></p>',
+    '<section class="footnotes"><ol>'
+      + '<li id="fn-1"><p><a href="https://ec.europa.eu/eurostat">Eurostat</a> (2026-03-04) <a href="#fnref-1">↩</a></p></li>'
+      + '<li id="fn-2"><p>Road haulage survey <a href="#fnref-2">↩</a></p></li>'
+      + '</ol></section>',
+  ].join('\n'));
+  assert.doesNotMatch(html, /\[\^/);
+});
+
+test('a footnote definition continues on indented lines', () => {
+  const html = markdownToHtml('Claim.[^1]\n\n[^1]: First line\n    and the second.\n\nNext paragraph.');
+  assert.match(html, /<li id="fn-1"><p>First line and the second\. <a href="#fnref-1">↩<\/a><\/p><\/li>/);
+  assert.match(html, /<p>Next paragraph\.<\/p>/);
+});
+
+test('references inside lists, quotes and headings are linked', () => {
+  const html = markdownToHtml('## Heading[^1]\n\n- item[^2]\n\n> quoted[^3]\n\n[^1]: one\n[^2]: two\n[^3]: three');
+  assert.match(html, /<h2>Heading<sup><a href="#fn-1" id="fnref-1">1<\/a><\/sup><\/h2>/);
+  assert.match(html, /<li>item<sup><a href="#fn-2" id="fnref-2">2<\/a><\/sup><\/li>/);
+  assert.match(html, /<blockquote><p>quoted<sup><a href="#fn-3" id="fnref-3">3<\/a><\/sup><\/p><\/blockquote>/);
+});
+
+test('undefined references, unused definitions and code are left alone', () => {
+  const html = markdownToHtml('Missing[^x] and `[^1]`.\n\n```\n[^1]: in code\n```\n\n[^2]: never cited');
+  assert.equal(html, '<p>Missing[^x] and <code>[^1]</code>.</p>\n<pre><code>[^1]: in code</code></pre>');
+});
+
+test('a draft with footnote citations publishes without literal markers', () => {
+  const sources = [
+    { id: 's1', title: 'Freight report', url: 'https://example.com/freight', published_date: '2026-03-01' },
+    { id: 's2', title: 'Carbon rules', url: 'https://example.com/carbon', published_date: null },
+  ];
+  const { text, references } = renderCitations('Volumes grew 12% [2]. Costs rose [1, 2].', sources, 'footnote');
+  const html = markdownToHtml(`${text}\n\n${references}`);
+
+  assert.doesNotMatch(html, /\[\^|\[\d\]/);
+  assert.match(html, /<li id="fn-1"><p><a href="https:\/\/example\.com\/carbon">Carbon rules<\/a> <a href="#fnref-1">↩<\/a><\/p><\/li>/);
+  assert.match(html, /<li id="fn-2"><p><a href="https:\/\/example\.com\/freight">Freight report<\/a> \(2026-03-01\)/);
+});
@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync, readdirSync } from 'fs';
+import { fileURLToPath } from 'url';
+import Database from 'better-sqlite3';
+
+// Compiled to dist-test/test/, so the migrations are two levels up
+const dir = fileURLToPath(new URL('../../src/db/migrations/', import.meta.url));
+
+/** Apply the migrations numbered from..to */
+function migrate(db: Database.Database, from: number, to: number): void {
+  for (const file of readdirSync(dir).filter(f => f.endsWith('.sql')).sort()) {
+    const n = Number(file.slice(0, 3));
+    if (n >= from && n <= to) db.exec(readFileSync(dir + file, 'utf8'));
+  }
+}
+
+test('019 links each note to one tag per case-insensitive name and keeps unparsable tags', () => {
+  const db = new Database(':memory:');
+  migrate(db, 1, 18);
+  db.exec("INSERT INTO tags (id, name) VALUES ('t2', 'AI'), ('t1', 'ai')");
+  const insert = db.prepare("INSERT INTO editorial_notes (id, type, content, tags) VALUES (?, 'idea', 'x', ?)");
+  insert.run('n1', '["ai", "Policy"]');
+  insert.run('n2', '["AI"]');
+  insert.run('n3', 'rail, freight');
+  insert.run('n4', '"solo"');
+
+  migrate(db, 19, 19);
+
+  const tagsOf = (id: string) => JSON.parse((db.prepare('SELECT tags FROM editorial_notes WHERE id = ?').get(id) as { tags: string }).tags).sort();
+  assert.deepEqual(tagsOf('n1'), ['Policy', 'ai']);
+  assert.deepEqual(tagsOf('n2'), ['ai']);
+  assert.deepEqual(tagsOf('n3'), ['freight', 'rail']);
+  assert.deepEqual(tagsOf('n4'), ['solo']);
+
+  const links = db.prepare("SELECT COUNT(*) AS n FROM note_tags WHERE tag_id IN ('t1', 't2')").get() as { n: number };
+  assert.equal(links.n, 2);
+  db.close();
+});
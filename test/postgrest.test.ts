@@ -0,0 +1,127 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PostgrestAdapter } from '../src/db/postgrest.js';
+import { handleJsonRpc } from '../src/mcp.js';
+import { loadConfig } from '../src/config.js';
+import type { Env } from '../src/types.js';
+
+interface Call {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/** A PostgREST stand-in: records each request and answers with the next canned response */
+function stub(responses: Array<{ status?: number; body: unknown; headers?: Record<string, string> }> = []) {
+  const calls: Call[] = [];
+  const fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    calls.push({
+      method: init?.method ?? 'GET',
+      url: new URL(String(input)),
+      headers: init?.headers as Record<string, string>,
+      body: init?.body ? JSON.parse(String(init.body)) : undefined,
+    });
+    const next = responses.shift() ?? { body: [] };
+    return new Response(JSON.stringify(next.body), { status: next.status ?? 200, headers: next.headers });
+  }) as typeof globalThis.fetch;
+  return { calls, db: new PostgrestAdapter({ url: 'http://stub.local/rest/v1/', key: 'service-key', fetch }) };
+}
+
+test('query() becomes a GET with select, filters, order and paging', async () => {
+  const { calls, db } = stub([{ body: [{ id: 'a1' }] }]);
+  const rows = await db.query({
+    table: 'articles',
+    select: ['id', 'title'],
+    filters: [
+      { column: 'status', op: 'eq', value: 'published' },
+      { column: 'scheduled_for', op: 'eq', value: null },
+      { column: 'id', op: 'in', value: ['a1', 'b.2'] },
+      { column: 'title', op: 'ilike', value: '%rail%' },
+    ],
+    order: [{ column: 'published_at', direction: 'desc', nulls: 'last' }],
+    limit: 5,
+    offset: 10,
+  });
+
+  assert.deepEqual(rows, [{ id: 'a1' }]);
+  const { method, url, headers } = calls[0];
+  assert.equal(method, 'GET');
+  assert.equal(url.pathname, '/rest/v1/articles');
+  assert.equal(url.searchParams.get('select'), 'id,title');
+  assert.equal(url.searchParams.get('status'), 'eq.published');
+  assert.equal(url.searchParams.get('scheduled_for'), 'is.null');
+  assert.equal(url.searchParams.get('id'), 'in.(a1,"b.2")');
+  assert.equal(url.searchParams.get('title'), 'ilike.*rail*');
+  assert.equal(url.searchParams.get('order'), 'published_at.desc.nullslast');
+  assert.equal(url.searchParams.get('limit'), '5');
+  assert.equal(url.searchParams.get('offset'), '10');
+  assert.equal(headers.apikey, 'service-key');
+  assert.equal(headers.Authorization, 'Bearer service-key');
+});
+
+test('raw() posts translated SQL and serialized params to the inkwell_sql RPC', async () => {
+  const { calls, db } = stub([{ body: [{ n: 1 }] }, { body: null }, { body: [] }]);
+
+  assert.deepEqual(await db.raw("SELECT count(*) AS n FROM notes WHERE content LIKE ? COLLATE NOCASE AND note = 'why?' AND id = ?", ['%rail%', 'n1']), [{ n: 1 }]);
+  assert.deepEqual(await db.raw('INSERT OR IGNORE INTO note_tags (note_id, tag_id) VALUES (?, ?)', ['n1', undefined]), []);
+  await db.raw("UPDATE articles SET updated_at = datetime('now'), meta = ? WHERE id = ? RETURNING id", [{ a: [1] }, 'a1']);
+
+  assert.equal(calls[0].method, 'POST');
+  assert.equal(calls[0].url.pathname, '/rest/v1/rpc/inkwell_sql');
+  assert.deepEqual(calls[0].body, {
+    query: "SELECT count(*) AS n FROM notes WHERE content ILIKE $1 AND note = 'why?' AND id = $2",
+    params: ['%rail%', 'n1'],
+  });
+  assert.deepEqual(calls[1].body, {
+    query: 'INSERT INTO note_tags (note_id, tag_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+    params: ['n1', null],
+  });
+  assert.deepEqual(calls[2].body, {
+    query: 'UPDATE articles SET updated_at = now(), meta = $1 WHERE id = $2 RETURNING id',
+    params: ['{"a":[1]}', 'a1'],
+  });
+});
+
+test('an error from the RPC is raised with its status and body', async () => {
+  const { db } = stub([{ status: 400, body: { message: 'column "x" does not exist' } }]);
+  await assert.rejects(db.raw('SELECT x FROM articles'), /PostgREST POST \/rpc\/inkwell_sql returned 400: \{"message":"column .*x.* does not exist"\}/);
+});
+
+test('count() reads the total from Content-Range', async () => {
+  const { calls, db } = stub([{ body: [], headers: { 'Content-Range': '*/42' } }]);
+  assert.equal(await db.count('articles', [{ column: 'status', op: 'eq', value: 'published' }]), 42);
+  assert.equal(calls[0].headers.Prefer, 'count=exact');
+});
+
+test('search queries the tsvector columns on Postgres', async () => {
+  const { calls, db } = stub([{ body: [{ entity_type: 'article', id: 'a1', title: 'Rail freight is back', status: 'published', snippet: '**Rail**', rank: -0.5 }] }]);
+  const env: Env = { db, config: loadConfig({}) };
+  const res = await handleJsonRpc(
+    { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'search', arguments: { query: "rail o'brien fre*" } } },
+    { role: 'public' },
+    env,
+  );
+  const result = JSON.parse((res.result as { content: Array<{ text: string }> }).content[0].text);
+  assert.equal(result.count, 1);
+
+  const { query, params } = calls[0].body as { query: string; params: unknown[] };
+  assert.match(query, /CROSS JOIN to_tsquery\('simple', \$1\) AS q WHERE a\.search_vector @@ q/);
+  assert.match(query, /a\.status = 'published'/);
+  assert.doesNotMatch(query, /MATCH|bm25|snippet\(|editorial_notes|\?/);
+  assert.deepEqual(params, ["'rail' & 'o''brien' & 'fre':*", 20]);
+});
+
+test('insertMany() posts rows in batches grouped by column set, without returning them', async () => {
+  const { calls, db } = stub();
+  const rows = [
+    ...Array.from({ length: 1001 }, (_, i) => ({ event_type: 'opened', subscriber_key: `k${i}` })),
+    { event_type: 'delivered', subscriber_key: 'x', country: 'DE' },
+  ];
+  assert.equal(await db.insertMany('subscriber_events', rows), 1002);
+
+  assert.deepEqual(calls.map(c => (c.body as unknown[]).length), [1000, 1, 1]);
+  assert.ok(calls.every(c => c.method === 'POST' && c.url.pathname === '/rest/v1/subscriber_events'));
+  assert.equal(calls[0].headers.Prefer, 'return=minimal');
+  assert.deepEqual(Object.keys((calls[2].body as Array<Record<string, unknown>>)[0]).sort(), ['country', 'event_type', 'id', 'subscriber_key']);
+});
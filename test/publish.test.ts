@@ -0,0 +1,157 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { SqliteAdapter } from '../src/db/sqlite.js';
+import { handleJsonRpc } from '../src/mcp.js';
+import { loadConfig } from '../src/config.js';
+import type { Env, Row } from '../src/types.js';
+
+interface Received {
+  method: string;
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown>;
+}
+
+// One stub server plays all three platforms; each test sets the next reply
+let server: Server;
+let base: string;
+let received: Received[] = [];
+let reply: (req: Received) => { status?: number; body: unknown } = () => ({ body: {} });
+
+before(async () => {
+  server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (c: Buffer) => chunks.push(c));
+    req.on('end', () => {
+      const r: Received = { method: req.method ?? '', url: req.url ?? '', headers: req.headers, body: JSON.parse(Buffer.concat(chunks).toString() || '{}') };
+      received.push(r);
+      const { status, body } = reply(r);
+      res.writeHead(status ?? 200, { 'Content-Type': 'application/json' });
+      res.end(typeof body === 'string' ? body : JSON.stringify(body));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+async function setup(): Promise<{ env: Env; articleId: string }> {
+  received = [];
+  const db = new SqliteAdapter(':memory:');
+  db.migrate();
+  const article = await db.insert('articles', { title: 'Rail freight is back', subtitle: 'Off the road', status: 'in_review', content: '## Why\n\nVolumes grew **12%**.' });
+  return { env: { db, config: loadConfig({}) }, articleId: String(article.id) };
+}
+
+async function publish(env: Env, args: Record<string, unknown>): Promise<Row> {
+  const res = await handleJsonRpc({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'publish_article', arguments: args } }, { role: 'owner' }, env);
+  if (res.error) throw new Error(res.error.message);
+  const result = res.result as { content: Array<{ text: string }>; isError?: boolean };
+  if (result.isError) throw new Error(result.content[0].text);
+  return JSON.parse(result.content[0].text);
+}
+
+async function stored(env: Env, articleId: string): Promise<{ publications: Row[]; refs: Row[] }> {
+  return {
+    publications: await env.db.query({ table: 'article_publications', filters: [{ column: 'article_id', op: 'eq', value: articleId }] }),
+    refs: await env.db.query({ table: 'article_external_refs', filters: [{ column: 'article_id', op: 'eq', value: articleId }] }),
+  };
+}
+
+test('Ghost: posts a draft with a signed Admin API token and stores the post', async () => {
+  const { env, articleId } = await setup();
+  reply = () => ({ status: 201, body: { posts: [{ id: 'gh1', url: 'https://blog.example/p/rail/', status: 'draft' }] } });
+  const secret = 'a1b2c3d4';
+
+  const out = await publish(env, { article_id: articleId, platform: 'ghost', api_url: `${base}/`, api_key: `key1:${secret}` });
+  assert.equal(out.external_id, 'gh1');
+  assert.equal(out.url, 'https://blog.example/p/rail/');
+
+  const [req] = received;
+  assert.equal(req.method, 'POST');
+  assert.equal(req.url, '/ghost/api/admin/posts/?source=html');
+  assert.equal(req.headers['accept-version'], 'v5.0');
+  assert.deepEqual(req.body, {
+    posts: [{ title: 'Rail freight is back', custom_excerpt: 'Off the road', html: '<h2>Why</h2>\n<p>Volumes grew <strong>12%</strong>.</p>', status: 'draft' }],
+  });
+
+  // Ghost <header>.<payload>.<signature>, signed with the hex secret and keyed by the key id
+  const token = String(req.headers.authorization).replace(/^Ghost /, '');
+  const [header, payload, signature] = token.split('.');
+  assert.equal(JSON.parse(Buffer.from(header, 'base64url').toString()).kid, 'key1');
+  assert.equal(JSON.parse(Buffer.from(payload, 'base64url').toString()).aud, '/admin/');
+  assert.equal(signature, createHmac('sha256', Buffer.from(secret, 'hex')).update(`${header}.${payload}`).digest('base64url'));
+
+  const { publications, refs } = await stored(env, articleId);
+  assert.equal(publications.length, 1);
+  assert.equal(publications[0].platform, 'ghost');
+  assert.equal(publications[0].external_id, 'gh1');
+  assert.equal(publications[0].external_url, 'https://blog.example/p/rail/');
+  assert.equal(publications[0].status, 'draft');
+  assert.deepEqual(refs.map(r => [r.platform, r.external_id]), [['ghost', 'gh1']]);
+});
+
+test('Beehiiv: posts to the publication, refuses a second draft unless republish', async () => {
+  const { env, articleId } = await setup();
+  let n = 0;
+  reply = () => ({ body: { data: { id: `post_${++n}`, web_url: `https://news.example/p/${n}`, status: 'draft' } } });
+  const args = { article_id: articleId, platform: 'beehiiv', api_url: base, api_key: 'bh-key', publication_id: 'pub_1' };
+
+  await publish(env, args);
+  const [req] = received;
+  assert.equal(req.url, '/v2/publications/pub_1/posts');
+  assert.equal(req.headers.authorization, 'Bearer bh-key');
+  assert.equal(req.body.title, 'Rail freight is back');
+  assert.equal(req.body.subtitle, 'Off the road');
+  assert.equal(req.body.status, 'draft');
+  assert.match(String(req.body.body_content), /^<h2>Why<\/h2>/);
+
+  await assert.rejects(publish(env, args), /Already sent to beehiiv as post_1/);
+  assert.equal(received.length, 1);
+
+  const again = await publish(env, { ...args, republish: true });
+  assert.equal(again.republished, true);
+  const { publications, refs } = await stored(env, articleId);
+  assert.deepEqual(publications.map(p => p.external_id), ['post_2']);
+  assert.deepEqual(refs.map(r => r.external_id).sort(), ['post_1', 'post_2']);
+});
+
+test('Kit: creates a private broadcast with the API secret in the body', async () => {
+  const { env, articleId } = await setup();
+  reply = () => ({ status: 201, body: { broadcast: { id: 4242 } } });
+
+  const out = await publish(env, { article_id: articleId, platform: 'kit', api_url: base, api_key: 'kit-secret' });
+  assert.equal(out.external_id, '4242');
+  assert.equal(out.status, 'draft');
+
+  const [req] = received;
+  assert.equal(req.url, '/v3/broadcasts');
+  assert.equal(req.body.api_secret, 'kit-secret');
+  assert.equal(req.body.subject, 'Rail freight is back');
+  assert.equal(req.body.public, false);
+  assert.deepEqual((await stored(env, articleId)).refs.map(r => [r.platform, r.external_id]), [['kit', '4242']]);
+});
+
+test('a platform error is reported and nothing is stored', async () => {
+  const { env, articleId } = await setup();
+  reply = () => ({ status: 422, body: { errors: [{ message: 'Validation error, cannot save post.' }] } });
+
+  await assert.rejects(
+    publish(env, { article_id: articleId, platform: 'ghost', api_url: base, api_key: 'key1:abcd' }),
+    /Publishing to ghost failed: Ghost Admin API returned 422: .*Validation error/,
+  );
+  const { publications, refs } = await stored(env, articleId);
+  assert.equal(publications.length, 0);
+  assert.equal(refs.length, 0);
+
+  reply = () => ({ body: { data: {} } });
+  await assert.rejects(
+    publish(env, { article_id: articleId, platform: 'beehiiv', api_url: base, api_key: 'k', publication_id: 'pub_1' }),
+    /Beehiiv API response has no post/,
+  );
+});
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, mkdirSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SqliteAdapter } from '../src/db/sqlite.js';
+import { loadConfig } from '../src/config.js';
+import { importSubscriberEvents } from '../src/subscribers.js';
+import type { Env } from '../src/types.js';
+
+/** A minimal Substack export: one sent post with two deliveries and an open, and the email list */
+function exportDir(): string {
+  const dir = mkdtempSync(join(tmpdir(), 'inkwell-substack-'));
+  mkdirSync(join(dir, 'posts'));
+  writeFileSync(join(dir, 'posts.csv'), 'post_id,post_date,is_published,email_sent_at,type,title\n101.rail,2024-03-01T09:00:00.000Z,true,2024-03-01T09:00:00.000Z,newsletter,Rail\n');
+  writeFileSync(join(dir, 'posts', '101.delivers.csv'), 'email,timestamp\nada@example.com,2024-03-01 09:00:01.000+00\nbo@example.com,2024-03-01 09:00:02.000+00\n');
+  writeFileSync(join(dir, 'posts', '101.opens.csv'), 'email,timestamp,country,device_type\nada@example.com,2024-03-01 10:00:00.000+00,DE,mobile\n');
+  writeFileSync(join(dir, 'email_list.2024.csv'), 'email,active_subscription,created_at,plan\nada@example.com,true,2023-01-01 00:00:00+00,free\nbo@example.com,true,2023-02-01 00:00:00+00,paid\n');
+  return dir;
+}
+
+test('the import that generates the salt starts over, later ones keep what is stored', async () => {
+  const db = new SqliteAdapter(':memory:');
+  db.migrate();
+  const env: Env = { db, config: loadConfig({}) };
+  // Left over from an import before this install had a salt
+  await db.insert('subscribers', { platform: 'substack', subscriber_key: 'unsalted-hash', status: 'active' });
+
+  const dir = exportDir();
+  const first = await importSubscriberEvents(env, dir);
+  assert.equal(first.started_over, true);
+  assert.equal(first.subscribers, 2);
+  assert.equal(first.events, 3);
+  assert.equal(await db.count('subscribers'), 2);
+  assert.equal((await db.query({ table: 'subscribers', filters: [{ column: 'subscriber_key', op: 'eq', value: 'unsalted-hash' }] })).length, 0);
+
+  const events = await db.query({ table: 'subscriber_events', filters: [{ column: 'event_type', op: 'eq', value: 'opened' }] });
+  assert.equal(events.length, 1);
+  assert.equal(events[0].country, 'DE');
+  assert.match(String(events[0].subscriber_key), /^[0-9a-f]{64}$/);
+
+  const second = await importSubscriberEvents(env, dir);
+  assert.equal(second.started_over, false);
+  assert.equal(second.posts_skipped, 1);
+  assert.equal(await db.count('subscribers'), 2);
+  assert.equal(await db.count('subscriber_events'), 3);
+});